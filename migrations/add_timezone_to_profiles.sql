@@ -0,0 +1,12 @@
+-- Add a timezone preference to profiles
+-- Schedules and heatmaps are bucketed in UTC and shown in this timezone; NULL follows the browser
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN profiles.timezone IS 'IANA timezone schedules and heatmaps are shown in, e.g. Europe/Berlin; NULL uses the browser timezone';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added timezone preference to profiles';
+END $$;
@@ -0,0 +1,95 @@
+-- AI-Optimized Scheduling Migration
+-- Adds spacing settings and re-plan tracking for campaigns with schedule_type = 'ai-optimized'
+
+-- Add optimizer settings to campaigns
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS min_account_gap_minutes INTEGER DEFAULT 60 CHECK (min_account_gap_minutes >= 0),
+ADD COLUMN IF NOT EXISTS min_subreddit_gap_hours INTEGER DEFAULT 24 CHECK (min_subreddit_gap_hours >= 0),
+ADD COLUMN IF NOT EXISTS needs_replan BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS last_planned_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN campaigns.min_account_gap_minutes IS 'Minimum minutes between two posts from the same Reddit account when optimizing';
+COMMENT ON COLUMN campaigns.min_subreddit_gap_hours IS 'Minimum hours between two posts to the same subreddit when optimizing';
+COMMENT ON COLUMN campaigns.needs_replan IS 'Set when new posts or refreshed subreddit analysis require the schedule to be re-planned';
+COMMENT ON COLUMN campaigns.last_planned_at IS 'Timestamp of the last schedule optimization run';
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_needs_replan ON campaigns(needs_replan) WHERE needs_replan = true;
+
+-- Flag ai-optimized campaigns with pending posts in a subreddit whose analysis changed
+CREATE OR REPLACE FUNCTION public.flag_campaigns_for_replan_by_subreddit(p_subreddit_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE campaigns
+  SET needs_replan = true
+  WHERE schedule_type = 'ai-optimized'
+    AND id IN (
+      SELECT DISTINCT campaign_id
+      FROM campaign_posts
+      WHERE subreddit_id = p_subreddit_id
+        AND status = 'scheduled'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.flag_campaigns_for_replan_by_subreddit IS 'Marks ai-optimized campaigns with scheduled posts in a subreddit for re-planning';
+
+-- Re-plan when the stored subreddit analysis is refreshed
+CREATE OR REPLACE FUNCTION public.subreddit_analysis_replan_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.flag_campaigns_for_replan_by_subreddit(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS subreddits_analysis_replan ON subreddits;
+CREATE TRIGGER subreddits_analysis_replan
+AFTER UPDATE OF analysis_data ON subreddits
+FOR EACH ROW
+WHEN (OLD.analysis_data IS DISTINCT FROM NEW.analysis_data)
+EXECUTE FUNCTION public.subreddit_analysis_replan_trigger();
+
+-- The legacy subreddit_analysis table is only present on some deployments
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'subreddit_analysis') THEN
+    CREATE OR REPLACE FUNCTION public.subreddit_analysis_table_replan_trigger()
+    RETURNS TRIGGER AS $fn$
+    BEGIN
+      PERFORM public.flag_campaigns_for_replan_by_subreddit(NEW.subreddit_id);
+      RETURN NEW;
+    END;
+    $fn$ LANGUAGE plpgsql SECURITY DEFINER;
+
+    DROP TRIGGER IF EXISTS subreddit_analysis_replan ON subreddit_analysis;
+    CREATE TRIGGER subreddit_analysis_replan
+    AFTER INSERT OR UPDATE ON subreddit_analysis
+    FOR EACH ROW
+    EXECUTE FUNCTION public.subreddit_analysis_table_replan_trigger();
+  END IF;
+END $$;
+
+-- New posts in an ai-optimized campaign need a slot
+CREATE OR REPLACE FUNCTION public.campaign_post_replan_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE campaigns
+  SET needs_replan = true
+  WHERE id = NEW.campaign_id
+    AND schedule_type = 'ai-optimized';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_replan ON campaign_posts;
+CREATE TRIGGER campaign_posts_replan
+AFTER INSERT ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.status = 'scheduled' AND NEW.interval_hours IS NULL)
+EXECUTE FUNCTION public.campaign_post_replan_trigger();
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added ai-optimized scheduling support for campaigns';
+END $$;
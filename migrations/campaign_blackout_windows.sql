@@ -0,0 +1,290 @@
+-- Blackout Windows Migration
+-- Periods in which a campaign, or every campaign posting with an account, must not post. A window
+-- without an end pauses until resumed; once it ends, posts that came due during it are shifted
+-- forward together so they keep their spacing instead of aging out of the scheduler
+
+CREATE TABLE IF NOT EXISTS campaign_blackout_windows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+  reddit_account_id UUID REFERENCES reddit_accounts(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMP WITH TIME ZONE, -- NULL while paused until resumed
+  reason TEXT,
+  resumed_at TIMESTAMP WITH TIME ZONE, -- When the posts missed during the window were re-planned
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK ((campaign_id IS NULL) <> (reddit_account_id IS NULL)),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+COMMENT ON TABLE campaign_blackout_windows IS 'Periods in which a campaign or a Reddit account must not post; an open-ended window is a pause';
+
+-- RLS Policies for blackout windows
+ALTER TABLE campaign_blackout_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_blackout_windows_select_policy ON campaign_blackout_windows
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY campaign_blackout_windows_insert_policy ON campaign_blackout_windows
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY campaign_blackout_windows_update_policy ON campaign_blackout_windows
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY campaign_blackout_windows_delete_policy ON campaign_blackout_windows
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_campaign_blackout_windows_campaign_id ON campaign_blackout_windows(campaign_id)
+  WHERE resumed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_campaign_blackout_windows_account_id ON campaign_blackout_windows(reddit_account_id)
+  WHERE resumed_at IS NULL;
+
+-- A window blocks its posts from when it starts until its missed posts have been re-planned
+CREATE OR REPLACE FUNCTION public.is_post_blacked_out(p_campaign_id UUID, p_reddit_account_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM campaign_blackout_windows bw
+    WHERE
+      bw.resumed_at IS NULL AND
+      bw.starts_at <= NOW() AND
+      (bw.campaign_id = p_campaign_id OR bw.reddit_account_id = p_reddit_account_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.is_post_blacked_out IS 'Whether a blackout window of the campaign or account is holding posts back';
+
+-- Shift the posts a window held back so the first of them goes out now and the rest keep their spacing
+CREATE OR REPLACE FUNCTION public.replan_blackout_window(p_window_id UUID)
+RETURNS INT AS $$
+DECLARE
+  v_window campaign_blackout_windows%ROWTYPE;
+  v_now TIMESTAMP WITH TIME ZONE;
+  v_earliest TIMESTAMP WITH TIME ZONE;
+  v_shift INTERVAL;
+  v_shifted INT;
+BEGIN
+  v_now := NOW();
+
+  SELECT * INTO v_window
+  FROM campaign_blackout_windows
+  WHERE id = p_window_id AND resumed_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Posts still due when the window started (within the scheduler's hour) count as missed too
+  SELECT MIN(GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until)) INTO v_earliest
+  FROM campaign_posts cp
+  JOIN campaigns c ON c.id = cp.campaign_id
+  WHERE
+    c.user_id = v_window.user_id AND
+    cp.status = 'scheduled' AND
+    (cp.campaign_id = v_window.campaign_id OR cp.reddit_account_id = v_window.reddit_account_id) AND
+    GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) >= v_window.starts_at - INTERVAL '1 hour' AND
+    GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) < v_now;
+
+  v_shifted := 0;
+
+  IF v_earliest IS NOT NULL THEN
+    v_shift := v_now - v_earliest;
+
+    -- Later posts move by the same amount so the gaps between all of them stay as planned
+    WITH shifted AS (
+      UPDATE campaign_posts cp
+      SET
+        scheduled_for = cp.scheduled_for + v_shift,
+        next_attempt_at = cp.next_attempt_at + v_shift,
+        quota_hold_until = cp.quota_hold_until + v_shift
+      FROM campaigns c
+      WHERE
+        c.id = cp.campaign_id AND
+        c.user_id = v_window.user_id AND
+        cp.status = 'scheduled' AND
+        (cp.campaign_id = v_window.campaign_id OR cp.reddit_account_id = v_window.reddit_account_id) AND
+        GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) >= v_earliest
+      RETURNING cp.campaign_id
+    ),
+    logged AS (
+      INSERT INTO campaign_activity (
+        campaign_id,
+        action_type,
+        details
+      )
+      SELECT
+        campaign_id,
+        'blackout_replanned',
+        jsonb_build_object(
+          'blackout_window_id', v_window.id,
+          'shifted_posts', COUNT(*),
+          'shift_minutes', ROUND(EXTRACT(EPOCH FROM v_shift) / 60)
+        )
+      FROM shifted
+      GROUP BY campaign_id
+    )
+    SELECT COUNT(*) INTO v_shifted FROM shifted;
+  END IF;
+
+  -- ai-optimized campaigns fit the shifted posts back into their peak windows
+  UPDATE campaigns
+  SET needs_replan = true
+  WHERE
+    user_id = v_window.user_id AND
+    schedule_type = 'ai-optimized' AND
+    (id = v_window.campaign_id OR id IN (
+      SELECT campaign_id FROM campaign_posts
+      WHERE reddit_account_id = v_window.reddit_account_id AND status = 'scheduled'
+    ));
+
+  UPDATE campaign_blackout_windows
+  SET
+    ends_at = LEAST(COALESCE(ends_at, v_now), v_now),
+    resumed_at = v_now
+  WHERE id = v_window.id;
+
+  RETURN v_shifted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.replan_blackout_window IS 'Ends a blackout window and shifts the posts it held back forward, preserving their spacing';
+GRANT EXECUTE ON FUNCTION public.replan_blackout_window TO service_role;
+
+-- Resume action for the owner: ends the pause now instead of at its planned end
+CREATE OR REPLACE FUNCTION public.resume_blackout_window(p_window_id UUID)
+RETURNS INT AS $$
+DECLARE
+  v_owner UUID;
+  v_starts_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT user_id, starts_at INTO v_owner, v_starts_at
+  FROM campaign_blackout_windows
+  WHERE id = p_window_id;
+
+  IF v_owner IS NULL THEN
+    RAISE EXCEPTION 'Blackout window not found';
+  END IF;
+
+  IF v_owner != auth.uid() THEN
+    RAISE EXCEPTION 'You do not have permission to resume this blackout window';
+  END IF;
+
+  -- Windows that haven't started are deleted rather than resumed
+  IF v_starts_at > NOW() THEN
+    RAISE EXCEPTION 'This blackout window has not started yet';
+  END IF;
+
+  RETURN public.replan_blackout_window(p_window_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.resume_blackout_window IS 'Resumes a paused campaign or account now and re-plans the posts it missed';
+GRANT EXECUTE ON FUNCTION public.resume_blackout_window TO authenticated;
+
+-- Windows whose end has passed but whose posts have not been re-planned yet
+CREATE OR REPLACE FUNCTION public.replan_ended_blackout_windows()
+RETURNS INT AS $$
+DECLARE
+  v_window_id UUID;
+  v_shifted INT;
+BEGIN
+  v_shifted := 0;
+
+  FOR v_window_id IN
+    SELECT id
+    FROM campaign_blackout_windows
+    WHERE resumed_at IS NULL AND ends_at <= NOW()
+    ORDER BY ends_at ASC
+  LOOP
+    v_shifted := v_shifted + public.replan_blackout_window(v_window_id);
+  END LOOP;
+
+  RETURN v_shifted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.replan_ended_blackout_windows IS 'Re-plans the posts of every blackout window that has ended';
+GRANT EXECUTE ON FUNCTION public.replan_ended_blackout_windows TO service_role;
+
+-- Skip posts held back by a blackout window; the window re-plans them when it ends
+CREATE OR REPLACE FUNCTION public.get_posts_for_processing(
+  batch_size INT DEFAULT 5,
+  max_age_minutes INT DEFAULT 60
+)
+RETURNS SETOF campaign_posts AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_hold RECORD;
+  v_now TIMESTAMP WITH TIME ZONE;
+  v_claimed_count INT;
+BEGIN
+  v_now := NOW();
+  v_claimed_count := 0;
+
+  -- Find posts due now or earlier; a quota hold pushes the due time back like a retry does
+  FOR v_post IN
+    SELECT cp.*
+    FROM campaign_posts cp
+    WHERE
+      cp.status = 'scheduled' AND
+      GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) <= v_now AND
+      v_now - GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) < make_interval(mins := max_age_minutes) AND
+      NOT public.is_post_blacked_out(cp.campaign_id, cp.reddit_account_id)
+    ORDER BY GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) ASC
+    LIMIT batch_size * 3 -- Get more than we need in case some can't be claimed
+  LOOP
+    -- Posts claimed earlier in this loop are already processing and count towards the quotas
+    SELECT * INTO v_hold FROM public.get_post_quota_hold(v_post.id);
+
+    IF v_hold.hold_until IS NOT NULL THEN
+      UPDATE campaign_posts
+      SET
+        quota_hold_until = v_hold.hold_until,
+        quota_hold_reason = v_hold.reason
+      WHERE id = v_post.id AND status = 'scheduled';
+
+      INSERT INTO campaign_activity (
+        campaign_id,
+        post_id,
+        action_type,
+        details
+      ) VALUES (
+        v_post.campaign_id,
+        v_post.id,
+        'post_held',
+        jsonb_build_object('hold_until', v_hold.hold_until, 'reason', v_hold.reason)
+      );
+
+      CONTINUE;
+    END IF;
+
+    -- Try to claim this post using our locking function
+    IF public.claim_post_for_processing(v_post.id) THEN
+      -- Successfully claimed, return this record to the caller
+      RETURN NEXT v_post;
+
+      -- Increment our counter
+      v_claimed_count := v_claimed_count + 1;
+
+      -- If we've claimed enough posts, exit
+      IF v_claimed_count >= batch_size THEN
+        EXIT;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.get_posts_for_processing IS
+  'Gets a batch of due posts (including retries) for processing with advisory locking, holding back posts that would break a posting quota or fall in a blackout window';
+GRANT EXECUTE ON FUNCTION public.get_posts_for_processing TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added blackout windows and campaign pause/resume';
+END $$;
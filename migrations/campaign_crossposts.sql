@@ -0,0 +1,144 @@
+-- Crosspost Migration
+-- Crossposts share an earlier post, keeping its attribution, instead of reposting it. A crosspost
+-- refers either to an earlier campaign post, and waits until that post is live, or to any Reddit
+-- post by its fullname
+
+ALTER TABLE campaign_posts DROP CONSTRAINT IF EXISTS campaign_posts_content_type_check;
+ALTER TABLE campaign_posts ADD CONSTRAINT campaign_posts_content_type_check
+  CHECK (content_type IN ('text', 'link', 'image', 'video', 'gallery', 'crosspost'));
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS crosspost_source_post_id UUID REFERENCES campaign_posts(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS crosspost_fullname TEXT,
+ADD COLUMN IF NOT EXISTS crosspost_delay_hours NUMERIC CHECK (crosspost_delay_hours IS NULL OR crosspost_delay_hours >= 0);
+
+COMMENT ON COLUMN campaign_posts.crosspost_source_post_id IS 'Campaign post this crosspost shares; deleting it deletes its crossposts';
+COMMENT ON COLUMN campaign_posts.crosspost_fullname IS 'Fullname (t3_...) of the Reddit post to crosspost; set once the source campaign post is live';
+COMMENT ON COLUMN campaign_posts.crosspost_delay_hours IS 'Hours after the source campaign post goes live that the crosspost is due';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_crosspost_source ON campaign_posts(crosspost_source_post_id)
+  WHERE crosspost_source_post_id IS NOT NULL;
+
+-- Release the crossposts of a post once it is live, or fail them when it never will be
+CREATE OR REPLACE FUNCTION public.release_campaign_crossposts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'posted' AND NEW.reddit_post_id IS NOT NULL THEN
+    UPDATE campaign_posts
+    SET
+      crosspost_fullname = CASE
+        WHEN NEW.reddit_post_id LIKE 't3\_%' THEN NEW.reddit_post_id
+        ELSE 't3_' || NEW.reddit_post_id
+      END,
+      scheduled_for = GREATEST(
+        scheduled_for,
+        COALESCE(NEW.posted_at, NOW()) + make_interval(secs := COALESCE(crosspost_delay_hours, 0) * 3600)
+      )
+    WHERE
+      crosspost_source_post_id = NEW.id AND
+      status IN ('pending_approval', 'scheduled') AND
+      crosspost_fullname IS NULL;
+  ELSIF NEW.status IN ('failed', 'rejected', 'removed') THEN
+    UPDATE campaign_posts
+    SET
+      status = 'failed',
+      last_error = 'The post this crossposts is ' || NEW.status
+    WHERE
+      crosspost_source_post_id = NEW.id AND
+      status IN ('pending_approval', 'scheduled') AND
+      crosspost_fullname IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_release_crossposts ON campaign_posts;
+CREATE TRIGGER campaign_posts_release_crossposts
+AFTER UPDATE OF status, reddit_post_id ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status OR NEW.reddit_post_id IS DISTINCT FROM OLD.reddit_post_id)
+EXECUTE FUNCTION public.release_campaign_crossposts();
+
+-- Same as before, but crossposts of a post that isn't live yet are not claimed
+CREATE OR REPLACE FUNCTION public.get_posts_for_processing(
+  batch_size INT DEFAULT 5,
+  max_age_minutes INT DEFAULT 60
+)
+RETURNS SETOF campaign_posts AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_hold RECORD;
+  v_now TIMESTAMP WITH TIME ZONE;
+  v_claimed_count INT;
+BEGIN
+  v_now := NOW();
+  v_claimed_count := 0;
+
+  -- Find posts due now or earlier; a quota hold pushes the due time back like a retry does
+  FOR v_post IN
+    SELECT cp.*
+    FROM campaign_posts cp
+    WHERE
+      cp.status = 'scheduled' AND
+      GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) <= v_now AND
+      v_now - GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) < make_interval(mins := max_age_minutes) AND
+      NOT public.is_post_blacked_out(cp.campaign_id, cp.reddit_account_id) AND
+      -- Crossposts wait until the post they share is live
+      (cp.content_type <> 'crosspost' OR cp.crosspost_fullname IS NOT NULL)
+    ORDER BY GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) ASC
+    LIMIT batch_size * 3 -- Get more than we need in case some can't be claimed
+  LOOP
+    -- Posts claimed earlier in this loop are already processing and count towards the quotas
+    SELECT * INTO v_hold FROM public.get_post_quota_hold(v_post.id);
+
+    IF v_hold.hold_until IS NOT NULL THEN
+      UPDATE campaign_posts
+      SET
+        quota_hold_until = v_hold.hold_until,
+        quota_hold_reason = v_hold.reason
+      WHERE id = v_post.id AND status = 'scheduled';
+
+      INSERT INTO campaign_activity (
+        campaign_id,
+        post_id,
+        action_type,
+        details
+      ) VALUES (
+        v_post.campaign_id,
+        v_post.id,
+        'post_held',
+        jsonb_build_object('hold_until', v_hold.hold_until, 'reason', v_hold.reason)
+      );
+
+      CONTINUE;
+    END IF;
+
+    -- Try to claim this post using our locking function
+    IF public.claim_post_for_processing(v_post.id) THEN
+      -- Successfully claimed, return this record to the caller
+      RETURN NEXT v_post;
+
+      -- Increment our counter
+      v_claimed_count := v_claimed_count + 1;
+
+      -- If we've claimed enough posts, exit
+      IF v_claimed_count >= batch_size THEN
+        EXIT;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.get_posts_for_processing IS
+  'Gets a batch of due posts (including retries) for processing with advisory locking, holding back posts that would break a posting quota, fall in a blackout window or crosspost a post that is not live yet';
+GRANT EXECUTE ON FUNCTION public.get_posts_for_processing TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added crosspost support to campaign posts';
+END $$;
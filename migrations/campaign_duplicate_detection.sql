@@ -0,0 +1,18 @@
+-- Duplicate Detection Migration
+-- Perceptual hashes for uploaded media, so a re-encoded or resized copy of an image can be
+-- recognized, and an index for looking up recent posts by subreddit when checking for duplicates
+
+ALTER TABLE media_items
+ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+
+COMMENT ON COLUMN media_items.perceptual_hash IS '64-bit difference hash (16 hex chars) of the image, or of the poster frame for videos';
+
+-- Recent posts in a subreddit, from our history and from synced Reddit posts
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_subreddit_scheduled ON campaign_posts(subreddit_id, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_reddit_posts_subreddit_created ON reddit_posts(subreddit_id, created_at);
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added perceptual hashes and indexes for duplicate detection';
+END $$;
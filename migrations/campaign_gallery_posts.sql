@@ -0,0 +1,100 @@
+-- Gallery Posts Migration
+-- Adds the 'gallery' content type and an ordered list of media items per gallery post
+
+-- Allow gallery posts
+ALTER TABLE campaign_posts DROP CONSTRAINT IF EXISTS campaign_posts_content_type_check;
+ALTER TABLE campaign_posts ADD CONSTRAINT campaign_posts_content_type_check
+  CHECK (content_type IN ('text', 'link', 'image', 'gallery'));
+
+-- Ordered gallery images with Reddit's per-image caption and outbound link
+CREATE TABLE IF NOT EXISTS campaign_post_gallery_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES campaign_posts(id) ON DELETE CASCADE,
+  media_item_id UUID NOT NULL REFERENCES media_items(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  caption TEXT CHECK (char_length(caption) <= 180), -- Reddit's caption limit
+  outbound_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Each slot in a gallery holds one image
+  UNIQUE(post_id, position)
+);
+
+COMMENT ON TABLE campaign_post_gallery_items IS 'Ordered images of a gallery campaign post';
+
+-- RLS Policies for gallery items
+ALTER TABLE campaign_post_gallery_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_post_gallery_items_select_policy ON campaign_post_gallery_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      JOIN campaigns c ON c.id = cp.campaign_id
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY campaign_post_gallery_items_insert_policy ON campaign_post_gallery_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      JOIN campaigns c ON c.id = cp.campaign_id
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND c.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM media_items
+      WHERE id = campaign_post_gallery_items.media_item_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY campaign_post_gallery_items_update_policy ON campaign_post_gallery_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      JOIN campaigns c ON c.id = cp.campaign_id
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY campaign_post_gallery_items_delete_policy ON campaign_post_gallery_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      JOIN campaigns c ON c.id = cp.campaign_id
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS campaign_post_gallery_items_post_id_idx ON campaign_post_gallery_items(post_id, position);
+CREATE INDEX IF NOT EXISTS campaign_post_gallery_items_media_item_id_idx ON campaign_post_gallery_items(media_item_id);
+
+-- Recurring gallery posts carry their images over to the next occurrence
+CREATE OR REPLACE FUNCTION public.copy_gallery_items_to_recurring_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO campaign_post_gallery_items (post_id, media_item_id, position, caption, outbound_url)
+  SELECT NEW.id, media_item_id, position, caption, outbound_url
+  FROM campaign_post_gallery_items
+  WHERE post_id = NEW.parent_post_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_copy_gallery_items ON campaign_posts;
+CREATE TRIGGER campaign_posts_copy_gallery_items
+AFTER INSERT ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.content_type = 'gallery' AND NEW.parent_post_id IS NOT NULL)
+EXECUTE FUNCTION public.copy_gallery_items_to_recurring_post();
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added gallery post support for campaigns';
+END $$;
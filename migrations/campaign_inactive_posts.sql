@@ -0,0 +1,87 @@
+-- Inactive Campaign Posts Migration
+-- get_posts_for_processing claimed due posts of inactive campaigns, and the scheduler then marked
+-- them failed. They are now left scheduled until the campaign is active again.
+
+CREATE OR REPLACE FUNCTION public.get_posts_for_processing(
+  batch_size INT DEFAULT 5,
+  max_age_minutes INT DEFAULT 60
+)
+RETURNS SETOF campaign_posts AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_hold RECORD;
+  v_now TIMESTAMP WITH TIME ZONE;
+  v_claimed_count INT;
+BEGIN
+  v_now := NOW();
+  v_claimed_count := 0;
+
+  -- Find posts due now or earlier; a quota hold pushes the due time back like a retry does
+  FOR v_post IN
+    SELECT cp.*
+    FROM campaign_posts cp
+    WHERE
+      cp.status = 'scheduled' AND
+      GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) <= v_now AND
+      v_now - GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) < make_interval(mins := max_age_minutes) AND
+      NOT public.is_post_blacked_out(cp.campaign_id, cp.reddit_account_id) AND
+      -- Inactive campaigns keep their posts scheduled for when they are switched back on
+      EXISTS (SELECT 1 FROM campaigns c WHERE c.id = cp.campaign_id AND c.is_active) AND
+      -- Crossposts wait until the post they share is live
+      (cp.content_type <> 'crosspost' OR cp.crosspost_fullname IS NOT NULL)
+    ORDER BY GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) ASC
+    LIMIT batch_size * 3 -- Get more than we need in case some can't be claimed
+  LOOP
+    -- Posts claimed earlier in this loop are already processing and count towards the quotas
+    SELECT * INTO v_hold FROM public.get_post_quota_hold(v_post.id);
+
+    IF v_hold.hold_until IS NOT NULL THEN
+      UPDATE campaign_posts
+      SET
+        quota_hold_until = v_hold.hold_until,
+        quota_hold_reason = v_hold.reason
+      WHERE id = v_post.id AND status = 'scheduled';
+
+      INSERT INTO campaign_activity (
+        campaign_id,
+        post_id,
+        action_type,
+        details
+      ) VALUES (
+        v_post.campaign_id,
+        v_post.id,
+        'post_held',
+        jsonb_build_object('hold_until', v_hold.hold_until, 'reason', v_hold.reason)
+      );
+
+      CONTINUE;
+    END IF;
+
+    -- Try to claim this post using our locking function
+    IF public.claim_post_for_processing(v_post.id) THEN
+      -- Successfully claimed, return this record to the caller
+      RETURN NEXT v_post;
+
+      -- Increment our counter
+      v_claimed_count := v_claimed_count + 1;
+
+      -- If we've claimed enough posts, exit
+      IF v_claimed_count >= batch_size THEN
+        EXIT;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.get_posts_for_processing IS
+  'Gets a batch of due posts (including retries) of active campaigns for processing with advisory locking, holding back posts that would break a posting quota, fall in a blackout window or crosspost a post that is not live yet';
+GRANT EXECUTE ON FUNCTION public.get_posts_for_processing TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Posts of inactive campaigns are no longer claimed';
+END $$;
@@ -0,0 +1,20 @@
+-- Campaign Media Rotation Migration
+-- Lets the scheduler pick media for posts without a fixed media_item_id using
+-- the weights stored in campaign_tag_preferences
+
+-- Add the reuse window to campaigns
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS media_reuse_window_days INTEGER DEFAULT 7 CHECK (media_reuse_window_days >= 0);
+
+COMMENT ON COLUMN campaigns.media_reuse_window_days IS 'Number of days a rotated media item is kept out of the pool for the same subreddit';
+
+-- Speed up lookups of recent media selections per subreddit
+CREATE INDEX IF NOT EXISTS idx_campaign_activity_media_selected
+  ON campaign_activity ((details->>'subreddit_id'), created_at)
+  WHERE action_type = 'media_selected';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added media rotation settings for campaigns';
+END $$;
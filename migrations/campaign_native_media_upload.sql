@@ -0,0 +1,19 @@
+-- Native Media Upload Migration
+-- Adds video posts and the poster frame Reddit requires when uploading videos natively
+
+-- Allow video posts
+ALTER TABLE campaign_posts DROP CONSTRAINT IF EXISTS campaign_posts_content_type_check;
+ALTER TABLE campaign_posts ADD CONSTRAINT campaign_posts_content_type_check
+  CHECK (content_type IN ('text', 'link', 'image', 'video', 'gallery'));
+
+-- Poster frame captured when a video is uploaded to the media library
+ALTER TABLE media_items
+ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+COMMENT ON COLUMN media_items.thumbnail_url IS 'Public URL of the poster image for video media items';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added native video upload support for campaigns';
+END $$;
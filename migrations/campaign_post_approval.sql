@@ -0,0 +1,447 @@
+-- Post Approval Migration
+-- A campaign can be shared with a project so its editors can add posts. With approval required,
+-- posts added by editors wait in pending_approval until an owner approves or rejects them; only
+-- approved posts become scheduled, and every transition is logged in campaign_activity
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN campaigns.project_id IS 'Project whose members share the campaign: editors add posts, owners review them';
+COMMENT ON COLUMN campaigns.requires_approval IS 'Whether posts added by editors need an owner''s approval before they are scheduled';
+
+ALTER TABLE campaign_posts DROP CONSTRAINT IF EXISTS campaign_posts_status_check;
+ALTER TABLE campaign_posts ADD CONSTRAINT campaign_posts_status_check
+  CHECK (status IN ('pending_approval', 'rejected', 'scheduled', 'processing', 'posted', 'failed', 'removed', 'filtered'));
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+COMMENT ON COLUMN campaign_posts.created_by IS 'User who added the post; differs from the campaign owner for project editors';
+COMMENT ON COLUMN campaign_posts.reviewed_by IS 'Owner who last approved or rejected the post';
+COMMENT ON COLUMN campaign_posts.review_comment IS 'Comment left with the last approval or rejection';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_pending_approval ON campaign_posts(campaign_id)
+  WHERE status = 'pending_approval';
+
+-- The campaign's creator, or the creator or an owner member of the project it is shared with
+CREATE OR REPLACE FUNCTION public.is_campaign_owner(p_campaign_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM campaigns c
+    WHERE c.id = p_campaign_id
+    AND (
+      c.user_id = auth.uid() OR
+      EXISTS (SELECT 1 FROM projects p WHERE p.id = c.project_id AND p.user_id = auth.uid()) OR
+      EXISTS (
+        SELECT 1 FROM project_members pm
+        WHERE pm.project_id = c.project_id AND pm.user_id = auth.uid() AND pm.role = 'owner'
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Owners and the project's editors may add and change posts
+CREATE OR REPLACE FUNCTION public.can_edit_campaign(p_campaign_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_campaign_owner(p_campaign_id) OR EXISTS (
+    SELECT 1
+    FROM campaigns c
+    JOIN project_members pm ON pm.project_id = c.project_id
+    WHERE c.id = p_campaign_id AND pm.user_id = auth.uid() AND pm.role = 'edit'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_campaign_owner TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_edit_campaign TO authenticated;
+
+-- RLS Policies for project members, alongside the owner policies
+CREATE POLICY campaigns_project_select_policy ON campaigns
+  FOR SELECT USING (project_id IS NOT NULL AND public.is_project_member(project_id));
+
+CREATE POLICY campaign_posts_project_select_policy ON campaign_posts
+  FOR SELECT USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_posts_project_insert_policy ON campaign_posts
+  FOR INSERT WITH CHECK (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_posts_project_update_policy ON campaign_posts
+  FOR UPDATE USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_posts_project_delete_policy ON campaign_posts
+  FOR DELETE USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_batches_project_select_policy ON campaign_post_batches
+  FOR SELECT USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_batches_project_insert_policy ON campaign_post_batches
+  FOR INSERT WITH CHECK (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_batches_project_delete_policy ON campaign_post_batches
+  FOR DELETE USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_title_variants_project_select_policy ON campaign_post_title_variants
+  FOR SELECT USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_title_variants_project_insert_policy ON campaign_post_title_variants
+  FOR INSERT WITH CHECK (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_title_variants_project_delete_policy ON campaign_post_title_variants
+  FOR DELETE USING (public.can_edit_campaign(campaign_id));
+
+CREATE POLICY campaign_post_gallery_items_project_select_policy ON campaign_post_gallery_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND public.can_edit_campaign(cp.campaign_id)
+    )
+  );
+
+CREATE POLICY campaign_post_gallery_items_project_insert_policy ON campaign_post_gallery_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND public.can_edit_campaign(cp.campaign_id)
+    )
+    AND EXISTS (
+      SELECT 1 FROM media_items
+      WHERE id = campaign_post_gallery_items.media_item_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY campaign_post_gallery_items_project_delete_policy ON campaign_post_gallery_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM campaign_posts cp
+      WHERE cp.id = campaign_post_gallery_items.post_id
+      AND public.can_edit_campaign(cp.campaign_id)
+    )
+  );
+
+CREATE POLICY campaign_activity_project_select_policy ON campaign_activity
+  FOR SELECT USING (public.can_edit_campaign(campaign_id));
+
+-- Posts an editor adds to a campaign that requires approval wait for an owner. Recurrences are
+-- created by the scheduler (no auth.uid()) and follow the approved post they repeat.
+CREATE OR REPLACE FUNCTION public.campaign_post_require_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+
+  IF auth.uid() IS NOT NULL
+    AND NOT public.is_campaign_owner(NEW.campaign_id)
+    AND EXISTS (SELECT 1 FROM campaigns WHERE id = NEW.campaign_id AND requires_approval)
+  THEN
+    NEW.status := 'pending_approval';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_require_approval ON campaign_posts;
+CREATE TRIGGER campaign_posts_require_approval
+BEFORE INSERT ON campaign_posts
+FOR EACH ROW
+EXECUTE FUNCTION public.campaign_post_require_approval();
+
+CREATE OR REPLACE FUNCTION public.log_campaign_post_submitted()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO campaign_activity (
+    campaign_id,
+    post_id,
+    user_id,
+    action_type,
+    details
+  ) VALUES (
+    NEW.campaign_id,
+    NEW.id,
+    NEW.created_by,
+    'post_submitted',
+    jsonb_build_object('to_status', 'pending_approval', 'scheduled_for', NEW.scheduled_for)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_log_submitted ON campaign_posts;
+CREATE TRIGGER campaign_posts_log_submitted
+AFTER INSERT ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.status = 'pending_approval')
+EXECUTE FUNCTION public.log_campaign_post_submitted();
+
+-- Editors can't approve their own posts by writing the status directly
+CREATE OR REPLACE FUNCTION public.guard_campaign_post_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT public.is_campaign_owner(NEW.campaign_id)
+    AND OLD.status IN ('pending_approval', 'rejected')
+    AND NEW.status != 'pending_approval'
+  THEN
+    RAISE EXCEPTION 'Only a campaign owner can approve or reject posts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_guard_approval ON campaign_posts;
+CREATE TRIGGER campaign_posts_guard_approval
+BEFORE UPDATE OF status ON campaign_posts
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.guard_campaign_post_approval();
+
+-- Approve (schedule) or reject a pending post. Approved posts whose time has passed go out now.
+CREATE OR REPLACE FUNCTION public.review_campaign_post(
+  p_post_id UUID,
+  p_approve BOOLEAN,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_post
+  FROM campaign_posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF NOT public.is_campaign_owner(v_post.campaign_id) THEN
+    RAISE EXCEPTION 'Only a campaign owner can approve or reject posts';
+  END IF;
+
+  IF v_post.status != 'pending_approval' THEN
+    RAISE EXCEPTION 'This post is not waiting for approval';
+  END IF;
+
+  IF NOT p_approve AND NULLIF(TRIM(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Say why the post is rejected';
+  END IF;
+
+  v_status := CASE WHEN p_approve THEN 'scheduled' ELSE 'rejected' END;
+
+  UPDATE campaign_posts
+  SET
+    status = v_status,
+    scheduled_for = CASE WHEN p_approve THEN GREATEST(scheduled_for, NOW()) ELSE scheduled_for END,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    review_comment = NULLIF(TRIM(p_comment), '')
+  WHERE id = p_post_id;
+
+  INSERT INTO campaign_activity (
+    campaign_id,
+    post_id,
+    user_id,
+    action_type,
+    details
+  ) VALUES (
+    v_post.campaign_id,
+    p_post_id,
+    auth.uid(),
+    CASE WHEN p_approve THEN 'post_approved' ELSE 'post_rejected' END,
+    jsonb_build_object(
+      'from_status', v_post.status,
+      'to_status', v_status,
+      'comment', NULLIF(TRIM(p_comment), ''),
+      'submitted_by', v_post.created_by
+    )
+  );
+
+  -- Approved posts of ai-optimized campaigns still need a slot
+  IF p_approve AND v_post.interval_hours IS NULL AND v_post.recurrence_rule IS NULL THEN
+    UPDATE campaigns
+    SET needs_replan = true
+    WHERE id = v_post.campaign_id AND schedule_type = 'ai-optimized';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.review_campaign_post IS 'Approves or rejects a post waiting for approval and logs the decision';
+GRANT EXECUTE ON FUNCTION public.review_campaign_post TO authenticated;
+
+-- Send a rejected post back for review, usually after editing it
+CREATE OR REPLACE FUNCTION public.resubmit_campaign_post(p_post_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_post
+  FROM campaign_posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF NOT public.can_edit_campaign(v_post.campaign_id) THEN
+    RAISE EXCEPTION 'You do not have permission to change posts in this campaign';
+  END IF;
+
+  IF v_post.status != 'rejected' THEN
+    RAISE EXCEPTION 'Only rejected posts can be resubmitted';
+  END IF;
+
+  UPDATE campaign_posts
+  SET status = 'pending_approval'
+  WHERE id = p_post_id;
+
+  INSERT INTO campaign_activity (
+    campaign_id,
+    post_id,
+    user_id,
+    action_type,
+    details
+  ) VALUES (
+    v_post.campaign_id,
+    p_post_id,
+    auth.uid(),
+    'post_resubmitted',
+    jsonb_build_object('from_status', 'rejected', 'to_status', 'pending_approval')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.resubmit_campaign_post IS 'Sends a rejected post back for approval and logs it';
+GRANT EXECUTE ON FUNCTION public.resubmit_campaign_post TO authenticated;
+
+-- Recreate the post creation function so project editors may add posts too
+CREATE OR REPLACE FUNCTION public.create_campaign_post_with_transaction(
+  p_campaign_id UUID,
+  p_reddit_account_id UUID,
+  p_subreddit_id UUID,
+  p_title TEXT,
+  p_content_type TEXT,
+  p_content TEXT,
+  p_scheduled_for TIMESTAMP WITH TIME ZONE,
+  p_media_item_id UUID DEFAULT NULL,
+  p_interval_hours INTEGER DEFAULT NULL,
+  p_use_ai_title BOOLEAN DEFAULT false,
+  p_use_ai_timing BOOLEAN DEFAULT false,
+  p_flair_id TEXT DEFAULT NULL,
+  p_flair_text TEXT DEFAULT NULL,
+  p_nsfw BOOLEAN DEFAULT false,
+  p_spoiler BOOLEAN DEFAULT false,
+  p_send_replies BOOLEAN DEFAULT true,
+  p_first_comment TEXT DEFAULT NULL,
+  p_first_comment_sticky BOOLEAN DEFAULT false,
+  p_first_comment_distinguish BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_post_id UUID;
+  v_status TEXT;
+BEGIN
+  -- Start a transaction
+  BEGIN
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = p_campaign_id) THEN
+      RAISE EXCEPTION 'Campaign not found';
+    END IF;
+
+    IF NOT public.can_edit_campaign(p_campaign_id) THEN
+      RAISE EXCEPTION 'You do not have permission to add posts to this campaign';
+    END IF;
+
+    -- Create the campaign post; editors' posts may be held for approval by the insert trigger
+    INSERT INTO campaign_posts (
+      campaign_id,
+      reddit_account_id,
+      media_item_id,
+      subreddit_id,
+      title,
+      content_type,
+      content,
+      scheduled_for,
+      interval_hours,
+      use_ai_title,
+      use_ai_timing,
+      flair_id,
+      flair_text,
+      nsfw,
+      spoiler,
+      send_replies,
+      first_comment,
+      first_comment_sticky,
+      first_comment_distinguish
+    ) VALUES (
+      p_campaign_id,
+      p_reddit_account_id,
+      p_media_item_id,
+      p_subreddit_id,
+      p_title,
+      p_content_type,
+      p_content,
+      p_scheduled_for,
+      p_interval_hours,
+      p_use_ai_title,
+      p_use_ai_timing,
+      p_flair_id,
+      p_flair_text,
+      COALESCE(p_nsfw, false),
+      COALESCE(p_spoiler, false),
+      COALESCE(p_send_replies, true),
+      NULLIF(TRIM(p_first_comment), ''),
+      COALESCE(p_first_comment_sticky, false),
+      COALESCE(p_first_comment_distinguish, false)
+    )
+    RETURNING id, status INTO v_post_id, v_status;
+
+    -- Log the activity
+    INSERT INTO campaign_activity (
+      campaign_id,
+      post_id,
+      user_id,
+      action_type,
+      details
+    ) VALUES (
+      p_campaign_id,
+      v_post_id,
+      auth.uid(),
+      'post_created',
+      jsonb_build_object(
+        'title', p_title,
+        'content_type', p_content_type,
+        'scheduled_for', p_scheduled_for,
+        'is_recurring', p_interval_hours IS NOT NULL,
+        'flair_id', p_flair_id,
+        'has_first_comment', NULLIF(TRIM(p_first_comment), '') IS NOT NULL,
+        'status', v_status
+      )
+    );
+
+    -- Return the new post ID
+    RETURN v_post_id;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- If any error occurs, rollback the transaction
+      RAISE;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.create_campaign_post_with_transaction IS 'Creates a campaign post with transaction safety';
+GRANT EXECUTE ON FUNCTION public.create_campaign_post_with_transaction TO authenticated;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added the campaign post approval workflow';
+END $$;
@@ -0,0 +1,113 @@
+-- Post Approval Edits Migration
+-- Editors could change an approved post before it went out, since the approval guard only looked at
+-- status changes. An editor's change to what a scheduled post says, or where and how it is posted,
+-- now sends it back for approval.
+
+-- Whether the current user's changes to the campaign's posts need an owner's approval
+CREATE OR REPLACE FUNCTION public.campaign_edit_needs_approval(p_campaign_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND NOT public.is_campaign_owner(p_campaign_id)
+    AND EXISTS (SELECT 1 FROM campaigns WHERE id = p_campaign_id AND requires_approval);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Rescheduling is left alone; changing the post itself is not. Every column counts as part of the
+-- post, including ones added later, except the schedule and what the scheduler, rule checks,
+-- retries, reviews and tracking record about the post
+CREATE OR REPLACE FUNCTION public.campaign_post_edit_requires_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_scheduling_columns TEXT[] := ARRAY[
+    'status', 'scheduled_for', 'use_ai_timing', 'crosspost_delay_hours', 'batch_id', 'updated_at',
+    'processing_started_at', 'posted_at', 'execution_time_ms', 'last_error', 'reddit_post_id', 'reddit_permalink',
+    'attempt_count', 'next_attempt_at', 'last_attempt_at', 'quota_hold_until', 'quota_hold_reason',
+    'rule_check_status', 'rule_violations', 'rule_checked_at',
+    'created_by', 'reviewed_by', 'reviewed_at', 'review_comment',
+    'title_variant_id', 'title_test_decided_at',
+    'first_comment_id', 'first_comment_status', 'first_comment_error', 'first_comment_posted_at',
+    'removal_reason', 'removal_detected_at', 'removal_checked_at', 'next_metrics_at'
+  ];
+BEGIN
+  IF public.campaign_edit_needs_approval(NEW.campaign_id)
+    AND to_jsonb(NEW) - v_scheduling_columns IS DISTINCT FROM to_jsonb(OLD) - v_scheduling_columns
+  THEN
+    NEW.status := 'pending_approval';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_edit_requires_approval ON campaign_posts;
+CREATE TRIGGER campaign_posts_edit_requires_approval
+BEFORE UPDATE ON campaign_posts
+FOR EACH ROW
+WHEN (OLD.status = 'scheduled' AND NEW.status = 'scheduled')
+EXECUTE FUNCTION public.campaign_post_edit_requires_approval();
+
+-- Gallery images and title variants live in their own tables but are part of the post too
+CREATE OR REPLACE FUNCTION public.campaign_post_part_edit_requires_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_post_id UUID;
+BEGIN
+  v_post_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.post_id ELSE NEW.post_id END;
+
+  UPDATE campaign_posts
+  SET status = 'pending_approval'
+  WHERE id = v_post_id
+    AND status = 'scheduled'
+    AND public.campaign_edit_needs_approval(campaign_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_post_gallery_items_edit_requires_approval ON campaign_post_gallery_items;
+CREATE TRIGGER campaign_post_gallery_items_edit_requires_approval
+AFTER INSERT OR UPDATE OR DELETE ON campaign_post_gallery_items
+FOR EACH ROW
+EXECUTE FUNCTION public.campaign_post_part_edit_requires_approval();
+
+DROP TRIGGER IF EXISTS campaign_post_title_variants_edit_requires_approval ON campaign_post_title_variants;
+CREATE TRIGGER campaign_post_title_variants_edit_requires_approval
+AFTER INSERT OR DELETE ON campaign_post_title_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.campaign_post_part_edit_requires_approval();
+
+-- Log the post going back for approval
+CREATE OR REPLACE FUNCTION public.log_campaign_post_edit_resubmitted()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO campaign_activity (
+    campaign_id,
+    post_id,
+    user_id,
+    action_type,
+    details
+  ) VALUES (
+    NEW.campaign_id,
+    NEW.id,
+    auth.uid(),
+    'post_resubmitted',
+    jsonb_build_object('from_status', 'scheduled', 'to_status', 'pending_approval', 'reason', 'edited after approval')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_log_edit_resubmitted ON campaign_posts;
+CREATE TRIGGER campaign_posts_log_edit_resubmitted
+AFTER UPDATE ON campaign_posts
+FOR EACH ROW
+WHEN (OLD.status = 'scheduled' AND NEW.status = 'pending_approval')
+EXECUTE FUNCTION public.log_campaign_post_edit_resubmitted();
+
+COMMENT ON FUNCTION public.campaign_edit_needs_approval IS 'Whether the current user''s changes to the campaign''s posts need an owner''s approval';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Editors'' changes to scheduled posts go back for approval';
+END $$;
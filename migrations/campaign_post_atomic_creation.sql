@@ -0,0 +1,203 @@
+-- Atomic Post Creation Migration
+-- The batch, recurrence rule, crosspost options, gallery images and title variants used to be set by
+-- separate writes after the post was inserted as scheduled, so the scheduler could claim a post that
+-- wasn't set up yet. The post creation function now takes them as parameters and writes them all in
+-- one transaction.
+
+-- Recreate the post creation function with the batch, recurrence rule, crosspost, gallery and title
+-- variant options
+DROP FUNCTION IF EXISTS public.create_campaign_post_with_transaction(UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, BOOLEAN, BOOLEAN, TEXT, TEXT, BOOLEAN, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, BOOLEAN);
+DROP FUNCTION IF EXISTS public.create_campaign_post_with_transaction(UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, BOOLEAN, BOOLEAN, TEXT, TEXT, BOOLEAN, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, BOOLEAN, UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE[], UUID, TEXT, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.create_campaign_post_with_transaction(
+  p_campaign_id UUID,
+  p_reddit_account_id UUID,
+  p_subreddit_id UUID,
+  p_title TEXT,
+  p_content_type TEXT,
+  p_content TEXT,
+  p_scheduled_for TIMESTAMP WITH TIME ZONE,
+  p_media_item_id UUID DEFAULT NULL,
+  p_interval_hours INTEGER DEFAULT NULL,
+  p_use_ai_title BOOLEAN DEFAULT false,
+  p_use_ai_timing BOOLEAN DEFAULT false,
+  p_flair_id TEXT DEFAULT NULL,
+  p_flair_text TEXT DEFAULT NULL,
+  p_nsfw BOOLEAN DEFAULT false,
+  p_spoiler BOOLEAN DEFAULT false,
+  p_send_replies BOOLEAN DEFAULT true,
+  p_first_comment TEXT DEFAULT NULL,
+  p_first_comment_sticky BOOLEAN DEFAULT false,
+  p_first_comment_distinguish BOOLEAN DEFAULT false,
+  p_batch_id UUID DEFAULT NULL,
+  p_recurrence_rule TEXT DEFAULT NULL,
+  p_recurrence_timezone TEXT DEFAULT 'UTC',
+  p_recurrence_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_recurrence_exdates TIMESTAMP WITH TIME ZONE[] DEFAULT '{}',
+  p_crosspost_source_post_id UUID DEFAULT NULL,
+  p_crosspost_fullname TEXT DEFAULT NULL,
+  p_crosspost_delay_hours NUMERIC DEFAULT NULL,
+  p_gallery_items JSONB DEFAULT '[]', -- [{ media_item_id, caption, outbound_url }] in posting order
+  p_title_variants JSONB DEFAULT '[]', -- [{ title, source }], the post's own title first
+  p_title_test_runs INTEGER DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_post_id UUID;
+  v_status TEXT;
+  v_first_variant_id UUID;
+BEGIN
+  -- Start a transaction
+  BEGIN
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = p_campaign_id) THEN
+      RAISE EXCEPTION 'Campaign not found';
+    END IF;
+
+    IF NOT public.can_edit_campaign(p_campaign_id) THEN
+      RAISE EXCEPTION 'You do not have permission to add posts to this campaign';
+    END IF;
+
+    -- Gallery images must be the user's own, as the gallery item policies require
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_gallery_items, '[]')) AS item
+      WHERE NOT EXISTS (
+        SELECT 1 FROM media_items
+        WHERE id = (item->>'media_item_id')::UUID
+        AND user_id = auth.uid()
+      )
+    ) THEN
+      RAISE EXCEPTION 'Gallery images must come from your media library';
+    END IF;
+
+    -- Create the campaign post with all of its options in one insert, so the scheduler can never
+    -- claim it half configured; editors' posts may be held for approval by the insert trigger
+    INSERT INTO campaign_posts (
+      campaign_id,
+      reddit_account_id,
+      media_item_id,
+      subreddit_id,
+      title,
+      content_type,
+      content,
+      scheduled_for,
+      interval_hours,
+      use_ai_title,
+      use_ai_timing,
+      flair_id,
+      flair_text,
+      nsfw,
+      spoiler,
+      send_replies,
+      first_comment,
+      first_comment_sticky,
+      first_comment_distinguish,
+      batch_id,
+      recurrence_rule,
+      recurrence_timezone,
+      recurrence_start,
+      recurrence_exdates,
+      crosspost_source_post_id,
+      crosspost_fullname,
+      crosspost_delay_hours,
+      title_test_runs
+    ) VALUES (
+      p_campaign_id,
+      p_reddit_account_id,
+      p_media_item_id,
+      p_subreddit_id,
+      p_title,
+      p_content_type,
+      p_content,
+      p_scheduled_for,
+      p_interval_hours,
+      p_use_ai_title,
+      p_use_ai_timing,
+      p_flair_id,
+      p_flair_text,
+      COALESCE(p_nsfw, false),
+      COALESCE(p_spoiler, false),
+      COALESCE(p_send_replies, true),
+      NULLIF(TRIM(p_first_comment), ''),
+      COALESCE(p_first_comment_sticky, false),
+      COALESCE(p_first_comment_distinguish, false),
+      p_batch_id,
+      p_recurrence_rule,
+      COALESCE(p_recurrence_timezone, 'UTC'),
+      p_recurrence_start,
+      COALESCE(p_recurrence_exdates, '{}'),
+      p_crosspost_source_post_id,
+      p_crosspost_fullname,
+      p_crosspost_delay_hours,
+      p_title_test_runs
+    )
+    RETURNING id, status INTO v_post_id, v_status;
+
+    INSERT INTO campaign_post_gallery_items (post_id, media_item_id, position, caption, outbound_url)
+    SELECT
+      v_post_id,
+      (items.item->>'media_item_id')::UUID,
+      items.ordinality - 1,
+      NULLIF(TRIM(items.item->>'caption'), ''),
+      NULLIF(TRIM(items.item->>'outbound_url'), '')
+    FROM jsonb_array_elements(COALESCE(p_gallery_items, '[]')) WITH ORDINALITY AS items(item, ordinality);
+
+    INSERT INTO campaign_post_title_variants (post_id, campaign_id, title, source, position)
+    SELECT
+      v_post_id,
+      p_campaign_id,
+      variants.variant->>'title',
+      COALESCE(variants.variant->>'source', 'manual'),
+      variants.ordinality - 1
+    FROM jsonb_array_elements(COALESCE(p_title_variants, '[]')) WITH ORDINALITY AS variants(variant, ordinality);
+
+    -- The first recurrence uses the post's own title
+    SELECT id INTO v_first_variant_id
+    FROM campaign_post_title_variants
+    WHERE post_id = v_post_id AND position = 0;
+
+    IF v_first_variant_id IS NOT NULL THEN
+      UPDATE campaign_posts SET title_variant_id = v_first_variant_id WHERE id = v_post_id;
+    END IF;
+
+    -- Log the activity
+    INSERT INTO campaign_activity (
+      campaign_id,
+      post_id,
+      user_id,
+      action_type,
+      details
+    ) VALUES (
+      p_campaign_id,
+      v_post_id,
+      auth.uid(),
+      'post_created',
+      jsonb_build_object(
+        'title', p_title,
+        'content_type', p_content_type,
+        'scheduled_for', p_scheduled_for,
+        'is_recurring', p_interval_hours IS NOT NULL OR p_recurrence_rule IS NOT NULL,
+        'flair_id', p_flair_id,
+        'has_first_comment', NULLIF(TRIM(p_first_comment), '') IS NOT NULL,
+        'status', v_status
+      )
+    );
+
+    -- Return the new post ID
+    RETURN v_post_id;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- If any error occurs, rollback the transaction
+      RAISE;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.create_campaign_post_with_transaction IS 'Creates a campaign post with transaction safety';
+GRANT EXECUTE ON FUNCTION public.create_campaign_post_with_transaction TO authenticated;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Campaign posts are created with all of their options, images and title variants at once';
+END $$;
@@ -0,0 +1,76 @@
+-- Campaign Post Batches Migration
+-- Groups the posts created from one post across several subreddits so they can be
+-- edited, rescheduled or cancelled together
+
+CREATE TABLE IF NOT EXISTS campaign_post_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL, -- Project the subreddits were taken from, if any
+  use_preferred_times BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE campaign_post_batches IS 'One post scheduled across several subreddits';
+COMMENT ON COLUMN campaign_post_batches.use_preferred_times IS 'Whether each subreddit''s post was placed at its busiest hour instead of one shared time';
+
+-- RLS Policies for batches
+ALTER TABLE campaign_post_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_post_batches_select_policy ON campaign_post_batches
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_batches.campaign_id
+    )
+  );
+
+CREATE POLICY campaign_post_batches_insert_policy ON campaign_post_batches
+  FOR INSERT WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_batches.campaign_id
+    )
+  );
+
+CREATE POLICY campaign_post_batches_update_policy ON campaign_post_batches
+  FOR UPDATE USING (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_batches.campaign_id
+    )
+  );
+
+CREATE POLICY campaign_post_batches_delete_policy ON campaign_post_batches
+  FOR DELETE USING (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_batches.campaign_id
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS campaign_post_batches_campaign_id_idx ON campaign_post_batches(campaign_id);
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES campaign_post_batches(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN campaign_posts.batch_id IS 'Batch the post was created in, shared by its recurrences';
+
+CREATE INDEX IF NOT EXISTS campaign_posts_batch_id_idx ON campaign_posts(batch_id) WHERE batch_id IS NOT NULL;
+
+-- Recurrences stay in their batch so the batch can still be edited or cancelled as a whole
+CREATE OR REPLACE FUNCTION public.copy_post_options_to_recurring_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT flair_id, flair_text, nsfw, spoiler, send_replies,
+         first_comment, first_comment_sticky, first_comment_distinguish, batch_id
+  INTO NEW.flair_id, NEW.flair_text, NEW.nsfw, NEW.spoiler, NEW.send_replies,
+       NEW.first_comment, NEW.first_comment_sticky, NEW.first_comment_distinguish, NEW.batch_id
+  FROM campaign_posts
+  WHERE id = NEW.parent_post_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added campaign post batches';
+END $$;
@@ -0,0 +1,164 @@
+-- First Comment Migration
+-- Adds an optional comment the scheduler posts on a campaign post right after it goes live
+
+-- First comment template and options
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS first_comment TEXT CHECK (char_length(first_comment) <= 10000), -- Reddit's comment limit
+ADD COLUMN IF NOT EXISTS first_comment_sticky BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS first_comment_distinguish BOOLEAN NOT NULL DEFAULT false;
+
+-- Outcome of the first comment, recorded next to reddit_post_id
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS first_comment_id TEXT,
+ADD COLUMN IF NOT EXISTS first_comment_status TEXT CHECK (first_comment_status IN ('posted', 'failed')),
+ADD COLUMN IF NOT EXISTS first_comment_error TEXT,
+ADD COLUMN IF NOT EXISTS first_comment_posted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN campaign_posts.first_comment IS 'Comment template posted after submission; supports {title}, {subreddit}, {username} and {url}';
+COMMENT ON COLUMN campaign_posts.first_comment_sticky IS 'Sticky the first comment (requires moderator permissions)';
+COMMENT ON COLUMN campaign_posts.first_comment_distinguish IS 'Distinguish the first comment as a moderator';
+COMMENT ON COLUMN campaign_posts.first_comment_error IS 'Why the comment failed, or why it could not be stickied or distinguished';
+
+-- Recreate the post creation function with the first comment options
+DROP FUNCTION IF EXISTS public.create_campaign_post_with_transaction(UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, BOOLEAN, BOOLEAN, TEXT, TEXT, BOOLEAN, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.create_campaign_post_with_transaction(
+  p_campaign_id UUID,
+  p_reddit_account_id UUID,
+  p_subreddit_id UUID,
+  p_title TEXT,
+  p_content_type TEXT,
+  p_content TEXT,
+  p_scheduled_for TIMESTAMP WITH TIME ZONE,
+  p_media_item_id UUID DEFAULT NULL,
+  p_interval_hours INTEGER DEFAULT NULL,
+  p_use_ai_title BOOLEAN DEFAULT false,
+  p_use_ai_timing BOOLEAN DEFAULT false,
+  p_flair_id TEXT DEFAULT NULL,
+  p_flair_text TEXT DEFAULT NULL,
+  p_nsfw BOOLEAN DEFAULT false,
+  p_spoiler BOOLEAN DEFAULT false,
+  p_send_replies BOOLEAN DEFAULT true,
+  p_first_comment TEXT DEFAULT NULL,
+  p_first_comment_sticky BOOLEAN DEFAULT false,
+  p_first_comment_distinguish BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_post_id UUID;
+  v_campaign_owner UUID;
+BEGIN
+  -- Start a transaction
+  BEGIN
+    -- First verify the user owns the campaign
+    SELECT user_id INTO v_campaign_owner
+    FROM campaigns
+    WHERE id = p_campaign_id;
+
+    IF v_campaign_owner IS NULL THEN
+      RAISE EXCEPTION 'Campaign not found';
+    END IF;
+
+    IF v_campaign_owner != auth.uid() THEN
+      RAISE EXCEPTION 'You do not have permission to add posts to this campaign';
+    END IF;
+
+    -- Create the campaign post
+    INSERT INTO campaign_posts (
+      campaign_id,
+      reddit_account_id,
+      media_item_id,
+      subreddit_id,
+      title,
+      content_type,
+      content,
+      scheduled_for,
+      interval_hours,
+      use_ai_title,
+      use_ai_timing,
+      flair_id,
+      flair_text,
+      nsfw,
+      spoiler,
+      send_replies,
+      first_comment,
+      first_comment_sticky,
+      first_comment_distinguish
+    ) VALUES (
+      p_campaign_id,
+      p_reddit_account_id,
+      p_media_item_id,
+      p_subreddit_id,
+      p_title,
+      p_content_type,
+      p_content,
+      p_scheduled_for,
+      p_interval_hours,
+      p_use_ai_title,
+      p_use_ai_timing,
+      p_flair_id,
+      p_flair_text,
+      COALESCE(p_nsfw, false),
+      COALESCE(p_spoiler, false),
+      COALESCE(p_send_replies, true),
+      NULLIF(TRIM(p_first_comment), ''),
+      COALESCE(p_first_comment_sticky, false),
+      COALESCE(p_first_comment_distinguish, false)
+    )
+    RETURNING id INTO v_post_id;
+
+    -- Log the activity
+    INSERT INTO campaign_activity (
+      campaign_id,
+      post_id,
+      user_id,
+      action_type,
+      details
+    ) VALUES (
+      p_campaign_id,
+      v_post_id,
+      auth.uid(),
+      'post_created',
+      jsonb_build_object(
+        'title', p_title,
+        'content_type', p_content_type,
+        'scheduled_for', p_scheduled_for,
+        'is_recurring', p_interval_hours IS NOT NULL,
+        'flair_id', p_flair_id,
+        'has_first_comment', NULLIF(TRIM(p_first_comment), '') IS NOT NULL
+      )
+    );
+
+    -- Return the new post ID
+    RETURN v_post_id;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- If any error occurs, rollback the transaction
+      RAISE;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.create_campaign_post_with_transaction IS 'Creates a campaign post with transaction safety';
+GRANT EXECUTE ON FUNCTION public.create_campaign_post_with_transaction TO authenticated;
+
+-- Recurring posts also carry the first comment template over
+CREATE OR REPLACE FUNCTION public.copy_post_options_to_recurring_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT flair_id, flair_text, nsfw, spoiler, send_replies,
+         first_comment, first_comment_sticky, first_comment_distinguish
+  INTO NEW.flair_id, NEW.flair_text, NEW.nsfw, NEW.spoiler, NEW.send_replies,
+       NEW.first_comment, NEW.first_comment_sticky, NEW.first_comment_distinguish
+  FROM campaign_posts
+  WHERE id = NEW.parent_post_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added first comment support for campaign posts';
+END $$;
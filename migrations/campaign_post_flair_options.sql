@@ -0,0 +1,195 @@
+-- Post Flair and Submission Options Migration
+-- Adds flair, NSFW, spoiler and send-replies options to campaign posts,
+-- caches each subreddit's link flair catalog and stores a default flair per user and subreddit
+
+-- Submission options on campaign posts
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS flair_id TEXT,
+ADD COLUMN IF NOT EXISTS flair_text TEXT CHECK (char_length(flair_text) <= 64), -- Reddit's flair text limit
+ADD COLUMN IF NOT EXISTS nsfw BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS spoiler BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS send_replies BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN campaign_posts.flair_id IS 'Reddit link flair template id applied on submission';
+COMMENT ON COLUMN campaign_posts.flair_text IS 'Flair text, only used for flair templates with editable text';
+COMMENT ON COLUMN campaign_posts.send_replies IS 'Send comment replies to the submitting account''s inbox';
+
+-- Cached link flair catalog, fetched from /r/{subreddit}/api/link_flair_v2
+ALTER TABLE subreddits
+ADD COLUMN IF NOT EXISTS link_flairs JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS link_flair_required BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS link_flairs_synced_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN subreddits.link_flairs IS 'Cached link flair templates (id, text, text_editable, colors)';
+COMMENT ON COLUMN subreddits.link_flair_required IS 'Whether the subreddit requires posts to have flair';
+
+-- Default flair each user picks for a subreddit
+CREATE TABLE IF NOT EXISTS subreddit_flair_defaults (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subreddit_id UUID NOT NULL REFERENCES subreddits(id) ON DELETE CASCADE,
+  flair_id TEXT NOT NULL,
+  flair_text TEXT CHECK (char_length(flair_text) <= 64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, subreddit_id)
+);
+
+COMMENT ON TABLE subreddit_flair_defaults IS 'Flair preselected for new campaign posts in a subreddit';
+
+-- RLS Policies for flair defaults
+ALTER TABLE subreddit_flair_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY subreddit_flair_defaults_select_policy ON subreddit_flair_defaults
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY subreddit_flair_defaults_insert_policy ON subreddit_flair_defaults
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY subreddit_flair_defaults_update_policy ON subreddit_flair_defaults
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY subreddit_flair_defaults_delete_policy ON subreddit_flair_defaults
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS subreddit_flair_defaults_user_id_idx ON subreddit_flair_defaults(user_id);
+
+-- Recreate the post creation function with the new options
+DROP FUNCTION IF EXISTS public.create_campaign_post_with_transaction(UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.create_campaign_post_with_transaction(
+  p_campaign_id UUID,
+  p_reddit_account_id UUID,
+  p_subreddit_id UUID,
+  p_title TEXT,
+  p_content_type TEXT,
+  p_content TEXT,
+  p_scheduled_for TIMESTAMP WITH TIME ZONE,
+  p_media_item_id UUID DEFAULT NULL,
+  p_interval_hours INTEGER DEFAULT NULL,
+  p_use_ai_title BOOLEAN DEFAULT false,
+  p_use_ai_timing BOOLEAN DEFAULT false,
+  p_flair_id TEXT DEFAULT NULL,
+  p_flair_text TEXT DEFAULT NULL,
+  p_nsfw BOOLEAN DEFAULT false,
+  p_spoiler BOOLEAN DEFAULT false,
+  p_send_replies BOOLEAN DEFAULT true
+)
+RETURNS UUID AS $$
+DECLARE
+  v_post_id UUID;
+  v_campaign_owner UUID;
+BEGIN
+  -- Start a transaction
+  BEGIN
+    -- First verify the user owns the campaign
+    SELECT user_id INTO v_campaign_owner
+    FROM campaigns
+    WHERE id = p_campaign_id;
+
+    IF v_campaign_owner IS NULL THEN
+      RAISE EXCEPTION 'Campaign not found';
+    END IF;
+
+    IF v_campaign_owner != auth.uid() THEN
+      RAISE EXCEPTION 'You do not have permission to add posts to this campaign';
+    END IF;
+
+    -- Create the campaign post
+    INSERT INTO campaign_posts (
+      campaign_id,
+      reddit_account_id,
+      media_item_id,
+      subreddit_id,
+      title,
+      content_type,
+      content,
+      scheduled_for,
+      interval_hours,
+      use_ai_title,
+      use_ai_timing,
+      flair_id,
+      flair_text,
+      nsfw,
+      spoiler,
+      send_replies
+    ) VALUES (
+      p_campaign_id,
+      p_reddit_account_id,
+      p_media_item_id,
+      p_subreddit_id,
+      p_title,
+      p_content_type,
+      p_content,
+      p_scheduled_for,
+      p_interval_hours,
+      p_use_ai_title,
+      p_use_ai_timing,
+      p_flair_id,
+      p_flair_text,
+      COALESCE(p_nsfw, false),
+      COALESCE(p_spoiler, false),
+      COALESCE(p_send_replies, true)
+    )
+    RETURNING id INTO v_post_id;
+
+    -- Log the activity
+    INSERT INTO campaign_activity (
+      campaign_id,
+      post_id,
+      user_id,
+      action_type,
+      details
+    ) VALUES (
+      p_campaign_id,
+      v_post_id,
+      auth.uid(),
+      'post_created',
+      jsonb_build_object(
+        'title', p_title,
+        'content_type', p_content_type,
+        'scheduled_for', p_scheduled_for,
+        'is_recurring', p_interval_hours IS NOT NULL,
+        'flair_id', p_flair_id
+      )
+    );
+
+    -- Return the new post ID
+    RETURN v_post_id;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- If any error occurs, rollback the transaction
+      RAISE;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.create_campaign_post_with_transaction IS 'Creates a campaign post with transaction safety';
+GRANT EXECUTE ON FUNCTION public.create_campaign_post_with_transaction TO authenticated;
+
+-- Recurring posts keep the flair and options of the post they repeat
+CREATE OR REPLACE FUNCTION public.copy_post_options_to_recurring_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT flair_id, flair_text, nsfw, spoiler, send_replies
+  INTO NEW.flair_id, NEW.flair_text, NEW.nsfw, NEW.spoiler, NEW.send_replies
+  FROM campaign_posts
+  WHERE id = NEW.parent_post_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_copy_post_options ON campaign_posts;
+CREATE TRIGGER campaign_posts_copy_post_options
+BEFORE INSERT ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.parent_post_id IS NOT NULL)
+EXECUTE FUNCTION public.copy_post_options_to_recurring_post();
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added flair, NSFW, spoiler and send-replies options for campaign posts';
+END $$;
@@ -0,0 +1,113 @@
+-- Post Performance Tracking Migration
+-- Stores score, upvote ratio, comment count and removal status of posted campaign posts
+-- at 15m, 1h, 6h, 24h and 7d after posting, and adds the totals to campaign_metrics
+
+-- Time series of snapshots per campaign post
+CREATE TABLE IF NOT EXISTS campaign_post_metrics (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES campaign_posts(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  checkpoint TEXT NOT NULL CHECK (checkpoint IN ('15m', '1h', '6h', '24h', '7d')),
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  score INTEGER NOT NULL DEFAULT 0,
+  upvote_ratio NUMERIC(4, 3) NOT NULL DEFAULT 0,
+  num_comments INTEGER NOT NULL DEFAULT 0,
+  removal_status TEXT NOT NULL DEFAULT 'live' CHECK (removal_status IN ('live', 'removed', 'deleted', 'missing')),
+  removed_by_category TEXT,
+
+  -- One snapshot per checkpoint
+  UNIQUE(post_id, checkpoint)
+);
+
+COMMENT ON TABLE campaign_post_metrics IS 'Performance snapshots of posted campaign posts';
+COMMENT ON COLUMN campaign_post_metrics.removed_by_category IS 'Reddit''s removed_by_category as seen by a logged-out visitor';
+
+-- RLS Policies for post metrics; rows are written by the scheduler with the service role
+ALTER TABLE campaign_post_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_post_metrics_select_policy ON campaign_post_metrics
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE id = campaign_post_metrics.campaign_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS campaign_post_metrics_post_id_idx ON campaign_post_metrics(post_id, captured_at);
+CREATE INDEX IF NOT EXISTS campaign_post_metrics_campaign_id_idx ON campaign_post_metrics(campaign_id);
+
+-- When the next snapshot of a post is due
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS next_metrics_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS campaign_posts_next_metrics_at_idx ON campaign_posts(next_metrics_at)
+  WHERE status = 'posted' AND next_metrics_at IS NOT NULL;
+
+-- Start tracking a post as soon as it is marked posted
+CREATE OR REPLACE FUNCTION public.schedule_first_metrics_check()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.next_metrics_at := COALESCE(NEW.posted_at, NOW()) + INTERVAL '15 minutes';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS campaign_posts_schedule_metrics ON campaign_posts;
+CREATE TRIGGER campaign_posts_schedule_metrics
+BEFORE UPDATE OF status ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.status = 'posted' AND OLD.status IS DISTINCT FROM 'posted')
+EXECUTE FUNCTION public.schedule_first_metrics_check();
+
+-- Posts from the last week still have checkpoints left
+UPDATE campaign_posts
+SET next_metrics_at = NOW()
+WHERE status = 'posted'
+  AND reddit_post_id IS NOT NULL
+  AND posted_at > NOW() - INTERVAL '7 days'
+  AND next_metrics_at IS NULL;
+
+-- Latest snapshot of each post
+CREATE OR REPLACE VIEW campaign_post_latest_metrics WITH (security_invoker = true) AS
+SELECT DISTINCT ON (post_id)
+  post_id,
+  campaign_id,
+  checkpoint,
+  captured_at,
+  score,
+  upvote_ratio,
+  num_comments,
+  removal_status
+FROM campaign_post_metrics
+ORDER BY post_id, captured_at DESC;
+
+-- Add performance totals to the campaign metrics view
+CREATE OR REPLACE VIEW campaign_metrics AS
+SELECT
+  c.id AS campaign_id,
+  c.name AS campaign_name,
+  c.user_id,
+  c.is_active,
+  c.created_at,
+  COUNT(DISTINCT cp.id) AS total_posts,
+  SUM(CASE WHEN cp.status = 'posted' THEN 1 ELSE 0 END) AS posted_count,
+  SUM(CASE WHEN cp.status = 'scheduled' THEN 1 ELSE 0 END) AS scheduled_count,
+  SUM(CASE WHEN cp.status = 'failed' THEN 1 ELSE 0 END) AS failed_count,
+  MAX(cp.posted_at) AS last_post_at,
+  MIN(CASE WHEN cp.status = 'scheduled' THEN cp.scheduled_for ELSE NULL END) AS next_scheduled_post,
+  COUNT(lm.post_id) AS tracked_posts,
+  COALESCE(SUM(lm.score), 0) AS total_score,
+  COALESCE(SUM(lm.num_comments), 0) AS total_comments,
+  ROUND(AVG(lm.upvote_ratio), 3) AS avg_upvote_ratio,
+  SUM(CASE WHEN lm.removal_status = 'removed' THEN 1 ELSE 0 END) AS removed_count
+FROM campaigns c
+LEFT JOIN campaign_posts cp ON c.id = cp.campaign_id
+LEFT JOIN campaign_post_latest_metrics lm ON lm.post_id = cp.id
+GROUP BY c.id, c.name, c.user_id, c.is_active, c.created_at;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added performance tracking for posted campaign posts';
+END $$;
@@ -0,0 +1,45 @@
+-- Recurrence Rules Migration
+-- Lets a recurring campaign post follow an RFC 5545 RRULE in a given timezone, with an optional
+-- end date or count and exclusion dates, instead of a bare interval in hours
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+ADD COLUMN IF NOT EXISTS recurrence_timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS recurrence_start TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS recurrence_exdates TIMESTAMP WITH TIME ZONE[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN campaign_posts.recurrence_rule IS 'RRULE the series follows, e.g. FREQ=WEEKLY;BYDAY=TU,TH;BYHOUR=9;BYMINUTE=0; takes precedence over interval_hours';
+COMMENT ON COLUMN campaign_posts.recurrence_timezone IS 'IANA timezone the rule''s local times are read in, so posts keep their wall-clock time across DST';
+COMMENT ON COLUMN campaign_posts.recurrence_start IS 'DTSTART of the series; COUNT is counted from here';
+COMMENT ON COLUMN campaign_posts.recurrence_exdates IS 'Occurrences of the series to skip';
+
+-- Recurrences carry the rule forward alongside the post options
+CREATE OR REPLACE FUNCTION public.copy_post_options_to_recurring_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT flair_id, flair_text, nsfw, spoiler, send_replies,
+         first_comment, first_comment_sticky, first_comment_distinguish, batch_id,
+         recurrence_rule, recurrence_timezone, recurrence_start, recurrence_exdates
+  INTO NEW.flair_id, NEW.flair_text, NEW.nsfw, NEW.spoiler, NEW.send_replies,
+       NEW.first_comment, NEW.first_comment_sticky, NEW.first_comment_distinguish, NEW.batch_id,
+       NEW.recurrence_rule, NEW.recurrence_timezone, NEW.recurrence_start, NEW.recurrence_exdates
+  FROM campaign_posts
+  WHERE id = NEW.parent_post_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rule-driven posts keep their own times, so they don't ask the optimizer for a slot
+DROP TRIGGER IF EXISTS campaign_posts_replan ON campaign_posts;
+CREATE TRIGGER campaign_posts_replan
+AFTER INSERT ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.status = 'scheduled' AND NEW.interval_hours IS NULL AND NEW.recurrence_rule IS NULL)
+EXECUTE FUNCTION public.campaign_post_replan_trigger();
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added recurrence rules to campaign posts';
+END $$;
@@ -0,0 +1,73 @@
+-- Removal Detection Migration
+-- Adds removed/filtered post statuses and shadowban tracking for Reddit accounts,
+-- filled in by comparing what the posting account sees with what a logged-out visitor sees
+
+-- Posted items can later turn out to be removed by moderators or held by a filter
+ALTER TABLE campaign_posts DROP CONSTRAINT IF EXISTS campaign_posts_status_check;
+ALTER TABLE campaign_posts ADD CONSTRAINT campaign_posts_status_check
+  CHECK (status IN ('scheduled', 'processing', 'posted', 'failed', 'removed', 'filtered'));
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS removal_reason TEXT,
+ADD COLUMN IF NOT EXISTS removal_detected_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS removal_checked_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN campaign_posts.removal_reason IS 'Why the post is marked removed or filtered';
+COMMENT ON COLUMN campaign_posts.removal_detected_at IS 'When the post was first seen removed or filtered';
+COMMENT ON COLUMN campaign_posts.removal_checked_at IS 'When the post''s visibility was last checked';
+
+CREATE INDEX IF NOT EXISTS campaign_posts_removal_check_idx ON campaign_posts(removal_checked_at NULLS FIRST)
+  WHERE status IN ('posted', 'removed', 'filtered') AND reddit_post_id IS NOT NULL;
+
+-- Removed and filtered posts keep their performance snapshots coming
+DROP INDEX IF EXISTS campaign_posts_next_metrics_at_idx;
+CREATE INDEX IF NOT EXISTS campaign_posts_next_metrics_at_idx ON campaign_posts(next_metrics_at)
+  WHERE status IN ('posted', 'removed', 'filtered') AND next_metrics_at IS NOT NULL;
+
+-- A filtered post approved by a moderator goes back to posted without restarting tracking
+DROP TRIGGER IF EXISTS campaign_posts_schedule_metrics ON campaign_posts;
+CREATE TRIGGER campaign_posts_schedule_metrics
+BEFORE UPDATE OF status ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.status = 'posted' AND OLD.status NOT IN ('posted', 'removed', 'filtered'))
+EXECUTE FUNCTION public.schedule_first_metrics_check();
+
+-- Shadowbanned accounts have a profile that 404s for everyone but themselves
+ALTER TABLE reddit_accounts
+ADD COLUMN IF NOT EXISTS is_shadowbanned BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS shadowbanned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS shadowban_checked_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN reddit_accounts.is_shadowbanned IS 'Profile is not visible to logged-out visitors';
+COMMENT ON COLUMN reddit_accounts.shadowbanned_at IS 'When the shadowban was first detected';
+
+-- Count removed and filtered posts by status in the campaign metrics view
+CREATE OR REPLACE VIEW campaign_metrics AS
+SELECT
+  c.id AS campaign_id,
+  c.name AS campaign_name,
+  c.user_id,
+  c.is_active,
+  c.created_at,
+  COUNT(DISTINCT cp.id) AS total_posts,
+  SUM(CASE WHEN cp.status = 'posted' THEN 1 ELSE 0 END) AS posted_count,
+  SUM(CASE WHEN cp.status = 'scheduled' THEN 1 ELSE 0 END) AS scheduled_count,
+  SUM(CASE WHEN cp.status = 'failed' THEN 1 ELSE 0 END) AS failed_count,
+  MAX(cp.posted_at) AS last_post_at,
+  MIN(CASE WHEN cp.status = 'scheduled' THEN cp.scheduled_for ELSE NULL END) AS next_scheduled_post,
+  COUNT(lm.post_id) AS tracked_posts,
+  COALESCE(SUM(lm.score), 0) AS total_score,
+  COALESCE(SUM(lm.num_comments), 0) AS total_comments,
+  ROUND(AVG(lm.upvote_ratio), 3) AS avg_upvote_ratio,
+  SUM(CASE WHEN cp.status = 'removed' OR (cp.status = 'posted' AND lm.removal_status = 'removed') THEN 1 ELSE 0 END) AS removed_count,
+  SUM(CASE WHEN cp.status = 'filtered' THEN 1 ELSE 0 END) AS filtered_count
+FROM campaigns c
+LEFT JOIN campaign_posts cp ON c.id = cp.campaign_id
+LEFT JOIN campaign_post_latest_metrics lm ON lm.post_id = cp.id
+GROUP BY c.id, c.name, c.user_id, c.is_active, c.created_at;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added removal and shadowban detection';
+END $$;
@@ -0,0 +1,74 @@
+-- Post Retry Policy Migration
+-- Tracks delivery attempts so transient Reddit failures are retried with backoff instead of failing outright
+
+-- Per-campaign retry limit
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS max_retries INTEGER DEFAULT 3 CHECK (max_retries >= 0);
+
+COMMENT ON COLUMN campaigns.max_retries IS 'Maximum number of retries after a transient posting failure before a post is marked failed';
+
+-- Attempt tracking on posts
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS attempt_count INTEGER DEFAULT 0 CHECK (attempt_count >= 0),
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN campaign_posts.attempt_count IS 'Number of times the scheduler has tried to submit this post';
+COMMENT ON COLUMN campaign_posts.next_attempt_at IS 'When a retry is due; takes precedence over scheduled_for while set';
+COMMENT ON COLUMN campaign_posts.last_attempt_at IS 'Timestamp of the most recent submission attempt';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_next_attempt_at ON campaign_posts(next_attempt_at) WHERE status = 'scheduled' AND next_attempt_at IS NOT NULL;
+
+-- Retries are due at next_attempt_at rather than the original scheduled_for
+CREATE OR REPLACE FUNCTION public.get_posts_for_processing(
+  batch_size INT DEFAULT 5,
+  max_age_minutes INT DEFAULT 60
+)
+RETURNS SETOF campaign_posts AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_now TIMESTAMP WITH TIME ZONE;
+  v_claimed_count INT;
+BEGIN
+  v_now := NOW();
+  v_claimed_count := 0;
+
+  -- Find posts due now or earlier
+  FOR v_post IN
+    SELECT cp.*
+    FROM campaign_posts cp
+    WHERE
+      cp.status = 'scheduled' AND
+      COALESCE(cp.next_attempt_at, cp.scheduled_for) <= v_now AND
+      v_now - COALESCE(cp.next_attempt_at, cp.scheduled_for) < make_interval(mins := max_age_minutes)
+    ORDER BY COALESCE(cp.next_attempt_at, cp.scheduled_for) ASC
+    LIMIT batch_size * 3 -- Get more than we need in case some can't be claimed
+  LOOP
+    -- Try to claim this post using our locking function
+    IF public.claim_post_for_processing(v_post.id) THEN
+      -- Successfully claimed, return this record to the caller
+      RETURN NEXT v_post;
+
+      -- Increment our counter
+      v_claimed_count := v_claimed_count + 1;
+
+      -- If we've claimed enough posts, exit
+      IF v_claimed_count >= batch_size THEN
+        EXIT;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.get_posts_for_processing IS
+  'Gets a batch of due posts (including retries) for processing with advisory locking to prevent race conditions';
+GRANT EXECUTE ON FUNCTION public.get_posts_for_processing TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added retry policy columns for campaign posts';
+END $$;
@@ -0,0 +1,114 @@
+-- Post Status Guard Migration
+-- update_campaign_post_status used to mark any post failed, so an error after a successful submit
+-- (recording the attempt, the first comment, the next recurrence) turned a live post into a failed one.
+-- Posts that went out can no longer be marked failed.
+
+CREATE OR REPLACE FUNCTION public.update_campaign_post_status(
+  p_post_id UUID,
+  p_status TEXT,
+  p_reddit_post_id TEXT DEFAULT NULL,
+  p_reddit_permalink TEXT DEFAULT NULL,
+  p_execution_time_ms INTEGER DEFAULT NULL,
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_details JSONB;
+BEGIN
+  -- Start a transaction
+  BEGIN
+    -- Get the post details
+    SELECT * INTO v_post
+    FROM campaign_posts
+    WHERE id = p_post_id;
+    
+    IF v_post.id IS NULL THEN
+      RAISE EXCEPTION 'Post not found';
+    END IF;
+
+    -- A post that went out stays out; an error after submitting must not mark it failed
+    IF p_status = 'failed' AND v_post.status IN ('posted', 'removed', 'filtered') THEN
+      RAISE EXCEPTION 'Post % is already %, not marking it failed', p_post_id, v_post.status;
+    END IF;
+    
+    -- Prepare update data
+    v_details := jsonb_build_object(
+      'previous_status', v_post.status,
+      'new_status', p_status
+    );
+    
+    -- Add additional details based on status
+    IF p_status = 'posted' THEN
+      v_details := v_details || jsonb_build_object(
+        'reddit_post_id', p_reddit_post_id,
+        'execution_time_ms', p_execution_time_ms
+      );
+      
+      -- Update the post record
+      UPDATE campaign_posts
+      SET 
+        status = p_status,
+        posted_at = NOW(),
+        reddit_post_id = p_reddit_post_id,
+        reddit_permalink = p_reddit_permalink,
+        execution_time_ms = p_execution_time_ms
+      WHERE id = p_post_id;
+      
+    ELSIF p_status = 'failed' THEN
+      v_details := v_details || jsonb_build_object(
+        'error_message', p_error_message
+      );
+      
+      -- Update the post record
+      UPDATE campaign_posts
+      SET 
+        status = p_status,
+        last_error = p_error_message
+      WHERE id = p_post_id;
+      
+    ELSIF p_status = 'processing' THEN
+      -- Update the post record
+      UPDATE campaign_posts
+      SET 
+        status = p_status,
+        processing_started_at = NOW()
+      WHERE id = p_post_id;
+      
+    ELSE
+      -- Generic update
+      UPDATE campaign_posts
+      SET status = p_status
+      WHERE id = p_post_id;
+    END IF;
+    
+    -- Log the status change activity
+    INSERT INTO campaign_activity (
+      campaign_id,
+      post_id,
+      action_type,
+      details
+    ) VALUES (
+      v_post.campaign_id,
+      p_post_id,
+      'post_status_updated',
+      v_details
+    );
+    
+    RETURN TRUE;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- If any error occurs, rollback the transaction
+      RAISE;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.update_campaign_post_status IS 'Updates a campaign post status with transaction safety';
+GRANT EXECUTE ON FUNCTION public.update_campaign_post_status TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Posts that went out can no longer be marked failed';
+END $$;
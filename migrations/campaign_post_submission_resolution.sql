@@ -0,0 +1,112 @@
+-- Submission Resolution Migration
+-- Adds the submitted status for native image and video posts that Reddit accepted without saying
+-- where the post is. SubmissionResolver finds them later and moves them to posted.
+
+-- Submitted posts went out but have no reddit_post_id yet
+ALTER TABLE campaign_posts DROP CONSTRAINT IF EXISTS campaign_posts_status_check;
+ALTER TABLE campaign_posts ADD CONSTRAINT campaign_posts_status_check
+  CHECK (status IN ('pending_approval', 'rejected', 'scheduled', 'processing', 'submitted', 'posted', 'failed', 'removed', 'filtered'));
+
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_submitted ON campaign_posts(posted_at)
+  WHERE status = 'submitted';
+
+-- Submitted posts are live on Reddit and count towards quotas like posted ones
+CREATE OR REPLACE FUNCTION public.get_post_quota_hold(p_post_id UUID)
+RETURNS TABLE (hold_until TIMESTAMP WITH TIME ZONE, reason TEXT) AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_account reddit_accounts%ROWTYPE;
+  v_limit subreddit_posting_limits%ROWTYPE;
+  v_subreddit_name TEXT;
+  v_boundary TIMESTAMP WITH TIME ZONE;
+  v_now TIMESTAMP WITH TIME ZONE;
+BEGIN
+  v_now := NOW();
+
+  SELECT * INTO v_post FROM campaign_posts WHERE id = p_post_id;
+  IF v_post.id IS NULL THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  SELECT * INTO v_account FROM reddit_accounts WHERE id = v_post.reddit_account_id;
+
+  -- Hourly quota: the post that has to leave the window before another one fits
+  IF v_account.max_posts_per_hour IS NOT NULL THEN
+    SELECT COALESCE(cp.posted_at, cp.processing_started_at) INTO v_boundary
+    FROM campaign_posts cp
+    WHERE cp.reddit_account_id = v_post.reddit_account_id
+      AND cp.id <> v_post.id
+      AND cp.status IN ('processing', 'submitted', 'posted', 'removed', 'filtered')
+      AND COALESCE(cp.posted_at, cp.processing_started_at) > v_now - INTERVAL '1 hour'
+    ORDER BY COALESCE(cp.posted_at, cp.processing_started_at) DESC
+    OFFSET v_account.max_posts_per_hour - 1
+    LIMIT 1;
+
+    IF v_boundary IS NOT NULL AND (hold_until IS NULL OR v_boundary + INTERVAL '1 hour' > hold_until) THEN
+      hold_until := v_boundary + INTERVAL '1 hour';
+      reason := format('u/%s reached its quota of %s posts per hour', v_account.username, v_account.max_posts_per_hour);
+    END IF;
+  END IF;
+
+  -- Daily quota, same idea over 24 hours
+  v_boundary := NULL;
+  IF v_account.max_posts_per_day IS NOT NULL THEN
+    SELECT COALESCE(cp.posted_at, cp.processing_started_at) INTO v_boundary
+    FROM campaign_posts cp
+    WHERE cp.reddit_account_id = v_post.reddit_account_id
+      AND cp.id <> v_post.id
+      AND cp.status IN ('processing', 'submitted', 'posted', 'removed', 'filtered')
+      AND COALESCE(cp.posted_at, cp.processing_started_at) > v_now - INTERVAL '24 hours'
+    ORDER BY COALESCE(cp.posted_at, cp.processing_started_at) DESC
+    OFFSET v_account.max_posts_per_day - 1
+    LIMIT 1;
+
+    IF v_boundary IS NOT NULL AND (hold_until IS NULL OR v_boundary + INTERVAL '24 hours' > hold_until) THEN
+      hold_until := v_boundary + INTERVAL '24 hours';
+      reason := format('u/%s reached its quota of %s posts per day', v_account.username, v_account.max_posts_per_day);
+    END IF;
+  END IF;
+
+  -- Minimum gap since the account last posted to the same subreddit
+  SELECT l.* INTO v_limit
+  FROM subreddit_posting_limits l
+  JOIN campaigns c ON c.user_id = l.user_id
+  WHERE c.id = v_post.campaign_id
+    AND l.subreddit_id = v_post.subreddit_id;
+
+  IF v_limit.id IS NOT NULL AND v_limit.min_gap_hours > 0 THEN
+    SELECT MAX(COALESCE(cp.posted_at, cp.processing_started_at)) INTO v_boundary
+    FROM campaign_posts cp
+    WHERE cp.reddit_account_id = v_post.reddit_account_id
+      AND cp.subreddit_id = v_post.subreddit_id
+      AND cp.id <> v_post.id
+      AND cp.status IN ('processing', 'submitted', 'posted', 'removed', 'filtered');
+
+    v_boundary := v_boundary + v_limit.min_gap_hours::FLOAT8 * INTERVAL '1 hour';
+
+    IF v_boundary > v_now AND (hold_until IS NULL OR v_boundary > hold_until) THEN
+      SELECT name INTO v_subreddit_name FROM subreddits WHERE id = v_post.subreddit_id;
+      hold_until := v_boundary;
+      reason := format('r/%s allows one post every %s hours per account', v_subreddit_name, trim_scale(v_limit.min_gap_hours))
+        || CASE WHEN v_limit.source_rule IS NOT NULL THEN format(' ("%s")', v_limit.source_rule) ELSE '' END;
+    END IF;
+  END IF;
+
+  IF hold_until IS NOT NULL AND hold_until <= v_now THEN
+    hold_until := NULL;
+    reason := NULL;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.get_post_quota_hold IS
+  'Returns when a post may be submitted without breaking its account quotas or subreddit gap, with the reason';
+GRANT EXECUTE ON FUNCTION public.get_post_quota_hold TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added submitted status for posts Reddit has not located yet';
+END $$;
@@ -0,0 +1,237 @@
+-- Posting Quotas Migration
+-- Per-account hourly/daily post quotas and per-subreddit minimum gaps; due posts that would break
+-- them are held until the limit allows and the reason is stored on the post
+
+-- Quotas per Reddit account, shared by every campaign that posts with it. They start empty so
+-- existing accounts keep posting as before until a quota is set on the campaign page.
+ALTER TABLE reddit_accounts
+ADD COLUMN IF NOT EXISTS max_posts_per_hour INTEGER CHECK (max_posts_per_hour > 0),
+ADD COLUMN IF NOT EXISTS max_posts_per_day INTEGER CHECK (max_posts_per_day > 0);
+
+-- Databases that ran an earlier version of this migration got defaults of 2 and 10
+ALTER TABLE reddit_accounts
+ALTER COLUMN max_posts_per_hour DROP DEFAULT,
+ALTER COLUMN max_posts_per_day DROP DEFAULT;
+
+COMMENT ON COLUMN reddit_accounts.max_posts_per_hour IS 'Most campaign posts the account may submit in any hour; NULL for no limit';
+COMMENT ON COLUMN reddit_accounts.max_posts_per_day IS 'Most campaign posts the account may submit in any 24 hours; NULL for no limit';
+
+-- Minimum time between posts from the same account to a subreddit
+CREATE TABLE IF NOT EXISTS subreddit_posting_limits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subreddit_id UUID NOT NULL REFERENCES subreddits(id) ON DELETE CASCADE,
+  min_gap_hours NUMERIC(6, 2) NOT NULL DEFAULT 24 CHECK (min_gap_hours >= 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('analysis', 'manual')),
+  source_rule TEXT, -- Rule text the gap was read from, when seeded from the analysis
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, subreddit_id)
+);
+
+COMMENT ON TABLE subreddit_posting_limits IS 'Minimum gap between posts to a subreddit from one account, seeded from the subreddit analysis';
+
+-- RLS Policies for posting limits
+ALTER TABLE subreddit_posting_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY subreddit_posting_limits_select_policy ON subreddit_posting_limits
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY subreddit_posting_limits_insert_policy ON subreddit_posting_limits
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY subreddit_posting_limits_update_policy ON subreddit_posting_limits
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY subreddit_posting_limits_delete_policy ON subreddit_posting_limits
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS subreddit_posting_limits_user_id_idx ON subreddit_posting_limits(user_id);
+
+-- Why and until when a due post is being held back
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS quota_hold_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS quota_hold_reason TEXT;
+
+COMMENT ON COLUMN campaign_posts.quota_hold_until IS 'Held back by a posting quota until this time; takes precedence over scheduled_for while later';
+COMMENT ON COLUMN campaign_posts.quota_hold_reason IS 'Which quota or subreddit gap is holding the post back';
+
+-- Posts submitted by an account recently, for the quota checks
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_account_posted_at ON campaign_posts(reddit_account_id, posted_at)
+  WHERE status IN ('posted', 'removed', 'filtered');
+
+-- When a post may go out without breaking a quota, or NULL if it may go out now
+CREATE OR REPLACE FUNCTION public.get_post_quota_hold(p_post_id UUID)
+RETURNS TABLE (hold_until TIMESTAMP WITH TIME ZONE, reason TEXT) AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_account reddit_accounts%ROWTYPE;
+  v_limit subreddit_posting_limits%ROWTYPE;
+  v_subreddit_name TEXT;
+  v_boundary TIMESTAMP WITH TIME ZONE;
+  v_now TIMESTAMP WITH TIME ZONE;
+BEGIN
+  v_now := NOW();
+
+  SELECT * INTO v_post FROM campaign_posts WHERE id = p_post_id;
+  IF v_post.id IS NULL THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  SELECT * INTO v_account FROM reddit_accounts WHERE id = v_post.reddit_account_id;
+
+  -- Hourly quota: the post that has to leave the window before another one fits
+  IF v_account.max_posts_per_hour IS NOT NULL THEN
+    SELECT COALESCE(cp.posted_at, cp.processing_started_at) INTO v_boundary
+    FROM campaign_posts cp
+    WHERE cp.reddit_account_id = v_post.reddit_account_id
+      AND cp.id <> v_post.id
+      AND cp.status IN ('processing', 'posted', 'removed', 'filtered')
+      AND COALESCE(cp.posted_at, cp.processing_started_at) > v_now - INTERVAL '1 hour'
+    ORDER BY COALESCE(cp.posted_at, cp.processing_started_at) DESC
+    OFFSET v_account.max_posts_per_hour - 1
+    LIMIT 1;
+
+    IF v_boundary IS NOT NULL AND (hold_until IS NULL OR v_boundary + INTERVAL '1 hour' > hold_until) THEN
+      hold_until := v_boundary + INTERVAL '1 hour';
+      reason := format('u/%s reached its quota of %s posts per hour', v_account.username, v_account.max_posts_per_hour);
+    END IF;
+  END IF;
+
+  -- Daily quota, same idea over 24 hours
+  v_boundary := NULL;
+  IF v_account.max_posts_per_day IS NOT NULL THEN
+    SELECT COALESCE(cp.posted_at, cp.processing_started_at) INTO v_boundary
+    FROM campaign_posts cp
+    WHERE cp.reddit_account_id = v_post.reddit_account_id
+      AND cp.id <> v_post.id
+      AND cp.status IN ('processing', 'posted', 'removed', 'filtered')
+      AND COALESCE(cp.posted_at, cp.processing_started_at) > v_now - INTERVAL '24 hours'
+    ORDER BY COALESCE(cp.posted_at, cp.processing_started_at) DESC
+    OFFSET v_account.max_posts_per_day - 1
+    LIMIT 1;
+
+    IF v_boundary IS NOT NULL AND (hold_until IS NULL OR v_boundary + INTERVAL '24 hours' > hold_until) THEN
+      hold_until := v_boundary + INTERVAL '24 hours';
+      reason := format('u/%s reached its quota of %s posts per day', v_account.username, v_account.max_posts_per_day);
+    END IF;
+  END IF;
+
+  -- Minimum gap since the account last posted to the same subreddit
+  SELECT l.* INTO v_limit
+  FROM subreddit_posting_limits l
+  JOIN campaigns c ON c.user_id = l.user_id
+  WHERE c.id = v_post.campaign_id
+    AND l.subreddit_id = v_post.subreddit_id;
+
+  IF v_limit.id IS NOT NULL AND v_limit.min_gap_hours > 0 THEN
+    SELECT MAX(COALESCE(cp.posted_at, cp.processing_started_at)) INTO v_boundary
+    FROM campaign_posts cp
+    WHERE cp.reddit_account_id = v_post.reddit_account_id
+      AND cp.subreddit_id = v_post.subreddit_id
+      AND cp.id <> v_post.id
+      AND cp.status IN ('processing', 'posted', 'removed', 'filtered');
+
+    v_boundary := v_boundary + v_limit.min_gap_hours::FLOAT8 * INTERVAL '1 hour';
+
+    IF v_boundary > v_now AND (hold_until IS NULL OR v_boundary > hold_until) THEN
+      SELECT name INTO v_subreddit_name FROM subreddits WHERE id = v_post.subreddit_id;
+      hold_until := v_boundary;
+      reason := format('r/%s allows one post every %s hours per account', v_subreddit_name, trim_scale(v_limit.min_gap_hours))
+        || CASE WHEN v_limit.source_rule IS NOT NULL THEN format(' ("%s")', v_limit.source_rule) ELSE '' END;
+    END IF;
+  END IF;
+
+  IF hold_until IS NOT NULL AND hold_until <= v_now THEN
+    hold_until := NULL;
+    reason := NULL;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.get_post_quota_hold IS
+  'Returns when a post may be submitted without breaking its account quotas or subreddit gap, with the reason';
+GRANT EXECUTE ON FUNCTION public.get_post_quota_hold TO service_role;
+
+-- Due posts that would break a quota are held instead of claimed
+CREATE OR REPLACE FUNCTION public.get_posts_for_processing(
+  batch_size INT DEFAULT 5,
+  max_age_minutes INT DEFAULT 60
+)
+RETURNS SETOF campaign_posts AS $$
+DECLARE
+  v_post campaign_posts%ROWTYPE;
+  v_hold RECORD;
+  v_now TIMESTAMP WITH TIME ZONE;
+  v_claimed_count INT;
+BEGIN
+  v_now := NOW();
+  v_claimed_count := 0;
+
+  -- Find posts due now or earlier; a quota hold pushes the due time back like a retry does
+  FOR v_post IN
+    SELECT cp.*
+    FROM campaign_posts cp
+    WHERE
+      cp.status = 'scheduled' AND
+      GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) <= v_now AND
+      v_now - GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) < make_interval(mins := max_age_minutes)
+    ORDER BY GREATEST(COALESCE(cp.next_attempt_at, cp.scheduled_for), cp.quota_hold_until) ASC
+    LIMIT batch_size * 3 -- Get more than we need in case some can't be claimed
+  LOOP
+    -- Posts claimed earlier in this loop are already processing and count towards the quotas
+    SELECT * INTO v_hold FROM public.get_post_quota_hold(v_post.id);
+
+    IF v_hold.hold_until IS NOT NULL THEN
+      UPDATE campaign_posts
+      SET
+        quota_hold_until = v_hold.hold_until,
+        quota_hold_reason = v_hold.reason
+      WHERE id = v_post.id AND status = 'scheduled';
+
+      INSERT INTO campaign_activity (
+        campaign_id,
+        post_id,
+        action_type,
+        details
+      ) VALUES (
+        v_post.campaign_id,
+        v_post.id,
+        'post_held',
+        jsonb_build_object('hold_until', v_hold.hold_until, 'reason', v_hold.reason)
+      );
+
+      CONTINUE;
+    END IF;
+
+    -- Try to claim this post using our locking function
+    IF public.claim_post_for_processing(v_post.id) THEN
+      -- Successfully claimed, return this record to the caller
+      RETURN NEXT v_post;
+
+      -- Increment our counter
+      v_claimed_count := v_claimed_count + 1;
+
+      -- If we've claimed enough posts, exit
+      IF v_claimed_count >= batch_size THEN
+        EXIT;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.get_posts_for_processing IS
+  'Gets a batch of due posts (including retries) for processing with advisory locking, holding back posts that would break a posting quota';
+GRANT EXECUTE ON FUNCTION public.get_posts_for_processing TO service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added per-account posting quotas and per-subreddit minimum gaps';
+END $$;
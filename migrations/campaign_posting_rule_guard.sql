@@ -0,0 +1,19 @@
+-- Posting Rule Guard Migration
+-- Stores the result of checking a campaign post against the target subreddit's known rules
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS rule_check_status TEXT CHECK (rule_check_status IN ('passed', 'warning', 'blocked')),
+ADD COLUMN IF NOT EXISTS rule_violations JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS rule_checked_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN campaign_posts.rule_check_status IS 'Outcome of the last subreddit rule check: passed, warning or blocked';
+COMMENT ON COLUMN campaign_posts.rule_violations IS 'Structured list of rule violations found by the last check';
+COMMENT ON COLUMN campaign_posts.rule_checked_at IS 'Timestamp of the last subreddit rule check';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_posts_rule_check_status ON campaign_posts(rule_check_status);
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added subreddit rule check columns to campaign_posts';
+END $$;
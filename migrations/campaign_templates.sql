@@ -0,0 +1,41 @@
+-- Campaign Templates Migration
+-- Reusable campaign plans: posts are stored with offsets from the campaign's start, accounts by
+-- username and subreddits and tags by name, so a template can be cloned into a new campaign or
+-- exported as JSON and imported into another workspace
+
+CREATE TABLE IF NOT EXISTS campaign_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  version INTEGER NOT NULL DEFAULT 1, -- Format version of the definition
+  definition JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE campaign_templates IS 'Campaign plans with relative post offsets, variables and tag preferences that new campaigns are cloned from';
+COMMENT ON COLUMN campaign_templates.definition IS 'Campaign settings, variables, account placeholders, tag preferences and posts; the same document as the JSON export';
+
+-- RLS Policies for templates
+ALTER TABLE campaign_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_templates_select_policy ON campaign_templates
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY campaign_templates_insert_policy ON campaign_templates
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY campaign_templates_update_policy ON campaign_templates
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY campaign_templates_delete_policy ON campaign_templates
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_campaign_templates_user_id ON campaign_templates(user_id);
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added campaign templates';
+END $$;
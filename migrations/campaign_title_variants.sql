@@ -0,0 +1,130 @@
+-- Title Variants Migration
+-- Lets a recurring campaign post hold several title variants that its recurrences rotate through;
+-- once every variant has enough measured runs, the best one is kept for the remaining recurrences
+
+CREATE TABLE IF NOT EXISTS campaign_post_title_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES campaign_posts(id) ON DELETE CASCADE, -- The first post of the recurring series
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ai', 'template')),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_winner BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(post_id, position)
+);
+
+COMMENT ON TABLE campaign_post_title_variants IS 'Title variants a recurring campaign post rotates through';
+COMMENT ON COLUMN campaign_post_title_variants.source IS 'Whether the title was written by hand, generated by AI or filled in from a subreddit title template';
+
+-- RLS Policies for title variants
+ALTER TABLE campaign_post_title_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_post_title_variants_select_policy ON campaign_post_title_variants
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_title_variants.campaign_id
+    )
+  );
+
+CREATE POLICY campaign_post_title_variants_insert_policy ON campaign_post_title_variants
+  FOR INSERT WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_title_variants.campaign_id
+    )
+  );
+
+CREATE POLICY campaign_post_title_variants_update_policy ON campaign_post_title_variants
+  FOR UPDATE USING (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_title_variants.campaign_id
+    )
+  );
+
+CREATE POLICY campaign_post_title_variants_delete_policy ON campaign_post_title_variants
+  FOR DELETE USING (
+    auth.uid() IN (
+      SELECT user_id FROM campaigns WHERE id = campaign_post_title_variants.campaign_id
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS campaign_post_title_variants_campaign_id_idx ON campaign_post_title_variants(campaign_id);
+
+ALTER TABLE campaign_posts
+ADD COLUMN IF NOT EXISTS title_variant_id UUID REFERENCES campaign_post_title_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS title_test_runs INTEGER CHECK (title_test_runs > 0),
+ADD COLUMN IF NOT EXISTS title_test_decided_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN campaign_posts.title_variant_id IS 'Title variant this occurrence was posted with';
+COMMENT ON COLUMN campaign_posts.title_test_runs IS 'Measured runs each title variant needs before a winner is picked; set on the first post of the series';
+COMMENT ON COLUMN campaign_posts.title_test_decided_at IS 'When the winning title variant was picked; set on the first post of the series';
+
+CREATE INDEX IF NOT EXISTS campaign_posts_title_variant_id_idx ON campaign_posts(title_variant_id) WHERE title_variant_id IS NOT NULL;
+
+-- Recurrences take the winner once there is one, otherwise the variant used least so far
+CREATE OR REPLACE FUNCTION public.pick_title_variant_for_recurring_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_root_post_id UUID;
+  v_variant campaign_post_title_variants%ROWTYPE;
+BEGIN
+  SELECT v.post_id INTO v_root_post_id
+  FROM campaign_posts parent
+  JOIN campaign_post_title_variants v ON v.id = parent.title_variant_id
+  WHERE parent.id = NEW.parent_post_id;
+
+  IF v_root_post_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT v.* INTO v_variant
+  FROM campaign_post_title_variants v
+  LEFT JOIN campaign_posts cp ON cp.title_variant_id = v.id
+  WHERE v.post_id = v_root_post_id
+  GROUP BY v.id
+  ORDER BY v.is_winner DESC, COUNT(cp.id) ASC, v.position ASC
+  LIMIT 1;
+
+  IF v_variant.id IS NOT NULL THEN
+    NEW.title := v_variant.title;
+    NEW.title_variant_id := v_variant.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS campaign_posts_pick_title_variant ON campaign_posts;
+CREATE TRIGGER campaign_posts_pick_title_variant
+BEFORE INSERT ON campaign_posts
+FOR EACH ROW
+WHEN (NEW.parent_post_id IS NOT NULL)
+EXECUTE FUNCTION public.pick_title_variant_for_recurring_post();
+
+-- Runs and 24 hour averages per variant; runs are compared at the same age so late checks don't skew them
+CREATE OR REPLACE VIEW campaign_title_variant_stats WITH (security_invoker = true) AS
+SELECT
+  v.id AS variant_id,
+  v.post_id,
+  v.campaign_id,
+  v.title,
+  v.source,
+  v.position,
+  v.is_winner,
+  COUNT(cp.id) FILTER (WHERE cp.status IN ('posted', 'removed', 'filtered')) AS runs,
+  COUNT(m.id) AS measured_runs,
+  ROUND(AVG(m.score), 2) AS avg_score,
+  ROUND(AVG(m.num_comments), 2) AS avg_comments
+FROM campaign_post_title_variants v
+LEFT JOIN campaign_posts cp ON cp.title_variant_id = v.id
+LEFT JOIN campaign_post_metrics m ON m.post_id = cp.id AND m.checkpoint = '24h'
+GROUP BY v.id;
+
+COMMENT ON VIEW campaign_title_variant_stats IS 'Posted runs and average 24h score and comments of each title variant';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added title variant testing for recurring posts';
+END $$;
@@ -0,0 +1,23 @@
+-- Reddit Account Scheduler Tokens Migration
+-- The campaign scheduler and the token store read tokens from oauth_token and oauth_refresh_token,
+-- which were only ever added by hand. Add them so a database built from these migrations can run it.
+
+ALTER TABLE reddit_accounts
+ADD COLUMN IF NOT EXISTS oauth_token TEXT,
+ADD COLUMN IF NOT EXISTS oauth_refresh_token TEXT;
+
+-- Accounts connected through the app have their tokens under access_token and refresh_token
+UPDATE reddit_accounts
+SET
+  oauth_token = COALESCE(oauth_token, access_token),
+  oauth_refresh_token = COALESCE(oauth_refresh_token, refresh_token)
+WHERE oauth_token IS NULL OR oauth_refresh_token IS NULL;
+
+COMMENT ON COLUMN reddit_accounts.oauth_token IS 'Access token used by the campaign scheduler; kept equal to access_token by the token store';
+COMMENT ON COLUMN reddit_accounts.oauth_refresh_token IS 'Refresh token used by the campaign scheduler when the access token has expired';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added scheduler token columns to reddit_accounts';
+END $$;
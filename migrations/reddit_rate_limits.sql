@@ -0,0 +1,118 @@
+-- Reddit Rate Limits Migration
+-- Reddit's rate-limit budget per account, read from its X-Ratelimit-* headers and shared by every
+-- scheduler process and browser session as a token bucket
+
+CREATE TABLE IF NOT EXISTS reddit_rate_limits (
+  reddit_account_id UUID PRIMARY KEY REFERENCES reddit_accounts(id) ON DELETE CASCADE,
+  remaining INTEGER NOT NULL CHECK (remaining >= 0),
+  used INTEGER NOT NULL DEFAULT 0 CHECK (used >= 0),
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE reddit_rate_limits IS 'Requests a Reddit account has left in the current rate-limit window, as last reported by Reddit';
+COMMENT ON COLUMN reddit_rate_limits.reset_at IS 'When Reddit starts a new window and the budget is full again';
+
+-- Owners can see the budget of their accounts; changes go through the functions below
+ALTER TABLE reddit_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY reddit_rate_limits_select_policy ON reddit_rate_limits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM reddit_accounts ra
+      WHERE ra.id = reddit_rate_limits.reddit_account_id
+        AND ra.user_id = auth.uid()
+    )
+  );
+
+-- Take one request from an account's budget. granted is false when the window is used up, and
+-- the caller should wait until reset_at. A window that has passed starts again at p_limit.
+CREATE OR REPLACE FUNCTION public.take_reddit_rate_limit(
+  p_account_id UUID,
+  p_limit INTEGER DEFAULT 60,
+  p_window_seconds INTEGER DEFAULT 60
+)
+RETURNS TABLE (granted BOOLEAN, remaining INTEGER, used INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+#variable_conflict use_column
+DECLARE
+  v_row reddit_rate_limits%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM reddit_accounts WHERE id = p_account_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Reddit account not found';
+  END IF;
+
+  INSERT INTO reddit_rate_limits AS rl (reddit_account_id, remaining, used, reset_at)
+  VALUES (p_account_id, p_limit, 0, NOW() + make_interval(secs => p_window_seconds))
+  ON CONFLICT (reddit_account_id) DO UPDATE
+  SET remaining = p_limit,
+      used = 0,
+      reset_at = NOW() + make_interval(secs => p_window_seconds),
+      updated_at = NOW()
+  WHERE rl.reset_at <= NOW();
+
+  -- The row lock makes concurrent takes from other processes wait their turn
+  SELECT * INTO v_row FROM reddit_rate_limits WHERE reddit_account_id = p_account_id FOR UPDATE;
+
+  IF v_row.remaining > 0 THEN
+    UPDATE reddit_rate_limits
+    SET remaining = v_row.remaining - 1,
+        used = v_row.used + 1,
+        updated_at = NOW()
+    WHERE reddit_account_id = p_account_id;
+
+    RETURN QUERY SELECT TRUE, v_row.remaining - 1, v_row.used + 1, v_row.reset_at;
+  ELSE
+    RETURN QUERY SELECT FALSE, v_row.remaining, v_row.used, v_row.reset_at;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.take_reddit_rate_limit IS
+  'Takes one request from the shared rate-limit budget of a Reddit account';
+GRANT EXECUTE ON FUNCTION public.take_reddit_rate_limit TO authenticated, service_role;
+
+-- Store the budget Reddit reported in a response. Within the same window the lower remaining
+-- count wins, since responses to requests made in parallel arrive in any order.
+CREATE OR REPLACE FUNCTION public.report_reddit_rate_limit(
+  p_account_id UUID,
+  p_remaining INTEGER,
+  p_used INTEGER,
+  p_reset_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM reddit_accounts WHERE id = p_account_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Reddit account not found';
+  END IF;
+
+  INSERT INTO reddit_rate_limits AS rl (reddit_account_id, remaining, used, reset_at)
+  VALUES (p_account_id, GREATEST(p_remaining, 0), GREATEST(p_used, 0), p_reset_at)
+  ON CONFLICT (reddit_account_id) DO UPDATE
+  SET remaining = CASE
+        WHEN rl.reset_at > NOW() AND abs(extract(epoch FROM rl.reset_at - EXCLUDED.reset_at)) < 5
+          THEN LEAST(rl.remaining, EXCLUDED.remaining)
+        ELSE EXCLUDED.remaining
+      END,
+      used = CASE
+        WHEN rl.reset_at > NOW() AND abs(extract(epoch FROM rl.reset_at - EXCLUDED.reset_at)) < 5
+          THEN GREATEST(rl.used, EXCLUDED.used)
+        ELSE EXCLUDED.used
+      END,
+      reset_at = EXCLUDED.reset_at,
+      updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.report_reddit_rate_limit IS
+  'Stores the rate-limit budget Reddit reported for an account in its X-Ratelimit-* headers';
+GRANT EXECUTE ON FUNCTION public.report_reddit_rate_limit TO authenticated, service_role;
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added shared Reddit rate-limit budgets per account';
+END $$;
@@ -0,0 +1,14 @@
+-- Subreddit Post Requirements Migration
+-- Caches the title and body requirements from /api/v1/{subreddit}/post_requirements next to the
+-- flair catalog so the post editor can validate titles and bodies per subreddit
+
+ALTER TABLE subreddits
+ADD COLUMN IF NOT EXISTS post_requirements JSONB;
+
+COMMENT ON COLUMN subreddits.post_requirements IS 'Cached post requirements (title length, required and banned strings, body policy and length); synced with link_flairs';
+
+-- Log migration completion
+DO $$
+BEGIN
+  RAISE NOTICE 'Migration completed: Added cached subreddit post requirements';
+END $$;
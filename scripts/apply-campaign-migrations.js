@@ -0,0 +1,127 @@
+// Applies the campaign migrations in the order they were written
+//
+// Several of them redefine the same functions, each version building on the one before:
+// get_posts_for_processing, create_campaign_post_with_transaction, copy_post_options_to_recurring_post,
+// get_post_quota_hold and update_campaign_post_status. Run by file name they would leave older
+// versions live, so they run in the order below. Each file runs in one transaction through psql and
+// is recorded in campaign_migrations, so later runs only apply the new ones.
+//
+//   DATABASE_URL=<postgres connection string> npm run campaigns:migrate-all
+//
+// The campaign tables come from the base schema (campaigns_feature.sql, campaign_activity_tracking.sql,
+// fix_campaign_transactions.sql, fix_campaign_scheduler_race_condition.sql, media_tagging_system.sql),
+// which has to be in place first. On a database where these migrations were already run by hand,
+// pass --mark-applied to record them all without running them.
+import { execFileSync } from 'child_process';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import dotenv from 'dotenv';
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'migrations');
+
+// Oldest first; new campaign migrations go at the end
+export const CAMPAIGN_MIGRATIONS = [
+  'campaign_media_rotation.sql',
+  'campaign_ai_optimized_scheduling.sql',
+  'campaign_posting_rule_guard.sql',
+  'campaign_post_retry_policy.sql',
+  'campaign_gallery_posts.sql',
+  'campaign_native_media_upload.sql',
+  'campaign_post_flair_options.sql',
+  'campaign_post_first_comment.sql',
+  'campaign_post_performance.sql',
+  'campaign_post_removal_detection.sql',
+  'campaign_posting_quotas.sql',
+  'campaign_post_batches.sql',
+  'campaign_title_variants.sql',
+  'subreddit_post_requirements.sql',
+  'campaign_post_recurrence_rules.sql',
+  'add_timezone_to_profiles.sql',
+  'campaign_blackout_windows.sql',
+  'campaign_post_approval.sql',
+  'campaign_duplicate_detection.sql',
+  'campaign_templates.sql',
+  'campaign_crossposts.sql',
+  'reddit_rate_limits.sql',
+  'reddit_account_scheduler_tokens.sql',
+  'campaign_post_submission_resolution.sql',
+  'campaign_post_atomic_creation.sql',
+  'campaign_post_status_guard.sql',
+  'campaign_post_approval_edits.sql',
+  'campaign_inactive_posts.sql'
+];
+
+function psql(databaseUrl, args) {
+  try {
+    return execFileSync('psql', ['-d', databaseUrl, '-X', '-q', '-v', 'ON_ERROR_STOP=1', ...args], {
+      encoding: 'utf8',
+      env: { ...process.env, PGOPTIONS: '--client-min-messages=warning' }
+    });
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      throw new Error('psql is not installed');
+    }
+    throw error;
+  }
+}
+
+// Applies the migrations this database hasn't had yet and returns their names; throws on the first
+// one that fails, which is rolled back
+export function applyCampaignMigrations(databaseUrl, { markApplied = false, log = console.log } = {}) {
+  const hasCampaignPosts = psql(databaseUrl, ['-tA', '-c', "SELECT to_regclass('public.campaign_posts') IS NOT NULL"]).trim();
+  if (hasCampaignPosts !== 't') {
+    throw new Error('campaign_posts does not exist; apply the base campaign schema first');
+  }
+
+  // RLS without policies keeps the table out of the API
+  psql(databaseUrl, [
+    '-c', 'CREATE TABLE IF NOT EXISTS public.campaign_migrations (name TEXT PRIMARY KEY, applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW())',
+    '-c', 'ALTER TABLE public.campaign_migrations ENABLE ROW LEVEL SECURITY'
+  ]);
+
+  const applied = new Set(psql(databaseUrl, ['-tA', '-c', 'SELECT name FROM public.campaign_migrations']).split('\n').filter(Boolean));
+  const pending = CAMPAIGN_MIGRATIONS.filter(name => !applied.has(name));
+
+  for (const name of pending) {
+    const record = ['-c', `INSERT INTO public.campaign_migrations (name) VALUES ('${name}')`];
+    if (markApplied) {
+      psql(databaseUrl, record);
+      log(`📝 Marked as applied: ${name}`);
+      continue;
+    }
+
+    log(`⏳ Applying migration: ${name}`);
+    try {
+      psql(databaseUrl, ['-1', '-f', path.join(MIGRATIONS_DIR, name), ...record]);
+    } catch (error) {
+      throw new Error(`Migration ${name} failed: ${(error.stderr || error.message).trim()}`);
+    }
+  }
+
+  // Supabase's API picks up the new functions once it reloads its schema cache
+  if (pending.length > 0 && !markApplied) {
+    psql(databaseUrl, ['-c', "NOTIFY pgrst, 'reload schema'"]);
+  }
+
+  return pending;
+}
+
+// Run on its own with `npm run campaigns:migrate-all`
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  dotenv.config();
+
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    console.error('Error: Missing DATABASE_URL');
+    console.error('Use the database connection string from the Supabase dashboard, or DB_URL from `supabase status` for a local stack');
+    process.exit(1);
+  }
+
+  try {
+    const pending = applyCampaignMigrations(databaseUrl, { markApplied: process.argv.includes('--mark-applied') });
+    console.log(pending.length === 0 ? '✅ Campaign migrations are up to date' : `✅ ${pending.length} campaign migrations done`);
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+}
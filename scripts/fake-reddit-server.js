@@ -0,0 +1,404 @@
+// Fake Reddit API for development and automated tests
+//
+// Serves the endpoints SubPirate uses from memory, so campaigns can be run without Reddit.
+// Point the app at it with VITE_REDDIT_API_URL=http://localhost:4300 (the port is FAKE_REDDIT_PORT).
+//
+// Tokens are made up from the username: the refresh token of u/alice is fake-refresh-alice and
+// her access tokens start with fake-access-alice. Anything else belongs to FAKE_REDDIT_USER.
+//
+// Failures are scripted with POST /__fake/failures, or at startup with FAKE_REDDIT_FAILURES set to
+// the same JSON array. Each failure is { mode, times?, subreddit?, username? }, where mode is:
+//   rate_limit     requests, token requests included, get a 429 with an empty rate-limit budget
+//   invalid_grant  token refreshes are rejected as if the refresh token was revoked
+//   banned         submissions are refused and the subreddit looks banned
+//   removed        submissions succeed but the posts show as removed by the moderators
+// A failure applies times times (default 1, 0 for every time) to requests that match its
+// subreddit and username when those are given.
+import express from 'express';
+import { pathToFileURL } from 'url';
+
+const DEFAULT_PORT = 4300;
+const DEFAULT_USER = process.env.FAKE_REDDIT_USER || 'fake_user';
+// Reddit allows 600 requests per 10 minutes per OAuth token
+const RATE_LIMIT = 600;
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const FAILURE_MODES = ['rate_limit', 'invalid_grant', 'banned', 'removed'];
+
+function createState() {
+  return {
+    posts: [],
+    comments: [],
+    failures: [],
+    rateLimits: new Map(),
+    nextId: 1
+  };
+}
+
+function usernameFromToken(token, kind) {
+  const match = token?.match(new RegExp(`^fake-${kind}-([A-Za-z0-9_-]+?)(?:-\\d+)?$`));
+  return match ? match[1] : DEFAULT_USER;
+}
+
+function listing(children, after = null) {
+  return { kind: 'Listing', data: { after, before: null, dist: children.length, children } };
+}
+
+function subredditAbout(name) {
+  return {
+    display_name: name,
+    title: `r/${name}`,
+    description: `The fake r/${name}`,
+    public_description: `The fake r/${name}`,
+    subscribers: 12000,
+    active_user_count: 150,
+    created_utc: 1500000000,
+    over18: false,
+    icon_img: '',
+    community_icon: '',
+    submission_type: 'any',
+    restrict_posting: false,
+    allow_images: true,
+    allow_videos: true,
+    allow_galleries: true,
+    is_crosspostable_subreddit: true
+  };
+}
+
+function subredditRules(name) {
+  return [
+    { kind: 'all', short_name: 'Be civil', description: `Keep it friendly in r/${name}.`, priority: 0 },
+    { kind: 'link', short_name: 'No spam', description: 'No more than one post a day.', priority: 1 }
+  ];
+}
+
+function postData(post) {
+  return {
+    id: post.id,
+    name: `t3_${post.id}`,
+    title: post.title,
+    author: post.author,
+    subreddit: post.subreddit,
+    created_utc: post.created_utc,
+    score: post.score,
+    upvote_ratio: 1,
+    num_comments: post.num_comments,
+    url: post.url,
+    selftext: post.removed ? '[removed]' : post.text || '',
+    permalink: post.permalink,
+    thumbnail: 'self',
+    stickied: false,
+    over_18: Boolean(post.nsfw),
+    removed_by_category: post.removed ? 'moderator' : null,
+    link_flair_text: post.flair_text || null
+  };
+}
+
+export function createFakeRedditServer(options = {}) {
+  const state = createState();
+  const app = express();
+  let baseUrl = options.baseUrl || `http://localhost:${options.port || DEFAULT_PORT}`;
+
+  app.use(express.urlencoded({ extended: true }));
+  app.use(express.json());
+
+  // Take the first scripted failure of a mode that matches, counting it down
+  const takeFailure = (mode, { subreddit, username } = {}) => {
+    const index = state.failures.findIndex(failure =>
+      failure.mode === mode &&
+      (!failure.subreddit || failure.subreddit.toLowerCase() === subreddit?.toLowerCase()) &&
+      (!failure.username || failure.username.toLowerCase() === username?.toLowerCase())
+    );
+    if (index === -1) return null;
+
+    const failure = state.failures[index];
+    if (failure.times > 0) {
+      failure.times -= 1;
+      if (failure.times === 0) state.failures.splice(index, 1);
+    }
+    return failure;
+  };
+
+  const addFailures = (failures) => {
+    for (const failure of [].concat(failures)) {
+      if (!FAILURE_MODES.includes(failure?.mode)) {
+        throw new Error(`Unknown failure mode: ${failure?.mode}. Use one of ${FAILURE_MODES.join(', ')}`);
+      }
+      state.failures.push({ ...failure, times: failure.times ?? 1 });
+    }
+  };
+
+  // Reddit's routes answer with and without .json
+  const route = (path) => [path, `${path}.json`];
+
+  // Control endpoints for tests, outside Reddit's own paths
+  app.get('/__fake/state', (req, res) => {
+    res.json({ posts: state.posts, comments: state.comments, failures: state.failures });
+  });
+
+  app.post('/__fake/failures', (req, res) => {
+    try {
+      addFailures(req.body);
+      res.json({ failures: state.failures });
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post('/__fake/reset', (req, res) => {
+    Object.assign(state, createState());
+    res.json({ ok: true });
+  });
+
+  // OAuth: authorizing redirects straight back with a code for ?username= (or the default user)
+  app.get('/api/v1/authorize', (req, res) => {
+    const redirect = new URL(req.query.redirect_uri);
+    redirect.searchParams.set('code', `fake-code-${req.query.username || DEFAULT_USER}`);
+    redirect.searchParams.set('state', req.query.state || '');
+    res.redirect(redirect.toString());
+  });
+
+  app.post('/api/v1/access_token', (req, res) => {
+    const { grant_type: grantType, refresh_token: refreshToken, code } = req.body;
+    const username = grantType === 'authorization_code'
+      ? usernameFromToken(code, 'code')
+      : usernameFromToken(refreshToken, 'refresh');
+
+    if (grantType === 'refresh_token' && takeFailure('invalid_grant', { username })) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+    if (takeFailure('rate_limit', { username })) {
+      return res.status(429).json({ error: 'too_many_requests' });
+    }
+    if (!['refresh_token', 'authorization_code'].includes(grantType)) {
+      return res.status(400).json({ error: 'unsupported_grant_type' });
+    }
+
+    res.json({
+      access_token: `fake-access-${username}-${state.nextId++}`,
+      token_type: 'bearer',
+      expires_in: 3600,
+      scope: '*',
+      ...(grantType === 'authorization_code' ? { refresh_token: `fake-refresh-${username}` } : {})
+    });
+  });
+
+  // Every other request counts against the caller's budget and carries Reddit's rate-limit headers
+  app.use((req, res, next) => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '') || null;
+    req.username = token ? usernameFromToken(token, 'access') : null;
+
+    const key = req.username || req.ip;
+    const now = Date.now();
+    let budget = state.rateLimits.get(key);
+    if (!budget || now >= budget.resetAt) {
+      budget = { used: 0, resetAt: now + RATE_LIMIT_WINDOW_MS };
+      state.rateLimits.set(key, budget);
+    }
+
+    const subreddit = req.body?.sr || req.path.match(/^\/r\/([^/]+)/)?.[1];
+    const limited = budget.used >= RATE_LIMIT || takeFailure('rate_limit', { subreddit, username: req.username });
+    if (!limited) budget.used += 1;
+
+    res.set({
+      'x-ratelimit-used': String(limited ? RATE_LIMIT : budget.used),
+      'x-ratelimit-remaining': limited ? '0.0' : `${RATE_LIMIT - budget.used}.0`,
+      'x-ratelimit-reset': String(Math.ceil((budget.resetAt - now) / 1000))
+    });
+
+    if (limited) {
+      return res.status(429).json({ message: 'Too Many Requests', error: 429 });
+    }
+    next();
+  });
+
+  app.get(route('/api/v1/me'), (req, res) => {
+    if (!req.username) return res.status(401).json({ message: 'Unauthorized', error: 401 });
+    res.json({ name: req.username, id: req.username, total_karma: 1200, link_karma: 1000, comment_karma: 200, created_utc: 1500000000 });
+  });
+
+  app.get(route('/r/:subreddit/about'), (req, res) => {
+    const { subreddit } = req.params;
+    if (takeFailure('banned', { subreddit, username: req.username })) {
+      return res.status(403).json({ reason: 'banned', message: 'Forbidden', error: 403 });
+    }
+    res.json({ kind: 't5', data: subredditAbout(subreddit) });
+  });
+
+  app.get(route('/r/:subreddit/about/rules'), (req, res) => {
+    res.json({ rules: subredditRules(req.params.subreddit), site_rules: [] });
+  });
+
+  app.get('/r/:subreddit/api/link_flair_v2', (req, res) => {
+    res.json([
+      { id: 'fake-flair-discussion', text: 'Discussion', text_editable: false, mod_only: false },
+      { id: 'fake-flair-oc', text: 'OC', text_editable: true, mod_only: false }
+    ]);
+  });
+
+  app.get('/api/v1/:subreddit/post_requirements', (req, res) => {
+    res.json({ is_flair_required: false, title_required_strings: [], title_blacklisted_strings: [], body_restriction_policy: 'none' });
+  });
+
+  app.get(route('/r/:subreddit/:sort(hot|new|top|rising)'), (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 25, 100);
+    const posts = state.posts
+      .filter(post => post.subreddit.toLowerCase() === req.params.subreddit.toLowerCase())
+      .sort((a, b) => (req.params.sort === 'top' ? b.score - a.score : b.created_utc - a.created_utc))
+      .slice(0, limit);
+    res.json(listing(posts.map(post => ({ kind: 't3', data: postData(post) }))));
+  });
+
+  app.get(route('/r/:subreddit/comments/:id'), (req, res) => {
+    const post = state.posts.find(item =>
+      item.id === req.params.id && item.subreddit.toLowerCase() === req.params.subreddit.toLowerCase()
+    );
+    if (!post) return res.status(404).json({ message: 'Not Found', error: 404 });
+
+    const comments = state.comments.filter(comment => comment.parent === `t3_${post.id}`);
+    res.json([
+      listing([{ kind: 't3', data: postData(post) }]),
+      listing(comments.map(comment => ({
+        kind: 't1',
+        data: { id: comment.id, name: `t1_${comment.id}`, author: comment.author, body: comment.text, stickied: comment.stickied }
+      })))
+    ]);
+  });
+
+  app.get(route('/subreddits/search'), (req, res) => {
+    const query = String(req.query.q || 'fake').replace(/[^A-Za-z0-9_]/g, '') || 'fake';
+    res.json(listing([{ kind: 't5', data: subredditAbout(query) }]));
+  });
+
+  app.get(route('/user/:username/about'), (req, res) => {
+    const name = req.params.username;
+    res.json({ kind: 't2', data: { name, link_karma: 1000, comment_karma: 200, created_utc: 1500000000, icon_img: '', is_suspended: false } });
+  });
+
+  app.get(route('/user/:username/submitted'), (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 25, 100);
+    const posts = state.posts
+      .filter(post => post.author.toLowerCase() === req.params.username.toLowerCase())
+      .sort((a, b) => b.created_utc - a.created_utc)
+      .slice(0, limit);
+    res.json(listing(posts.map(post => ({ kind: 't3', data: postData(post) }))));
+  });
+
+  app.get(route('/api/info'), (req, res) => {
+    const ids = String(req.query.id || '').split(',').map(id => id.replace(/^t3_/, ''));
+    const posts = state.posts.filter(post => ids.includes(post.id));
+    res.json(listing(posts.map(post => ({ kind: 't3', data: postData(post) }))));
+  });
+
+  const submit = (req, res, kind) => {
+    if (!req.username) return res.status(401).json({ message: 'Unauthorized', error: 401 });
+
+    const subreddit = String(req.body.sr || '').replace(/^\/?r\//i, '');
+    if (!subreddit) {
+      return res.json({ json: { errors: [['SUBREDDIT_REQUIRED', 'you must specify a subreddit', 'sr']] } });
+    }
+    if (takeFailure('banned', { subreddit, username: req.username })) {
+      return res.json({ json: { errors: [['SUBREDDIT_NOTALLOWED', "you aren't allowed to post there.", 'sr']] } });
+    }
+
+    const id = `fake${(state.nextId++).toString(36)}`;
+    const slug = String(req.body.title || 'post').toLowerCase().replace(/[^a-z0-9]+/g, '_').slice(0, 40);
+    const post = {
+      id,
+      kind,
+      subreddit,
+      author: req.username,
+      title: req.body.title,
+      text: req.body.text,
+      url: req.body.url || `${baseUrl}/r/${subreddit}/comments/${id}/${slug}/`,
+      crosspost_fullname: req.body.crosspost_fullname,
+      flair_id: req.body.flair_id,
+      flair_text: req.body.flair_text,
+      nsfw: req.body.nsfw === true || req.body.nsfw === 'true',
+      created_utc: Math.floor(Date.now() / 1000),
+      score: 1,
+      num_comments: 0,
+      permalink: `/r/${subreddit}/comments/${id}/${slug}/`,
+      removed: Boolean(takeFailure('removed', { subreddit, username: req.username }))
+    };
+    state.posts.push(post);
+
+    res.json({ json: { errors: [], data: { id, name: `t3_${id}`, url: `${baseUrl}${post.permalink}`, permalink: post.permalink } } });
+  };
+
+  app.post('/api/submit', (req, res) => submit(req, res, req.body.kind || 'self'));
+  app.post('/api/submit_gallery_post.json', (req, res) => submit(req, res, 'gallery'));
+
+  // Media uploads are leased here and "stored" by the upload endpoint below
+  app.post(route('/api/media/asset'), (req, res) => {
+    const assetId = `fakeasset${state.nextId++}`;
+    res.json({
+      args: { action: `${baseUrl}/__fake/media`, fields: [{ name: 'key', value: `${assetId}/${req.body.filepath || 'upload'}` }] },
+      asset: { asset_id: assetId }
+    });
+  });
+
+  app.post('/__fake/media', (req, res) => {
+    req.resume();
+    req.on('end', () => res.status(201).end());
+  });
+
+  app.post('/api/comment', (req, res) => {
+    if (!req.username) return res.status(401).json({ message: 'Unauthorized', error: 401 });
+
+    const id = `fakec${(state.nextId++).toString(36)}`;
+    const comment = { id, parent: req.body.thing_id, author: req.username, text: req.body.text, distinguished: false, stickied: false };
+    state.comments.push(comment);
+
+    const post = state.posts.find(item => `t3_${item.id}` === req.body.thing_id);
+    if (post) post.num_comments += 1;
+
+    res.json({ json: { errors: [], data: { things: [{ kind: 't1', data: { id, name: `t1_${id}`, permalink: `${post?.permalink || '/'}${id}/` } }] } } });
+  });
+
+  app.post('/api/distinguish', (req, res) => {
+    const comment = state.comments.find(item => `t1_${item.id}` === req.body.id);
+    if (!comment) {
+      return res.json({ json: { errors: [['NO_THING_ID', 'no such comment', 'id']] } });
+    }
+
+    comment.distinguished = true;
+    comment.stickied = req.body.sticky === 'true';
+    res.json({ json: { errors: [] } });
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ message: 'Not Found', error: 404 });
+  });
+
+  if (options.failures) {
+    addFailures(options.failures);
+  }
+
+  return {
+    app,
+    state,
+    addFailures,
+    reset: () => Object.assign(state, createState()),
+    listen(port = options.port || DEFAULT_PORT) {
+      return new Promise(resolve => {
+        const server = app.listen(port, () => {
+          baseUrl = options.baseUrl || `http://localhost:${server.address().port}`;
+          resolve(server);
+        });
+      });
+    }
+  };
+}
+
+// Run on its own with `npm run reddit:fake`
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const port = Number(process.env.FAKE_REDDIT_PORT) || DEFAULT_PORT;
+  const failures = process.env.FAKE_REDDIT_FAILURES ? JSON.parse(process.env.FAKE_REDDIT_FAILURES) : undefined;
+
+  createFakeRedditServer({ port, failures })
+    .listen(port)
+    .then(() => {
+      console.log(`Fake Reddit API listening on http://localhost:${port}`);
+      console.log(`Set VITE_REDDIT_API_URL=http://localhost:${port} to use it`);
+    });
+}
@@ -1,7 +1,7 @@
 import React from 'react';
 import { supabase } from '../lib/supabase';
+import { redditClient } from '../lib/redditClient/browser';
 import { History, TrendingUp } from 'lucide-react';
-import { redditApi } from '../lib/redditApi';
 
 interface FrequentSearch {
   username: string;
@@ -24,18 +24,12 @@ function FrequentSearches({ onUsernameClick }: FrequentSearchesProps) {
     const updatedSearches = await Promise.all(
       searches.map(async (search) => {
         try {
-          const response = await fetch(`https://www.reddit.com/user/${search.username}/about.json`);
-          if (!response.ok) return search;
-          
-          const data = await response.json();
-          const avatarUrl = data?.data?.icon_img || data?.data?.snoovatar_img || null;
-          
-          // Remove query parameters from the URL if they exist
-          const cleanAvatarUrl = avatarUrl ? avatarUrl.split('?')[0] : null;
+          const userInfo = await redditClient.getUserInfo(search.username);
+          if (!userInfo) return search;
           
           return {
             ...search,
-            reddit_avatar_url: cleanAvatarUrl
+            reddit_avatar_url: userInfo.avatar_url
           };
         } catch (err) {
           console.error(`Error fetching avatar for ${search.username}:`, err);
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { format } from 'date-fns';
 import { createPortal } from 'react-dom';
+import { formatInTimezone, toZoned } from '../lib/timezone';
 
 interface Post {
   title: string;
@@ -11,6 +11,7 @@ interface Post {
 
 interface Props {
   posts: Post[];
+  timeZone: string; // Posts are placed by their day and hour in this timezone
 }
 
 const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -26,7 +27,7 @@ function interpolateColor(intensity: number): string {
   return `rgb(${r}, ${g}, ${b})`;
 }
 
-export const HeatmapChart = React.memo(function HeatmapChart({ posts }: Props) {
+export const HeatmapChart = React.memo(function HeatmapChart({ posts, timeZone }: Props) {
   const [tooltipData, setTooltipData] = useState<{
     posts: Post[];
     position: { x: number; y: number };
@@ -49,16 +50,14 @@ export const HeatmapChart = React.memo(function HeatmapChart({ posts }: Props) {
 
     // Fill the grid with posts
     posts.forEach(post => {
-      const date = new Date(post.created_utc * 1000);
-      const day = date.getDay();
-      const hour = date.getHours();
+      const { weekday: day, hour } = toZoned(new Date(post.created_utc * 1000), timeZone);
       newGrid[day][hour].posts.push(post);
       // Calculate weighted score (75% upvotes, 25% comments)
       newGrid[day][hour].score += (post.score * 0.75 + post.num_comments * 0.25);
     });
     
     return newGrid;
-  }, [posts]);
+  }, [posts, timeZone]);
 
   // Find the maximum score for normalization
   const maxScore = React.useMemo(() => 
@@ -384,7 +383,7 @@ export const HeatmapChart = React.memo(function HeatmapChart({ posts }: Props) {
                     {post.num_comments.toLocaleString()} comments
                   </div>
                   <div className="text-gray-500 ml-auto">
-                    {format(new Date(post.created_utc * 1000), 'h:mm a')}
+                    {formatInTimezone(new Date(post.created_utc * 1000), timeZone, { hour: 'numeric', minute: '2-digit' })}
                   </div>
                 </div>
               </div>
@@ -3,6 +3,8 @@ import * as LucideIcons from 'lucide-react';
 import type { AnalysisResult } from '../lib/analysis';
 import { supabase } from '../lib/supabase';
 import SaveToProjectModal from './SaveToProjectModal';
+import { useTimezone } from '../hooks/useTimezone';
+import { localizeBestTime } from '../lib/timezone';
 
 interface SavedSubreddit {
   id: string;
@@ -33,6 +35,7 @@ interface SubredditAnalysisProps {
 }
 
 function SubredditAnalysis({ analysis, isLoading, error }: SubredditAnalysisProps) {
+  const timeZone = useTimezone();
   const [showDetailedRules, setShowDetailedRules] = useState(true);
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -368,7 +371,7 @@ function SubredditAnalysis({ analysis, isLoading, error }: SubredditAnalysisProp
               {postingLimits.bestTimeToPost.map((time: string, index: number) => (
                 <li key={index} className="flex items-start gap-2">
                   <span className="text-[#C69B7B]">•</span>
-                  <span>{time}</span>
+                  <span>{localizeBestTime(time, timeZone)}</span>
                 </li>
               ))}
             </ul>
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+
+export interface BatchOptions {
+  bulkSubredditIds: string[];
+  bulkProjectId: string;
+  batchName: string;
+}
+
+interface BatchSubredditsEditorProps {
+  subreddits: { id: string; name: string }[];
+  options: BatchOptions;
+  onChange: (updates: Partial<BatchOptions>) => void;
+}
+
+interface ProjectSubreddits {
+  id: string;
+  name: string;
+  subreddit_ids: string[];
+}
+
+const inputClasses = 'w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+// Picks the subreddits a batch posts to, one by one or a whole project's at once
+const BatchSubredditsEditor: React.FC<BatchSubredditsEditorProps> = ({ subreddits, options, onChange }) => {
+  const { bulkSubredditIds, bulkProjectId, batchName } = options;
+  const [projects, setProjects] = useState<ProjectSubreddits[]>([]);
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    supabase
+      .from('projects')
+      .select('id, name, project_subreddits(subreddit_id)')
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching projects:', error);
+          return;
+        }
+        setProjects((data || []).map(project => ({
+          id: project.id,
+          name: project.name,
+          subreddit_ids: (project.project_subreddits || []).map((ps: { subreddit_id: string }) => ps.subreddit_id)
+        })));
+      });
+  }, []);
+
+  const toggleSubreddit = (id: string) => {
+    onChange({
+      bulkSubredditIds: bulkSubredditIds.includes(id)
+        ? bulkSubredditIds.filter(existing => existing !== id)
+        : [...bulkSubredditIds, id]
+    });
+  };
+
+  const handleProjectSelect = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    onChange({
+      bulkProjectId: projectId,
+      bulkSubredditIds: project
+        ? Array.from(new Set([...bulkSubredditIds, ...project.subreddit_ids]))
+        : bulkSubredditIds
+    });
+  };
+
+  const filteredSubreddits = subreddits.filter(sub => sub.name.toLowerCase().includes(filter.toLowerCase()));
+
+  return (
+    <div className="space-y-3">
+      {projects.length > 0 && (
+        <div>
+          <label htmlFor="bulkProject" className="block text-sm font-medium text-gray-200 mb-1.5">
+            Add a project's subreddits
+          </label>
+          <select
+            id="bulkProject"
+            value={bulkProjectId}
+            onChange={(e) => handleProjectSelect(e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">No project</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>
+                {project.name} ({project.subreddit_ids.length})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="bulkSubredditSearch" className="block text-sm font-medium text-gray-200 mb-1.5">
+          Subreddits * <span className="text-gray-500 font-normal">({bulkSubredditIds.length} selected)</span>
+        </label>
+        <input
+          id="bulkSubredditSearch"
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter subreddits"
+          className={`${inputClasses} mb-2`}
+        />
+        <div className="bg-[#1A1A1A] border border-[#333333] rounded-md max-h-48 overflow-auto">
+          {filteredSubreddits.length > 0 ? (
+            filteredSubreddits.map(sub => (
+              <label key={sub.id} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-200 hover:bg-[#252525] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bulkSubredditIds.includes(sub.id)}
+                  onChange={() => toggleSubreddit(sub.id)}
+                  className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+                />
+                r/{sub.name}
+              </label>
+            ))
+          ) : (
+            <div className="px-3 py-2 text-sm text-gray-400">No subreddits found</div>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="batchName" className="block text-sm font-medium text-gray-200 mb-1.5">
+          Batch Name
+        </label>
+        <input
+          id="batchName"
+          type="text"
+          value={batchName}
+          onChange={(e) => onChange({ batchName: e.target.value })}
+          placeholder="Defaults to the post title"
+          className={inputClasses}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BatchSubredditsEditor;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Moon, Play, Trash2 } from 'lucide-react';
+import { BlackoutWindow } from '../../features/campaigns/types';
+import { BlackoutService } from '../../features/campaigns/services/blackouts';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone, parseZonedInput } from '../../lib/timezone';
+
+interface BlackoutWindowsEditorProps {
+  campaignId: string;
+  accounts: Array<{ id: string; username: string }>;
+  windows: BlackoutWindow[];
+  onChanged: () => Promise<void>;
+}
+
+const inputClasses = 'bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-200 px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+const BlackoutWindowsEditor: React.FC<BlackoutWindowsEditorProps> = ({ campaignId, accounts, windows, onChanged }) => {
+  const timeZone = useTimezone();
+  const [scope, setScope] = useState('campaign');
+  const [startDate, setStartDate] = useState('');
+  const [startTime, setStartTime] = useState('00:00');
+  const [endDate, setEndDate] = useState('');
+  const [endTime, setEndTime] = useState('00:00');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (key: string, action: () => Promise<string | void>) => {
+    setSaving(key);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update blackout window');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const describeScope = (blackout: BlackoutWindow) => {
+    if (blackout.campaign_id) return 'This campaign';
+    const account = accounts.find(a => a.id === blackout.reddit_account_id);
+    return `u/${account?.username || 'unknown'} (all campaigns)`;
+  };
+
+  const formatTime = (value: string) =>
+    formatInTimezone(value, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const describeWindow = (blackout: BlackoutWindow) => {
+    if (blackout.resumed_at) return `${formatTime(blackout.starts_at)} – ${formatTime(blackout.ends_at || blackout.resumed_at)}`;
+    if (!blackout.ends_at) return `Paused since ${formatTime(blackout.starts_at)}, until resumed`;
+    return `${formatTime(blackout.starts_at)} – ${formatTime(blackout.ends_at)}`;
+  };
+
+  const addWindow = () => run('new', async () => {
+    const startsAt = parseZonedInput(startDate, startTime, timeZone);
+    const endsAt = endDate ? parseZonedInput(endDate, endTime, timeZone) : null;
+
+    if (isNaN(startsAt.getTime()) || (endsAt && isNaN(endsAt.getTime()))) {
+      throw new Error('Enter a valid start and end');
+    }
+
+    await BlackoutService.createWindow({
+      ...(scope === 'campaign' ? { campaign_id: campaignId } : { reddit_account_id: scope }),
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt ? endsAt.toISOString() : null,
+      reason: reason.trim() || undefined
+    });
+
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  });
+
+  const resume = (blackout: BlackoutWindow) => run(blackout.id, async () => {
+    const shifted = await BlackoutService.resume(blackout.id);
+    return shifted > 0
+      ? `Resumed; shifted ${shifted} post${shifted === 1 ? '' : 's'} forward`
+      : 'Resumed; no posts were missed';
+  });
+
+  const now = new Date();
+  const current = windows.filter(blackout => !blackout.resumed_at);
+  const past = windows.filter(blackout => blackout.resumed_at).slice(0, 5);
+
+  return (
+    <div className="bg-[#111111] rounded-lg p-4 border border-[#222222] space-y-5">
+      {error && (
+        <p className="text-sm text-red-400">{error}</p>
+      )}
+      {message && (
+        <p className="text-sm text-gray-300">{message}</p>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-200 mb-1 flex items-center gap-2">
+          <Moon size={16} className="text-[#C69B7B]" />
+          Blackout Windows
+        </h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Nothing is posted during a window. Posts that come due are shifted forward once it ends, keeping their spacing.
+          Account windows apply to every campaign that posts with the account.
+        </p>
+
+        {current.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming or active windows.</p>
+        ) : (
+          <div className="space-y-2">
+            {current.map(blackout => {
+              const active = BlackoutService.isActive(blackout, now);
+              return (
+                <div key={blackout.id} className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className={`px-2 py-0.5 rounded text-xs ${
+                    active
+                      ? 'bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30'
+                      : 'bg-[#1A1A1A] text-gray-300 border border-[#333333]'
+                  }`}>
+                    {active ? 'Active' : 'Upcoming'}
+                  </span>
+                  <span className="text-gray-300 w-48 truncate">{describeScope(blackout)}</span>
+                  <span className="text-gray-400">{describeWindow(blackout)}</span>
+                  {blackout.reason && (
+                    <span className="text-xs text-gray-500 truncate max-w-xs" title={blackout.reason}>{blackout.reason}</span>
+                  )}
+                  {active ? (
+                    <button
+                      onClick={() => resume(blackout)}
+                      disabled={saving === blackout.id}
+                      className="flex items-center gap-1 text-xs text-[#C69B7B] hover:text-white disabled:opacity-50"
+                      title="End the window now and shift missed posts forward"
+                    >
+                      <Play size={12} />
+                      Resume now
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => run(blackout.id, () => BlackoutService.deleteWindow(blackout.id))}
+                      disabled={saving === blackout.id}
+                      className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 disabled:opacity-50"
+                    >
+                      <Trash2 size={12} />
+                      Remove
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-200 mb-1">Add a Window</h3>
+        <p className="text-xs text-gray-500 mb-3">Times in {timeZone}. Leave the end empty to pause until resumed.</p>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select value={scope} onChange={(e) => setScope(e.target.value)} className={inputClasses}>
+            <option value="campaign">This campaign</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>u/{account.username} (all campaigns)</option>
+            ))}
+          </select>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClasses} />
+          <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClasses} />
+          <span className="text-gray-500">to</span>
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClasses} />
+          <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClasses} />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className={`${inputClasses} w-48`}
+          />
+          <button
+            onClick={addWindow}
+            disabled={saving === 'new' || !startDate}
+            className="text-xs text-[#C69B7B] hover:text-white disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {past.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-200 mb-2">Recent</h3>
+          <div className="space-y-1 text-xs text-gray-500">
+            {past.map(blackout => (
+              <p key={blackout.id}>
+                {describeScope(blackout)}: {describeWindow(blackout)}{blackout.reason ? ` — ${blackout.reason}` : ''}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlackoutWindowsEditor;
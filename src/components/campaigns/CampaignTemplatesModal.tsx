@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Copy, Download, Trash2, Upload, X } from 'lucide-react';
+import Modal from '../Modal';
+import { CampaignTemplate } from '../../features/campaigns/types';
+import { CampaignTemplateService } from '../../features/campaigns/services/templates';
+
+interface CampaignTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUse: (template: CampaignTemplate) => void;
+}
+
+const CampaignTemplatesModal: React.FC<CampaignTemplatesModalProps> = ({ isOpen, onClose, onUse }) => {
+  const [templates, setTemplates] = useState<CampaignTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTemplates(await CampaignTemplateService.getTemplates());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      loadTemplates();
+    }
+  }, [isOpen, loadTemplates]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setSaving(key);
+    setError(null);
+    try {
+      await action();
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update templates');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run('import', async () => {
+      await CampaignTemplateService.importJson(await file.text());
+    });
+  };
+
+  const handleExport = (template: CampaignTemplate) => {
+    const json = CampaignTemplateService.toJson(template);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    link.download = `${template.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'campaign'}.template.json`;
+    link.click();
+  };
+
+  const handleDelete = (template: CampaignTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Campaigns made from it are kept.`)) {
+      return;
+    }
+
+    run(template.id, () => CampaignTemplateService.deleteTemplate(template.id));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-[#111111] p-6 rounded-lg shadow-md border border-[#222222] max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Campaign Templates</h2>
+            <p className="text-gray-400 text-sm mt-1">Start a campaign from a saved plan</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[#1A1A1A] rounded-full transition-all duration-200"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-400" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/30 text-red-400 rounded-lg text-sm">{error}</div>
+        )}
+
+        {loading && templates.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No templates yet. Save a campaign as a template from its page, or import one exported from another workspace.
+          </p>
+        ) : (
+          <div className="divide-y divide-[#222222]">
+            {templates.map(template => (
+              <div key={template.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{template.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {template.definition.posts.length} post{template.definition.posts.length === 1 ? '' : 's'}
+                    {template.definition.variables.length > 0 && ` · ${template.definition.variables.map(variable => `{{${variable.name}}}`).join(', ')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onUse(template)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-[#C69B7B]/20 text-[#C69B7B] border border-[#C69B7B]/30 hover:bg-[#C69B7B]/30"
+                  >
+                    <Copy size={12} />
+                    Use
+                  </button>
+                  <button
+                    onClick={() => handleExport(template)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Export as JSON"
+                  >
+                    <Download size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    disabled={saving === template.id}
+                    className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-50"
+                    title="Delete template"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end pt-5 mt-5 border-t border-[#222222]">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={saving === 'import'}
+            className="px-4 py-2 text-sm font-medium text-gray-300 bg-[#1A1A1A] border border-[#333333] rounded-md hover:bg-[#252525] transition-all duration-200 flex items-center gap-2 disabled:opacity-50"
+          >
+            <Upload size={14} />
+            {saving === 'import' ? 'Importing...' : 'Import JSON'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CampaignTemplatesModal;
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import Modal from '../Modal';
+import { supabase } from '../../lib/supabase';
+import { CampaignTemplateDefinition, CloneCampaignResult } from '../../features/campaigns/types';
+import { CampaignTemplateService } from '../../features/campaigns/services/templates';
+import { useTimezone } from '../../hooks/useTimezone';
+import { parseZonedInput, toZoned } from '../../lib/timezone';
+
+interface CloneCampaignModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  definition: CampaignTemplateDefinition | null;
+  title: string;
+  onCloned: (result: CloneCampaignResult) => void;
+}
+
+const inputClasses = 'w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+const CloneCampaignModal: React.FC<CloneCampaignModalProps> = ({ isOpen, onClose, definition, title, onCloned }) => {
+  const timeZone = useTimezone();
+  const [redditAccounts, setRedditAccounts] = useState<{ id: string; username: string }[]>([]);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [startTime, setStartTime] = useState('12:00');
+  const [accountMap, setAccountMap] = useState<Record<string, string>>({});
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isActive, setIsActive] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<CloneCampaignResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !definition) return;
+
+    const { year, month, day } = toZoned(new Date(Date.now() + 24 * 60 * 60 * 1000), timeZone);
+    setName(definition.campaign.name);
+    setStartDate(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+    setStartTime('12:00');
+    setValues(Object.fromEntries(definition.variables.map(variable => [variable.name, variable.default_value || ''])));
+    setIsActive(true);
+    setError(null);
+    setResult(null);
+
+    supabase
+      .from('reddit_accounts')
+      .select('id, username')
+      .eq('is_active', true)
+      .then(({ data, error: accountsError }) => {
+        if (accountsError) {
+          console.error('Error fetching Reddit accounts:', accountsError);
+          return;
+        }
+        const accounts = data || [];
+        setRedditAccounts(accounts);
+        // Accounts with the same username map to themselves
+        setAccountMap(Object.fromEntries(definition.accounts.map(username => [
+          username,
+          accounts.find(account => account.username.toLowerCase() === username.toLowerCase())?.id || ''
+        ])));
+      });
+  }, [isOpen, definition, timeZone]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!definition) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const cloned = await CampaignTemplateService.cloneCampaign(definition, {
+        name: CampaignTemplateService.fillVariables(name, values),
+        start_at: parseZonedInput(startDate, startTime, timeZone).toISOString(),
+        accounts: accountMap,
+        variables: values,
+        is_active: isActive
+      });
+
+      if (cloned.skipped.length > 0) {
+        setResult(cloned);
+      } else {
+        onCloned(cloned);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while creating the campaign');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-[#111111] p-6 rounded-lg shadow-md border border-[#222222] max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white">{title}</h2>
+            <p className="text-gray-400 text-sm mt-1">
+              {definition ? `${definition.posts.length} post${definition.posts.length === 1 ? '' : 's'}, shifted to the new start` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[#1A1A1A] rounded-full transition-all duration-200"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-400" />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300">
+              Created the campaign with {result.created} post{result.created === 1 ? '' : 's'}. These could not be recreated:
+            </p>
+            <ul className="list-disc pl-6 space-y-0.5 text-sm text-[#FFB74D]">
+              {result.skipped.map((reason, index) => (
+                <li key={index}>{reason}</li>
+              ))}
+            </ul>
+            <div className="flex justify-end pt-5 border-t border-[#222222]">
+              <button
+                onClick={() => onCloned(result)}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#C69B7B] rounded-md hover:bg-[#B38A6A] transition-all duration-200"
+              >
+                Open Campaign
+              </button>
+            </div>
+          </div>
+        ) : definition && (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {error && (
+              <div className="p-3 bg-red-900/30 text-red-400 rounded-lg text-sm">{error}</div>
+            )}
+
+            <div>
+              <label htmlFor="clone-name" className="block text-sm font-medium text-gray-200 mb-1.5">
+                Campaign Name *
+              </label>
+              <input
+                id="clone-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClasses}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-200 mb-1.5">First Post</label>
+              <div className="grid grid-cols-2 gap-3">
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClasses} required />
+                <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClasses} required />
+              </div>
+              <p className="mt-1.5 text-xs text-gray-500">In your timezone ({timeZone}). Later posts keep their distance from the first one.</p>
+            </div>
+
+            {definition.accounts.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1.5">Accounts</label>
+                <div className="space-y-2">
+                  {definition.accounts.map(username => (
+                    <div key={username} className="grid grid-cols-2 gap-3 items-center">
+                      <span className="text-sm text-gray-300 truncate">u/{username}</span>
+                      <select
+                        value={accountMap[username] || ''}
+                        onChange={(e) => setAccountMap(prev => ({ ...prev, [username]: e.target.value }))}
+                        className={inputClasses}
+                        required
+                      >
+                        <option value="">Select account</option>
+                        {redditAccounts.map(account => (
+                          <option key={account.id} value={account.id}>u/{account.username}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {definition.variables.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1.5">Variables</label>
+                <div className="space-y-2">
+                  {definition.variables.map(variable => (
+                    <div key={variable.name} className="grid grid-cols-2 gap-3 items-center">
+                      <code className="text-sm text-[#C69B7B] truncate">{`{{${variable.name}}}`}</code>
+                      <input
+                        type="text"
+                        value={values[variable.name] || ''}
+                        onChange={(e) => setValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                        className={inputClasses}
+                        required
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center">
+              <input
+                id="clone-active"
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+              />
+              <label htmlFor="clone-active" className="ml-2 block text-sm text-gray-200">
+                Activate campaign immediately
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-5 border-t border-[#222222]">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-300 bg-[#1A1A1A] border border-[#333333] rounded-md hover:bg-[#252525] transition-all duration-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#C69B7B] rounded-md hover:bg-[#B38A6A] transition-all duration-200 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Creating...' : 'Create Campaign'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default CloneCampaignModal;
@@ -1,27 +1,61 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, ChevronDown, Image, Link as LinkIcon, Send, Type, X, AlertCircle } from 'lucide-react';
+import { Calendar, ChevronDown, Image, GalleryHorizontal, Video, Link as LinkIcon, Send, Type, X, AlertCircle, Layers, Repeat } from 'lucide-react';
 import { useCampaigns } from '../../contexts/CampaignContext';
 import { supabase } from '../../lib/supabase';
-import { ContentType, CreateCampaignPostDto } from '../../features/campaigns/types';
+import { BatchTarget, ContentType, CreateCampaignPostDto, CreateGalleryItemDto, CreatePostBatchDto, CreateTitleVariantDto, RuleViolation, SubredditFlairCatalog } from '../../features/campaigns/types';
 import Modal from '../Modal';
 import { RedditPostingService } from '../../features/campaigns/services/reddit';
+import { PostingRuleGuard } from '../../features/campaigns/services/rules';
+import { DuplicatePostDetector } from '../../features/campaigns/services/duplicates';
+import { SubredditFlairService } from '../../features/campaigns/services/flair';
+import { ScheduleOptimizer } from '../../features/campaigns/services/optimizer';
+import { RecurrenceService } from '../../features/campaigns/services/recurrence';
+import { TITLE_MAX_LENGTH, validatePostText } from '../../lib/redditMarkdown';
+import MarkdownEditor from './MarkdownEditor';
 import { useModalState } from '../../hooks/useModalState';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone, parseZonedInput, toZoned } from '../../lib/timezone';
+import GalleryItemsEditor from './GalleryItemsEditor';
+import PostOptionsEditor from './PostOptionsEditor';
+import CrosspostEditor from './CrosspostEditor';
+import FirstCommentEditor from './FirstCommentEditor';
+import RecurrenceEditor, { RECURRENCE_PRESETS } from './RecurrenceEditor';
+import TitleVariantsEditor from './TitleVariantsEditor';
+import BatchSubredditsEditor from './BatchSubredditsEditor';
 
 interface CreatePostModalProps {
-  campaignId: string;
+  campaignId: string; // Empty to let the user pick the campaign
   onClose: () => void;
   onCreated: () => void;
   isOpen: boolean;
+  initialContentType?: ContentType;
+  initialGalleryMediaIds?: string[]; // Pre-selected gallery images, in order
 }
 
-const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose, onCreated, isOpen }) => {
-  const { createCampaignPost, mediaItems, fetchMediaItems } = useCampaigns();
+const CreatePostModal: React.FC<CreatePostModalProps> = ({
+  campaignId,
+  onClose,
+  onCreated,
+  isOpen,
+  initialContentType = 'text',
+  initialGalleryMediaIds = []
+}) => {
+  const { 
+    createCampaignPost, 
+    createPostBatch,
+    campaigns,
+    currentCampaign,
+    mediaItems, 
+    fetchMediaItems, 
+    campaignTagPreferences, 
+    fetchCampaignTagPreferences 
+  } = useCampaigns();
+  const timeZone = useTimezone();
   
-  // Configure default values for form fields
+  // Configure default values for form fields; dates and times are in the user's timezone
   const getTomorrowDate = () => {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow.toISOString().split('T')[0];
+    const { year, month, day } = toZoned(new Date(Date.now() + 24 * 60 * 60 * 1000), timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
   };
   
   const getDefaultTime = () => {
@@ -45,9 +79,37 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
       mediaItemId,
       useAiTitle,
       useAiTiming,
-      isRecurring
+      isRecurring,
+      galleryItems,
+      targetCampaignId,
+      flairId,
+      flairText,
+      nsfw,
+      spoiler,
+      sendReplies,
+      saveFlairAsDefault,
+      firstComment,
+      firstCommentSticky,
+      firstCommentDistinguish,
+      isBulk,
+      bulkSubredditIds,
+      bulkProjectId,
+      batchName,
+      usePreferredTimes,
+      titleVariants,
+      titleTestRuns,
+      recurrenceMode,
+      recurrenceRule,
+      recurrenceTimezone,
+      recurrenceExdates,
+      crosspostSource,
+      crosspostSourcePostId,
+      crosspostUrl,
+      crosspostDelayHours,
+      crosspostSubredditIds
     },
     updateField,
+    updateFields,
     error,
     setError,
     isSubmitting,
@@ -55,7 +117,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
   } = useModalState({
     title: '',
     content: '',
-    contentType: 'text' as ContentType,
+    contentType: initialContentType,
     redditAccountId: '',
     subredditId: '',
     subredditInput: '',
@@ -65,17 +127,49 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
     mediaItemId: '',
     useAiTitle: false,
     useAiTiming: false,
-    isRecurring: false
+    isRecurring: false,
+    galleryItems: initialGalleryMediaIds.map(id => ({ media_item_id: id })) as CreateGalleryItemDto[],
+    targetCampaignId: campaignId,
+    flairId: '',
+    flairText: '',
+    nsfw: false,
+    spoiler: false,
+    sendReplies: true,
+    saveFlairAsDefault: false,
+    firstComment: '',
+    firstCommentSticky: false,
+    firstCommentDistinguish: false,
+    isBulk: false,
+    bulkSubredditIds: [] as string[],
+    bulkProjectId: '',
+    batchName: '',
+    usePreferredTimes: true,
+    titleVariants: [] as CreateTitleVariantDto[],
+    titleTestRuns: 3,
+    recurrenceMode: 'interval' as 'interval' | 'rule',
+    recurrenceRule: RECURRENCE_PRESETS[0].rule,
+    recurrenceTimezone: timeZone,
+    recurrenceExdates: [] as string[],
+    crosspostSource: 'campaign' as 'campaign' | 'url',
+    crosspostSourcePostId: '',
+    crosspostUrl: '',
+    crosspostDelayHours: 0 as number | '',
+    crosspostSubredditIds: [] as string[]
   }, isOpen);
   
   const [subreddits, setSubreddits] = useState<{ id: string; name: string }[]>([]);
   const [filteredSubreddits, setFilteredSubreddits] = useState<{ id: string; name: string }[]>([]);
   const [showSubredditDropdown, setShowSubredditDropdown] = useState(false);
   const [redditAccounts, setRedditAccounts] = useState<{ id: string; username: string }[]>([]);
+  const [ruleWarnings, setRuleWarnings] = useState<RuleViolation[]>([]);
+  const [flairCatalog, setFlairCatalog] = useState<SubredditFlairCatalog | null>(null);
+  const [batchPreview, setBatchPreview] = useState<BatchTarget[]>([]);
 
   // Fetch necessary data on modal open
   useEffect(() => {
     if (isOpen) {
+      setRuleWarnings([]);
+      
       // Fetch media items
       fetchMediaItems();
       
@@ -84,8 +178,21 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
       
       // Fetch subreddits
       fetchSubreddits();
+      
+      // Fetch tag preferences so image posts can rotate media
+      if (targetCampaignId) {
+        fetchCampaignTagPreferences(targetCampaignId);
+      }
     }
-  }, [isOpen, fetchMediaItems]);
+  }, [isOpen, fetchMediaItems, targetCampaignId]);
+  
+  const imageItems = mediaItems.filter(item => item.media_type?.startsWith('image/'));
+  const videoItems = mediaItems.filter(item => item.media_type?.startsWith('video/'));
+  
+  // Image posts can leave the media unset when the campaign has weighted tags to rotate from
+  const canRotateMedia = campaignTagPreferences.some(
+    pref => pref.campaign_id === targetCampaignId && pref.weight > 0
+  );
   
   // Fetch Reddit accounts
   const fetchRedditAccounts = async () => {
@@ -102,6 +209,83 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
     }
   };
   
+  // Fetch subreddits
+  const fetchSubreddits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subreddits')
+        .select('id, name')
+        .order('name', { ascending: true });
+      
+      if (error) throw error;
+      setSubreddits(data || []);
+    } catch (err) {
+      console.error('Error fetching subreddits:', err);
+    }
+  };
+  
+  // The time each subreddit of a batch will be posted at, earliest first
+  const planBatchTargets = async (earliest: Date): Promise<BatchTarget[]> => {
+    const targets = await Promise.all(bulkSubredditIds.map(async id => ({
+      subreddit_id: id,
+      scheduled_for: usePreferredTimes
+        ? (await ScheduleOptimizer.getPreferredTime(id, earliest)).time.toISOString()
+        : earliest.toISOString()
+    })));
+    
+    return targets.sort((a, b) => new Date(a.scheduled_for).getTime() - new Date(b.scheduled_for).getTime());
+  };
+  
+  // Keep the batch preview in step with the picked subreddits and start time
+  useEffect(() => {
+    if (!isBulk || bulkSubredditIds.length === 0) {
+      setBatchPreview([]);
+      return;
+    }
+    
+    const earliest = parseZonedInput(scheduledDate, scheduledTime, timeZone);
+    if (isNaN(earliest.getTime())) return;
+    
+    let cancelled = false;
+    planBatchTargets(earliest)
+      .then(targets => {
+        if (!cancelled) setBatchPreview(targets);
+      })
+      .catch(err => console.error('Error planning batch times:', err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isBulk, bulkSubredditIds, scheduledDate, scheduledTime, usePreferredTimes, timeZone]);
+  
+  const toggleBulk = () => {
+    // Batches place each post at its subreddit's preferred time instead of AI timing
+    updateFields({ isBulk: !isBulk, useAiTiming: false });
+    setRuleWarnings([]);
+  };
+  
+  // Variants are generated for the selected subreddit, or the first one of a batch
+  const variantSubredditId = isBulk ? bulkSubredditIds[0] : subredditId;
+  
+  // Live checks for the editor; batches use the generic limits until submit
+  const postTextIssues = validatePostText(
+    useAiTitle ? '' : title,
+    contentType === 'text' ? content : null,
+    isBulk ? null : flairCatalog?.post_requirements
+  );
+  
+  const subredditName = (id: string) => subreddits.find(sub => sub.id === id)?.name || 'unknown';
+  
+  const formatPreviewTime = (iso: string) =>
+    formatInTimezone(iso, timeZone, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hour12: true
+    });
+
   // Filter subreddits based on input
   useEffect(() => {
     if (subredditInput) {
@@ -141,30 +325,22 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
     }
   };
 
-  const toggleRecurring = () => {
-    const newValue = !isRecurring;
-    updateField('isRecurring', newValue);
-    
-    if (!newValue) {
-      // When disabling recurring, clear interval
-      updateField('intervalHours', '');
-    } else {
-      // When enabling recurring, set default interval (24 hours)
-      updateField('intervalHours', 24);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validate required fields
+    if (!targetCampaignId) {
+      setError('Please select a campaign');
+      return;
+    }
+    
     if (!redditAccountId) {
       setError('Please select a Reddit account');
       return;
     }
     
-    if (!subredditId) {
-      setError('Please select a subreddit');
+    if (isBulk ? bulkSubredditIds.length === 0 : !subredditId) {
+      setError(isBulk ? 'Please select at least one subreddit for the batch' : 'Please select a subreddit');
       return;
     }
     
@@ -183,69 +359,266 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
       return;
     }
     
-    if (contentType === 'image' && !mediaItemId) {
-      setError('Please select an image for your post');
+    if (contentType === 'image' && !mediaItemId && !canRotateMedia) {
+      setError('Please select an image for your post or set tag preferences for this campaign');
+      return;
+    }
+    
+    if (contentType === 'video' && !mediaItemId) {
+      setError('Please select a video for your post');
       return;
     }
     
+    if (contentType === 'gallery') {
+      const galleryError = RedditPostingService.validateGalleryItems(galleryItems);
+      if (galleryError) {
+        setError(galleryError);
+        return;
+      }
+    }
+    
+    if (contentType === 'crosspost') {
+      if (crosspostSource === 'campaign' && !crosspostSourcePostId) {
+        setError('Please select the post to crosspost');
+        return;
+      }
+      if (crosspostSource === 'url' && !RedditPostingService.parseCrosspostFullname(crosspostUrl)) {
+        setError('Please enter a link to the Reddit post to crosspost');
+        return;
+      }
+      if (isRecurring) {
+        setError('Crossposts cannot recur');
+        return;
+      }
+    }
+    
+    if (flairCatalog) {
+      const flairError = SubredditFlairService.validateFlair(flairCatalog, flairId, flairText);
+      if (flairError) {
+        setError(flairError);
+        return;
+      }
+    }
+    
     if (!useAiTiming && (!scheduledDate || !scheduledTime)) {
       setError('Please set a scheduled date and time or use AI timing');
       return;
     }
     
-    if (isRecurring && (!intervalHours || intervalHours < 1)) {
+    if (isRecurring && recurrenceMode === 'interval' && (!intervalHours || intervalHours < 1)) {
       setError('Please set a valid interval for recurring posts (minimum 1 hour)');
       return;
     }
     
+    if (isRecurring && recurrenceMode === 'rule') {
+      if (!RecurrenceService.isValidTimezone(recurrenceTimezone)) {
+        setError(`Unknown timezone: ${recurrenceTimezone}`);
+        return;
+      }
+      try {
+        RecurrenceService.parseRule(recurrenceRule, recurrenceTimezone);
+      } catch (err) {
+        setError(`Invalid recurrence rule: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+    }
+    
     setIsSubmitting(true);
     setError(null);
     
     try {
-      let scheduledFor: string;
+      let scheduledFor = '';
+      let targets: BatchTarget[] = [];
       
-      if (useAiTiming) {
+      if (isBulk) {
+        // The date and time are the earliest any post of the batch goes out
+        const earliest = parseZonedInput(scheduledDate, scheduledTime, timeZone);
+        if (isNaN(earliest.getTime())) {
+          throw new Error('Invalid date or time format');
+        }
+        targets = await planBatchTargets(earliest);
+      } else if (useAiTiming) {
         // Simulate AI determining the optimal time (24 hours from now)
-        const optimalTime = await RedditPostingService.getOptimalPostingTime(subredditId);
+        const optimalTime = await RedditPostingService.getOptimalPostingTime(subredditId, timeZone);
         scheduledFor = optimalTime.toISOString();
       } else {
         // Combine date and time for scheduled_for
         // Ensure we create valid ISO date with timezone info 
-        const dateObj = new Date(`${scheduledDate}T${scheduledTime}:00`);
+        const dateObj = parseZonedInput(scheduledDate, scheduledTime, timeZone);
         if (isNaN(dateObj.getTime())) {
           throw new Error('Invalid date or time format');
         }
         scheduledFor = dateObj.toISOString();
       }
       
-      // If using AI title, generate one (this is a placeholder)
+      const targetSubredditIds = isBulk ? bulkSubredditIds : [subredditId];
+      
+      // If using AI title, generate one (this is a placeholder); a batch shares one title
       let finalTitle = title;
       if (useAiTitle) {
-        finalTitle = await RedditPostingService.generateAiTitle(subredditId, content);
+        finalTitle = await RedditPostingService.generateAiTitle(targetSubredditIds[0], content);
       }
       
-      const post: CreateCampaignPostDto = {
-        campaign_id: campaignId,
+      // Title and body limits differ per subreddit; a batch checks each one's cached requirements
+      const textIssues = (await Promise.all(targetSubredditIds.map(async id => {
+        const requirements = isBulk
+          ? (await SubredditFlairService.getCatalog({ id, name: subredditName(id) })).post_requirements
+          : flairCatalog?.post_requirements;
+        return validatePostText(finalTitle, contentType === 'text' ? content : null, requirements)
+          .filter(issue => issue.severity === 'error')
+          .map(issue => (isBulk ? `r/${subredditName(id)}: ${issue.message}` : issue.message));
+      }))).flat();
+      
+      if (textIssues.length > 0) {
+        setRuleWarnings([]);
+        setError(Array.from(new Set(textIssues)).join('; '));
+        return;
+      }
+      
+      // Check the post against each subreddit's known rules, and for repeats of recent posts there, before scheduling it
+      const selectedMediaIds = contentType === 'gallery'
+        ? galleryItems.map(item => item.media_item_id)
+        : [mediaItemId];
+      const ruleChecks = await Promise.all(targetSubredditIds.map(async id => ({
+        subredditId: id,
+        result: PostingRuleGuard.withViolations(
+          await PostingRuleGuard.checkPost({
+            content_type: contentType,
+            title: finalTitle,
+            content,
+            subreddit_id: id,
+            reddit_account_id: redditAccountId,
+            // Batch posts get each subreddit's default flair
+            flair_id: isBulk ? (await SubredditFlairService.getDefault(id))?.flair_id || null : flairId || null
+          }),
+          await DuplicatePostDetector.check({
+            campaign_id: targetCampaignId,
+            content_type: contentType,
+            title: finalTitle,
+            content,
+            subreddit_id: id,
+            reddit_account_id: redditAccountId,
+            scheduled_for: isBulk ? targets.find(target => target.subreddit_id === id)?.scheduled_for : scheduledFor,
+            interval_hours: isRecurring && recurrenceMode === 'interval' ? Number(intervalHours) || null : null,
+            recurrence_rule: isRecurring && recurrenceMode === 'rule' ? recurrenceRule : null,
+            media: mediaItems.filter(item => selectedMediaIds.includes(item.id))
+          })
+        )
+      })));
+      
+      const blocked = ruleChecks.filter(check => check.result.status === 'blocked');
+      if (blocked.length > 0) {
+        setRuleWarnings([]);
+        setError(`This post breaks subreddit rules: ${blocked.map(check => {
+          const summary = PostingRuleGuard.summarize(check.result.violations.filter(v => v.severity === 'block'));
+          return isBulk ? `r/${subredditName(check.subredditId)}: ${summary}` : summary;
+        }).join('; ')}`);
+        return;
+      }
+      
+      // Show warnings once; submitting again schedules the post anyway, unless an edit brought up warnings not shown yet
+      const warnings = ruleChecks.flatMap(check => check.result.status === 'warning'
+        ? check.result.violations.map(v => isBulk ? { ...v, message: `r/${subredditName(check.subredditId)}: ${v.message}` } : v)
+        : []);
+      const shownWarnings = new Set(ruleWarnings.map(v => `${v.code}:${v.message}`));
+      if (warnings.some(v => !shownWarnings.has(`${v.code}:${v.message}`))) {
+        setRuleWarnings(warnings);
+        return;
+      }
+      
+      const shared: CreatePostBatchDto['post'] = {
         reddit_account_id: redditAccountId,
-        subreddit_id: subredditId,
         title: finalTitle,
         content_type: contentType,
-        content: content,
-        scheduled_for: scheduledFor,
+        content: contentType === 'crosspost' ? '' : content,
         use_ai_title: useAiTitle,
-        use_ai_timing: useAiTiming
+        use_ai_timing: useAiTiming,
+        nsfw,
+        spoiler,
+        send_replies: sendReplies
       };
       
+      if (!isBulk) {
+        // An explicit null keeps "No flair" from falling back to the subreddit default
+        shared.flair_id = flairId || null;
+        shared.flair_text = flairId ? flairText || null : null;
+      }
+      
+      if (firstComment.trim()) {
+        shared.first_comment = firstComment.trim();
+        shared.first_comment_sticky = firstCommentSticky;
+        shared.first_comment_distinguish = firstCommentDistinguish || firstCommentSticky;
+      }
+      
       // Add optional fields
-      if (isRecurring && intervalHours) {
-        post.interval_hours = Number(intervalHours);
+      if (isRecurring && (recurrenceMode === 'rule' || intervalHours)) {
+        if (recurrenceMode === 'rule') {
+          shared.recurrence_rule = recurrenceRule.trim();
+          shared.recurrence_timezone = recurrenceTimezone;
+          shared.recurrence_exdates = recurrenceExdates;
+        } else {
+          shared.interval_hours = Number(intervalHours);
+        }
+        
+        if (titleVariants.length > 0) {
+          shared.title_variants = titleVariants;
+          shared.title_test_runs = Number(titleTestRuns) || undefined;
+        }
+      }
+      
+      if ((contentType === 'image' || contentType === 'video') && mediaItemId) {
+        shared.media_item_id = mediaItemId;
       }
       
-      if (contentType === 'image' && mediaItemId) {
-        post.media_item_id = mediaItemId;
+      if (contentType === 'gallery') {
+        shared.gallery_items = galleryItems;
+      }
+      
+      if (contentType === 'crosspost') {
+        if (crosspostSource === 'campaign') {
+          shared.crosspost_source_post_id = crosspostSourcePostId;
+          shared.crosspost_delay_hours = Number(crosspostDelayHours) || 0;
+        } else {
+          shared.crosspost_url = crosspostUrl.trim();
+        }
+      } else if (!isBulk && !isRecurring && crosspostSubredditIds.length > 0) {
+        shared.crossposts = {
+          subreddit_ids: crosspostSubredditIds,
+          delay_hours: Number(crosspostDelayHours) || 0
+        };
       }
       
+      if (isBulk) {
+        await createPostBatch({
+          campaign_id: targetCampaignId,
+          name: batchName.trim() || finalTitle,
+          project_id: bulkProjectId || null,
+          use_preferred_times: usePreferredTimes,
+          post: shared,
+          targets
+        });
+        onCreated();
+        return;
+      }
+      
+      const post: CreateCampaignPostDto = {
+        ...shared,
+        campaign_id: targetCampaignId,
+        subreddit_id: subredditId,
+        scheduled_for: scheduledFor
+      };
+      
       await createCampaignPost(post);
+      
+      if (saveFlairAsDefault && flairId) {
+        try {
+          await SubredditFlairService.setDefault(subredditId, flairId, flairText);
+        } catch (flairError) {
+          // The post is already scheduled, so a failed default shouldn't block closing the modal
+          console.error('Error saving default flair:', flairError);
+        }
+      }
+      
       onCreated();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while creating the post');
@@ -278,7 +651,43 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
           </div>
         )}
         
+        {ruleWarnings.length > 0 && (
+          <div className="p-3 mb-4 bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30 rounded-lg text-sm">
+            <div className="flex items-center gap-2 font-medium mb-1">
+              <AlertCircle size={18} className="shrink-0" />
+              Possible rule conflicts or duplicates
+            </div>
+            <ul className="list-disc pl-8 space-y-0.5">
+              {ruleWarnings.map((violation, index) => (
+                <li key={index}>
+                  {violation.message}{violation.rule ? ` — "${violation.rule}"` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        
         <form onSubmit={handleSubmit} className="space-y-6">
+          {!campaignId && (
+            <div>
+              <label htmlFor="campaign" className="block text-sm font-medium text-gray-200 mb-1.5">
+                Campaign *
+              </label>
+              <select
+                id="campaign"
+                value={targetCampaignId}
+                onChange={(e) => updateField('targetCampaignId', e.target.value)}
+                className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+                required
+              >
+                <option value="">Select a campaign</option>
+                {campaigns.map(campaign => (
+                  <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Account & Subreddit Selection */}
             <div className="space-y-4">
@@ -300,6 +709,27 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                 </select>
               </div>
               
+              <div className="flex items-center">
+                <input
+                  id="isBulk"
+                  type="checkbox"
+                  checked={isBulk}
+                  onChange={toggleBulk}
+                  className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+                />
+                <label htmlFor="isBulk" className="ml-2 flex items-center gap-1.5 text-sm text-gray-200">
+                  <Layers size={14} className="text-[#C69B7B]" />
+                  Post to several subreddits as a batch
+                </label>
+              </div>
+              
+              {isBulk ? (
+                <BatchSubredditsEditor
+                  subreddits={subreddits}
+                  options={{ bulkSubredditIds, bulkProjectId, batchName }}
+                  onChange={updateFields}
+                />
+              ) : (
               <div>
                 <label htmlFor="subreddit" className="block text-sm font-medium text-gray-200 mb-1.5">
                   Subreddit *
@@ -342,6 +772,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                   )}
                 </div>
               </div>
+              )}
             </div>
             
             {/* Post Type & Content */}
@@ -350,7 +781,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                 <label className="block text-sm font-medium text-gray-200 mb-1.5">
                   Content Type
                 </label>
-                <div className="grid grid-cols-3 gap-3">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
                   <button
                     type="button"
                     onClick={() => handleContentTypeChange('text')}
@@ -387,6 +818,42 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                     <Image size={16} />
                     <span>Image</span>
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => handleContentTypeChange('video')}
+                    className={`px-4 py-2 text-sm font-medium rounded-md flex items-center justify-center gap-2 transition-all duration-200 ${
+                      contentType === 'video'
+                        ? 'bg-[#C69B7B] text-white'
+                        : 'bg-[#1A1A1A] text-gray-300 hover:bg-[#252525] border border-[#333333]'
+                    }`}
+                  >
+                    <Video size={16} />
+                    <span>Video</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleContentTypeChange('gallery')}
+                    className={`px-4 py-2 text-sm font-medium rounded-md flex items-center justify-center gap-2 transition-all duration-200 ${
+                      contentType === 'gallery'
+                        ? 'bg-[#C69B7B] text-white'
+                        : 'bg-[#1A1A1A] text-gray-300 hover:bg-[#252525] border border-[#333333]'
+                    }`}
+                  >
+                    <GalleryHorizontal size={16} />
+                    <span>Gallery</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleContentTypeChange('crosspost')}
+                    className={`px-4 py-2 text-sm font-medium rounded-md flex items-center justify-center gap-2 transition-all duration-200 ${
+                      contentType === 'crosspost'
+                        ? 'bg-[#C69B7B] text-white'
+                        : 'bg-[#1A1A1A] text-gray-300 hover:bg-[#252525] border border-[#333333]'
+                    }`}
+                  >
+                    <Repeat size={16} />
+                    <span>Crosspost</span>
+                  </button>
                 </div>
               </div>
               
@@ -422,23 +889,40 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
               placeholder={useAiTitle ? 'AI will generate a title' : 'Enter post title'}
               required={!useAiTitle}
             />
+            {!useAiTitle && (
+              <div className="flex justify-between gap-3 mt-1 text-xs">
+                <span className="text-red-400">
+                  {postTextIssues.filter(issue => issue.field === 'title').map(issue => issue.message).join('; ')}
+                </span>
+                <span className={title.trim().length > TITLE_MAX_LENGTH ? 'text-red-400' : 'text-gray-500'}>
+                  {title.trim().length} / {TITLE_MAX_LENGTH}
+                </span>
+              </div>
+            )}
           </div>
           
           {/* Content area based on content type */}
           <div>
             <label htmlFor="content" className="block text-sm font-medium text-gray-200 mb-1.5">
-              {contentType === 'text' ? 'Post Content *' : contentType === 'link' ? 'URL *' : 'Select Image *'}
+              {contentType === 'text'
+                ? 'Post Content *'
+                : contentType === 'link'
+                  ? 'URL *'
+                  : contentType === 'gallery'
+                    ? 'Gallery Images *'
+                    : contentType === 'crosspost'
+                      ? 'Post to Crosspost *'
+                      : contentType === 'video' ? 'Select Video *' : 'Select Image *'}
             </label>
             
             {contentType === 'text' ? (
-              <textarea
+              <MarkdownEditor
                 id="content"
                 value={content}
-                onChange={(e) => updateField('content', e.target.value)}
-                rows={5}
-                className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+                onChange={(value) => updateField('content', value)}
                 placeholder="Enter your post content"
-                required
+                required={flairCatalog?.post_requirements?.body_restriction_policy !== 'notAllowed'}
+                issues={postTextIssues.filter(issue => issue.field === 'body')}
               />
             ) : contentType === 'link' ? (
               <input
@@ -450,7 +934,22 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                 placeholder="https://example.com/your-link"
                 required
               />
-            ) : (
+            ) : contentType === 'gallery' ? (
+              <GalleryItemsEditor
+                mediaItems={imageItems}
+                items={galleryItems}
+                onChange={(items) => updateField('galleryItems', items)}
+              />
+            ) : contentType === 'crosspost' ? (
+              <CrosspostEditor
+                campaignId={targetCampaignId}
+                contentType={contentType}
+                subreddits={subreddits}
+                subredditId={subredditId}
+                options={{ crosspostSource, crosspostSourcePostId, crosspostUrl, crosspostDelayHours, crosspostSubredditIds }}
+                onChange={updateFields}
+              />
+            ) : contentType === 'video' ? (
               <div className="space-y-3">
                 <select
                   id="mediaItem"
@@ -459,13 +958,42 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                   className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
                   required
                 >
-                  <option value="">Select an image</option>
-                  {mediaItems.map(item => (
+                  <option value="">Select a video</option>
+                  {videoItems.map(item => (
                     <option key={item.id} value={item.id}>{item.filename}</option>
                   ))}
                 </select>
                 
-                {mediaItems.length === 0 && (
+                {videoItems.length === 0 && (
+                  <div className="p-3 bg-[#1A1A1A] rounded-md text-sm text-gray-400">
+                    No videos available. Please upload videos in the Media Library.
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <select
+                  id="mediaItem"
+                  value={mediaItemId}
+                  onChange={(e) => updateField('mediaItemId', e.target.value)}
+                  className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+                  required={!canRotateMedia}
+                >
+                  <option value="">
+                    {canRotateMedia ? 'Rotate from tagged media at posting time' : 'Select an image'}
+                  </option>
+                  {imageItems.map(item => (
+                    <option key={item.id} value={item.id}>{item.filename}</option>
+                  ))}
+                </select>
+                
+                {canRotateMedia && !mediaItemId && (
+                  <div className="p-3 bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-300">
+                    An image will be picked by weighted random selection from this campaign's tag preferences when the post goes out.
+                  </div>
+                )}
+                
+                {imageItems.length === 0 && (
                   <div className="p-3 bg-[#1A1A1A] rounded-md text-sm text-gray-400">
                     No images available. Please upload images in the Media Library.
                   </div>
@@ -474,12 +1002,76 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
             )}
           </div>
           
+          {contentType !== 'crosspost' && !isBulk && !isRecurring && (
+            <CrosspostEditor
+              campaignId={targetCampaignId}
+              contentType={contentType}
+              subreddits={subreddits}
+              subredditId={subredditId}
+              options={{ crosspostSource, crosspostSourcePostId, crosspostUrl, crosspostDelayHours, crosspostSubredditIds }}
+              onChange={updateFields}
+            />
+          )}
+          
+          {/* Flair & Submission Options */}
+          <div className="border-t border-[#222222] pt-5 mt-6">
+            <h3 className="text-lg font-medium text-white mb-4">Post Options</h3>
+            
+            {isBulk && (
+              <div className="p-3 mb-4 bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-300">
+                Each post in the batch gets its subreddit's default flair.
+              </div>
+            )}
+            
+            <PostOptionsEditor
+              subreddit={isBulk ? null : subreddits.find(sub => sub.id === subredditId) || null}
+              redditAccountId={redditAccountId}
+              options={{
+                flairId,
+                flairText,
+                nsfw,
+                spoiler,
+                sendReplies,
+                saveFlairAsDefault
+              }}
+              onChange={updateFields}
+              onCatalogChange={setFlairCatalog}
+            />
+            
+            <div className="mt-4">
+              <FirstCommentEditor
+                options={{ firstComment, firstCommentSticky, firstCommentDistinguish }}
+                onChange={updateFields}
+              />
+            </div>
+          </div>
+          
           {/* Scheduling Section */}
           <div className="border-t border-[#222222] pt-5 mt-6">
             <h3 className="text-lg font-medium text-white mb-4">Post Scheduling</h3>
             
+            {currentCampaign?.schedule_type === 'ai-optimized' && (
+              <div className="p-3 mb-4 bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-300">
+                This campaign is AI-optimized. One-time posts are moved into the subreddit's top activity windows by the scheduler.
+              </div>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="space-y-4">
+                {isBulk ? (
+                <div className="flex items-center mb-2">
+                  <input
+                    id="usePreferredTimes"
+                    type="checkbox"
+                    checked={usePreferredTimes}
+                    onChange={() => updateField('usePreferredTimes', !usePreferredTimes)}
+                    className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+                  />
+                  <label htmlFor="usePreferredTimes" className="ml-2 block text-sm text-gray-200">
+                    Post at each subreddit's preferred time
+                  </label>
+                </div>
+                ) : (
                 <div className="flex items-center mb-2">
                   <input
                     id="useAiTiming"
@@ -492,6 +1084,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                     Use AI to optimize posting time
                   </label>
                 </div>
+                )}
                 
                 {!useAiTiming && (
                   <div className="grid grid-cols-2 gap-3">
@@ -513,7 +1106,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                     </div>
                     <div>
                       <label htmlFor="scheduledTime" className="block text-sm font-medium text-gray-200 mb-1.5">
-                        Time *
+                        Time * <span className="text-gray-500 font-normal">({timeZone})</span>
                       </label>
                       <input
                         id="scheduledTime"
@@ -532,40 +1125,42 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
                     AI will determine the optimal time to post based on subreddit activity analysis.
                   </div>
                 )}
+                
+                {isBulk && (
+                  <div className="p-3 bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-300">
+                    {usePreferredTimes
+                      ? 'Each post goes out at the first busiest hour of its subreddit from this time on.'
+                      : 'Every post in the batch goes out at this time.'}
+                    {batchPreview.length > 0 && (
+                      <ul className="mt-2 space-y-0.5 text-xs text-gray-400">
+                        {batchPreview.map(target => (
+                          <li key={target.subreddit_id} className="flex justify-between gap-3">
+                            <span className="truncate">r/{subredditName(target.subreddit_id)}</span>
+                            <span>{formatPreviewTime(target.scheduled_for)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
               
               <div className="space-y-4">
-                <div className="flex items-center mb-2">
-                  <input
-                    id="isRecurring"
-                    type="checkbox"
-                    checked={isRecurring}
-                    onChange={toggleRecurring}
-                    className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
-                  />
-                  <label htmlFor="isRecurring" className="ml-2 block text-sm text-gray-200">
-                    Repeat post at regular intervals
-                  </label>
-                </div>
+                <RecurrenceEditor
+                  start={parseZonedInput(scheduledDate, scheduledTime, timeZone)}
+                  options={{ isRecurring, intervalHours, recurrenceMode, recurrenceRule, recurrenceTimezone, recurrenceExdates }}
+                  onChange={updateFields}
+                />
                 
                 {isRecurring && (
-                  <div>
-                    <label htmlFor="intervalHours" className="block text-sm font-medium text-gray-200 mb-1.5">
-                      Repeat every * (hours)
-                    </label>
-                    <select
-                      id="intervalHours"
-                      value={intervalHours}
-                      onChange={(e) => updateField('intervalHours', Number(e.target.value))}
-                      className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
-                      required={isRecurring}
-                    >
-                      <option value="24">24 hours (once daily)</option>
-                      <option value="48">48 hours (every 2 days)</option>
-                      <option value="72">72 hours (every 3 days)</option>
-                      <option value="168">168 hours (weekly)</option>
-                    </select>
-                  </div>
+                  <TitleVariantsEditor
+                    title={title}
+                    content={content}
+                    subredditId={variantSubredditId}
+                    options={{ titleVariants, titleTestRuns }}
+                    onChange={updateFields}
+                    onError={setError}
+                  />
                 )}
               </div>
             </div>
@@ -584,7 +1179,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ campaignId, onClose,
               disabled={isSubmitting}
               className="px-4 py-2 text-sm font-medium text-white bg-[#C69B7B] border border-transparent rounded-md shadow-sm hover:bg-[#B38A6A] transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-[#C69B7B] focus:ring-offset-2 focus:ring-offset-[#0A0A0A] disabled:opacity-50 flex items-center"
             >
-              {isSubmitting ? 'Scheduling...' : 'Schedule Post'}
+              {isSubmitting ? 'Scheduling...' : ruleWarnings.length > 0 ? 'Schedule Anyway' : isBulk ? `Schedule ${bulkSubredditIds.length} Posts` : 'Schedule Post'}
               <Send size={16} className="ml-2" />
             </button>
           </div>
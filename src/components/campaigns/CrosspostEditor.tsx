@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { ContentType } from '../../features/campaigns/types';
+import { RedditPostingService } from '../../features/campaigns/services/reddit';
+
+export interface CrosspostOptions {
+  crosspostSource: 'campaign' | 'url';
+  crosspostSourcePostId: string;
+  crosspostUrl: string;
+  crosspostDelayHours: number | '';
+  crosspostSubredditIds: string[];
+}
+
+interface CrosspostEditorProps {
+  campaignId: string;
+  contentType: ContentType;
+  subreddits: { id: string; name: string }[];
+  // The subreddit the post itself goes to, which it can't be crossposted to
+  subredditId: string;
+  options: CrosspostOptions;
+  onChange: (updates: Partial<CrosspostOptions>) => void;
+}
+
+interface SourcePost {
+  id: string;
+  title: string;
+  status: string;
+  scheduled_for: string;
+  subreddit: { name: string } | null;
+}
+
+const inputClasses = 'w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+const checkboxClasses = 'h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0';
+
+// Picks what a crosspost shares, or which subreddits a new post is crossposted to once it is live
+const CrosspostEditor: React.FC<CrosspostEditorProps> = ({
+  campaignId,
+  contentType,
+  subreddits,
+  subredditId,
+  options,
+  onChange
+}) => {
+  const [sourcePosts, setSourcePosts] = useState<SourcePost[]>([]);
+  const [chainEnabled, setChainEnabled] = useState(options.crosspostSubredditIds.length > 0);
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    if (contentType !== 'crosspost' || !campaignId) return;
+
+    supabase
+      .from('campaign_posts')
+      .select('id, title, status, scheduled_for, subreddit:subreddits(name)')
+      .eq('campaign_id', campaignId)
+      .neq('content_type', 'crosspost')
+      .in('status', ['pending_approval', 'scheduled', 'processing', 'posted'])
+      .order('scheduled_for', { ascending: false })
+      .limit(100)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching posts to crosspost:', error);
+          return;
+        }
+        setSourcePosts((data || []) as unknown as SourcePost[]);
+      });
+  }, [contentType, campaignId]);
+
+  const toggleSubreddit = (id: string) => {
+    onChange({
+      crosspostSubredditIds: options.crosspostSubredditIds.includes(id)
+        ? options.crosspostSubredditIds.filter(existing => existing !== id)
+        : [...options.crosspostSubredditIds, id]
+    });
+  };
+
+  const delayInput = (
+    <div>
+      <label htmlFor="crosspostDelay" className="block text-sm font-medium text-gray-200 mb-1.5">
+        Hours after the original goes live
+      </label>
+      <input
+        id="crosspostDelay"
+        type="number"
+        min="0"
+        step="0.5"
+        value={options.crosspostDelayHours}
+        onChange={(e) => onChange({ crosspostDelayHours: e.target.value === '' ? '' : Number(e.target.value) })}
+        className={inputClasses}
+      />
+    </div>
+  );
+
+  if (contentType === 'crosspost') {
+    const parsedUrl = options.crosspostUrl.trim()
+      ? RedditPostingService.parseCrosspostFullname(options.crosspostUrl)
+      : null;
+
+    return (
+      <div className="space-y-3">
+        <div className="flex gap-4 text-sm text-gray-200">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={options.crosspostSource === 'campaign'}
+              onChange={() => onChange({ crosspostSource: 'campaign' })}
+              className={checkboxClasses}
+            />
+            A post of this campaign
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={options.crosspostSource === 'url'}
+              onChange={() => onChange({ crosspostSource: 'url' })}
+              className={checkboxClasses}
+            />
+            Any Reddit post
+          </label>
+        </div>
+
+        {options.crosspostSource === 'campaign' ? (
+          <>
+            <select
+              id="content"
+              value={options.crosspostSourcePostId}
+              onChange={(e) => onChange({ crosspostSourcePostId: e.target.value })}
+              className={inputClasses}
+              required
+            >
+              <option value="">Select a post</option>
+              {sourcePosts.map(post => (
+                <option key={post.id} value={post.id}>
+                  {post.title} · r/{post.subreddit?.name || 'unknown'}{post.status === 'posted' ? '' : ' (not posted yet)'}
+                </option>
+              ))}
+            </select>
+            {sourcePosts.length === 0 && (
+              <div className="p-3 bg-[#1A1A1A] rounded-md text-sm text-gray-400">
+                This campaign has no posts to crosspost yet.
+              </div>
+            )}
+            {delayInput}
+            <p className="text-xs text-gray-500">
+              The crosspost waits until the original is live, then goes out at the scheduled time or this many hours after it, whichever is later.
+            </p>
+          </>
+        ) : (
+          <>
+            <input
+              id="content"
+              type="url"
+              value={options.crosspostUrl}
+              onChange={(e) => onChange({ crosspostUrl: e.target.value })}
+              className={inputClasses}
+              placeholder="https://www.reddit.com/r/example/comments/abc123/..."
+              required
+            />
+            {options.crosspostUrl.trim() && !parsedUrl && (
+              <p className="text-xs text-red-400">This isn't a link to a Reddit post</p>
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const candidates = subreddits.filter(sub =>
+    sub.id !== subredditId && sub.name.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center">
+        <input
+          id="crosspostChain"
+          type="checkbox"
+          checked={chainEnabled}
+          onChange={() => {
+            setChainEnabled(!chainEnabled);
+            if (chainEnabled) onChange({ crosspostSubredditIds: [] });
+          }}
+          className={checkboxClasses}
+        />
+        <label htmlFor="crosspostChain" className="ml-2 block text-sm text-gray-200">
+          Crosspost to more subreddits once it is live
+        </label>
+      </div>
+
+      {chainEnabled && (
+        <div className="space-y-3 pl-6">
+          <div>
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter subreddits"
+              className={`${inputClasses} mb-2`}
+            />
+            <div className="bg-[#1A1A1A] border border-[#333333] rounded-md max-h-40 overflow-auto">
+              {candidates.length > 0 ? (
+                candidates.map(sub => (
+                  <label key={sub.id} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-200 hover:bg-[#252525] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={options.crosspostSubredditIds.includes(sub.id)}
+                      onChange={() => toggleSubreddit(sub.id)}
+                      className={checkboxClasses}
+                    />
+                    r/{sub.name}
+                  </label>
+                ))
+              ) : (
+                <div className="px-3 py-2 text-sm text-gray-400">No subreddits found</div>
+              )}
+            </div>
+          </div>
+          {delayInput}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrosspostEditor;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { FIRST_COMMENT_MAX_LENGTH, FIRST_COMMENT_PLACEHOLDERS } from '../../features/campaigns/services/comments';
+
+export interface FirstCommentOptions {
+  firstComment: string;
+  firstCommentSticky: boolean;
+  firstCommentDistinguish: boolean;
+}
+
+interface FirstCommentEditorProps {
+  options: FirstCommentOptions;
+  onChange: (updates: Partial<FirstCommentOptions>) => void;
+}
+
+// The comment the posting account leaves on its own post once it is live
+const FirstCommentEditor: React.FC<FirstCommentEditorProps> = ({ options, onChange }) => {
+  return (
+    <div>
+      <label htmlFor="firstComment" className="block text-sm font-medium text-gray-200 mb-1.5">
+        First Comment
+      </label>
+      <textarea
+        id="firstComment"
+        value={options.firstComment}
+        onChange={(e) => onChange({ firstComment: e.target.value })}
+        rows={3}
+        maxLength={FIRST_COMMENT_MAX_LENGTH}
+        placeholder="Optional comment posted by the same account right after the post goes live"
+        className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+      />
+      <p className="mt-1.5 text-xs text-gray-400">
+        Placeholders: {FIRST_COMMENT_PLACEHOLDERS.join(', ')}
+      </p>
+
+      {options.firstComment.trim() && (
+        <div className="flex flex-wrap gap-x-6 gap-y-2 mt-2">
+          <div className="flex items-center">
+            <input
+              id="firstCommentDistinguish"
+              type="checkbox"
+              checked={options.firstCommentDistinguish || options.firstCommentSticky}
+              disabled={options.firstCommentSticky}
+              onChange={(e) => onChange({ firstCommentDistinguish: e.target.checked })}
+              className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+            />
+            <label htmlFor="firstCommentDistinguish" className="ml-2 block text-sm text-gray-200">
+              Distinguish as moderator
+            </label>
+          </div>
+          <div className="flex items-center">
+            <input
+              id="firstCommentSticky"
+              type="checkbox"
+              checked={options.firstCommentSticky}
+              onChange={(e) => onChange({ firstCommentSticky: e.target.checked })}
+              className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+            />
+            <label htmlFor="firstCommentSticky" className="ml-2 block text-sm text-gray-200">
+              Sticky comment
+            </label>
+          </div>
+          <p className="w-full text-xs text-gray-400">
+            Only works when the account moderates the subreddit; otherwise the comment is posted normally.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FirstCommentEditor;
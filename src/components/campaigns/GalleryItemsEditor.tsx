@@ -0,0 +1,140 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+import { CreateGalleryItemDto, MediaItem } from '../../features/campaigns/types';
+import { GALLERY_LIMITS } from '../../features/campaigns/services/reddit';
+
+interface GalleryItemsEditorProps {
+  mediaItems: MediaItem[];
+  items: CreateGalleryItemDto[];
+  onChange: (items: CreateGalleryItemDto[]) => void;
+}
+
+const GalleryItemsEditor: React.FC<GalleryItemsEditorProps> = ({ mediaItems, items, onChange }) => {
+  const mediaById = new Map(mediaItems.map(item => [item.id, item]));
+
+  // Clicking an image adds it to the end of the gallery, clicking it again removes it
+  const toggleItem = (mediaItemId: string) => {
+    if (items.some(item => item.media_item_id === mediaItemId)) {
+      onChange(items.filter(item => item.media_item_id !== mediaItemId));
+    } else if (items.length < GALLERY_LIMITS.maxItems) {
+      onChange([...items, { media_item_id: mediaItemId }]);
+    }
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const updateItem = (index: number, updates: Partial<CreateGalleryItemDto>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-48 overflow-y-auto">
+        {mediaItems.map(media => {
+          const position = items.findIndex(item => item.media_item_id === media.id);
+
+          return (
+            <button
+              key={media.id}
+              type="button"
+              onClick={() => toggleItem(media.id)}
+              className={`relative aspect-square rounded-md overflow-hidden bg-[#1A1A1A] ${
+                position >= 0 ? 'ring-2 ring-[#C69B7B]' : 'border border-[#333333] hover:border-[#C69B7B]/60'
+              }`}
+              title={media.filename}
+            >
+              <img src={media.url} alt={media.filename} className="w-full h-full object-cover" />
+              {position >= 0 && (
+                <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-[#C69B7B] text-white text-xs font-medium flex items-center justify-center">
+                  {position + 1}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {items.length} of {GALLERY_LIMITS.maxItems} images selected (minimum {GALLERY_LIMITS.minItems}). Images are posted in this order.
+      </p>
+
+      {items.length > 0 && (
+        <div className="space-y-2">
+          {items.map((item, index) => {
+            const media = mediaById.get(item.media_item_id);
+
+            return (
+              <div key={item.media_item_id} className="flex gap-3 p-2 bg-[#1A1A1A] border border-[#333333] rounded-md">
+                <div className="w-14 h-14 rounded overflow-hidden bg-[#111111] flex-shrink-0">
+                  {media && <img src={media.url} alt={media.filename} className="w-full h-full object-cover" />}
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-2">
+                  <input
+                    type="text"
+                    value={item.caption || ''}
+                    onChange={(e) => updateItem(index, { caption: e.target.value })}
+                    maxLength={GALLERY_LIMITS.captionLength}
+                    placeholder="Caption (optional)"
+                    className="w-full bg-[#111111] border border-[#333333] rounded-md text-sm text-gray-200 px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+                  />
+                  <input
+                    type="url"
+                    value={item.outbound_url || ''}
+                    onChange={(e) => updateItem(index, { outbound_url: e.target.value })}
+                    placeholder="Link (optional)"
+                    className="w-full bg-[#111111] border border-[#333333] rounded-md text-sm text-gray-200 px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+                  />
+                </div>
+
+                <div className="flex flex-col gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveItem(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === items.length - 1}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => toggleItem(item.media_item_id)}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Remove from gallery"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {mediaItems.length === 0 && (
+        <div className="p-3 bg-[#1A1A1A] rounded-md text-sm text-gray-400">
+          No images available. Please upload images in the Media Library.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryItemsEditor;
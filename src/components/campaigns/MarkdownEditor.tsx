@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import DOMPurify from 'dompurify';
+import { AlertCircle, Bold, Code, EyeOff, Italic, Link as LinkIcon, Strikethrough, Superscript, Table } from 'lucide-react';
+import {
+  BODY_MAX_LENGTH,
+  PostTextIssue,
+  escapeMarkdownBody,
+  findMarkdownEscapes,
+  renderRedditMarkdown
+} from '../../lib/redditMarkdown';
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  maxLength?: number;
+  rows?: number;
+  placeholder?: string;
+  required?: boolean;
+  issues?: PostTextIssue[];
+}
+
+type Wrap = { before: string; after: string; placeholder: string };
+
+const TABLE_TEMPLATE = '\n\n| Column | Column |\n|:--|:--|\n| Cell | Cell |\n';
+
+const TOOLS: Array<{ label: string; icon: React.ElementType; wrap: Wrap }> = [
+  { label: 'Bold', icon: Bold, wrap: { before: '**', after: '**', placeholder: 'bold text' } },
+  { label: 'Italic', icon: Italic, wrap: { before: '*', after: '*', placeholder: 'italic text' } },
+  { label: 'Strikethrough', icon: Strikethrough, wrap: { before: '~~', after: '~~', placeholder: 'struck text' } },
+  { label: 'Superscript', icon: Superscript, wrap: { before: '^(', after: ')', placeholder: 'superscript' } },
+  { label: 'Spoiler', icon: EyeOff, wrap: { before: '>!', after: '!<', placeholder: 'spoiler' } },
+  { label: 'Inline code', icon: Code, wrap: { before: '`', after: '`', placeholder: 'code' } },
+  { label: 'Link', icon: LinkIcon, wrap: { before: '[', after: '](https://)', placeholder: 'link text' } },
+  { label: 'Table', icon: Table, wrap: { before: TABLE_TEMPLATE, after: '', placeholder: '' } }
+];
+
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  id,
+  value,
+  onChange,
+  maxLength = BODY_MAX_LENGTH,
+  rows = 6,
+  placeholder,
+  required,
+  issues = []
+}) => {
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Reddit counts the text as submitted, escapes included
+  const submittedLength = escapeMarkdownBody(value).length;
+  const escapes = findMarkdownEscapes(value);
+
+  const applyWrap = ({ before, after, placeholder: fallback }: Wrap) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const selected = value.slice(start, end) || fallback;
+
+    onChange(value.slice(0, start) + before + selected + after + value.slice(end));
+
+    // Keep the wrapped text selected so the next tool applies to it too
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  };
+
+  return (
+    <div className="bg-[#1A1A1A] border border-[#333333] rounded-md">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-[#333333] px-2 py-1.5">
+        <div className="flex items-center gap-1">
+          {(['write', 'preview'] as const).map(tab => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setMode(tab)}
+              className={`px-2 py-1 text-xs rounded ${mode === tab ? 'bg-[#252525] text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {tab === 'write' ? 'Write' : 'Preview'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'write' && (
+          <div className="flex items-center gap-0.5">
+            {TOOLS.map(tool => (
+              <button
+                key={tool.label}
+                type="button"
+                onClick={() => applyWrap(tool.wrap)}
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-[#252525] rounded"
+                title={tool.label}
+                aria-label={tool.label}
+              >
+                <tool.icon size={14} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {mode === 'write' ? (
+        <textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          className="w-full bg-[#1A1A1A] text-gray-200 px-3 py-2 font-mono text-sm focus:outline-none rounded-none"
+          placeholder={placeholder}
+          required={required}
+        />
+      ) : (
+        <div
+          className="reddit-markdown px-3 py-2 min-h-[8rem]"
+          dangerouslySetInnerHTML={{
+            __html: value.trim()
+              ? DOMPurify.sanitize(renderRedditMarkdown(escapeMarkdownBody(value)))
+              : '<p class="text-gray-500">Nothing to preview</p>'
+          }}
+        />
+      )}
+
+      <div className="border-t border-[#333333] px-3 py-2 space-y-1 text-xs">
+        <div className="flex justify-between gap-3 text-gray-500">
+          <span>Reddit markdown: **bold**, *italic*, ~~strike~~, ^super, &gt;!spoiler!&lt;, `code`, tables</span>
+          <span className={submittedLength > maxLength ? 'text-red-400' : ''}>
+            {submittedLength.toLocaleString()} / {maxLength.toLocaleString()}
+          </span>
+        </div>
+
+        {escapes.length > 0 && (
+          <p className="text-gray-400">
+            Escaped so Reddit shows them as typed:{' '}
+            {escapes.map((escape, index) => (
+              <span key={index}>
+                {index > 0 && ', '}
+                <code className="text-gray-300">{escape.sequence}</code> (line {escape.line})
+              </span>
+            ))}
+          </p>
+        )}
+
+        {issues.map((issue, index) => (
+          <p
+            key={index}
+            className={`flex items-center gap-1.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-[#FFB74D]'}`}
+          >
+            <AlertCircle size={12} className="shrink-0" />
+            {issue.message}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { Layers, Pencil, Clock, Trash2 } from 'lucide-react';
+import { useCampaigns } from '../../contexts/CampaignContext';
+import { CampaignPost, CampaignPostBatch, CampaignPostWithDetails } from '../../features/campaigns/types';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone, parseZonedInput, toZoned } from '../../lib/timezone';
+
+interface PostBatchListProps {
+  campaignId: string;
+  posts: CampaignPost[];
+}
+
+interface BatchGroup {
+  batch: CampaignPostBatch;
+  posts: CampaignPostWithDetails[];
+}
+
+type BatchAction = { batchId: string; mode: 'edit' | 'reschedule' };
+
+const inputClasses = 'w-full bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+// Value for a datetime-local input in the user's timezone
+const toLocalInput = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute } = toZoned(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
+
+const formatDate = (dateString: string, timeZone: string) =>
+  formatInTimezone(dateString, timeZone, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hour12: true
+  });
+
+const PostBatchList: React.FC<PostBatchListProps> = ({ campaignId, posts }) => {
+  const timeZone = useTimezone();
+  const { updatePostBatch, reschedulePostBatch, cancelPostBatch } = useCampaigns();
+  const [action, setAction] = useState<BatchAction | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftContent, setDraftContent] = useState('');
+  const [draftStart, setDraftStart] = useState('');
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = Array.from(
+    (posts as CampaignPostWithDetails[]).reduce((map, post) => {
+      if (!post.batch_id || !post.batch) return map;
+      const group = map.get(post.batch_id) || { batch: post.batch, posts: [] };
+      group.posts.push(post);
+      return map.set(post.batch_id, group);
+    }, new Map<string, BatchGroup>()).values()
+  );
+
+  if (groups.length === 0) return null;
+
+  // Only posts that haven't gone out yet follow batch edits
+  const pendingPosts = (group: BatchGroup) => group.posts.filter(post => post.status === 'scheduled' || post.status === 'pending_approval');
+
+  const firstScheduled = (group: BatchGroup) => {
+    const times = pendingPosts(group).map(post => new Date(post.scheduled_for).getTime());
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  };
+
+  const openAction = (group: BatchGroup, mode: BatchAction['mode']) => {
+    const pending = pendingPosts(group);
+    setError(null);
+    setAction({ batchId: group.batch.id, mode });
+    setDraftTitle(pending[0]?.title || '');
+    setDraftContent(pending[0]?.content || '');
+    const start = firstScheduled(group);
+    setDraftStart(start ? toLocalInput(start, timeZone) : '');
+  };
+
+  const run = async (batchId: string, task: () => Promise<void>) => {
+    setSaving(batchId);
+    setError(null);
+    try {
+      await task();
+      setAction(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update batch');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSave = (group: BatchGroup) => {
+    if (!action) return;
+
+    if (action.mode === 'edit') {
+      if (!draftTitle.trim()) {
+        setError('Title is required');
+        return;
+      }
+      run(group.batch.id, () => updatePostBatch(campaignId, group.batch.id, {
+        title: draftTitle.trim(),
+        content: draftContent
+      }));
+      return;
+    }
+
+    const start = firstScheduled(group);
+    const [draftDate, draftTime = ''] = draftStart.split('T');
+    const newStart = parseZonedInput(draftDate, draftTime, timeZone);
+    if (!start || isNaN(newStart.getTime())) {
+      setError('Please pick a valid start time');
+      return;
+    }
+
+    // Every pending post moves by the same amount, so the spacing between subreddits is kept
+    run(group.batch.id, () => reschedulePostBatch(campaignId, group.batch.id, newStart.getTime() - start.getTime()));
+  };
+
+  const handleCancel = (group: BatchGroup) => {
+    const pending = pendingPosts(group).length;
+    if (!confirm(`Cancel the ${pending} scheduled post${pending === 1 ? '' : 's'} of "${group.batch.name}"? Posts that already went out are kept.`)) {
+      return;
+    }
+
+    run(group.batch.id, () => cancelPostBatch(campaignId, group.batch.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-sm text-red-400">{error}</p>
+      )}
+
+      {groups.map(group => {
+        const pending = pendingPosts(group);
+        const start = firstScheduled(group);
+        const counts = group.posts.reduce<Record<string, number>>((acc, post) => {
+          acc[post.status] = (acc[post.status] || 0) + 1;
+          return acc;
+        }, {});
+        const isOpen = action?.batchId === group.batch.id;
+
+        return (
+          <div key={group.batch.id} className="bg-[#111111] rounded-lg p-4 border border-[#222222]">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h3 className="text-sm font-medium text-gray-200 flex items-center gap-2">
+                  <Layers size={16} className="text-[#C69B7B]" />
+                  {group.batch.name}
+                </h3>
+                <p className="text-xs text-gray-500 mt-1">
+                  {group.posts.length} post{group.posts.length === 1 ? '' : 's'} across{' '}
+                  {new Set(group.posts.map(post => post.subreddit_id)).size} subreddits
+                  {start && ` · next ${formatDate(start.toISOString(), timeZone)}`}
+                  {group.batch.use_preferred_times && ' · preferred times'}
+                </p>
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {Object.entries(counts).map(([status, count]) => (
+                    <span key={status} className="px-2 py-0.5 text-xs rounded-full bg-[#1A1A1A] text-gray-300 border border-[#333333]">
+                      {count} {status.replace('_', ' ')}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {pending.length > 0 && (
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => openAction(group, 'edit')}
+                    disabled={saving === group.batch.id}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                  >
+                    <Pencil size={12} />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => openAction(group, 'reschedule')}
+                    disabled={saving === group.batch.id}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                  >
+                    <Clock size={12} />
+                    Reschedule
+                  </button>
+                  <button
+                    onClick={() => handleCancel(group)}
+                    disabled={saving === group.batch.id}
+                    className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    <Trash2 size={12} />
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {isOpen && action && (
+              <div className="mt-4 space-y-3 border-t border-[#222222] pt-4">
+                {action.mode === 'edit' ? (
+                  <>
+                    <input
+                      type="text"
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      placeholder="Post title"
+                      className={inputClasses}
+                    />
+                    <textarea
+                      value={draftContent}
+                      onChange={(e) => setDraftContent(e.target.value)}
+                      rows={3}
+                      placeholder="Post content"
+                      className={inputClasses}
+                    />
+                    <p className="text-xs text-gray-500">Applies to the {pending.length} post{pending.length === 1 ? '' : 's'} still scheduled.</p>
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="datetime-local"
+                      value={draftStart}
+                      onChange={(e) => setDraftStart(e.target.value)}
+                      className={inputClasses}
+                    />
+                    <p className="text-xs text-gray-500">The first post moves to this time ({timeZone}) and the others keep their spacing.</p>
+                  </>
+                )}
+                <div className="flex justify-end gap-3">
+                  <button
+                    onClick={() => setAction(null)}
+                    className="px-3 py-1.5 text-xs text-gray-300 bg-[#1A1A1A] border border-[#333333] rounded-md hover:bg-[#252525]"
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={() => handleSave(group)}
+                    disabled={saving === group.batch.id}
+                    className="px-3 py-1.5 text-xs text-white bg-[#C69B7B] rounded-md hover:bg-[#B38A6A] disabled:opacity-50"
+                  >
+                    {saving === group.batch.id ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PostBatchList;
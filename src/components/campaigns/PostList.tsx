@@ -1,23 +1,26 @@
 import React from 'react';
 import { CampaignPost } from '../../features/campaigns/types';
-import { Clock, Link as LinkIcon, FileText, Image, RefreshCcw, Calendar, MessageCircle, Activity } from 'lucide-react';
+import { RecurrenceService } from '../../features/campaigns/services/recurrence';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone } from '../../lib/timezone';
+import { Clock, Link as LinkIcon, FileText, Image, GalleryHorizontal, Video, RefreshCcw, Calendar, MessageCircle, Activity, EyeOff, Layers, Repeat } from 'lucide-react';
 
 interface PostListProps {
   posts: CampaignPost[];
 }
 
 const PostList: React.FC<PostListProps> = ({ posts }) => {
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return new Intl.DateTimeFormat('en-US', {
+  const timeZone = useTimezone();
+  
+  const formatDate = (dateString: string) =>
+    formatInTimezone(dateString, timeZone, {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
       hour: 'numeric',
       minute: 'numeric',
       hour12: true
-    }).format(date);
-  };
+    });
 
   const getStatusBadgeClasses = (status: string) => {
     switch (status) {
@@ -26,14 +29,60 @@ const PostList: React.FC<PostListProps> = ({ posts }) => {
       case 'posted':
         return 'bg-[#2B543A]/20 text-[#4CAF50] border border-[#2B543A]/30';
       case 'failed':
+      case 'removed':
+      case 'rejected':
         return 'bg-red-900/20 text-red-400 border border-red-900/30';
+      case 'filtered':
+      case 'submitted':
+        return 'bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30';
       default:
         return 'bg-[#1A1A1A] text-gray-400 border border-[#333333]';
     }
   };
 
+  // Held back by an account quota or subreddit gap that hasn't cleared yet
+  const isHeld = (post: CampaignPost) =>
+    post.status === 'scheduled' && !!post.quota_hold_until && new Date(post.quota_hold_until) > new Date();
+
+  const describeCrosspost = (post: CampaignPost) => {
+    if (!post.crosspost_source_post_id) {
+      return `Crosspost of ${post.content || post.crosspost_fullname}`;
+    }
+    const source = posts.find(other => other.id === post.crosspost_source_post_id);
+    const what = source ? `"${source.title}"` : 'an earlier post';
+    const waiting = !post.crosspost_fullname && (post.status === 'scheduled' || post.status === 'pending_approval');
+    return waiting ? `Crosspost of ${what}, waiting for it to go live` : `Crosspost of ${what}`;
+  };
+
   const renderContentPreview = (post: CampaignPost) => {
-    if (post.content_type === 'image') {
+    if (post.content_type === 'gallery') {
+      // For gallery posts, show the first image with the image count
+      const cover = post.gallery_items?.[0]?.media_item;
+      return (
+        <div className="relative w-12 h-12 bg-[#1A1A1A] rounded-lg overflow-hidden flex-shrink-0 border border-[#333333]">
+          {cover ? (
+            <img src={cover.url} alt="Preview" className="w-full h-full object-cover" />
+          ) : (
+            <GalleryHorizontal size={20} className="w-full h-full p-3 text-[#C69B7B]" />
+          )}
+          <span className="absolute bottom-0 right-0 px-1 text-[10px] bg-black/70 text-white rounded-tl">
+            {post.gallery_items?.length || 0}
+          </span>
+        </div>
+      );
+    } else if (post.content_type === 'video') {
+      // For video posts, show the poster frame captured on upload
+      const poster = post.media_item?.thumbnail_url;
+      return (
+        <div className="w-12 h-12 bg-[#1A1A1A] rounded-lg overflow-hidden flex-shrink-0 border border-[#333333]">
+          {poster ? (
+            <img src={poster} alt="Preview" className="w-full h-full object-cover" />
+          ) : (
+            <Video size={20} className="w-full h-full p-3 text-[#C69B7B]" />
+          )}
+        </div>
+      );
+    } else if (post.content_type === 'image') {
       // For image posts, show a small preview of the image
       return (
         <div className="w-12 h-12 bg-[#1A1A1A] rounded-lg overflow-hidden flex-shrink-0 border border-[#333333]">
@@ -43,6 +92,12 @@ const PostList: React.FC<PostListProps> = ({ posts }) => {
           {!post.content && <Image size={20} className="w-full h-full p-3 text-[#C69B7B]" />}
         </div>
       );
+    } else if (post.content_type === 'crosspost') {
+      return (
+        <div className="w-12 h-12 bg-[#1A1A1A] rounded-lg flex items-center justify-center flex-shrink-0 border border-[#333333]">
+          <Repeat size={20} className="text-[#C69B7B]" />
+        </div>
+      );
     } else if (post.content_type === 'link') {
       // For link posts, show a link icon
       return (
@@ -72,7 +127,7 @@ const PostList: React.FC<PostListProps> = ({ posts }) => {
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
                   <h4 className="text-sm font-medium text-gray-200 truncate pr-2">{post.title}</h4>
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusBadgeClasses(post.status)} mt-2 sm:mt-0 self-start sm:self-auto`}>
-                    {post.status}
+                    {post.status === 'pending_approval' ? 'Pending approval' : post.status}
                   </span>
                 </div>
                 
@@ -84,20 +139,34 @@ const PostList: React.FC<PostListProps> = ({ posts }) => {
                         : post.content
                       : post.content_type === 'link'
                         ? post.content
-                        : 'Image post'}
+                        : post.content_type === 'gallery'
+                          ? `Gallery of ${post.gallery_items?.length || 0} images`
+                          : post.content_type === 'video'
+                            ? 'Video post'
+                            : post.content_type === 'crosspost'
+                              ? describeCrosspost(post)
+                              : 'Image post'}
                   </p>
+                  {post.status === 'rejected' && post.review_comment && (
+                    <p className="text-xs text-red-400 mt-1">Rejected: {post.review_comment}</p>
+                  )}
+                  {isHeld(post) && post.quota_hold_reason && (
+                    <p className="text-xs text-[#FFB74D] mt-1">
+                      Held until {formatDate(post.quota_hold_until!)}: {post.quota_hold_reason}
+                    </p>
+                  )}
                 </div>
                 
                 <div className="mt-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-0">
                   <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
-                    {post.status === 'scheduled' && (
+                    {(post.status === 'scheduled' || post.status === 'pending_approval') && (
                       <span className="flex items-center gap-1 mr-2">
                         <Calendar size={14} className="text-gray-400 shrink-0" />
-                        <span className="truncate max-w-[120px] sm:max-w-none">{formatDate(post.scheduled_for)}</span>
+                        <span className="truncate max-w-[120px] sm:max-w-none">{formatDate(isHeld(post) ? post.quota_hold_until! : post.next_attempt_at || post.scheduled_for)}</span>
                       </span>
                     )}
                     
-                    {post.status === 'posted' && post.posted_at && (
+                    {(post.status === 'posted' || post.status === 'submitted' || post.status === 'removed' || post.status === 'filtered') && post.posted_at && (
                       <span className="flex items-center gap-1 mr-2">
                         <Activity size={14} className="text-[#4CAF50] shrink-0" />
                         <span className="truncate max-w-[120px] sm:max-w-none">{formatDate(post.posted_at)}</span>
@@ -111,7 +180,14 @@ const PostList: React.FC<PostListProps> = ({ posts }) => {
                       </span>
                     )}
                     
-                    {post.interval_hours && (
+                    {post.recurrence_rule ? (
+                      <span className="flex items-center gap-1">
+                        <RefreshCcw size={14} className="text-[#C69B7B] shrink-0" />
+                        <span title={post.recurrence_rule}>
+                          {RecurrenceService.describe(post.recurrence_rule, post.recurrence_timezone || 'UTC')}
+                        </span>
+                      </span>
+                    ) : post.interval_hours && (
                       <span className="flex items-center gap-1">
                         <RefreshCcw size={14} className="text-[#C69B7B] shrink-0" />
                         <span>Every {post.interval_hours}h</span>
@@ -120,12 +196,112 @@ const PostList: React.FC<PostListProps> = ({ posts }) => {
                   </div>
                   
                   <div className="flex flex-wrap gap-2">
+                    {post.batch && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-[#1A1A1A] text-gray-300 border border-[#333333]">
+                        <Layers size={12} />
+                        {post.batch.name}
+                      </span>
+                    )}
+                    
+                    {isHeld(post) && (
+                      <span
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30"
+                        title={post.quota_hold_reason || undefined}
+                      >
+                        <Clock size={12} />
+                        Held by Quota
+                      </span>
+                    )}
+                    
+                    {post.status === 'scheduled' && post.next_attempt_at && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30"
+                        title={post.last_error || undefined}
+                      >
+                        Retry {post.attempt_count || 0}
+                      </span>
+                    )}
+                    
+                    {post.status === 'failed' && post.last_error && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-900/20 text-red-400 border border-red-900/30"
+                        title={post.last_error}
+                      >
+                        {(post.attempt_count || 0) > 1 ? `Failed after ${post.attempt_count} attempts` : 'Error'}
+                      </span>
+                    )}
+                    
+                    {(post.status === 'removed' || post.status === 'filtered') && (
+                      <span
+                        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
+                          post.status === 'removed'
+                            ? 'bg-red-900/20 text-red-400 border border-red-900/30'
+                            : 'bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30'
+                        }`}
+                        title={post.removal_detected_at ? `Detected ${formatDate(post.removal_detected_at)}` : undefined}
+                      >
+                        <EyeOff size={12} />
+                        {post.removal_reason || (post.status === 'removed' ? 'Removed' : 'Hidden')}
+                      </span>
+                    )}
+                    
+                    {(post.rule_check_status === 'warning' || post.rule_check_status === 'blocked') && (
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                          post.rule_check_status === 'blocked'
+                            ? 'bg-red-900/20 text-red-400 border border-red-900/30'
+                            : 'bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30'
+                        }`}
+                        title={(post.rule_violations || []).map(v => v.rule ? `${v.message} ("${v.rule}")` : v.message).join('\n')}
+                      >
+                        {post.rule_check_status === 'blocked' ? 'Blocked by Rules' : 'Rule Warnings'}
+                      </span>
+                    )}
+                    
+                    {post.first_comment_status && (
+                      <span
+                        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
+                          post.first_comment_status === 'failed'
+                            ? 'bg-red-900/20 text-red-400 border border-red-900/30'
+                            : 'bg-[#1A1A1A] text-gray-300 border border-[#333333]'
+                        }`}
+                        title={post.first_comment_error || undefined}
+                      >
+                        <MessageCircle size={12} />
+                        {post.first_comment_status === 'failed' ? 'Comment Failed' : 'Commented'}
+                      </span>
+                    )}
+                    
+                    {post.flair_id && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-[#1A1A1A] text-gray-300 border border-[#333333]">
+                        {post.flair_text || 'Flair'}
+                      </span>
+                    )}
+                    
+                    {post.nsfw && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-900/20 text-red-400 border border-red-900/30">
+                        NSFW
+                      </span>
+                    )}
+                    
+                    {post.spoiler && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-[#1A1A1A] text-gray-300 border border-[#333333]">
+                        Spoiler
+                      </span>
+                    )}
+                    
                     {post.use_ai_title && (
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-[#4A3B69]/20 text-[#BB86FC] border border-[#4A3B69]/30">
                         AI Title
                       </span>
                     )}
                     
+                    {post.content_type === 'image' && !post.media_item_id && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-[#1A1A1A] text-gray-300 border border-[#333333]">
+                        Media Rotation
+                      </span>
+                    )}
+                    
                     {post.use_ai_timing && (
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-[#C69B7B]/20 text-[#C69B7B] border border-[#C69B7B]/30">
                         AI Timing
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { SubredditFlairCatalog } from '../../features/campaigns/types';
+import { FLAIR_TEXT_MAX_LENGTH, SubredditFlairService } from '../../features/campaigns/services/flair';
+
+export interface PostOptions {
+  flairId: string;
+  flairText: string;
+  nsfw: boolean;
+  spoiler: boolean;
+  sendReplies: boolean;
+  saveFlairAsDefault: boolean;
+}
+
+interface PostOptionsEditorProps {
+  subreddit: { id: string; name: string } | null;
+  redditAccountId: string;
+  options: PostOptions;
+  onChange: (updates: Partial<PostOptions>) => void;
+  onCatalogChange: (catalog: SubredditFlairCatalog | null) => void;
+}
+
+const PostOptionsEditor: React.FC<PostOptionsEditorProps> = ({
+  subreddit,
+  redditAccountId,
+  options,
+  onChange,
+  onCatalogChange
+}) => {
+  const [catalog, setCatalog] = useState<SubredditFlairCatalog | null>(null);
+  const [defaultFlairId, setDefaultFlairId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadCatalog = async (forceRefresh = false) => {
+    if (!subreddit) return;
+
+    setLoading(true);
+    try {
+      const [loaded, flairDefault] = await Promise.all([
+        SubredditFlairService.getCatalog(subreddit, {
+          forceRefresh,
+          redditAccountId: redditAccountId || undefined
+        }),
+        SubredditFlairService.getDefault(subreddit.id)
+      ]);
+
+      setCatalog(loaded);
+      onCatalogChange(loaded);
+      setDefaultFlairId(flairDefault?.flair_id || null);
+
+      // Preselect the default flair for a newly picked subreddit
+      if (!forceRefresh && flairDefault) {
+        onChange({ flairId: flairDefault.flair_id, flairText: flairDefault.flair_text || '' });
+      }
+    } catch (err) {
+      console.error('Error loading subreddit flair:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setCatalog(null);
+    onCatalogChange(null);
+    setDefaultFlairId(null);
+    onChange({ flairId: '', flairText: '', saveFlairAsDefault: false });
+    loadCatalog();
+  }, [subreddit?.id]);
+
+  const selectedFlair = catalog?.flairs.find(flair => flair.id === options.flairId);
+
+  const toggles: Array<{ key: 'nsfw' | 'spoiler' | 'sendReplies'; label: string }> = [
+    { key: 'nsfw', label: 'Mark as NSFW' },
+    { key: 'spoiler', label: 'Mark as spoiler' },
+    { key: 'sendReplies', label: 'Send replies to inbox' }
+  ];
+
+  return (
+    <div className="space-y-4">
+      {subreddit && (
+        <div>
+          <div className="flex items-center justify-between mb-1.5">
+            <label htmlFor="flair" className="block text-sm font-medium text-gray-200">
+              Post Flair{catalog?.flair_required ? ' *' : ''}
+            </label>
+            <button
+              type="button"
+              onClick={() => loadCatalog(true)}
+              disabled={loading}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+              title="Fetch the latest flair from Reddit"
+            >
+              <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+              Refresh
+            </button>
+          </div>
+
+          <select
+            id="flair"
+            value={options.flairId}
+            onChange={(e) => onChange({ flairId: e.target.value, flairText: '' })}
+            disabled={loading}
+            className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+          >
+            <option value="">{loading ? 'Loading flair...' : 'No flair'}</option>
+            {catalog?.flairs.map(flair => (
+              <option key={flair.id} value={flair.id}>
+                {flair.text || '(editable flair)'}{flair.id === defaultFlairId ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+
+          {catalog && catalog.flairs.length === 0 && !loading && (
+            <p className="mt-1.5 text-xs text-gray-400">r/{subreddit.name} has no post flair available.</p>
+          )}
+
+          {catalog?.flair_required && !options.flairId && !loading && (
+            <p className="mt-1.5 text-xs text-amber-400">r/{subreddit.name} removes posts without flair.</p>
+          )}
+
+          {selectedFlair?.text_editable && (
+            <input
+              type="text"
+              value={options.flairText}
+              onChange={(e) => onChange({ flairText: e.target.value })}
+              maxLength={FLAIR_TEXT_MAX_LENGTH}
+              placeholder={selectedFlair.text || 'Flair text'}
+              className="mt-2 w-full bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+            />
+          )}
+
+          {options.flairId && options.flairId !== defaultFlairId && (
+            <div className="flex items-center mt-2">
+              <input
+                id="saveFlairAsDefault"
+                type="checkbox"
+                checked={options.saveFlairAsDefault}
+                onChange={(e) => onChange({ saveFlairAsDefault: e.target.checked })}
+                className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+              />
+              <label htmlFor="saveFlairAsDefault" className="ml-2 block text-sm text-gray-300">
+                Use as default flair for r/{subreddit.name}
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {toggles.map(({ key, label }) => (
+          <div key={key} className="flex items-center">
+            <input
+              id={key}
+              type="checkbox"
+              checked={options[key]}
+              onChange={(e) => onChange({ [key]: e.target.checked })}
+              className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+            />
+            <label htmlFor={key} className="ml-2 block text-sm text-gray-200">
+              {label}
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PostOptionsEditor;
@@ -0,0 +1,146 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { CampaignMetrics, CampaignPost, PostMetricsSnapshot, RemovalStatus } from '../../features/campaigns/types';
+import { METRIC_CHECKPOINTS } from '../../features/campaigns/services/performance';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone } from '../../lib/timezone';
+
+interface PostPerformanceProps {
+  posts: Array<CampaignPost & { subreddit?: { name: string } }>;
+  metrics: CampaignMetrics | null;
+}
+
+const REMOVAL_LABELS: Record<RemovalStatus, { label: string; classes: string }> = {
+  live: { label: 'Live', classes: 'bg-[#2B543A]/20 text-[#4CAF50] border border-[#2B543A]/30' },
+  removed: { label: 'Removed', classes: 'bg-red-900/20 text-red-400 border border-red-900/30' },
+  deleted: { label: 'Deleted', classes: 'bg-[#1A1A1A] text-gray-400 border border-[#333333]' },
+  missing: { label: 'Not Found', classes: 'bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30' }
+};
+
+const PostPerformance: React.FC<PostPerformanceProps> = ({ posts, metrics }) => {
+  const timeZone = useTimezone();
+  const tracked = posts
+    .filter(post => (post.status === 'posted' || post.status === 'removed' || post.status === 'filtered') && (post.metrics || []).length > 0)
+    .map(post => ({ post, latest: post.metrics![post.metrics!.length - 1] as PostMetricsSnapshot }))
+    .sort((a, b) => b.latest.score - a.latest.score);
+
+  // Average latest score per subreddit shows where the campaign lands best
+  const bySubreddit = Array.from(
+    tracked.reduce((groups, { post, latest }) => {
+      const name = post.subreddit?.name || 'unknown';
+      const group = groups.get(name) || { name, posts: 0, score: 0, comments: 0 };
+      group.posts++;
+      group.score += latest.score;
+      group.comments += latest.num_comments;
+      return groups.set(name, group);
+    }, new Map<string, { name: string; posts: number; score: number; comments: number }>()).values()
+  ).sort((a, b) => b.score / b.posts - a.score / a.posts);
+
+  const formatDate = (dateString: string) =>
+    formatInTimezone(dateString, timeZone, {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hour12: true
+    });
+
+  const summary = [
+    { label: 'Total Score', value: metrics?.total_score ?? 0 },
+    { label: 'Comments', value: metrics?.total_comments ?? 0 },
+    {
+      label: 'Avg. Upvote Ratio',
+      value: metrics?.avg_upvote_ratio != null ? `${Math.round(metrics.avg_upvote_ratio * 100)}%` : '—'
+    },
+    { label: 'Removed', value: metrics?.removed_count ?? 0 },
+    { label: 'Filtered', value: metrics?.filtered_count ?? 0 }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {summary.map(item => (
+          <div key={item.label} className="bg-[#111111] rounded-lg p-4 border border-[#222222]">
+            <p className="text-sm text-gray-400">{item.label}</p>
+            <p className="text-2xl font-semibold text-white mt-1">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {tracked.length === 0 ? (
+        <div className="bg-[#111111] rounded-lg p-6 text-center border border-[#222222] text-sm text-gray-400">
+          Performance is tracked 15 minutes, 1 hour, 6 hours, 24 hours and 7 days after each post goes live.
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto bg-[#111111] rounded-lg border border-[#222222]">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 border-b border-[#222222]">
+                  <th className="px-4 py-3 font-medium">Post</th>
+                  {METRIC_CHECKPOINTS.map(({ checkpoint }) => (
+                    <th key={checkpoint} className="px-3 py-3 font-medium text-right">{checkpoint}</th>
+                  ))}
+                  <th className="px-3 py-3 font-medium text-right">Comments</th>
+                  <th className="px-3 py-3 font-medium text-right">Ratio</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#222222]">
+                {tracked.map(({ post, latest }) => {
+                  const byCheckpoint = new Map((post.metrics || []).map(m => [m.checkpoint, m]));
+                  const removal = REMOVAL_LABELS[latest.removal_status];
+
+                  return (
+                    <tr key={post.id} className="hover:bg-[#1A1A1A]">
+                      <td className="px-4 py-3 max-w-xs">
+                        <p className="text-gray-200 truncate">{post.title}</p>
+                        <p className="text-xs text-gray-500">
+                          r/{post.subreddit?.name || 'unknown'}{post.posted_at ? ` · ${formatDate(post.posted_at)}` : ''}
+                        </p>
+                      </td>
+                      {METRIC_CHECKPOINTS.map(({ checkpoint }) => (
+                        <td key={checkpoint} className="px-3 py-3 text-right text-gray-300">
+                          {byCheckpoint.get(checkpoint)?.score ?? <span className="text-gray-600">—</span>}
+                        </td>
+                      ))}
+                      <td className="px-3 py-3 text-right text-gray-300">{latest.num_comments}</td>
+                      <td className="px-3 py-3 text-right text-gray-300">{Math.round(latest.upvote_ratio * 100)}%</td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${removal.classes}`}
+                          title={latest.removed_by_category || undefined}
+                        >
+                          {removal.label}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-[#111111] rounded-lg p-4 border border-[#222222]">
+            <h3 className="text-sm font-medium text-gray-200 mb-3 flex items-center gap-2">
+              <TrendingUp size={16} className="text-[#C69B7B]" />
+              Average Score by Subreddit
+            </h3>
+            <div className="space-y-2">
+              {bySubreddit.map(group => (
+                <div key={group.name} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-300">r/{group.name}</span>
+                  <span className="text-gray-400">
+                    {Math.round(group.score / group.posts)} points · {Math.round(group.comments / group.posts)} comments · {group.posts} post{group.posts === 1 ? '' : 's'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PostPerformance;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, RotateCcw } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { AccountQuota, CampaignPostWithDetails, SubredditPostingLimit } from '../../features/campaigns/types';
+import { PostingQuotaService } from '../../features/campaigns/services/quotas';
+
+interface PostingLimitsEditorProps {
+  posts: CampaignPostWithDetails[];
+}
+
+const inputClasses = 'w-20 bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-200 px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+const PostingLimitsEditor: React.FC<PostingLimitsEditorProps> = ({ posts }) => {
+  const { user } = useAuth();
+  const [limits, setLimits] = useState<SubredditPostingLimit[]>([]);
+  const [quotas, setQuotas] = useState<AccountQuota[]>([]);
+  const [gapDrafts, setGapDrafts] = useState<Record<string, string>>({});
+  const [quotaDrafts, setQuotaDrafts] = useState<Record<string, { hour: string; day: string }>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const subreddits = Array.from(
+    new Map(posts.map(post => [post.subreddit_id, post.subreddit?.name || 'unknown'])).entries()
+  ).map(([id, name]) => ({ id, name }));
+  const accountIds = Array.from(new Set(posts.map(post => post.reddit_account_id)));
+  const subredditKey = subreddits.map(s => s.id).sort().join(',');
+  const accountKey = [...accountIds].sort().join(',');
+
+  const load = async () => {
+    try {
+      // Subreddits used for the first time get their gap from the stored analysis
+      if (user) {
+        const existing = await PostingQuotaService.getLimits(subreddits.map(s => s.id));
+        const missing = subreddits.filter(s => !existing.some(limit => limit.subreddit_id === s.id));
+        await Promise.all(missing.map(s => PostingQuotaService.seedLimit(user.id, s.id)));
+      }
+
+      const [loadedLimits, loadedQuotas] = await Promise.all([
+        PostingQuotaService.getLimits(subreddits.map(s => s.id)),
+        PostingQuotaService.getAccountQuotas(accountIds)
+      ]);
+
+      setLimits(loadedLimits);
+      setQuotas(loadedQuotas);
+      setGapDrafts(Object.fromEntries(loadedLimits.map(limit => [limit.subreddit_id, String(Number(limit.min_gap_hours))])));
+      setQuotaDrafts(Object.fromEntries(loadedQuotas.map(quota => [quota.id, {
+        hour: quota.max_posts_per_hour != null ? String(quota.max_posts_per_hour) : '',
+        day: quota.max_posts_per_day != null ? String(quota.max_posts_per_day) : ''
+      }])));
+    } catch (err) {
+      console.error('Error loading posting limits:', err);
+      setError('Failed to load posting limits');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [subredditKey, accountKey, user?.id]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setSaving(key);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save posting limit');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const parseOptional = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+
+  const describeSource = (limit?: SubredditPostingLimit) => {
+    if (!limit) return 'No analysis yet — only account quotas apply';
+    if (limit.source === 'manual') return 'Custom';
+    return limit.source_rule ? `From rule: "${limit.source_rule}"` : 'From subreddit activity';
+  };
+
+  return (
+    <div className="bg-[#111111] rounded-lg p-4 border border-[#222222] space-y-5">
+      {error && (
+        <p className="text-sm text-red-400">{error}</p>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-200 mb-1 flex items-center gap-2">
+          <Gauge size={16} className="text-[#C69B7B]" />
+          Minimum Gap per Subreddit
+        </h3>
+        <p className="text-xs text-gray-500 mb-3">Hours between posts to the same subreddit from one account.</p>
+        <div className="space-y-2">
+          {subreddits.map(subreddit => {
+            const limit = limits.find(l => l.subreddit_id === subreddit.id);
+            return (
+              <div key={subreddit.id} className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-gray-300 w-40 truncate">r/{subreddit.name}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={gapDrafts[subreddit.id] ?? ''}
+                  onChange={(e) => setGapDrafts(prev => ({ ...prev, [subreddit.id]: e.target.value }))}
+                  placeholder="—"
+                  className={inputClasses}
+                />
+                <span className="text-gray-500">hours</span>
+                <button
+                  onClick={() => run(subreddit.id, () => PostingQuotaService.setLimit(subreddit.id, parseFloat(gapDrafts[subreddit.id])))}
+                  disabled={saving === subreddit.id || !gapDrafts[subreddit.id]}
+                  className="text-xs text-[#C69B7B] hover:text-white disabled:opacity-50"
+                >
+                  Save
+                </button>
+                {limit?.source === 'manual' && (
+                  <button
+                    onClick={() => run(subreddit.id, () => PostingQuotaService.resetLimit(subreddit.id))}
+                    disabled={saving === subreddit.id}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                    title="Derive the gap from the subreddit analysis again"
+                  >
+                    <RotateCcw size={12} />
+                    Reset
+                  </button>
+                )}
+                <span className="text-xs text-gray-500 truncate max-w-xs" title={limit?.source_rule || undefined}>
+                  {describeSource(limit)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-200 mb-1">Account Quotas</h3>
+        <p className="text-xs text-gray-500 mb-3">Shared by every campaign that posts with the account. Leave empty for no limit.</p>
+        <div className="space-y-2">
+          {quotas.map(quota => {
+            const draft = quotaDrafts[quota.id] || { hour: '', day: '' };
+            return (
+              <div key={quota.id} className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-gray-300 w-40 truncate">u/{quota.username}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.hour}
+                  onChange={(e) => setQuotaDrafts(prev => ({ ...prev, [quota.id]: { ...draft, hour: e.target.value } }))}
+                  placeholder="—"
+                  className={inputClasses}
+                />
+                <span className="text-gray-500">per hour</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.day}
+                  onChange={(e) => setQuotaDrafts(prev => ({ ...prev, [quota.id]: { ...draft, day: e.target.value } }))}
+                  placeholder="—"
+                  className={inputClasses}
+                />
+                <span className="text-gray-500">per day</span>
+                <button
+                  onClick={() => run(quota.id, () => PostingQuotaService.setAccountQuota(quota.id, parseOptional(draft.hour), parseOptional(draft.day)))}
+                  disabled={saving === quota.id}
+                  className="text-xs text-[#C69B7B] hover:text-white disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostingLimitsEditor;
@@ -0,0 +1,235 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { RecurrenceService } from '../../features/campaigns/services/recurrence';
+
+export const RECURRENCE_PRESETS = [
+  { label: 'Weekdays at 9:00', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYMINUTE=0' },
+  { label: 'Tuesdays and Thursdays at 9:00', rule: 'FREQ=WEEKLY;BYDAY=TU,TH;BYHOUR=9;BYMINUTE=0' },
+  { label: 'Every day at 18:00', rule: 'FREQ=DAILY;BYHOUR=18;BYMINUTE=0' },
+  { label: 'Saturdays at 10:00, 8 times', rule: 'FREQ=WEEKLY;BYDAY=SA;BYHOUR=10;BYMINUTE=0;COUNT=8' },
+  { label: 'Last Friday of the month at 12:00', rule: 'FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=12;BYMINUTE=0' }
+];
+
+export interface RecurrenceOptions {
+  isRecurring: boolean;
+  intervalHours: number | '';
+  recurrenceMode: 'interval' | 'rule';
+  recurrenceRule: string;
+  recurrenceTimezone: string;
+  recurrenceExdates: string[];
+}
+
+interface RecurrenceEditorProps {
+  // When the series starts; invalid while the date or time is being typed
+  start: Date;
+  options: RecurrenceOptions;
+  onChange: (updates: Partial<RecurrenceOptions>) => void;
+}
+
+const inputClasses = 'w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+// Repeats a post at a fixed interval or by an RRULE, with a preview of the next occurrences
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ start, options, onChange }) => {
+  const { isRecurring, intervalHours, recurrenceMode, recurrenceRule, recurrenceTimezone, recurrenceExdates } = options;
+
+  // Occurrences of a rule-driven series, starting from the chosen date and time
+  const preview = (() => {
+    if (!isRecurring || recurrenceMode !== 'rule' || !recurrenceRule.trim()) {
+      return { dates: [] as Date[], error: null as string | null };
+    }
+    if (!RecurrenceService.isValidTimezone(recurrenceTimezone)) {
+      return { dates: [], error: `Unknown timezone: ${recurrenceTimezone}` };
+    }
+    const from = isNaN(start.getTime()) ? new Date() : start;
+    try {
+      const series = { rule: recurrenceRule, timezone: recurrenceTimezone, start: from, exdates: recurrenceExdates };
+      return { dates: RecurrenceService.upcoming(series, new Date(from.getTime() - 1), 6), error: null };
+    } catch (err) {
+      return { dates: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  })();
+
+  const formatOccurrence = (date: Date | string) =>
+    new Intl.DateTimeFormat('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      timeZone: RecurrenceService.isValidTimezone(recurrenceTimezone) ? recurrenceTimezone : undefined,
+      timeZoneName: 'short'
+    }).format(new Date(date));
+
+  const skipOccurrence = (date: Date) =>
+    onChange({ recurrenceExdates: [...recurrenceExdates, date.toISOString()] });
+
+  const restoreOccurrence = (iso: string) =>
+    onChange({ recurrenceExdates: recurrenceExdates.filter(exdate => exdate !== iso) });
+
+  // A new series repeats daily until another interval is picked
+  const toggleRecurring = () => {
+    onChange({ isRecurring: !isRecurring, intervalHours: isRecurring ? '' : 24 });
+  };
+
+  return (
+    <>
+      <div className="flex items-center mb-2">
+        <input
+          id="isRecurring"
+          type="checkbox"
+          checked={isRecurring}
+          onChange={toggleRecurring}
+          className="h-4 w-4 text-[#C69B7B] bg-[#1A1A1A] border-[#333333] rounded focus:ring-[#C69B7B] focus:ring-offset-0"
+        />
+        <label htmlFor="isRecurring" className="ml-2 block text-sm text-gray-200">
+          Repeat this post on a schedule
+        </label>
+      </div>
+
+      {isRecurring && (
+        <div className="flex gap-2">
+          {(['interval', 'rule'] as const).map(mode => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => onChange({ recurrenceMode: mode })}
+              className={`px-3 py-1.5 text-xs rounded-md border ${
+                recurrenceMode === mode
+                  ? 'bg-[#C69B7B]/10 text-[#C69B7B] border-[#C69B7B]/40'
+                  : 'bg-[#1A1A1A] text-gray-400 border-[#333333] hover:text-white'
+              }`}
+            >
+              {mode === 'interval' ? 'Fixed interval' : 'Recurrence rule'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isRecurring && recurrenceMode === 'rule' && (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="recurrencePreset" className="block text-sm font-medium text-gray-200 mb-1.5">
+              Preset
+            </label>
+            <select
+              id="recurrencePreset"
+              value={RECURRENCE_PRESETS.find(preset => preset.rule === recurrenceRule)?.rule || ''}
+              onChange={(e) => e.target.value && onChange({ recurrenceRule: e.target.value, recurrenceExdates: [] })}
+              className={inputClasses}
+            >
+              <option value="">Custom</option>
+              {RECURRENCE_PRESETS.map(preset => (
+                <option key={preset.rule} value={preset.rule}>{preset.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="recurrenceRule" className="block text-sm font-medium text-gray-200 mb-1.5">
+              Rule (RRULE) *
+            </label>
+            <input
+              id="recurrenceRule"
+              type="text"
+              value={recurrenceRule}
+              onChange={(e) => onChange({ recurrenceRule: e.target.value })}
+              className={`${inputClasses} font-mono text-sm`}
+              placeholder="FREQ=WEEKLY;BYDAY=TU,TH;BYHOUR=9;BYMINUTE=0"
+              required
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Supports FREQ (HOURLY, DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYHOUR, BYMINUTE, BYMONTHDAY, BYMONTH, COUNT, UNTIL and WKST. The date and time above are when the series starts.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="recurrenceTimezone" className="block text-sm font-medium text-gray-200 mb-1.5">
+              Timezone
+            </label>
+            <input
+              id="recurrenceTimezone"
+              type="text"
+              value={recurrenceTimezone}
+              onChange={(e) => onChange({ recurrenceTimezone: e.target.value })}
+              className={inputClasses}
+              placeholder="America/New_York"
+            />
+          </div>
+
+          <div className="bg-[#1A1A1A] border border-[#333333] rounded-md p-3 text-sm space-y-2">
+            {preview.error ? (
+              <p className="flex items-center gap-1.5 text-red-400">
+                <AlertCircle size={14} className="shrink-0" />
+                {preview.error}
+              </p>
+            ) : (
+              <>
+                <p className="text-gray-200">{RecurrenceService.describe(recurrenceRule, recurrenceTimezone)}</p>
+                {preview.dates.length === 0 ? (
+                  <p className="text-gray-500">No occurrences after the start time</p>
+                ) : (
+                  <ul className="space-y-1 text-gray-400">
+                    {preview.dates.map(date => (
+                      <li key={date.toISOString()} className="flex justify-between gap-3">
+                        <span>{formatOccurrence(date)}</span>
+                        <button
+                          type="button"
+                          onClick={() => skipOccurrence(date)}
+                          className="text-xs text-gray-500 hover:text-white"
+                        >
+                          Skip
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+
+            {recurrenceExdates.length > 0 && (
+              <div className="pt-2 border-t border-[#333333]">
+                <p className="text-xs text-gray-500 mb-1">Skipped</p>
+                <ul className="space-y-1 text-gray-500">
+                  {recurrenceExdates.map(exdate => (
+                    <li key={exdate} className="flex justify-between gap-3">
+                      <span className="line-through">{formatOccurrence(exdate)}</span>
+                      <button
+                        type="button"
+                        onClick={() => restoreOccurrence(exdate)}
+                        className="text-xs hover:text-white"
+                      >
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isRecurring && recurrenceMode === 'interval' && (
+        <div>
+          <label htmlFor="intervalHours" className="block text-sm font-medium text-gray-200 mb-1.5">
+            Repeat every * (hours)
+          </label>
+          <select
+            id="intervalHours"
+            value={intervalHours}
+            onChange={(e) => onChange({ intervalHours: Number(e.target.value) })}
+            className={inputClasses}
+            required
+          >
+            <option value="24">24 hours (once daily)</option>
+            <option value="48">48 hours (every 2 days)</option>
+            <option value="72">72 hours (every 3 days)</option>
+            <option value="168">168 hours (weekly)</option>
+          </select>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RecurrenceEditor;
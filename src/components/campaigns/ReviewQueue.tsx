@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Check, RotateCcw, ShieldCheck, X } from 'lucide-react';
+import { Campaign, CampaignPostWithDetails, UpdateCampaignDto } from '../../features/campaigns/types';
+import { ApprovalService } from '../../features/campaigns/services/approvals';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone } from '../../lib/timezone';
+
+interface ReviewQueueProps {
+  campaign: Campaign;
+  posts: CampaignPostWithDetails[];
+  canReview: boolean;
+  onUpdateCampaign: (updates: UpdateCampaignDto) => Promise<void>;
+  onChanged: () => Promise<void>;
+}
+
+const inputClasses = 'bg-[#1A1A1A] border border-[#333333] rounded-md text-sm text-gray-200 px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ campaign, posts, canReview, onUpdateCampaign, onChanged }) => {
+  const timeZone = useTimezone();
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canReview) return;
+
+    ApprovalService.getOwnedProjects()
+      .then(setProjects)
+      .catch(err => console.error('Error fetching projects:', err));
+  }, [canReview]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setSaving(key);
+    setError(null);
+    try {
+      await action();
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the post');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    formatInTimezone(value, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const pending = posts.filter(post => post.status === 'pending_approval');
+  const rejected = posts.filter(post => post.status === 'rejected');
+
+  return (
+    <div className="bg-[#111111] rounded-lg p-4 border border-[#222222] space-y-5">
+      {error && (
+        <p className="text-sm text-red-400">{error}</p>
+      )}
+
+      {canReview && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-200 mb-1 flex items-center gap-2">
+            <ShieldCheck size={16} className="text-[#C69B7B]" />
+            Sharing and Approval
+          </h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Editors of the project can add posts to this campaign. With approval on, their posts are not scheduled until an owner approves them.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={campaign.project_id || ''}
+              onChange={(e) => run('settings', () => onUpdateCampaign(
+                e.target.value ? { project_id: e.target.value } : { project_id: null, requires_approval: false }
+              ))}
+              disabled={saving === 'settings'}
+              className={inputClasses}
+            >
+              <option value="">Not shared</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={!!campaign.requires_approval}
+                onChange={(e) => run('settings', () => onUpdateCampaign({ requires_approval: e.target.checked }))}
+                disabled={saving === 'settings' || !campaign.project_id}
+                className="rounded bg-[#1A1A1A] border-[#333333] text-[#C69B7B] focus:ring-[#C69B7B]"
+              />
+              Require approval for editors' posts
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-200 mb-1">Waiting for Approval</h3>
+        {pending.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing to review.</p>
+        ) : (
+          <div className="divide-y divide-[#222222]">
+            {pending.map(post => (
+              <div key={post.id} className="py-3 space-y-2">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <span className="text-sm text-gray-200">{post.title}</span>
+                  <span className="text-xs text-gray-500">
+                    r/{post.subreddit?.name || 'unknown'} · u/{post.reddit_account?.username || 'unknown'} · {formatDate(post.scheduled_for)}
+                  </span>
+                </div>
+                {canReview ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={comments[post.id] || ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [post.id]: e.target.value }))}
+                      placeholder="Comment (required to reject)"
+                      className={`${inputClasses} flex-1 min-w-[12rem]`}
+                    />
+                    <button
+                      onClick={() => run(post.id, () => ApprovalService.approve(post.id, comments[post.id]))}
+                      disabled={saving === post.id}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-[#2B543A]/20 text-[#4CAF50] border border-[#2B543A]/30 hover:bg-[#2B543A]/40 disabled:opacity-50"
+                    >
+                      <Check size={12} />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => run(post.id, () => ApprovalService.reject(post.id, comments[post.id] || ''))}
+                      disabled={saving === post.id}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-red-900/20 text-red-400 border border-red-900/30 hover:bg-red-900/40 disabled:opacity-50"
+                    >
+                      <X size={12} />
+                      Reject
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">Waiting for a campaign owner to review it.</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {rejected.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-200 mb-1">Rejected</h3>
+          <div className="divide-y divide-[#222222]">
+            {rejected.map(post => (
+              <div key={post.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-300 truncate">{post.title}</p>
+                  {post.review_comment && (
+                    <p className="text-xs text-red-400">{post.review_comment}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => run(post.id, () => ApprovalService.resubmit(post.id))}
+                  disabled={saving === post.id}
+                  className="flex items-center gap-1 text-xs text-[#C69B7B] hover:text-white disabled:opacity-50"
+                  title="Send the post back for review"
+                >
+                  <RotateCcw size={12} />
+                  Resubmit
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
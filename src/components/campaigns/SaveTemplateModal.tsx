@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Plus, Trash2, X } from 'lucide-react';
+import Modal from '../Modal';
+import { CampaignWithPosts } from '../../features/campaigns/types';
+import { CampaignTemplateService } from '../../features/campaigns/services/templates';
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  campaign: CampaignWithPosts | null;
+  onSaved: () => void;
+}
+
+const inputClasses = 'w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]';
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ isOpen, onClose, campaign, onSaved }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [variables, setVariables] = useState<Array<{ name: string; value: string }>>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<'save' | 'export' | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !campaign) return;
+
+    setName(campaign.name);
+    setDescription(campaign.description || '');
+    setVariables([]);
+    setError(null);
+  }, [isOpen, campaign]);
+
+  const updateVariable = (index: number, field: 'name' | 'value', value: string) => {
+    setVariables(prev => prev.map((variable, i) => (i === index ? { ...variable, [field]: value } : variable)));
+  };
+
+  const run = async (key: 'save' | 'export') => {
+    if (!campaign) return;
+
+    const invalid = variables.find(variable => variable.value && !/^[a-zA-Z0-9_]+$/.test(variable.name.trim()));
+    if (invalid) {
+      setError('Variable names can only use letters, numbers and underscores');
+      return;
+    }
+
+    setSaving(key);
+    setError(null);
+
+    try {
+      const definition = await CampaignTemplateService.buildDefinition(campaign, variables);
+
+      if (key === 'save') {
+        await CampaignTemplateService.saveTemplate(name, description, definition);
+        onSaved();
+      } else {
+        const json = CampaignTemplateService.toJson({ name, description, definition });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        link.download = `${name.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'campaign'}.template.json`;
+        link.click();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while saving the template');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-[#111111] p-6 rounded-lg shadow-md border border-[#222222] max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Save as Template</h2>
+            <p className="text-gray-400 text-sm mt-1">Reuse this campaign's posts, timing and settings</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[#1A1A1A] rounded-full transition-all duration-200"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          {error && (
+            <div className="p-3 bg-red-900/30 text-red-400 rounded-lg text-sm">{error}</div>
+          )}
+
+          <div>
+            <label htmlFor="template-name" className="block text-sm font-medium text-gray-200 mb-1.5">
+              Template Name *
+            </label>
+            <input
+              id="template-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="template-description" className="block text-sm font-medium text-gray-200 mb-1.5">
+              Description
+            </label>
+            <textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClasses}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-200 mb-1">Variables</label>
+            <p className="text-xs text-gray-500 mb-2">
+              Text such as a client's name is replaced by a {'{{variable}}'} that is filled in when the template is used.
+            </p>
+            <div className="space-y-2">
+              {variables.map((variable, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={variable.name}
+                    onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                    placeholder="client_name"
+                    className={inputClasses}
+                  />
+                  <input
+                    type="text"
+                    value={variable.value}
+                    onChange={(e) => updateVariable(index, 'value', e.target.value)}
+                    placeholder="Text to replace"
+                    className={inputClasses}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setVariables(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-500 hover:text-red-400"
+                    aria-label="Remove variable"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setVariables(prev => [...prev, { name: '', value: '' }])}
+              className="mt-2 flex items-center gap-1 text-xs text-[#C69B7B] hover:text-white"
+            >
+              <Plus size={12} />
+              Add variable
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-5 border-t border-[#222222]">
+            <button
+              type="button"
+              onClick={() => run('export')}
+              disabled={saving !== null}
+              className="px-4 py-2 text-sm font-medium text-gray-300 bg-[#1A1A1A] border border-[#333333] rounded-md hover:bg-[#252525] transition-all duration-200 flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download size={14} />
+              {saving === 'export' ? 'Exporting...' : 'Export JSON'}
+            </button>
+            <button
+              type="button"
+              onClick={() => run('save')}
+              disabled={saving !== null || !name.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-[#C69B7B] rounded-md hover:bg-[#B38A6A] transition-all duration-200 disabled:opacity-50"
+            >
+              {saving === 'save' ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SaveTemplateModal;
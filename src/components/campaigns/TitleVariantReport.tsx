@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { campaignApi } from '../../features/campaigns/lib/api';
+import { CampaignPost, CampaignPostWithDetails, TitleVariantStats } from '../../features/campaigns/types';
+import { RecurrenceService } from '../../features/campaigns/services/recurrence';
+
+interface TitleVariantReportProps {
+  campaignId: string;
+  posts: CampaignPost[];
+}
+
+const formatAverage = (value: number | null) => (value == null ? '—' : Number(value).toFixed(1));
+
+const TitleVariantReport: React.FC<TitleVariantReportProps> = ({ campaignId, posts }) => {
+  const [stats, setStats] = useState<TitleVariantStats[]>([]);
+
+  // Reload with the posts so new runs and snapshots show up
+  useEffect(() => {
+    campaignApi.getTitleVariantStats(campaignId)
+      .then(setStats)
+      .catch(err => console.error('Error fetching title variant stats:', err));
+  }, [campaignId, posts]);
+
+  const tests = Array.from(
+    stats.reduce((map, variant) => {
+      map.set(variant.post_id, [...(map.get(variant.post_id) || []), variant]);
+      return map;
+    }, new Map<string, TitleVariantStats[]>()).entries()
+  );
+
+  if (tests.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {tests.map(([postId, variants]) => {
+        const root = (posts as CampaignPostWithDetails[]).find(post => post.id === postId);
+        const runsNeeded = root?.title_test_runs || 3;
+        const decided = variants.some(variant => variant.is_winner);
+
+        return (
+          <div key={postId} className="bg-[#111111] rounded-lg p-4 border border-[#222222]">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h3 className="text-sm font-medium text-gray-200">
+                {root?.subreddit?.name ? `r/${root.subreddit.name}` : 'Recurring post'}
+                {root?.recurrence_rule ? (
+                  <span className="text-gray-500 font-normal">
+                    {' · '}{RecurrenceService.describe(root.recurrence_rule, root.recurrence_timezone || 'UTC')}
+                  </span>
+                ) : root?.interval_hours && (
+                  <span className="text-gray-500 font-normal"> · every {root.interval_hours}h</span>
+                )}
+              </h3>
+              <span className={`px-2 py-0.5 text-xs rounded-full ${
+                decided
+                  ? 'bg-[#2B543A]/20 text-[#4CAF50] border border-[#2B543A]/30'
+                  : 'bg-[#1A1A1A] text-gray-300 border border-[#333333]'
+              }`}>
+                {decided ? 'Winner picked' : `Testing · ${runsNeeded} measured runs each`}
+              </span>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="pb-2 font-medium">Title</th>
+                    <th className="pb-2 font-medium">Source</th>
+                    <th className="pb-2 font-medium text-right">Runs</th>
+                    <th className="pb-2 font-medium text-right">Measured</th>
+                    <th className="pb-2 font-medium text-right">Avg Score</th>
+                    <th className="pb-2 font-medium text-right">Avg Comments</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[#222222]">
+                  {variants.map(variant => (
+                    <tr key={variant.variant_id} className="text-gray-300">
+                      <td className="py-2 pr-3">
+                        <span className="flex items-center gap-2">
+                          {variant.is_winner && <Trophy size={14} className="text-[#C69B7B] shrink-0" />}
+                          <span className="truncate max-w-xs" title={variant.title}>{variant.title}</span>
+                        </span>
+                      </td>
+                      <td className="py-2 pr-3 text-gray-500">{variant.source}</td>
+                      <td className="py-2 text-right">{variant.runs}</td>
+                      <td className="py-2 text-right">{variant.measured_runs}</td>
+                      <td className="py-2 text-right">{formatAverage(variant.avg_score)}</td>
+                      <td className="py-2 text-right">{formatAverage(variant.avg_comments)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TitleVariantReport;
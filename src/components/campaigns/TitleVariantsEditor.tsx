@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { CreateTitleVariantDto, TitleVariantSource } from '../../features/campaigns/types';
+import { RedditPostingService } from '../../features/campaigns/services/reddit';
+import { TitleVariantTester } from '../../features/campaigns/services/titleVariants';
+
+export interface TitleVariantOptions {
+  titleVariants: CreateTitleVariantDto[];
+  titleTestRuns: number;
+}
+
+interface TitleVariantsEditorProps {
+  title: string;
+  content: string;
+  // Variants are generated for this subreddit
+  subredditId: string | undefined;
+  options: TitleVariantOptions;
+  onChange: (updates: Partial<TitleVariantOptions>) => void;
+  onError: (message: string) => void;
+}
+
+// Titles a recurring post rotates through until the best-scoring one is kept
+const TitleVariantsEditor: React.FC<TitleVariantsEditorProps> = ({
+  title,
+  content,
+  subredditId,
+  options,
+  onChange,
+  onError
+}) => {
+  const { titleVariants, titleTestRuns } = options;
+  const [variantInput, setVariantInput] = useState('');
+  const [isAddingVariants, setIsAddingVariants] = useState(false);
+
+  const addTitleVariants = (titles: string[], source: TitleVariantSource) => {
+    const existing = new Set([title.trim(), ...titleVariants.map(variant => variant.title)]);
+    const added = titles
+      .map(variantTitle => variantTitle.trim())
+      .filter(variantTitle => variantTitle && !existing.has(variantTitle))
+      .map(variantTitle => ({ title: variantTitle, source }));
+
+    onChange({ titleVariants: [...titleVariants, ...added] });
+  };
+
+  const removeTitleVariant = (index: number) => {
+    onChange({ titleVariants: titleVariants.filter((_, i) => i !== index) });
+  };
+
+  const handleGenerateVariant = async (source: 'ai' | 'template') => {
+    if (!subredditId) {
+      onError('Select a subreddit before generating title variants');
+      return;
+    }
+
+    setIsAddingVariants(true);
+    try {
+      if (source === 'ai') {
+        addTitleVariants([await RedditPostingService.generateAiTitle(subredditId, content)], 'ai');
+      } else {
+        const templates = await TitleVariantTester.getTemplateTitles(subredditId, content);
+        if (templates.length === 0) {
+          onError('This subreddit has no title templates in its analysis yet');
+          return;
+        }
+        addTitleVariants(templates, 'template');
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to generate a title variant');
+    } finally {
+      setIsAddingVariants(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="titleVariant" className="block text-sm font-medium text-gray-200">
+        Title Variants
+      </label>
+      <p className="text-xs text-gray-500">
+        Recurrences rotate through the post title and these variants. The variant with the best average score after 24 hours is kept once each has enough runs.
+      </p>
+
+      {titleVariants.length > 0 && (
+        <ul className="space-y-1">
+          {titleVariants.map((variant, index) => (
+            <li key={index} className="flex items-center gap-2 text-sm text-gray-300 bg-[#1A1A1A] border border-[#333333] rounded-md px-3 py-1.5">
+              <span className="flex-1 truncate" title={variant.title}>{variant.title}</span>
+              <span className="text-xs text-gray-500">{variant.source}</span>
+              <button
+                type="button"
+                onClick={() => removeTitleVariant(index)}
+                className="text-gray-400 hover:text-white"
+                aria-label="Remove variant"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          id="titleVariant"
+          type="text"
+          value={variantInput}
+          onChange={(e) => setVariantInput(e.target.value)}
+          placeholder="Another title to test"
+          className="w-full bg-[#1A1A1A] border border-[#333333] rounded-md shadow-sm text-gray-200 px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#C69B7B] focus:border-[#C69B7B]"
+        />
+        <button
+          type="button"
+          onClick={() => {
+            addTitleVariants([variantInput], 'manual');
+            setVariantInput('');
+          }}
+          disabled={!variantInput.trim()}
+          className="px-3 py-2 text-sm text-gray-300 bg-[#1A1A1A] border border-[#333333] rounded-md hover:bg-[#252525] disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={() => handleGenerateVariant('ai')}
+          disabled={isAddingVariants}
+          className="text-[#C69B7B] hover:text-white disabled:opacity-50"
+        >
+          Generate with AI
+        </button>
+        <button
+          type="button"
+          onClick={() => handleGenerateVariant('template')}
+          disabled={isAddingVariants}
+          className="text-[#C69B7B] hover:text-white disabled:opacity-50"
+        >
+          Add subreddit templates
+        </button>
+        {titleVariants.length > 0 && (
+          <label className="flex items-center gap-2 text-gray-400">
+            Pick a winner after
+            <input
+              type="number"
+              min={1}
+              value={titleTestRuns}
+              onChange={(e) => onChange({ titleTestRuns: Number(e.target.value) })}
+              className="w-16 bg-[#1A1A1A] border border-[#333333] rounded-md text-gray-200 px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#C69B7B]"
+            />
+            runs each
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TitleVariantsEditor;
@@ -8,6 +8,7 @@ interface Profile {
   display_name: string | null;
   email: string | null;
   image_url: string | null;
+  timezone: string | null; // IANA timezone; null follows the browser
 }
 
 interface AuthContextType {
@@ -19,7 +20,7 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ user: User; session: Session } | null>;
   signUp: (email: string, password: string) => Promise<{ user: User | null; session: Session | null }>;
   signOut: () => Promise<void>;
-  updateProfile: (data: { display_name?: string }) => Promise<void>;
+  updateProfile: (data: { display_name?: string; timezone?: string | null }) => Promise<void>;
   signInWithGoogle: () => Promise<{ provider: string; url: string } | null>;
   sendPasswordResetEmail: (email: string) => Promise<void>;
 }
@@ -290,7 +291,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const updateProfile = React.useCallback(async (data: { display_name?: string }) => {
+  const updateProfile = React.useCallback(async (data: { display_name?: string; timezone?: string | null }) => {
     try {
       setError(null);
       if (!user) {
@@ -7,7 +7,9 @@ import {
   CreateCampaignDto, 
   CreateCampaignPostDto,
   UpdateCampaignDto,
-  UpdateCampaignPostDto
+  UpdateCampaignPostDto,
+  CreatePostBatchDto,
+  UpdatePostBatchDto
 } from '../features/campaigns/types';
 import { handleCampaignError } from '../features/campaigns/services/errors';
 import { useAuth } from './AuthContext';
@@ -35,6 +37,12 @@ interface CampaignContextType {
   updateCampaignPost: (id: string, updates: UpdateCampaignPostDto) => Promise<CampaignPost>;
   deleteCampaignPost: (id: string) => Promise<void>;
   
+  // Post batch methods
+  createPostBatch: (batch: CreatePostBatchDto) => Promise<CampaignPost[]>;
+  updatePostBatch: (campaignId: string, batchId: string, updates: UpdatePostBatchDto) => Promise<void>;
+  reschedulePostBatch: (campaignId: string, batchId: string, shiftMs: number) => Promise<void>;
+  cancelPostBatch: (campaignId: string, batchId: string) => Promise<void>;
+  
   // Media methods
   fetchMediaItems: () => Promise<void>;
   fetchMediaItemsByTag: (tagId: string) => Promise<MediaItem[]>;
@@ -355,6 +363,87 @@ export const CampaignProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
+  // Create one post per subreddit as a batch
+  const createPostBatch = async (batch: CreatePostBatchDto): Promise<CampaignPost[]> => {
+    if (!user) throw new Error('User not authenticated');
+    if (tablesNotFound) throw new Error('The campaigns feature is not yet fully set up. Please run the database migration.');
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const data = await campaignApi.createPostBatch(batch);
+      setCampaignPosts(await campaignApi.getCampaignPosts(batch.campaign_id));
+      return data;
+    } catch (err) {
+      const errorMsg = handleCampaignError(err);
+      setError(errorMsg);
+      throw new Error(errorMsg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Apply the same changes to the batch's scheduled posts
+  const updatePostBatch = async (campaignId: string, batchId: string, updates: UpdatePostBatchDto): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (tablesNotFound) throw new Error('The campaigns feature is not yet fully set up. Please run the database migration.');
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      await campaignApi.updatePostBatch(batchId, updates);
+      setCampaignPosts(await campaignApi.getCampaignPosts(campaignId));
+    } catch (err) {
+      const errorMsg = handleCampaignError(err);
+      setError(errorMsg);
+      throw new Error(errorMsg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Move the batch's scheduled posts by the same amount
+  const reschedulePostBatch = async (campaignId: string, batchId: string, shiftMs: number): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (tablesNotFound) throw new Error('The campaigns feature is not yet fully set up. Please run the database migration.');
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      await campaignApi.reschedulePostBatch(batchId, shiftMs);
+      setCampaignPosts(await campaignApi.getCampaignPosts(campaignId));
+    } catch (err) {
+      const errorMsg = handleCampaignError(err);
+      setError(errorMsg);
+      throw new Error(errorMsg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Drop the batch's posts that haven't gone out yet
+  const cancelPostBatch = async (campaignId: string, batchId: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (tablesNotFound) throw new Error('The campaigns feature is not yet fully set up. Please run the database migration.');
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      await campaignApi.cancelPostBatch(batchId);
+      setCampaignPosts(await campaignApi.getCampaignPosts(campaignId));
+    } catch (err) {
+      const errorMsg = handleCampaignError(err);
+      setError(errorMsg);
+      throw new Error(errorMsg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Upload media
   const uploadMedia = async (file: File): Promise<MediaItem> => {
     if (!user) throw new Error('User not authenticated');
@@ -751,6 +840,12 @@ export const CampaignProvider: React.FC<{ children: ReactNode }> = ({ children }
         updateCampaignPost,
         deleteCampaignPost,
         
+        // Post batch methods
+        createPostBatch,
+        updatePostBatch,
+        reschedulePostBatch,
+        cancelPostBatch,
+        
         // Media methods
         fetchMediaItems,
         fetchMediaItemsByTag,
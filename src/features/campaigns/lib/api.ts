@@ -5,10 +5,26 @@ import {
   MediaItem, 
   CreateCampaignDto, 
   CreateCampaignPostDto,
+  CrosspostChainDto,
   UpdateCampaignDto,
   UpdateCampaignPostDto,
-  CampaignWithPosts
+  CampaignWithPosts,
+  CreateGalleryItemDto,
+  GalleryItem,
+  PostMetricsSnapshot,
+  CampaignMetrics,
+  CreatePostBatchDto,
+  UpdatePostBatchDto,
+  CreateTitleVariantDto,
+  TitleVariantStats,
+  RuleViolation
 } from '../types';
+import { RedditPostingService } from '../services/reddit';
+import { SubredditFlairService } from '../services/flair';
+import { RecurrenceService } from '../services/recurrence';
+import { PostingRuleGuard } from '../services/rules';
+import { DuplicatePostDetector } from '../services/duplicates';
+import { computeImageHash } from '../../../lib/imageHash';
 
 export const campaignApi = {
   // Campaign Methods
@@ -104,15 +120,41 @@ export const campaignApi = {
     if (error) throw error;
   },
 
+  // Post counts and performance totals from the campaign_metrics view
+  async getCampaignMetrics(campaignId: string): Promise<CampaignMetrics | null> {
+    const { data, error } = await supabase
+      .from('campaign_metrics')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data as CampaignMetrics | null;
+  },
+
+  async getTitleVariantStats(campaignId: string): Promise<TitleVariantStats[]> {
+    const { data, error } = await supabase
+      .from('campaign_title_variant_stats')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('position', { ascending: true });
+    
+    if (error) throw error;
+    return data as TitleVariantStats[];
+  },
+
   // Campaign Posts Methods
   async getCampaignPosts(campaignId: string): Promise<CampaignPost[]> {
     const { data, error } = await supabase
       .from('campaign_posts')
       .select(`
         *,
-        reddit_account:reddit_accounts(username),
+        reddit_account:reddit_accounts(username, is_shadowbanned),
         subreddit:subreddits(name),
-        media_item:media_items(*)
+        media_item:media_items(*),
+        gallery_items:campaign_post_gallery_items(*, media_item:media_items(*)),
+        metrics:campaign_post_metrics(*),
+        batch:campaign_post_batches(*)
       `)
       .eq('campaign_id', campaignId)
       .order('scheduled_for', { ascending: true });
@@ -124,13 +166,96 @@ export const campaignApi = {
       ...post,
       reddit_account: post.reddit_account || { username: '' },
       subreddit: post.subreddit || { name: '' },
-      media_item: post.media_item || undefined
+      media_item: post.media_item || undefined,
+      gallery_items: ((post.gallery_items || []) as GalleryItem[]).sort((a, b) => a.position - b.position),
+      metrics: ((post.metrics || []) as PostMetricsSnapshot[]).sort(
+        (a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime()
+      )
     }));
     
     return typedData;
   },
 
   async createCampaignPost(post: CreateCampaignPostDto): Promise<CampaignPost> {
+    if (post.content_type === 'gallery') {
+      const galleryError = RedditPostingService.validateGalleryItems(post.gallery_items || []);
+      if (galleryError) {
+        throw new Error(galleryError);
+      }
+    }
+    
+    // Crossposts share an earlier campaign post once it is live, or any Reddit post right away
+    let crosspostFullname: string | null = null;
+    let crosspostSourceId: string | null = null;
+    if (post.content_type === 'crosspost') {
+      if (post.interval_hours || post.recurrence_rule) {
+        throw new Error('Crossposts cannot recur');
+      }
+      
+      if (post.crosspost_source_post_id) {
+        const { data: source, error: sourceError } = await supabase
+          .from('campaign_posts')
+          .select('id, campaign_id, status, reddit_post_id, content_type')
+          .eq('id', post.crosspost_source_post_id)
+          .single();
+        
+        if (sourceError) throw sourceError;
+        if (source.campaign_id !== post.campaign_id || source.content_type === 'crosspost') {
+          throw new Error('Crossposts can only share another post of the same campaign');
+        }
+        if (['failed', 'rejected', 'removed'].includes(source.status)) {
+          throw new Error(`The post to crosspost is ${source.status}`);
+        }
+        
+        crosspostSourceId = source.id;
+        if (source.status === 'posted' && source.reddit_post_id) {
+          crosspostFullname = RedditPostingService.parseCrosspostFullname(source.reddit_post_id)
+            || RedditPostingService.parseCrosspostFullname(`t3_${source.reddit_post_id}`);
+        }
+      } else {
+        crosspostFullname = RedditPostingService.parseCrosspostFullname(post.crosspost_url || '');
+        if (!crosspostFullname) {
+          throw new Error('Enter a link to a Reddit post to crosspost');
+        }
+      }
+    }
+    
+    // Posts that don't choose a flair get the user's default for the subreddit
+    let flairId = post.flair_id;
+    let flairText = post.flair_text;
+    if (flairId === undefined) {
+      const flairDefault = await SubredditFlairService.getDefault(post.subreddit_id);
+      flairId = flairDefault?.flair_id;
+      flairText = flairDefault?.flair_text;
+    }
+    
+    // A rule-driven series starts at its first occurrence on or after the chosen time
+    let scheduledFor = post.scheduled_for;
+    const recurrenceTimezone = post.recurrence_timezone || 'UTC';
+    if (post.recurrence_rule) {
+      if (!RecurrenceService.isValidTimezone(recurrenceTimezone)) {
+        throw new Error(`Unknown timezone: ${recurrenceTimezone}`);
+      }
+      const first = RecurrenceService.firstOccurrence({
+        rule: post.recurrence_rule,
+        timezone: recurrenceTimezone,
+        start: post.scheduled_for,
+        exdates: post.recurrence_exdates
+      });
+      if (!first) {
+        throw new Error('The recurrence rule has no occurrences after the start time');
+      }
+      scheduledFor = first.toISOString();
+    }
+    
+    // Only recurrences can rotate titles, so one-time posts keep just their title
+    const titleVariants = (post.interval_hours || post.recurrence_rule) && post.title_variants && post.title_variants.length > 0
+      ? this.normalizeTitleVariants([
+          { title: post.title, source: post.use_ai_title ? 'ai' : 'manual' },
+          ...post.title_variants
+        ])
+      : [];
+    
     try {
       // Use the transaction-based function to create the campaign post
       const { data, error } = await supabase
@@ -141,11 +266,36 @@ export const campaignApi = {
           p_subreddit_id: post.subreddit_id,
           p_title: post.title,
           p_content_type: post.content_type,
-          p_content: post.content,
-          p_scheduled_for: post.scheduled_for,
-          p_interval_hours: post.interval_hours || null,
+          p_content: post.content_type === 'crosspost' && !crosspostSourceId ? post.crosspost_url?.trim() || '' : post.content,
+          p_scheduled_for: scheduledFor,
+          p_interval_hours: post.recurrence_rule ? null : post.interval_hours || null,
           p_use_ai_title: post.use_ai_title,
-          p_use_ai_timing: post.use_ai_timing
+          p_use_ai_timing: post.use_ai_timing,
+          p_flair_id: flairId || null,
+          p_flair_text: flairId ? flairText?.trim() || null : null,
+          p_nsfw: post.nsfw ?? false,
+          p_spoiler: post.spoiler ?? false,
+          p_send_replies: post.send_replies ?? true,
+          p_first_comment: post.first_comment?.trim() || null,
+          p_first_comment_sticky: post.first_comment_sticky ?? false,
+          p_first_comment_distinguish: post.first_comment_distinguish ?? false,
+          p_batch_id: post.batch_id || null,
+          p_recurrence_rule: post.recurrence_rule || null,
+          p_recurrence_timezone: recurrenceTimezone,
+          p_recurrence_start: post.recurrence_rule ? post.scheduled_for : null,
+          p_recurrence_exdates: post.recurrence_rule ? post.recurrence_exdates || [] : [],
+          p_crosspost_source_post_id: crosspostSourceId,
+          p_crosspost_fullname: crosspostFullname,
+          p_crosspost_delay_hours: crosspostSourceId ? post.crosspost_delay_hours ?? 0 : null,
+          p_gallery_items: post.content_type === 'gallery'
+            ? (post.gallery_items || []).map(item => ({
+                media_item_id: item.media_item_id,
+                caption: item.caption?.trim() || null,
+                outbound_url: item.outbound_url?.trim() || null
+              }))
+            : [],
+          p_title_variants: titleVariants,
+          p_title_test_runs: titleVariants.length > 0 ? post.title_test_runs || null : null
         });
       
       if (error) {
@@ -153,24 +303,201 @@ export const campaignApi = {
         throw error;
       }
       
-      // Fetch the newly created post details
-      const { data: postData, error: fetchError } = await supabase
-        .from('campaign_posts')
-        .select('*')
-        .eq('id', data)
-        .single();
+      try {
+        // Fetch the newly created post details
+        const { data: postData, error: fetchError } = await supabase
+          .from('campaign_posts')
+          .select('*')
+          .eq('id', data)
+          .single();
+          
+        if (fetchError) {
+          throw fetchError;
+        }
         
-      if (fetchError) {
-        throw fetchError;
+        // Flag reposts of what the user's accounts recently posted to the subreddit
+        const duplicates = await this.checkDuplicates(postData as CampaignPost, [
+          post.media_item_id,
+          ...(post.gallery_items || []).map(item => item.media_item_id)
+        ]);
+        if (duplicates.length > 0) {
+          const ruleCheck = PostingRuleGuard.withViolations(
+            { status: 'passed', violations: [], checked_at: new Date().toISOString() },
+            duplicates
+          );
+          await PostingRuleGuard.recordResult(data, ruleCheck);
+          Object.assign(postData, {
+            rule_check_status: ruleCheck.status,
+            rule_violations: ruleCheck.violations,
+            rule_checked_at: ruleCheck.checked_at
+          });
+        }
+        
+        if (post.content_type !== 'crosspost' && post.crossposts && post.crossposts.subreddit_ids.length > 0) {
+          await this.createCrossposts(postData as CampaignPost, post.crossposts, post);
+        }
+        
+        return postData as CampaignPost;
+      } catch (setupError) {
+        // A post missing its crossposts isn't what the user scheduled, so don't leave it behind;
+        // the crossposts already created go with it
+        await supabase.from('campaign_posts').delete().eq('id', data);
+        throw setupError;
       }
-      
-      return postData as CampaignPost;
     } catch (error) {
       console.error('Error in createCampaignPost:', error);
       throw error;
     }
   },
 
+  // Chain crossposts of a post to more subreddits; they wait until the post is live
+  async createCrossposts(source: CampaignPost, chain: CrosspostChainDto, options: Pick<CreateCampaignPostDto, 'nsfw' | 'spoiler' | 'send_replies'> = {}): Promise<CampaignPost[]> {
+    const delayHours = Math.max(0, chain.delay_hours || 0);
+    const scheduledFor = new Date(new Date(source.scheduled_for).getTime() + delayHours * 60 * 60 * 1000).toISOString();
+    const crossposts: CampaignPost[] = [];
+    
+    for (const subredditId of chain.subreddit_ids.filter(id => id !== source.subreddit_id)) {
+      crossposts.push(await this.createCampaignPost({
+        campaign_id: source.campaign_id,
+        reddit_account_id: source.reddit_account_id,
+        subreddit_id: subredditId,
+        title: source.title,
+        content_type: 'crosspost',
+        content: '',
+        scheduled_for: scheduledFor,
+        use_ai_title: false,
+        use_ai_timing: false,
+        nsfw: options.nsfw,
+        spoiler: options.spoiler,
+        send_replies: options.send_replies,
+        batch_id: source.batch_id || undefined,
+        crosspost_source_post_id: source.id,
+        crosspost_delay_hours: delayHours
+      }));
+    }
+    
+    return crossposts;
+  },
+
+  async checkDuplicates(post: CampaignPost, mediaItemIds: Array<string | undefined>): Promise<RuleViolation[]> {
+    const ids = mediaItemIds.filter((id): id is string => !!id);
+    let media: Array<Pick<MediaItem, 'id' | 'perceptual_hash'>> = [];
+    
+    if (ids.length > 0) {
+      const { data } = await supabase
+        .from('media_items')
+        .select('id, perceptual_hash')
+        .in('id', ids);
+      media = data || [];
+    }
+    
+    return DuplicatePostDetector.check({ ...post, media });
+  },
+
+  // Batch Methods
+  async createPostBatch(batch: CreatePostBatchDto): Promise<CampaignPost[]> {
+    if (batch.targets.length === 0) {
+      throw new Error('Pick at least one subreddit for the batch');
+    }
+    
+    const { data: created, error } = await supabase
+      .from('campaign_post_batches')
+      .insert({
+        campaign_id: batch.campaign_id,
+        name: batch.name,
+        project_id: batch.project_id || null,
+        use_preferred_times: batch.use_preferred_times
+      })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    
+    const posts: CampaignPost[] = [];
+    try {
+      for (const target of batch.targets) {
+        posts.push(await this.createCampaignPost({
+          ...batch.post,
+          campaign_id: batch.campaign_id,
+          subreddit_id: target.subreddit_id,
+          scheduled_for: target.scheduled_for,
+          batch_id: created.id
+        }));
+      }
+    } catch (createError) {
+      // A half-created batch is harder to clean up by hand than to retry. Posts carry the batch from
+      // the moment they are inserted, and a post that failed part way has already removed itself.
+      await supabase.from('campaign_posts').delete().eq('batch_id', created.id);
+      await supabase.from('campaign_post_batches').delete().eq('id', created.id);
+      throw createError;
+    }
+    
+    return posts;
+  },
+
+  async updatePostBatch(batchId: string, updates: UpdatePostBatchDto): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_posts')
+      .update(updates)
+      .eq('batch_id', batchId)
+      .in('status', ['pending_approval', 'scheduled']);
+    
+    if (error) throw error;
+  },
+
+  // Move every scheduled post of the batch by the same amount so their spacing is kept
+  async reschedulePostBatch(batchId: string, shiftMs: number): Promise<void> {
+    const { data: posts, error } = await supabase
+      .from('campaign_posts')
+      .select('id, scheduled_for')
+      .eq('batch_id', batchId)
+      .in('status', ['pending_approval', 'scheduled']);
+    
+    if (error) throw error;
+    
+    for (const post of posts || []) {
+      const { error: updateError } = await supabase
+        .from('campaign_posts')
+        .update({
+          scheduled_for: new Date(new Date(post.scheduled_for).getTime() + shiftMs).toISOString(),
+          next_attempt_at: null,
+          quota_hold_until: null,
+          quota_hold_reason: null
+        })
+        .eq('id', post.id)
+        .in('status', ['pending_approval', 'scheduled']);
+      
+      if (updateError) throw updateError;
+    }
+  },
+
+  // Posts that already went out stay; the batch itself goes once nothing refers to it
+  async cancelPostBatch(batchId: string): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_posts')
+      .delete()
+      .eq('batch_id', batchId)
+      .in('status', ['pending_approval', 'scheduled']);
+    
+    if (error) throw error;
+    
+    const { count, error: countError } = await supabase
+      .from('campaign_posts')
+      .select('id', { count: 'exact', head: true })
+      .eq('batch_id', batchId);
+    
+    if (countError) throw countError;
+    
+    if (count === 0) {
+      const { error: deleteError } = await supabase
+        .from('campaign_post_batches')
+        .delete()
+        .eq('id', batchId);
+      
+      if (deleteError) throw deleteError;
+    }
+  },
+
   async updateCampaignPost(id: string, updates: UpdateCampaignPostDto): Promise<CampaignPost> {
     const { data, error } = await supabase
       .from('campaign_posts')
@@ -183,6 +510,40 @@ export const campaignApi = {
     return data as CampaignPost;
   },
 
+  // The first variant is the post's own title; recurrences rotate through the rest. A single
+  // title leaves nothing to rotate, so no variants are kept
+  normalizeTitleVariants(variants: CreateTitleVariantDto[]): CreateTitleVariantDto[] {
+    const titles = variants
+      .map(variant => ({ ...variant, title: variant.title.trim() }))
+      .filter((variant, index, all) => variant.title && all.findIndex(other => other.title === variant.title) === index);
+    
+    return titles.length < 2 ? [] : titles;
+  },
+
+  // Replace a gallery post's images, keeping the given order
+  async setGalleryItems(postId: string, items: CreateGalleryItemDto[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('campaign_post_gallery_items')
+      .delete()
+      .eq('post_id', postId);
+    
+    if (deleteError) throw deleteError;
+    
+    if (items.length === 0) return;
+    
+    const { error } = await supabase
+      .from('campaign_post_gallery_items')
+      .insert(items.map((item, position) => ({
+        post_id: postId,
+        media_item_id: item.media_item_id,
+        position,
+        caption: item.caption?.trim() || null,
+        outbound_url: item.outbound_url?.trim() || null
+      })));
+    
+    if (error) throw error;
+  },
+
   async deleteCampaignPost(id: string): Promise<void> {
     const { error } = await supabase
       .from('campaign_posts')
@@ -274,16 +635,19 @@ export const campaignApi = {
   },
 
   async uploadMedia(file: File): Promise<MediaItem> {
-    // Validate file size (5MB max)
+    // Validate file size (5MB max for images, 100MB for videos)
     const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-    if (file.size > MAX_FILE_SIZE) {
-      throw new Error(`File size exceeds the maximum limit of 5MB. Current size: ${(file.size / (1024 * 1024)).toFixed(2)}MB`);
+    const MAX_VIDEO_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+    const isVideo = file.type.startsWith('video/');
+    const sizeLimit = isVideo ? MAX_VIDEO_FILE_SIZE : MAX_FILE_SIZE;
+    if (file.size > sizeLimit) {
+      throw new Error(`File size exceeds the maximum limit of ${sizeLimit / (1024 * 1024)}MB. Current size: ${(file.size / (1024 * 1024)).toFixed(2)}MB`);
     }
 
     // Validate file type using both extension and MIME type
     const fileExt = file.name.split('.').pop()?.toLowerCase() || '';
-    const allowedExtensions = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
-    const allowedMimeTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+    const allowedExtensions = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'mp4', 'mov', 'webm'];
+    const allowedMimeTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/quicktime', 'video/webm'];
     
     if (!allowedExtensions.includes(fileExt)) {
       throw new Error(`File extension '${fileExt}' is not allowed. Allowed extensions: ${allowedExtensions.join(', ')}`);
@@ -297,9 +661,11 @@ export const campaignApi = {
     const sanitizedExt = allowedExtensions.find(ext => ext === fileExt) || 'jpg';
     const fileName = `${crypto.randomUUID()}.${sanitizedExt}`;
     const filePath = `media/${fileName}`;
+    const posterPath = this.getPosterPath(filePath);
 
     // Storage path for cleanup if needed
     let fileUploaded = false;
+    let posterUploaded = false;
     
     try {
       // Try to ensure bucket exists with proper permissions
@@ -321,7 +687,7 @@ export const campaignApi = {
             const { error: bucketError } = await supabase.storage.createBucket('campaign-media', {
               public: true, // Set to public to avoid RLS issues
               allowedMimeTypes: allowedMimeTypes,
-              fileSizeLimit: MAX_FILE_SIZE
+              fileSizeLimit: MAX_VIDEO_FILE_SIZE
             });
             
             if (bucketError) {
@@ -336,6 +702,8 @@ export const campaignApi = {
       }
 
       // Additional file validation: verify the actual file content matches the claimed type
+      let poster: Blob | null = null;
+      let perceptualHash: string | null = null;
       try {
         // For images, we can create an object URL and load it as an image to verify it's valid
         if (file.type.startsWith('image/')) {
@@ -356,6 +724,14 @@ export const campaignApi = {
             img.src = objectUrl;
           });
         }
+        
+        // For videos, loading the first frame both validates the file and gives us the poster Reddit needs
+        if (isVideo) {
+          poster = await this.captureVideoPoster(file);
+        }
+        
+        // Videos are compared by their poster frame
+        perceptualHash = await computeImageHash(poster || file);
       } catch (validationError) {
         throw validationError;
       }
@@ -380,6 +756,26 @@ export const campaignApi = {
       const { data: { publicUrl } } = supabase.storage
         .from('campaign-media')
         .getPublicUrl(filePath);
+      
+      let thumbnailUrl: string | null = null;
+      if (poster) {
+        const { error: posterError } = await supabase.storage
+          .from('campaign-media')
+          .upload(posterPath, poster, {
+            contentType: 'image/jpeg',
+            cacheControl: '3600',
+            upsert: true
+          });
+        
+        if (posterError) {
+          throw new Error(`Poster upload failed: ${posterError.message}`);
+        }
+        
+        posterUploaded = true;
+        thumbnailUrl = supabase.storage
+          .from('campaign-media')
+          .getPublicUrl(posterPath).data.publicUrl;
+      }
 
       // Get the current user's ID
       const { data: { user } } = await supabase.auth.getUser();
@@ -416,6 +812,14 @@ export const campaignApi = {
         hasNewColumns = false;
       }
 
+      if (thumbnailUrl) {
+        Object.assign(mediaItem, { thumbnail_url: thumbnailUrl });
+      }
+      
+      if (perceptualHash) {
+        Object.assign(mediaItem, { perceptual_hash: perceptualHash });
+      }
+
       // Add the new fields only if they exist in the schema
       if (hasNewColumns) {
         Object.assign(mediaItem, {
@@ -456,7 +860,7 @@ export const campaignApi = {
           console.log('Cleaning up file after error:', filePath);
           await supabase.storage
             .from('campaign-media')
-            .remove([filePath]);
+            .remove(posterUploaded ? [filePath, posterPath] : [filePath]);
         } catch (removeErr) {
           console.error('Failed to clean up storage after error:', removeErr);
           // Continue with the original error even if cleanup fails
@@ -472,20 +876,61 @@ export const campaignApi = {
     }
   },
 
+  // Videos keep their poster frame next to the file
+  getPosterPath(storagePath: string): string {
+    return storagePath.replace(/\.[^./]+$/, '') + '-poster.jpg';
+  },
+
+  // Grab a frame from a video file as a JPEG, rejecting files the browser can't decode
+  captureVideoPoster(file: File): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      const objectUrl = URL.createObjectURL(file);
+      const fail = () => {
+        URL.revokeObjectURL(objectUrl);
+        reject(new Error('Invalid video file. The file could not be verified as a playable video.'));
+      };
+      
+      video.preload = 'metadata';
+      video.muted = true;
+      video.onerror = fail;
+      
+      // Skip a little into the video so the poster isn't a black first frame
+      video.onloadedmetadata = () => {
+        video.currentTime = Math.min(1, video.duration / 2 || 0);
+      };
+      
+      video.onseeked = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        URL.revokeObjectURL(objectUrl);
+        
+        canvas.toBlob(blob => (blob ? resolve(blob) : fail()), 'image/jpeg', 0.85);
+      };
+      
+      video.src = objectUrl;
+    });
+  },
+
   async deleteMedia(id: string): Promise<void> {
     // First get the storage path
     const { data: mediaItem, error: fetchError } = await supabase
       .from('media_items')
-      .select('storage_path')
+      .select('storage_path, media_type')
       .eq('id', id)
       .single();
     
     if (fetchError) throw fetchError;
 
-    // Delete from storage
+    // Delete from storage, including the poster frame of videos
+    const paths = mediaItem.media_type?.startsWith('video/')
+      ? [mediaItem.storage_path, this.getPosterPath(mediaItem.storage_path)]
+      : [mediaItem.storage_path];
     const { error: storageError } = await supabase.storage
       .from('campaign-media')
-      .remove([mediaItem.storage_path]);
+      .remove(paths);
     
     if (storageError) throw storageError;
 
@@ -0,0 +1,62 @@
+import { supabase } from '../../../lib/supabase';
+
+// Approval workflow for campaigns shared with a project: editors' posts wait in pending_approval
+// until an owner approves (schedules) or rejects them. The database logs every transition.
+export class ApprovalService {
+  // Whether the current user owns the campaign, directly or as an owner of its project
+  static async canReview(campaignId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('is_campaign_owner', { p_campaign_id: campaignId });
+
+    if (error) throw error;
+    return data === true;
+  }
+
+  static async approve(postId: string, comment?: string): Promise<void> {
+    const { error } = await supabase.rpc('review_campaign_post', {
+      p_post_id: postId,
+      p_approve: true,
+      p_comment: comment?.trim() || null
+    });
+
+    if (error) throw error;
+  }
+
+  static async reject(postId: string, comment: string): Promise<void> {
+    if (!comment.trim()) {
+      throw new Error('Say why the post is rejected');
+    }
+
+    const { error } = await supabase.rpc('review_campaign_post', {
+      p_post_id: postId,
+      p_approve: false,
+      p_comment: comment.trim()
+    });
+
+    if (error) throw error;
+  }
+
+  // Send a rejected post back to the queue
+  static async resubmit(postId: string): Promise<void> {
+    const { error } = await supabase.rpc('resubmit_campaign_post', { p_post_id: postId });
+
+    if (error) throw error;
+  }
+
+  // Projects the user created, which their campaigns can be shared with
+  static async getOwnedProjects(): Promise<Array<{ id: string; name: string }>> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user || !user.id) {
+      throw new Error('User not authenticated or user ID not available');
+    }
+
+    const { data, error } = await supabase
+      .from('projects')
+      .select('id, name')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
@@ -0,0 +1,110 @@
+import { supabase } from '../../../lib/supabase';
+import { BlackoutWindow, CreateBlackoutWindowDto } from '../types';
+
+// Periods in which a campaign, or every campaign posting with an account, must not post.
+// Posts that come due during a window are shifted forward, keeping their spacing, once it ends.
+export class BlackoutService {
+  // Windows that apply to a campaign or any of the accounts it posts with, newest first
+  static async getWindows(campaignId: string, accountIds: string[]): Promise<BlackoutWindow[]> {
+    const scopes = [`campaign_id.eq.${campaignId}`];
+    if (accountIds.length > 0) {
+      scopes.push(`reddit_account_id.in.(${accountIds.join(',')})`);
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_blackout_windows')
+      .select('*')
+      .or(scopes.join(','))
+      .order('starts_at', { ascending: false });
+
+    if (error) throw error;
+    return data as BlackoutWindow[];
+  }
+
+  static async createWindow(window: CreateBlackoutWindowDto): Promise<BlackoutWindow> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user || !user.id) {
+      throw new Error('User not authenticated or user ID not available');
+    }
+
+    if (!window.campaign_id === !window.reddit_account_id) {
+      throw new Error('A blackout window applies to either a campaign or an account');
+    }
+
+    if (window.ends_at && new Date(window.ends_at) <= new Date(window.starts_at)) {
+      throw new Error('A blackout window must end after it starts');
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_blackout_windows')
+      .insert({
+        user_id: user.id,
+        campaign_id: window.campaign_id || null,
+        reddit_account_id: window.reddit_account_id || null,
+        starts_at: window.starts_at,
+        ends_at: window.ends_at || null,
+        reason: window.reason || null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as BlackoutWindow;
+  }
+
+  // Pause from now until resumed
+  static async pause(scope: { campaign_id?: string; reddit_account_id?: string }, reason?: string): Promise<BlackoutWindow> {
+    return this.createWindow({ ...scope, starts_at: new Date().toISOString(), ends_at: null, reason });
+  }
+
+  // End a window now and shift the posts it held back; returns how many posts moved
+  static async resume(windowId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('resume_blackout_window', { p_window_id: windowId });
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+
+  static async deleteWindow(windowId: string): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_blackout_windows')
+      .delete()
+      .eq('id', windowId);
+
+    if (error) throw error;
+  }
+
+  // Re-plan the posts of windows whose end has passed, before due posts are claimed
+  static async replanEndedWindows(): Promise<void> {
+    const { data, error } = await supabase.rpc('replan_ended_blackout_windows');
+
+    if (error) {
+      console.error('Error re-planning ended blackout windows:', error);
+      return;
+    }
+
+    if (data > 0) {
+      console.log(`Shifted ${data} posts held back by blackout windows`);
+    }
+  }
+
+  // Started and not yet resumed: its posts are being held back
+  static isActive(window: BlackoutWindow, now: Date = new Date()): boolean {
+    return !window.resumed_at && new Date(window.starts_at) <= now;
+  }
+
+  // Whether a post at `time` from this campaign and account would fall in one of the windows
+  static covers(
+    windows: BlackoutWindow[],
+    post: { campaign_id: string; reddit_account_id: string },
+    time: number
+  ): boolean {
+    return windows.some(window =>
+      !window.resumed_at &&
+      (window.campaign_id === post.campaign_id || window.reddit_account_id === post.reddit_account_id) &&
+      new Date(window.starts_at).getTime() <= time &&
+      (!window.ends_at || time < new Date(window.ends_at).getTime())
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { supabase } from '../../../lib/supabase';
+import { redditClient, RedditPostResponse } from '../../../lib/redditClient/browser';
+import { CampaignPost, FirstCommentResult } from '../types';
+
+// Reddit's limit on comment bodies
+export const FIRST_COMMENT_MAX_LENGTH = 10000;
+
+// Placeholders that can be used in a first comment template
+export const FIRST_COMMENT_PLACEHOLDERS = ['{title}', '{subreddit}', '{username}', '{url}'];
+
+type CommentablePost = Pick<CampaignPost, 'id' | 'campaign_id' | 'title' | 'first_comment' | 'first_comment_sticky' | 'first_comment_distinguish'>;
+
+// Posts the optional first comment on a campaign post once it is live
+export class FirstCommentService {
+  // Fill in the template placeholders for the submitted post
+  static render(template: string, context: { title: string; subreddit: string; username: string; permalink?: string }): string {
+    const url = context.permalink ? `https://www.reddit.com${context.permalink}` : '';
+
+    return template
+      .replace(/\{title\}/g, context.title)
+      .replace(/\{subreddit\}/g, context.subreddit)
+      .replace(/\{username\}/g, context.username)
+      .replace(/\{url\}/g, url)
+      .trim();
+  }
+
+  // Comment on the new post with the same account; never throws so the post itself stays posted
+  static async submit(
+    post: CommentablePost,
+    submission: RedditPostResponse,
+    account: { username: string; accessToken: string; accountId?: string },
+    subredditName: string
+  ): Promise<FirstCommentResult | null> {
+    if (!post.first_comment?.trim()) {
+      return null;
+    }
+
+    if (!submission.postId) {
+      return { status: 'failed', error: 'Reddit did not return the post id, so the comment could not be posted' };
+    }
+
+    const text = this.render(post.first_comment, {
+      title: post.title,
+      subreddit: subredditName,
+      username: account.username,
+      permalink: submission.permalink
+    });
+
+    let comment;
+    try {
+      comment = await redditClient.submitComment(`t3_${submission.postId}`, text, account);
+    } catch (error) {
+      return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const result: FirstCommentResult = { status: 'posted', comment_id: comment.commentId };
+
+    // Only moderators can distinguish or sticky, so a refusal leaves a plain comment
+    if (post.first_comment_sticky || post.first_comment_distinguish) {
+      try {
+        await redditClient.distinguishComment(comment.fullname, Boolean(post.first_comment_sticky), account);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.error = `Comment posted but could not be ${post.first_comment_sticky ? 'stickied' : 'distinguished'}: ${message}`;
+      }
+    }
+
+    return result;
+  }
+
+  // Store the comment outcome on the post and log it in campaign activity
+  static async recordResult(post: { id: string; campaign_id: string }, result: FirstCommentResult): Promise<void> {
+    const { error: updateError } = await supabase
+      .from('campaign_posts')
+      .update({
+        first_comment_id: result.comment_id || null,
+        first_comment_status: result.status,
+        first_comment_error: result.error || null,
+        first_comment_posted_at: result.status === 'posted' ? new Date().toISOString() : null
+      })
+      .eq('id', post.id);
+
+    if (updateError) {
+      console.error(`Error recording first comment for post ${post.id}:`, updateError);
+    }
+
+    const { error } = await supabase
+      .from('campaign_activity')
+      .insert({
+        campaign_id: post.campaign_id,
+        post_id: post.id,
+        action_type: 'first_comment',
+        details: {
+          status: result.status,
+          comment_id: result.comment_id,
+          error_message: result.error
+        }
+      });
+
+    if (error) {
+      console.error('Error logging first comment activity:', error);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { supabase } from '../../../lib/supabase';
+import { hammingDistance } from '../../../lib/imageHash';
+import { normalizeText, normalizeUrl, textSimilarity } from '../../../lib/textSimilarity';
+import { CampaignPost, DuplicateMatch, MediaItem, RuleViolation } from '../types';
+
+type HashedMedia = Pick<MediaItem, 'id' | 'perceptual_hash'>;
+
+type DuplicateCandidate = Pick<CampaignPost, 'title' | 'content' | 'content_type' | 'subreddit_id' | 'reddit_account_id'> & {
+  id?: string;
+  campaign_id?: string;
+  scheduled_for?: string;
+  interval_hours?: number | null;
+  recurrence_rule?: string | null;
+  media?: HashedMedia[];
+};
+
+export const DUPLICATE_WINDOW_DAYS = 30;
+// Trigram similarity at which a title or body counts as the same text
+const TEXT_THRESHOLD = 0.85;
+// Bodies shorter than this say too little to call two posts the same
+const MIN_BODY_LENGTH = 40;
+// Differing bits out of 64 at which two images count as the same picture
+const HASH_THRESHOLD = 6;
+const MAX_WARNINGS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HISTORY_STATUSES = ['pending_approval', 'scheduled', 'processing', 'submitted', 'posted', 'removed', 'filtered'];
+
+// Warns when a post repeats something the same user's accounts posted, or will post, to the
+// same subreddit recently: subreddits treat that as spam whichever account it comes from
+export class DuplicatePostDetector {
+  static async findDuplicates(candidate: DuplicateCandidate, windowDays = DUPLICATE_WINDOW_DAYS): Promise<DuplicateMatch[]> {
+    const accounts = await this.getSiblingAccounts(candidate.reddit_account_id);
+    if (accounts.length === 0) return [];
+
+    const accountIds = accounts.map(account => account.id);
+    const usernames = new Map(accounts.map(account => [account.id, account.username as string | null]));
+    const reference = candidate.scheduled_for ? new Date(candidate.scheduled_for).getTime() : Date.now();
+    const since = new Date(reference - windowDays * DAY_MS).toISOString();
+    const until = new Date(reference + windowDays * DAY_MS).toISOString();
+
+    const [{ data: history, error: historyError }, { data: synced, error: syncedError }] = await Promise.all([
+      supabase
+        .from('campaign_posts')
+        .select(`
+          id, campaign_id, reddit_account_id, title, content, content_type, scheduled_for, posted_at,
+          reddit_post_id, media_item_id, interval_hours, recurrence_rule,
+          media_item:media_items(id, perceptual_hash),
+          gallery_items:campaign_post_gallery_items(media_item:media_items(id, perceptual_hash))
+        `)
+        .eq('subreddit_id', candidate.subreddit_id)
+        .in('reddit_account_id', accountIds)
+        .in('status', HISTORY_STATUSES)
+        .gte('scheduled_for', since)
+        .lte('scheduled_for', until)
+        .limit(200),
+      supabase
+        .from('reddit_posts')
+        .select('id, post_id, reddit_account_id, title, url, selftext, created_at')
+        .eq('subreddit_id', candidate.subreddit_id)
+        .in('reddit_account_id', accountIds)
+        .gte('created_at', since)
+        .limit(200)
+    ]);
+
+    if (historyError) {
+      console.warn('Unable to load post history for duplicate check:', historyError);
+    }
+    if (syncedError) {
+      console.warn('Unable to load synced Reddit posts for duplicate check:', syncedError);
+    }
+
+    const matches: DuplicateMatch[] = [];
+    const seenRedditIds = new Set<string>();
+
+    (history || []).forEach((other: any) => {
+      if (other.reddit_post_id) seenRedditIds.add(other.reddit_post_id);
+      if (other.id === candidate.id || this.isSameSeries(candidate, other)) return;
+
+      const otherMedia: HashedMedia[] = [
+        other.media_item,
+        ...(other.gallery_items || []).map((item: any) => item.media_item)
+      ].filter(Boolean);
+
+      const match = this.compare(candidate, {
+        title: other.title,
+        body: other.content_type === 'text' ? other.content : null,
+        url: other.content_type === 'link' ? other.content : null,
+        media: otherMedia
+      });
+
+      if (match) {
+        matches.push({
+          source: 'campaign_post',
+          id: other.id,
+          title: other.title,
+          username: usernames.get(other.reddit_account_id) ?? null,
+          occurred_at: other.posted_at || other.scheduled_for,
+          ...match
+        });
+      }
+    });
+
+    // Synced posts cover what was posted outside the scheduler; images aren't compared since
+    // Reddit's CDN can't be read from a canvas
+    (synced || []).forEach((other: any) => {
+      if (seenRedditIds.has(other.post_id)) return;
+
+      const match = this.compare(candidate, {
+        title: other.title,
+        body: other.selftext,
+        url: other.url,
+        media: []
+      });
+
+      if (match) {
+        matches.push({
+          source: 'reddit_post',
+          id: other.id,
+          title: other.title || '',
+          username: usernames.get(other.reddit_account_id) ?? null,
+          occurred_at: other.created_at,
+          ...match
+        });
+      }
+    });
+
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  // The accounts owned by whoever owns the candidate's account, including it
+  private static async getSiblingAccounts(accountId: string): Promise<Array<{ id: string; username: string | null }>> {
+    const { data: account, error } = await supabase
+      .from('reddit_accounts')
+      .select('id, user_id, username')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    if (error || !account) {
+      if (error) console.warn('Unable to load account for duplicate check:', error);
+      return [];
+    }
+
+    const { data: siblings, error: siblingsError } = await supabase
+      .from('reddit_accounts')
+      .select('id, username')
+      .eq('user_id', account.user_id);
+
+    if (siblingsError || !siblings) {
+      return [{ id: account.id, username: account.username }];
+    }
+
+    return siblings;
+  }
+
+  // Occurrences of one recurring series repeat on purpose
+  private static isSameSeries(candidate: DuplicateCandidate, other: any): boolean {
+    const candidateRecurs = !!(candidate.interval_hours || candidate.recurrence_rule);
+    const otherRecurs = !!(other.interval_hours || other.recurrence_rule);
+
+    return candidateRecurs && otherRecurs &&
+      candidate.campaign_id === other.campaign_id &&
+      candidate.reddit_account_id === other.reddit_account_id;
+  }
+
+  private static compare(
+    candidate: DuplicateCandidate,
+    other: { title: string | null; body: string | null; url: string | null; media: HashedMedia[] }
+  ): Pick<DuplicateMatch, 'reason' | 'similarity'> | null {
+    const candidateUrl = candidate.content_type === 'link' ? normalizeUrl(candidate.content) : null;
+    if (candidateUrl && candidateUrl === normalizeUrl(other.url)) {
+      return { reason: 'url', similarity: 1 };
+    }
+
+    const media = candidate.media || [];
+    for (const item of media) {
+      for (const otherItem of other.media) {
+        if (item.id === otherItem.id) {
+          return { reason: 'media', similarity: 1 };
+        }
+        const distance = item.perceptual_hash && otherItem.perceptual_hash
+          ? hammingDistance(item.perceptual_hash, otherItem.perceptual_hash)
+          : Infinity;
+        if (distance <= HASH_THRESHOLD) {
+          return { reason: 'media', similarity: 1 - distance / 64 };
+        }
+      }
+    }
+
+    let similarity = other.title ? textSimilarity(candidate.title, other.title) : 0;
+
+    const body = candidate.content_type === 'text' ? candidate.content : null;
+    if (normalizeText(body).length >= MIN_BODY_LENGTH && normalizeText(other.body).length >= MIN_BODY_LENGTH) {
+      similarity = Math.max(similarity, textSimilarity(body, other.body));
+    }
+
+    return similarity >= TEXT_THRESHOLD ? { reason: 'text', similarity } : null;
+  }
+
+  // Duplicates are warnings: reposting can be deliberate, but the user should know
+  static toViolations(matches: DuplicateMatch[], reference: string | number = Date.now()): RuleViolation[] {
+    const referenceTime = new Date(reference).getTime();
+
+    return matches.slice(0, MAX_WARNINGS).map(match => {
+      const days = Math.round((referenceTime - new Date(match.occurred_at).getTime()) / DAY_MS);
+      const span = `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`;
+      const what = match.reason === 'media' ? 'Uses the same image as' : match.reason === 'url' ? 'Links to the same page as' : 'Nearly identical to';
+      const who = match.username ? `u/${match.username}` : 'one of your accounts';
+      const when = days > 0
+        ? `made in this subreddit ${span} before`
+        : days < 0 ? `has scheduled in this subreddit ${span} after` : 'made or scheduled in this subreddit the same day';
+
+      return {
+        code: 'duplicate_post',
+        severity: 'warn',
+        message: `${what} a post ${who} ${when}`,
+        rule: match.title || undefined
+      };
+    });
+  }
+
+  // Convenience for callers that only need the warnings
+  static async check(candidate: DuplicateCandidate, windowDays = DUPLICATE_WINDOW_DAYS): Promise<RuleViolation[]> {
+    try {
+      const matches = await this.findDuplicates(candidate, windowDays);
+      return this.toViolations(matches, candidate.scheduled_for || Date.now());
+    } catch (error) {
+      // A failed lookup shouldn't keep a post from being scheduled
+      console.warn('Duplicate check failed:', error);
+      return [];
+    }
+  }
+}
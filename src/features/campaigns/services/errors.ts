@@ -1,3 +1,5 @@
+import { RuleViolation } from '../types';
+
 // Custom error classes for campaign-specific errors
 
 export class CampaignError extends Error {
@@ -24,6 +26,16 @@ export class SchedulingError extends Error {
   }
 }
 
+export class PostingRuleError extends Error {
+  violations: RuleViolation[];
+  
+  constructor(message: string, violations: RuleViolation[] = []) {
+    super(message);
+    this.name = 'PostingRuleError';
+    this.violations = violations;
+  }
+}
+
 export class MediaUploadError extends Error {
   constructor(message: string) {
     super(message);
@@ -42,6 +54,8 @@ export const handleCampaignError = (error: unknown): string => {
     return `Reddit API error${error.statusCode ? ` (${error.statusCode})` : ''}: ${error.message}`;
   } else if (error instanceof SchedulingError) {
     return `Scheduling error: ${error.message}`;
+  } else if (error instanceof PostingRuleError) {
+    return `Subreddit rule check failed: ${error.message}`;
   } else if (error instanceof MediaUploadError) {
     return `Media upload error: ${error.message}`;
   } else if (error instanceof Error) {
@@ -0,0 +1,156 @@
+import { supabase } from '../../../lib/supabase';
+import { redditClient } from '../../../lib/redditClient/browser';
+import { PostRequirements } from '../../../lib/redditMarkdown';
+import { LinkFlair, SubredditFlairCatalog, SubredditFlairDefault } from '../types';
+
+// Flair templates rarely change, so the cached catalog is reused for a day
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+export const FLAIR_TEXT_MAX_LENGTH = 64;
+
+// Fetches and caches subreddit link flair and the user's default flair per subreddit
+export class SubredditFlairService {
+  // Cached catalog from the subreddits table, refreshed from Reddit when stale
+  static async getCatalog(
+    subreddit: { id: string; name: string },
+    options: { forceRefresh?: boolean; redditAccountId?: string } = {}
+  ): Promise<SubredditFlairCatalog> {
+    const { data, error } = await supabase
+      .from('subreddits')
+      .select('link_flairs, link_flair_required, post_requirements, link_flairs_synced_at')
+      .eq('id', subreddit.id)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`Unable to load cached flair for r/${subreddit.name}:`, error);
+    }
+
+    const cached: SubredditFlairCatalog = {
+      flairs: (data?.link_flairs || []) as LinkFlair[],
+      flair_required: Boolean(data?.link_flair_required),
+      post_requirements: (data?.post_requirements || null) as PostRequirements | null,
+      synced_at: data?.link_flairs_synced_at || null
+    };
+
+    const isFresh = cached.synced_at !== null &&
+      Date.now() - new Date(cached.synced_at).getTime() < CATALOG_TTL_MS;
+
+    if (isFresh && !options.forceRefresh) {
+      return cached;
+    }
+
+    try {
+      return await this.refreshCatalog(subreddit, options.redditAccountId);
+    } catch (refreshError) {
+      // A stale catalog is still better than none
+      console.warn(`Unable to refresh flair for r/${subreddit.name}, using cached flair:`, refreshError);
+      return cached;
+    }
+  }
+
+  // Fetch the flair templates from Reddit and store them on the subreddit
+  static async refreshCatalog(subreddit: { id: string; name: string }, redditAccountId?: string): Promise<SubredditFlairCatalog> {
+    // Mod-only and user-assignable flair depend on who is asking
+    if (redditAccountId) {
+      await redditClient.setAccountAuth(redditAccountId);
+    }
+
+    const flairs: LinkFlair[] = (await redditClient.getLinkFlairs(subreddit.name))
+      .filter(flair => !flair.mod_only);
+
+    let requirements: PostRequirements | null = null;
+    try {
+      requirements = await redditClient.getPostRequirements(subreddit.name);
+    } catch (requirementsError) {
+      console.warn(`Unable to load post requirements for r/${subreddit.name}:`, requirementsError);
+    }
+
+    const catalog: SubredditFlairCatalog = {
+      flairs,
+      flair_required: Boolean(requirements?.is_flair_required),
+      post_requirements: requirements,
+      synced_at: new Date().toISOString()
+    };
+
+    const { error } = await supabase
+      .from('subreddits')
+      .update({
+        link_flairs: catalog.flairs,
+        link_flair_required: catalog.flair_required,
+        post_requirements: catalog.post_requirements,
+        link_flairs_synced_at: catalog.synced_at
+      })
+      .eq('id', subreddit.id);
+
+    if (error) {
+      console.error(`Error caching flair for r/${subreddit.name}:`, error);
+    }
+
+    return catalog;
+  }
+
+  // The current user's default flair for a subreddit
+  static async getDefault(subredditId: string): Promise<SubredditFlairDefault | null> {
+    const { data, error } = await supabase
+      .from('subreddit_flair_defaults')
+      .select('*')
+      .eq('subreddit_id', subredditId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('Unable to load default flair:', error);
+      return null;
+    }
+
+    return data as SubredditFlairDefault | null;
+  }
+
+  static async setDefault(subredditId: string, flairId: string, flairText?: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user || !user.id) {
+      throw new Error('User not authenticated or user ID not available');
+    }
+
+    const { error } = await supabase
+      .from('subreddit_flair_defaults')
+      .upsert({
+        user_id: user.id,
+        subreddit_id: subredditId,
+        flair_id: flairId,
+        flair_text: flairText?.trim() || null,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,subreddit_id'
+      });
+
+    if (error) throw error;
+  }
+
+  static async clearDefault(subredditId: string): Promise<void> {
+    const { error } = await supabase
+      .from('subreddit_flair_defaults')
+      .delete()
+      .eq('subreddit_id', subredditId);
+
+    if (error) throw error;
+  }
+
+  // Check a flair choice against the catalog, returning an error message if it can't be posted
+  static validateFlair(catalog: SubredditFlairCatalog, flairId?: string | null, flairText?: string | null): string | null {
+    if (!flairId) {
+      return catalog.flair_required ? 'This subreddit requires post flair' : null;
+    }
+
+    const flair = catalog.flairs.find(f => f.id === flairId);
+    // An empty catalog just means we couldn't load it, so trust the stored id
+    if (!flair && catalog.flairs.length > 0) {
+      return 'The selected flair is no longer available in this subreddit';
+    }
+
+    if (flairText && flairText.length > FLAIR_TEXT_MAX_LENGTH) {
+      return `Flair text must be ${FLAIR_TEXT_MAX_LENGTH} characters or less`;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,185 @@
+import { supabase } from '../../../lib/supabase';
+import { MediaItem, MediaSelection } from '../types';
+
+// Default number of days before a media item may be reused in the same subreddit
+const DEFAULT_REUSE_WINDOW_DAYS = 7;
+
+// Picks media for campaign posts that don't have a fixed media item,
+// using the campaign's tag preferences as selection weights
+export class MediaRotationService {
+  // Select a media item for a post; the choice is recorded with recordSelection once the post is live
+  static async selectMediaForPost(
+    post: any,
+    campaign: { user_id: string; media_reuse_window_days?: number | null }
+  ): Promise<MediaSelection | null> {
+    const candidates = await this.getWeightedCandidates(post.campaign_id, campaign.user_id);
+
+    if (candidates.length === 0) {
+      console.warn(`No tagged media available for campaign ${post.campaign_id}`);
+      return null;
+    }
+
+    const windowDays = campaign.media_reuse_window_days ?? DEFAULT_REUSE_WINDOW_DAYS;
+    const recentlyUsed = await this.getRecentlyUsedMediaIds(post.subreddit_id, windowDays);
+    const available = candidates.filter(c => !recentlyUsed.has(c.media_item.id));
+
+    // If everything was used recently, fall back to the full pool rather than skipping the post
+    let pool = available;
+    if (pool.length === 0) {
+      console.warn(`All ${candidates.length} tagged media items were used in this subreddit within ${windowDays} days, reusing`);
+      pool = candidates;
+    }
+
+    return this.pickWeighted(pool);
+  }
+
+  // Build the candidate list, summing the weights of every preferred tag an item carries
+  static async getWeightedCandidates(campaignId: string, userId: string): Promise<MediaSelection[]> {
+    const { data: preferences, error: preferencesError } = await supabase
+      .from('campaign_tag_preferences')
+      .select('tag_id, weight')
+      .eq('campaign_id', campaignId)
+      .gt('weight', 0);
+
+    if (preferencesError) {
+      throw preferencesError;
+    }
+
+    if (!preferences || preferences.length === 0) {
+      return [];
+    }
+
+    const weightByTag = new Map<string, number>();
+    preferences.forEach(pref => weightByTag.set(pref.tag_id, pref.weight));
+
+    const { data: taggedItems, error: taggedError } = await supabase
+      .from('media_item_tags')
+      .select('tag_id, media_item:media_items(*)')
+      .in('tag_id', Array.from(weightByTag.keys()));
+
+    if (taggedError) {
+      throw taggedError;
+    }
+
+    const candidates = new Map<string, MediaSelection>();
+
+    taggedItems?.forEach(row => {
+      const mediaItem = row.media_item as unknown as MediaItem | null;
+
+      // Only the campaign owner's images can be posted
+      if (!mediaItem || mediaItem.user_id !== userId || !mediaItem.media_type?.startsWith('image/')) {
+        return;
+      }
+
+      const weight = weightByTag.get(row.tag_id) || 0;
+      const existing = candidates.get(mediaItem.id);
+
+      if (existing) {
+        existing.weight += weight;
+        existing.tag_ids.push(row.tag_id);
+      } else {
+        candidates.set(mediaItem.id, {
+          media_item: mediaItem,
+          weight,
+          tag_ids: [row.tag_id]
+        });
+      }
+    });
+
+    return Array.from(candidates.values()).filter(c => c.weight > 0);
+  }
+
+  // Media items posted to a subreddit within the reuse window
+  static async getRecentlyUsedMediaIds(subredditId: string, windowDays: number): Promise<Set<string>> {
+    const used = new Set<string>();
+
+    if (!subredditId || windowDays <= 0) {
+      return used;
+    }
+
+    const cutoff = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+
+    // Rotated selections are only recorded in the activity log
+    const { data: selections, error: selectionsError } = await supabase
+      .from('campaign_activity')
+      .select('details')
+      .eq('action_type', 'media_selected')
+      .eq('details->>subreddit_id', subredditId)
+      .gte('created_at', cutoff);
+
+    if (selectionsError) {
+      console.error('Error fetching recent media selections:', selectionsError);
+    }
+
+    selections?.forEach(row => {
+      if (row.details?.media_item_id) {
+        used.add(row.details.media_item_id);
+      }
+    });
+
+    // Posts with a fixed media item count as well, including those since removed or still being located
+    const { data: posts, error: postsError } = await supabase
+      .from('campaign_posts')
+      .select('media_item_id')
+      .eq('subreddit_id', subredditId)
+      .in('status', ['posted', 'submitted', 'removed', 'filtered'])
+      .gte('posted_at', cutoff)
+      .not('media_item_id', 'is', null);
+
+    if (postsError) {
+      console.error('Error fetching recently posted media:', postsError);
+    }
+
+    posts?.forEach(row => used.add(row.media_item_id));
+
+    return used;
+  }
+
+  // Weighted random selection over the candidate pool
+  static pickWeighted(candidates: MediaSelection[], random: () => number = Math.random): MediaSelection | null {
+    const totalWeight = candidates.reduce((sum, c) => sum + c.weight, 0);
+
+    if (totalWeight <= 0) {
+      return null;
+    }
+
+    let threshold = random() * totalWeight;
+
+    for (const candidate of candidates) {
+      threshold -= candidate.weight;
+      if (threshold < 0) {
+        return candidate;
+      }
+    }
+
+    // Floating point leftovers land on the last candidate
+    return candidates[candidates.length - 1];
+  }
+
+  // Log which item a submitted post used so later selections can honour the reuse window
+  static async recordSelection(
+    post: any,
+    selection: MediaSelection,
+    campaign: { media_reuse_window_days?: number | null }
+  ) {
+    const windowDays = campaign.media_reuse_window_days ?? DEFAULT_REUSE_WINDOW_DAYS;
+    const { error } = await supabase
+      .from('campaign_activity')
+      .insert({
+        campaign_id: post.campaign_id,
+        post_id: post.id,
+        action_type: 'media_selected',
+        details: {
+          media_item_id: selection.media_item.id,
+          subreddit_id: post.subreddit_id,
+          weight: selection.weight,
+          tag_ids: selection.tag_ids,
+          reuse_window_days: windowDays
+        }
+      });
+
+    if (error) {
+      console.error('Error recording media selection:', error);
+    }
+  }
+}
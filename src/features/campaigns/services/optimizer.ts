@@ -0,0 +1,345 @@
+import { supabase } from '../../../lib/supabase';
+import { ActivityWindow, PlannedSlot } from '../types';
+import { BlackoutService } from './blackouts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Number of top activity hours per subreddit that posts are spread across
+const TOP_WINDOW_COUNT = 6;
+// How far ahead the optimizer may push a post
+const PLANNING_HORIZON_DAYS = 30;
+// No post is planned sooner than this, so a moved post isn't claimed before the plan is saved
+const PLANNING_LEAD_MINUTES = 10;
+const DEFAULT_ACCOUNT_GAP_MINUTES = 60;
+const DEFAULT_SUBREDDIT_GAP_HOURS = 24;
+// Used when a subreddit has no analysis yet (UTC hours, roughly US morning to early afternoon)
+const FALLBACK_WINDOW_HOURS = [14, 15, 16, 13, 17, 18];
+
+interface OccupiedSlot {
+  id: string;
+  reddit_account_id: string;
+  subreddit_id: string;
+  time: number;
+}
+
+// Plans post times for campaigns with schedule_type = 'ai-optimized'
+export class ScheduleOptimizer {
+  // Re-plan every active ai-optimized campaign that has been flagged by new posts or refreshed analysis
+  static async replanFlaggedCampaigns(): Promise<void> {
+    const { data: campaigns, error } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('schedule_type', 'ai-optimized')
+      .eq('is_active', true)
+      .eq('needs_replan', true);
+
+    if (error) {
+      console.error('Error fetching campaigns to re-plan:', error);
+      return;
+    }
+
+    for (const campaign of campaigns || []) {
+      try {
+        const slots = await this.planCampaign(campaign.id);
+        console.log(`Re-planned ${slots.length} posts for ai-optimized campaign ${campaign.id}`);
+      } catch (planError) {
+        console.error(`Error re-planning campaign ${campaign.id}:`, planError);
+      }
+    }
+  }
+
+  // Spread a campaign's future scheduled posts across the top activity windows of their subreddits
+  static async planCampaign(campaignId: string): Promise<PlannedSlot[]> {
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, min_account_gap_minutes, min_subreddit_gap_hours')
+      .eq('id', campaignId)
+      .single();
+
+    if (campaignError || !campaign) {
+      throw new Error(`Campaign not found or error fetching campaign: ${campaignError?.message || 'Unknown error'}`);
+    }
+
+    const accountGapMs = (campaign.min_account_gap_minutes ?? DEFAULT_ACCOUNT_GAP_MINUTES) * 60 * 1000;
+    const subredditGapMs = (campaign.min_subreddit_gap_hours ?? DEFAULT_SUBREDDIT_GAP_HOURS) * HOUR_MS;
+    const earliest = new Date(Date.now() + PLANNING_LEAD_MINUTES * 60 * 1000);
+
+    // Recurring posts keep their own cadence and are not moved. Posts already due are planned too:
+    // the scheduler re-plans before it claims, so a post created for now still gets a good slot.
+    // Retries keep the time their backoff gave them.
+    const { data: posts, error: postsError } = await supabase
+      .from('campaign_posts')
+      .select('id, reddit_account_id, subreddit_id, scheduled_for')
+      .eq('campaign_id', campaignId)
+      .eq('status', 'scheduled')
+      .is('interval_hours', null)
+      .is('recurrence_rule', null)
+      .is('next_attempt_at', null)
+      .order('scheduled_for', { ascending: true });
+
+    if (postsError) {
+      throw postsError;
+    }
+
+    const slots: PlannedSlot[] = [];
+
+    if (posts && posts.length > 0) {
+      // Each post is planned from the day the user chose for it, never earlier
+      const searchFrom = (post: { scheduled_for: string }) => {
+        const chosen = new Date(post.scheduled_for);
+        const chosenDay = Date.UTC(chosen.getUTCFullYear(), chosen.getUTCMonth(), chosen.getUTCDate());
+        return new Date(Math.max(earliest.getTime(), chosenDay));
+      };
+
+      const occupied = await this.getOccupiedSlots(
+        posts.map(p => p.id),
+        [...new Set(posts.map(p => p.reddit_account_id))],
+        [...new Set(posts.map(p => p.subreddit_id))],
+        Math.max(accountGapMs, subredditGapMs),
+        earliest,
+        searchFrom(posts[posts.length - 1])
+      );
+
+      // Slots inside a blackout window of the campaign or the posting account are not free
+      const blackouts = await BlackoutService.getWindows(campaignId, [...new Set(posts.map(p => p.reddit_account_id))]);
+
+      const windowsBySubreddit = new Map<string, ActivityWindow[]>();
+      const usageBySubreddit = new Map<string, Map<number, number>>();
+
+      for (const post of posts) {
+        if (!windowsBySubreddit.has(post.subreddit_id)) {
+          windowsBySubreddit.set(post.subreddit_id, await this.getActivityWindows(post.subreddit_id));
+          usageBySubreddit.set(post.subreddit_id, new Map());
+        }
+
+        const usage = usageBySubreddit.get(post.subreddit_id)!;
+        const slot = this.findSlot(
+          windowsBySubreddit.get(post.subreddit_id)!,
+          usage,
+          searchFrom(post),
+          time => !BlackoutService.covers(blackouts, { campaign_id: campaignId, reddit_account_id: post.reddit_account_id }, time) &&
+            occupied.every(other =>
+              (other.reddit_account_id !== post.reddit_account_id || Math.abs(other.time - time) >= accountGapMs) &&
+              (other.subreddit_id !== post.subreddit_id || Math.abs(other.time - time) >= subredditGapMs)
+            )
+        );
+
+        if (!slot) {
+          console.warn(`No free activity window for post ${post.id} within ${PLANNING_HORIZON_DAYS} days, keeping ${post.scheduled_for}`);
+          occupied.push({ ...post, time: new Date(post.scheduled_for).getTime() });
+          continue;
+        }
+
+        usage.set(slot.hour, (usage.get(slot.hour) || 0) + 1);
+        occupied.push({ ...post, time: slot.time });
+
+        const scheduledFor = new Date(slot.time).toISOString();
+        if (new Date(post.scheduled_for).getTime() !== slot.time) {
+          slots.push({
+            post_id: post.id,
+            previous_scheduled_for: post.scheduled_for,
+            scheduled_for: scheduledFor,
+            window_hour: slot.hour
+          });
+        }
+      }
+
+      await this.applySlots(campaignId, slots);
+    }
+
+    const { error: updateError } = await supabase
+      .from('campaigns')
+      .update({
+        needs_replan: false,
+        last_planned_at: new Date().toISOString()
+      })
+      .eq('id', campaignId);
+
+    if (updateError) {
+      console.error('Error clearing re-plan flag:', updateError);
+    }
+
+    return slots;
+  }
+
+  // Rank the hours of day by activity using the stored subreddit analysis
+  static async getActivityWindows(subredditId: string): Promise<ActivityWindow[]> {
+    let hourly: number[] | null = null;
+
+    // Prefer explicit hourly activity if the legacy analysis table has it
+    const { data: legacyAnalysis } = await supabase
+      .from('subreddit_analysis')
+      .select('activity_by_hour')
+      .eq('subreddit_id', subredditId)
+      .maybeSingle();
+
+    if (legacyAnalysis?.activity_by_hour) {
+      hourly = new Array(24).fill(0);
+      Object.entries(legacyAnalysis.activity_by_hour).forEach(([hour, activity]) => {
+        const index = parseInt(hour);
+        if (index >= 0 && index < 24) {
+          hourly![index] = Number(activity) || 0;
+        }
+      });
+    }
+
+    // Otherwise derive it from the posts stored with the analysis
+    if (!hourly || hourly.every(value => value === 0)) {
+      const { data: subreddit } = await supabase
+        .from('subreddits')
+        .select('analysis_data')
+        .eq('id', subredditId)
+        .maybeSingle();
+
+      const analysisPosts = (subreddit?.analysis_data as any)?.posts;
+      if (Array.isArray(analysisPosts) && analysisPosts.length > 0) {
+        hourly = this.buildHourlyActivity(analysisPosts);
+      }
+    }
+
+    if (!hourly || hourly.every(value => value === 0)) {
+      return FALLBACK_WINDOW_HOURS.map((hour, index) => ({
+        hour,
+        score: FALLBACK_WINDOW_HOURS.length - index
+      }));
+    }
+
+    return hourly
+      .map((score, hour) => ({ hour, score }))
+      .filter(window => window.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_WINDOW_COUNT);
+  }
+
+  // The first occurrence of the subreddit's busiest hour at or after earliest
+  static async getPreferredTime(subredditId: string, earliest: Date): Promise<{ time: Date; hour: number }> {
+    const [best] = await this.getActivityWindows(subredditId);
+    const time = new Date(Date.UTC(earliest.getUTCFullYear(), earliest.getUTCMonth(), earliest.getUTCDate(), best.hour));
+
+    if (time.getTime() < earliest.getTime()) {
+      time.setTime(time.getTime() + DAY_MS);
+    }
+
+    return { time, hour: best.hour };
+  }
+
+  // Bucket posts by UTC hour, weighting each by its engagement
+  static buildHourlyActivity(posts: Array<{ created_utc: number; score?: number; num_comments?: number }>): number[] {
+    const hourly = new Array(24).fill(0);
+
+    posts.forEach(post => {
+      if (!post.created_utc) return;
+      const hour = new Date(post.created_utc * 1000).getUTCHours();
+      hourly[hour] += 1 + Math.log1p(Math.max(0, (post.score || 0) + (post.num_comments || 0)));
+    });
+
+    return hourly;
+  }
+
+  // Pick the first day from earliest with a free window, preferring the least used and then the busiest window
+  static findSlot(
+    windows: ActivityWindow[],
+    usage: Map<number, number>,
+    earliest: Date,
+    isFree: (time: number) => boolean
+  ): { time: number; hour: number } | null {
+    const startOfDay = Date.UTC(earliest.getUTCFullYear(), earliest.getUTCMonth(), earliest.getUTCDate());
+
+    for (let day = 0; day <= PLANNING_HORIZON_DAYS; day++) {
+      const options = windows
+        .map((window, rank) => ({
+          hour: window.hour,
+          rank,
+          time: startOfDay + day * DAY_MS + window.hour * HOUR_MS
+        }))
+        .filter(option => option.time >= earliest.getTime() && isFree(option.time))
+        .sort((a, b) => ((usage.get(a.hour) || 0) - (usage.get(b.hour) || 0)) || a.rank - b.rank);
+
+      if (options.length > 0) {
+        return { time: options[0].time, hour: options[0].hour };
+      }
+    }
+
+    return null;
+  }
+
+  // Posts outside the plan that still constrain spacing (other campaigns, already posted, in flight)
+  private static async getOccupiedSlots(
+    excludeIds: string[],
+    accountIds: string[],
+    subredditIds: string[],
+    maxGapMs: number,
+    earliest: Date,
+    latestSearchFrom: Date
+  ): Promise<OccupiedSlot[]> {
+    const from = new Date(earliest.getTime() - maxGapMs).toISOString();
+    const to = new Date(latestSearchFrom.getTime() + (PLANNING_HORIZON_DAYS + 1) * DAY_MS + maxGapMs).toISOString();
+    const occupied = new Map<string, OccupiedSlot>();
+
+    const queries = [
+      { column: 'reddit_account_id', values: accountIds },
+      { column: 'subreddit_id', values: subredditIds }
+    ];
+
+    for (const { column, values } of queries) {
+      const { data, error } = await supabase
+        .from('campaign_posts')
+        .select('id, reddit_account_id, subreddit_id, scheduled_for, posted_at')
+        .in(column, values)
+        .in('status', ['scheduled', 'processing', 'posted'])
+        .gte('scheduled_for', from)
+        .lte('scheduled_for', to);
+
+      if (error) {
+        throw error;
+      }
+
+      data?.forEach(row => {
+        if (excludeIds.includes(row.id)) return;
+        occupied.set(row.id, {
+          id: row.id,
+          reddit_account_id: row.reddit_account_id,
+          subreddit_id: row.subreddit_id,
+          time: new Date(row.posted_at || row.scheduled_for).getTime()
+        });
+      });
+    }
+
+    return Array.from(occupied.values());
+  }
+
+  // Persist the new times and log each move
+  private static async applySlots(campaignId: string, slots: PlannedSlot[]) {
+    for (const slot of slots) {
+      const { error } = await supabase
+        .from('campaign_posts')
+        .update({ scheduled_for: slot.scheduled_for })
+        .eq('id', slot.post_id)
+        .eq('status', 'scheduled');
+
+      if (error) {
+        console.error(`Error rescheduling post ${slot.post_id}:`, error);
+        continue;
+      }
+
+      const { error: activityError } = await supabase
+        .from('campaign_activity')
+        .insert({
+          campaign_id: campaignId,
+          post_id: slot.post_id,
+          action_type: 'post_rescheduled',
+          details: {
+            reason: 'ai_optimized',
+            previous_scheduled_for: slot.previous_scheduled_for,
+            scheduled_for: slot.scheduled_for,
+            window_hour_utc: slot.window_hour
+          }
+        });
+
+      if (activityError) {
+        console.error('Error logging reschedule activity:', activityError);
+      }
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { supabase } from '../../../lib/supabase';
+import { redditClient, RedditSubmissionStats } from '../../../lib/redditClient/browser';
+import { MetricsCheckpoint, RemovalStatus } from '../types';
+import { TitleVariantTester } from './titleVariants';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How long after posting each snapshot is taken
+export const METRIC_CHECKPOINTS: Array<{ checkpoint: MetricsCheckpoint; offset_ms: number }> = [
+  { checkpoint: '15m', offset_ms: 15 * MINUTE_MS },
+  { checkpoint: '1h', offset_ms: HOUR_MS },
+  { checkpoint: '6h', offset_ms: 6 * HOUR_MS },
+  { checkpoint: '24h', offset_ms: 24 * HOUR_MS },
+  { checkpoint: '7d', offset_ms: 7 * 24 * HOUR_MS }
+];
+
+const TRACKING_INTERVAL_MS = 5 * MINUTE_MS;
+const BATCH_SIZE = 100; // One /api/info request
+
+// Polls published campaign posts at increasing intervals and stores their stats
+export class PostPerformanceTracker {
+  static startTracker() {
+    console.log('Starting post performance tracker - will check posted items every 5 minutes');
+
+    const interval = setInterval(() => this.trackDuePosts(), TRACKING_INTERVAL_MS);
+    this.trackDuePosts();
+
+    return interval;
+  }
+
+  // The latest checkpoint reached; a late run records that one instead of catching up on missed ones
+  static getDueCheckpoint(postedAt: Date, now: Date = new Date()): MetricsCheckpoint | null {
+    const elapsed = now.getTime() - postedAt.getTime();
+    const reached = METRIC_CHECKPOINTS.filter(c => c.offset_ms <= elapsed);
+    return reached.length > 0 ? reached[reached.length - 1].checkpoint : null;
+  }
+
+  // When the next checkpoint comes up, or null once the last one has been taken
+  static getNextMetricsAt(postedAt: Date, now: Date = new Date()): Date | null {
+    const elapsed = now.getTime() - postedAt.getTime();
+    const next = METRIC_CHECKPOINTS.find(c => c.offset_ms > elapsed);
+    return next ? new Date(postedAt.getTime() + next.offset_ms) : null;
+  }
+
+  static classifyRemoval(stats?: RedditSubmissionStats): RemovalStatus {
+    if (!stats) return 'missing';
+
+    if (stats.removed_by_category === 'deleted' || stats.removed_by_category === 'author' || stats.selftext === '[deleted]') {
+      return 'deleted';
+    }
+
+    if (stats.removed_by_category || stats.selftext === '[removed]') {
+      return 'removed';
+    }
+
+    return 'live';
+  }
+
+  // Take a snapshot of every post whose next checkpoint has come up
+  static async trackDuePosts(): Promise<number> {
+    try {
+      const now = new Date();
+      const { data: posts, error } = await supabase
+        .from('campaign_posts')
+        .select('id, campaign_id, reddit_post_id, posted_at, title_variant_id')
+        .in('status', ['posted', 'removed', 'filtered'])
+        .lte('next_metrics_at', now.toISOString())
+        .order('next_metrics_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) {
+        console.error('Error getting posts for performance tracking:', error);
+        return 0;
+      }
+
+      const trackable = (posts || []).filter(post => post.reddit_post_id && post.posted_at);
+      const untrackable = (posts || []).filter(post => !post.reddit_post_id || !post.posted_at);
+
+      // Posts Reddit never gave us an id for can't be looked up
+      if (untrackable.length > 0) {
+        await supabase
+          .from('campaign_posts')
+          .update({ next_metrics_at: null })
+          .in('id', untrackable.map(post => post.id));
+      }
+
+      if (trackable.length === 0) {
+        return 0;
+      }
+
+      const stats = await redditClient.getSubmissions(trackable.map(post => post.reddit_post_id));
+      const statsById = new Map(stats.map(item => [item.id, item]));
+
+      let recorded = 0;
+      const measuredVariantIds = new Set<string>();
+      for (const post of trackable) {
+        const postedAt = new Date(post.posted_at);
+        const checkpoint = this.getDueCheckpoint(postedAt, now);
+        const postStats = statsById.get(post.reddit_post_id.replace(/^t3_/, ''));
+
+        if (checkpoint) {
+          const { error: insertError } = await supabase
+            .from('campaign_post_metrics')
+            .upsert({
+              post_id: post.id,
+              campaign_id: post.campaign_id,
+              checkpoint,
+              captured_at: now.toISOString(),
+              score: postStats?.score ?? 0,
+              upvote_ratio: postStats?.upvote_ratio ?? 0,
+              num_comments: postStats?.num_comments ?? 0,
+              removal_status: this.classifyRemoval(postStats),
+              removed_by_category: postStats?.removed_by_category || null
+            }, {
+              onConflict: 'post_id,checkpoint'
+            });
+
+          if (insertError) {
+            console.error(`Error storing ${checkpoint} metrics for post ${post.id}:`, insertError);
+            continue;
+          }
+
+          recorded++;
+
+          if (checkpoint === '24h' && post.title_variant_id) {
+            measuredVariantIds.add(post.title_variant_id);
+          }
+        }
+
+        const nextMetricsAt = this.getNextMetricsAt(postedAt, now);
+        const { error: updateError } = await supabase
+          .from('campaign_posts')
+          .update({ next_metrics_at: nextMetricsAt ? nextMetricsAt.toISOString() : null })
+          .eq('id', post.id);
+
+        if (updateError) {
+          console.error(`Error scheduling next metrics check for post ${post.id}:`, updateError);
+        }
+      }
+
+      if (recorded > 0) {
+        console.log(`Recorded performance metrics for ${recorded} posts`);
+      }
+
+      // Title tests are compared on 24h snapshots, so new ones may settle a test
+      await TitleVariantTester.evaluateTests(Array.from(measuredVariantIds));
+
+      return recorded;
+    } catch (error) {
+      // Leave next_metrics_at alone so the posts are picked up on the next run
+      console.error('Error tracking post performance:', error);
+      return 0;
+    }
+  }
+}
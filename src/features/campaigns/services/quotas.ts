@@ -0,0 +1,264 @@
+import { supabase } from '../../../lib/supabase';
+import { AccountQuota, QuotaHold, SubredditPostingLimit } from '../types';
+
+const HOURS_PER_PERIOD: Record<string, number> = {
+  hour: 1,
+  hr: 1,
+  day: 24,
+  week: 24 * 7,
+  month: 24 * 30
+};
+
+const COUNT_WORDS: Record<string, number> = {
+  one: 1,
+  once: 1,
+  two: 2,
+  twice: 2,
+  three: 3,
+  thrice: 3
+};
+
+// "one self-promo post per week", "1 post per 24 hours", "once every 3 days"
+const COUNT_PER_PERIOD_PATTERN = /\b(\d+|one|once|two|twice|three|thrice)\s+(?:[a-z-]+\s+){0,3}?(?:per|a|an|every|each|in any)\s+(\d+\s*)?(hour|hr|day|week|month)s?\b/;
+
+// "wait 48 hours between posts"
+const GAP_BETWEEN_PATTERN = /\b(\d+)\s*(hour|hr|day|week|month)s?\s+between\s+(?:posts|submissions)/;
+
+const DEFAULT_GAP_HOURS = 24;
+
+// Keeps campaign posts within account quotas and the gap each subreddit allows between posts
+export class PostingQuotaService {
+  // Minimum gap in hours stated by a rule, or null when the rule says nothing about posting frequency
+  static parseRuleGap(text: string): number | null {
+    const normalized = text.toLowerCase();
+
+    if (!/post|submi|promo/.test(normalized)) {
+      return null;
+    }
+
+    const between = normalized.match(GAP_BETWEEN_PATTERN);
+    if (between) {
+      return parseInt(between[1], 10) * HOURS_PER_PERIOD[between[2]];
+    }
+
+    const perPeriod = normalized.match(COUNT_PER_PERIOD_PATTERN);
+    if (perPeriod) {
+      const count = COUNT_WORDS[perPeriod[1]] ?? parseInt(perPeriod[1], 10);
+      const periods = perPeriod[2] ? parseInt(perPeriod[2], 10) : 1;
+
+      if (count > 0 && periods > 0) {
+        return (periods * HOURS_PER_PERIOD[perPeriod[3]]) / count;
+      }
+    }
+
+    return null;
+  }
+
+  // Quiet subreddits notice repeat posters sooner, so they get a wider gap when the rules don't state one
+  static gapFromFrequency(postsPerDay?: number | null): number {
+    if (postsPerDay == null || !Number.isFinite(postsPerDay) || postsPerDay <= 0) {
+      return DEFAULT_GAP_HOURS;
+    }
+
+    if (postsPerDay < 1) return 24 * 7;
+    if (postsPerDay < 10) return 48;
+    return DEFAULT_GAP_HOURS;
+  }
+
+  // The most restrictive gap stated in the stored analysis, falling back to the subreddit's posting frequency
+  static deriveLimit(analysisData: any): { min_gap_hours: number; source_rule: string | null } {
+    const rules: Array<{ title: string; description: string }> = analysisData?.info?.rules || [];
+    const restrictions: string[] = analysisData?.analysis?.postingLimits?.contentRestrictions || [];
+    const ruleTexts = [
+      ...rules.map(rule => ({ label: rule.title, text: `${rule.title} ${rule.description}` })),
+      ...restrictions.map(text => ({ label: text, text }))
+    ];
+
+    let derived: { min_gap_hours: number; source_rule: string | null } | null = null;
+    for (const { label, text } of ruleTexts) {
+      const gap = this.parseRuleGap(text);
+      if (gap !== null && (!derived || gap > derived.min_gap_hours)) {
+        derived = { min_gap_hours: Math.round(gap * 100) / 100, source_rule: label };
+      }
+    }
+
+    return derived || {
+      min_gap_hours: this.gapFromFrequency(analysisData?.analysis?.postingLimits?.frequency),
+      source_rule: null
+    };
+  }
+
+  // Create the user's gap for a subreddit from its analysis unless one is already configured
+  static async seedLimit(userId: string, subredditId: string): Promise<void> {
+    const { data: existing, error: existingError } = await supabase
+      .from('subreddit_posting_limits')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('subreddit_id', subredditId)
+      .maybeSingle();
+
+    if (existingError) {
+      console.warn('Unable to load subreddit posting limit:', existingError);
+      return;
+    }
+
+    if (existing) return;
+
+    const { data: subreddit } = await supabase
+      .from('subreddits')
+      .select('analysis_data')
+      .eq('id', subredditId)
+      .maybeSingle();
+
+    // Without an analysis there is nothing to seed from; account quotas still apply
+    if (!subreddit?.analysis_data) return;
+
+    const derived = this.deriveLimit(subreddit.analysis_data);
+    const { error } = await supabase
+      .from('subreddit_posting_limits')
+      .upsert({
+        user_id: userId,
+        subreddit_id: subredditId,
+        min_gap_hours: derived.min_gap_hours,
+        source: 'analysis',
+        source_rule: derived.source_rule
+      }, {
+        onConflict: 'user_id,subreddit_id',
+        ignoreDuplicates: true
+      });
+
+    if (error) {
+      console.warn('Unable to seed subreddit posting limit:', error);
+    }
+  }
+
+  static async getLimits(subredditIds: string[]): Promise<SubredditPostingLimit[]> {
+    if (subredditIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('subreddit_posting_limits')
+      .select('*')
+      .in('subreddit_id', subredditIds);
+
+    if (error) throw error;
+    return data as SubredditPostingLimit[];
+  }
+
+  static async setLimit(subredditId: string, minGapHours: number): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user || !user.id) {
+      throw new Error('User not authenticated or user ID not available');
+    }
+
+    if (!Number.isFinite(minGapHours) || minGapHours < 0) {
+      throw new Error('Minimum gap must be zero or more hours');
+    }
+
+    const { error } = await supabase
+      .from('subreddit_posting_limits')
+      .upsert({
+        user_id: user.id,
+        subreddit_id: subredditId,
+        min_gap_hours: minGapHours,
+        source: 'manual',
+        source_rule: null,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,subreddit_id'
+      });
+
+    if (error) throw error;
+  }
+
+  // Drop a manual gap and derive it from the analysis again
+  static async resetLimit(subredditId: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user || !user.id) {
+      throw new Error('User not authenticated or user ID not available');
+    }
+
+    const { error } = await supabase
+      .from('subreddit_posting_limits')
+      .delete()
+      .eq('subreddit_id', subredditId);
+
+    if (error) throw error;
+
+    await this.seedLimit(user.id, subredditId);
+  }
+
+  static async getAccountQuotas(accountIds: string[]): Promise<AccountQuota[]> {
+    if (accountIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('reddit_accounts')
+      .select('id, username, max_posts_per_hour, max_posts_per_day')
+      .in('id', accountIds);
+
+    if (error) throw error;
+    return data as AccountQuota[];
+  }
+
+  // null removes the limit
+  static async setAccountQuota(accountId: string, maxPostsPerHour: number | null, maxPostsPerDay: number | null): Promise<void> {
+    if ((maxPostsPerHour !== null && maxPostsPerHour < 1) || (maxPostsPerDay !== null && maxPostsPerDay < 1)) {
+      throw new Error('Quotas must allow at least one post');
+    }
+
+    const { error } = await supabase
+      .from('reddit_accounts')
+      .update({
+        max_posts_per_hour: maxPostsPerHour,
+        max_posts_per_day: maxPostsPerDay
+      })
+      .eq('id', accountId);
+
+    if (error) throw error;
+  }
+
+  // When the post may go out without breaking a quota, or null if it may go out now
+  static async checkPost(postId: string): Promise<QuotaHold | null> {
+    const { data, error } = await supabase.rpc('get_post_quota_hold', { p_post_id: postId });
+
+    if (error) throw error;
+
+    const hold = Array.isArray(data) ? data[0] : data;
+    return hold?.hold_until ? { hold_until: hold.hold_until, reason: hold.reason } : null;
+  }
+
+  // Put a claimed post back in the schedule until the quota allows it. Only a post that is still
+  // processing is held, so a post another server has already moved on is left alone.
+  static async holdPost(post: { id: string; campaign_id: string }, hold: QuotaHold): Promise<void> {
+    const { data: held, error } = await supabase
+      .from('campaign_posts')
+      .update({
+        status: 'scheduled',
+        quota_hold_until: hold.hold_until,
+        quota_hold_reason: hold.reason
+      })
+      .eq('id', post.id)
+      .eq('status', 'processing')
+      .select('id');
+
+    if (error) throw error;
+    if (!held?.length) return;
+
+    const { error: activityError } = await supabase
+      .from('campaign_activity')
+      .insert({
+        campaign_id: post.campaign_id,
+        post_id: post.id,
+        action_type: 'post_held',
+        details: {
+          hold_until: hold.hold_until,
+          reason: hold.reason
+        }
+      });
+
+    if (activityError) {
+      console.error('Error logging post hold:', activityError);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceSeries } from '../types';
+import { fromZoned, isValidTimezone, toZoned } from '../../../lib/timezone';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Far enough for a yearly cadence written as MONTHLY;INTERVAL=12 to show up a few times
+const SEARCH_HORIZON_DAYS = 366 * 5;
+const MAX_HOURLY_STEPS = 24 * 366 * 2;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const FREQUENCIES: RecurrenceFrequency[] = ['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYHOUR', 'BYMINUTE', 'BYMONTHDAY', 'BYMONTH', 'COUNT', 'UNTIL', 'WKST'];
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+// Days since 1970-01-01 for a calendar date, so date arithmetic ignores timezones
+const dayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+const dateOfDay = (days: number) => {
+  const date = new Date(days * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+const weekdayOf = (days: number) => (days + 4) % 7; // 1970-01-01 was a Thursday
+const weekStartOf = (days: number, weekStart: number) => days - ((weekdayOf(days) - weekStart + 7) % 7);
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+function parseList(value: string, name: string, min: number, max: number): number[] {
+  return value.split(',').map(item => {
+    const parsed = Number(item);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max || (parsed === 0 && min < 0)) {
+      throw new RecurrenceRuleError(`${name} value "${item}" must be between ${min} and ${max}`);
+    }
+    return parsed;
+  });
+}
+
+// Parses and evaluates the RFC 5545 RRULE subset campaign posts support
+export class RecurrenceService {
+  static isValidTimezone(timeZone: string): boolean {
+    return isValidTimezone(timeZone);
+  }
+
+  static parseRule(text: string, timeZone: string = 'UTC'): RecurrenceRule {
+    const parts = new Map<string, string>();
+    for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+      const [key, value] = part.split('=');
+      if (!key || value === undefined) {
+        throw new RecurrenceRuleError(`"${part}" is not a KEY=VALUE pair`);
+      }
+      const name = key.trim().toUpperCase();
+      if (!SUPPORTED_PARTS.includes(name)) {
+        throw new RecurrenceRuleError(`${name} is not supported`);
+      }
+      parts.set(name, value.trim().toUpperCase());
+    }
+
+    const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+    if (!freq || !FREQUENCIES.includes(freq)) {
+      throw new RecurrenceRuleError(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+    }
+
+    if (parts.has('COUNT') && parts.has('UNTIL')) {
+      throw new RecurrenceRuleError('A rule can end with COUNT or UNTIL, not both');
+    }
+
+    const rule: RecurrenceRule = {
+      freq,
+      interval: parts.has('INTERVAL') ? parseList(parts.get('INTERVAL')!, 'INTERVAL', 1, 1000)[0] : 1,
+      by_day: [],
+      by_hour: parts.has('BYHOUR') ? parseList(parts.get('BYHOUR')!, 'BYHOUR', 0, 23) : [],
+      by_minute: parts.has('BYMINUTE') ? parseList(parts.get('BYMINUTE')!, 'BYMINUTE', 0, 59) : [],
+      by_month_day: parts.has('BYMONTHDAY') ? parseList(parts.get('BYMONTHDAY')!, 'BYMONTHDAY', -31, 31) : [],
+      by_month: parts.has('BYMONTH') ? parseList(parts.get('BYMONTH')!, 'BYMONTH', 1, 12) : [],
+      week_start: WEEKDAYS.indexOf(parts.get('WKST') || 'MO')
+    };
+
+    if (rule.week_start < 0) {
+      throw new RecurrenceRuleError(`WKST must be one of ${WEEKDAYS.join(', ')}`);
+    }
+
+    if (parts.has('BYDAY')) {
+      rule.by_day = parts.get('BYDAY')!.split(',').map(item => {
+        const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        if (!match) {
+          throw new RecurrenceRuleError(`BYDAY value "${item}" is not a weekday like TU or 2TU`);
+        }
+        const ordinal = match[1] ? Number(match[1]) : undefined;
+        if (ordinal !== undefined && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+          throw new RecurrenceRuleError(`BYDAY "${item}": numbered weekdays only work with FREQ=MONTHLY, from -5 to 5`);
+        }
+        return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+      });
+    }
+
+    if (parts.has('COUNT')) {
+      rule.count = parseList(parts.get('COUNT')!, 'COUNT', 1, 10000)[0];
+    }
+
+    if (parts.has('UNTIL')) {
+      const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+      if (!match) {
+        throw new RecurrenceRuleError('UNTIL must look like 20250131 or 20250131T090000Z');
+      }
+      const [, year, month, day, hour, minute, , utc] = match;
+      const local = {
+        year: Number(year),
+        month: Number(month),
+        day: Number(day),
+        // A date without a time includes the whole day
+        hour: hour ? Number(hour) : 23,
+        minute: minute ? Number(minute) : 59
+      };
+      rule.until = (utc
+        ? new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute))
+        : fromZoned(local, timeZone)
+      ).toISOString();
+    }
+
+    return rule;
+  }
+
+  // Whether a calendar day belongs to the rule, before times are applied
+  private static matchesDay(rule: RecurrenceRule, days: number, startDays: number): boolean {
+    const { year, month, day } = dateOfDay(days);
+    const weekday = weekdayOf(days);
+
+    if (rule.by_month.length > 0 && !rule.by_month.includes(month)) return false;
+
+    const monthLength = daysInMonth(year, month);
+    const matchesMonthDay = (list: number[]) => list.some(d => (d > 0 ? d === day : monthLength + d + 1 === day));
+    const matchesWeekday = () => rule.by_day.some(byDay => {
+      if (byDay.weekday !== weekday) return false;
+      if (byDay.ordinal === undefined) return true;
+      return byDay.ordinal > 0
+        ? Math.ceil(day / 7) === byDay.ordinal
+        : -Math.ceil((monthLength - day + 1) / 7) === byDay.ordinal;
+    });
+
+    const start = dateOfDay(startDays);
+
+    switch (rule.freq) {
+      case 'DAILY':
+        if ((days - startDays) % rule.interval !== 0) return false;
+        break;
+      case 'WEEKLY': {
+        const weeks = (weekStartOf(days, rule.week_start) - weekStartOf(startDays, rule.week_start)) / 7;
+        if (weeks % rule.interval !== 0) return false;
+        if (rule.by_day.length === 0) return weekday === weekdayOf(startDays);
+        break;
+      }
+      case 'MONTHLY': {
+        const months = (year * 12 + month) - (start.year * 12 + start.month);
+        if (months % rule.interval !== 0) return false;
+        if (rule.by_day.length === 0 && rule.by_month_day.length === 0) return day === start.day;
+        break;
+      }
+    }
+
+    if (rule.by_day.length > 0 && !matchesWeekday()) return false;
+    if (rule.by_month_day.length > 0 && !matchesMonthDay(rule.by_month_day)) return false;
+    return true;
+  }
+
+  // Instances of the series in order, ignoring exclusion dates and the end of the rule
+  private static *instances(rule: RecurrenceRule, series: RecurrenceSeries, from: Date): Generator<Date> {
+    const start = new Date(series.start);
+    const startLocal = toZoned(start, series.timezone);
+
+    if (rule.freq === 'HOURLY') {
+      const step = rule.interval * HOUR_MS;
+      let k = Math.max(0, Math.floor((from.getTime() - start.getTime()) / step));
+      for (let i = 0; i < MAX_HOURLY_STEPS; i++, k++) {
+        const candidate = new Date(start.getTime() + k * step);
+        const local = toZoned(candidate, series.timezone);
+        const days = dayNumber(local.year, local.month, local.day);
+        if (rule.by_hour.length > 0 && !rule.by_hour.includes(local.hour)) continue;
+        if (rule.by_month.length > 0 && !rule.by_month.includes(local.month)) continue;
+        if (rule.by_day.length > 0 && !rule.by_day.some(byDay => byDay.weekday === weekdayOf(days))) continue;
+        yield candidate;
+      }
+      return;
+    }
+
+    const hours = rule.by_hour.length > 0 ? [...rule.by_hour].sort((a, b) => a - b) : [startLocal.hour];
+    const minutes = rule.by_minute.length > 0 ? [...rule.by_minute].sort((a, b) => a - b) : [startLocal.minute];
+    const startDays = dayNumber(startLocal.year, startLocal.month, startLocal.day);
+    const fromLocalDate = toZoned(from, series.timezone);
+    const firstDay = Math.max(startDays, dayNumber(fromLocalDate.year, fromLocalDate.month, fromLocalDate.day) - 1);
+
+    for (let days = firstDay; days < firstDay + SEARCH_HORIZON_DAYS; days++) {
+      if (!this.matchesDay(rule, days, startDays)) continue;
+
+      const date = dateOfDay(days);
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = fromZoned({ ...date, hour, minute }, series.timezone);
+          if (candidate >= start) {
+            yield candidate;
+          }
+        }
+      }
+    }
+  }
+
+  // The first occurrence strictly after the given time, or null once the series has ended
+  static nextOccurrence(series: RecurrenceSeries, after: Date): Date | null {
+    const rule = this.parseRule(series.rule, series.timezone);
+    const excluded = new Set((series.exdates || []).map(date => Math.floor(new Date(date).getTime() / MINUTE_MS)));
+    const until = rule.until ? new Date(rule.until) : null;
+
+    // COUNT includes excluded instances, so a counted series is walked from its start
+    let remaining = rule.count ?? Infinity;
+    const from = rule.count ? new Date(series.start) : after;
+
+    for (const instance of this.instances(rule, series, from)) {
+      if (until && instance > until) return null;
+      if (remaining-- <= 0) return null;
+      if (instance <= after) continue;
+      if (excluded.has(Math.floor(instance.getTime() / MINUTE_MS))) continue;
+      return instance;
+    }
+
+    return null;
+  }
+
+  // The first occurrence at or after the series start
+  static firstOccurrence(series: RecurrenceSeries): Date | null {
+    return this.nextOccurrence(series, new Date(new Date(series.start).getTime() - 1));
+  }
+
+  // A few upcoming occurrences, for previews
+  static upcoming(series: RecurrenceSeries, after: Date, limit: number = 5): Date[] {
+    const dates: Date[] = [];
+    let cursor = after;
+    while (dates.length < limit) {
+      const next = this.nextOccurrence(series, cursor);
+      if (!next) break;
+      dates.push(next);
+      cursor = next;
+    }
+    return dates;
+  }
+
+  // Plain-language summary such as "Every Tuesday and Thursday at 09:00"
+  static describe(ruleText: string, timeZone: string = 'UTC'): string {
+    let rule: RecurrenceRule;
+    try {
+      rule = this.parseRule(ruleText, timeZone);
+    } catch {
+      return ruleText;
+    }
+
+    const unit = { HOURLY: 'hour', DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+    const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+    const join = (items: string[]) => items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+    const ordinalName = (n: number) => (n === -1 ? 'last' : n < 0 ? `${-n}th last` : ['', '1st', '2nd', '3rd', '4th', '5th'][n]);
+
+    const pieces: string[] = [];
+    const weekdays = rule.by_day.map(d => d.weekday).sort((a, b) => a - b).join(',');
+    if (rule.by_day.length > 0) {
+      const isWeekdays = weekdays === '1,2,3,4,5' && rule.by_day.every(d => d.ordinal === undefined);
+      const days = isWeekdays
+        ? 'weekdays'
+        : join(rule.by_day.map(d => `${d.ordinal ? `the ${ordinalName(d.ordinal)} ` : ''}${WEEKDAY_NAMES[d.weekday]}`));
+      const everyDay = (rule.freq === 'WEEKLY' || rule.freq === 'DAILY') && rule.interval === 1;
+      pieces.push(everyDay ? `Every ${isWeekdays ? 'weekday' : days}` : `${every} on ${days}`);
+    } else {
+      pieces.push(every);
+    }
+
+    if (rule.by_month_day.length > 0) {
+      pieces.push(`on day ${join(rule.by_month_day.map(String))}`);
+    }
+
+    if (rule.by_hour.length > 0) {
+      const minutes = rule.by_minute.length > 0 ? rule.by_minute : [0];
+      pieces.push(`at ${join(rule.by_hour.flatMap(h => minutes.map(m => `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`)))}`);
+    }
+
+    if (rule.count) pieces.push(`${rule.count} times`);
+    if (rule.until) pieces.push(`until ${new Date(rule.until).toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric', year: 'numeric' })}`);
+
+    return `${pieces.join(' ')} (${timeZone})`;
+  }
+}
@@ -1,7 +1,14 @@
 import { CampaignPost, ContentType } from '../types';
 import { supabase } from '../../../lib/supabase';
-import { createClient } from '@supabase/supabase-js';
-import { redditService, RedditPostParams, RedditPostResponse } from '../../../lib/redditService';
+import { redditClient, RedditPostParams, RedditPostResponse } from '../../../lib/redditClient/browser';
+import { DEFAULT_TIMEZONE, fromZoned, nextUtcHour, toZoned } from '../../../lib/timezone';
+
+// Limits Reddit enforces on gallery posts
+export const GALLERY_LIMITS = {
+  minItems: 2,
+  maxItems: 20,
+  captionLength: 180
+};
 
 export class RedditPostingService {
   // Post to Reddit using a user's connected Reddit account
@@ -10,6 +17,7 @@ export class RedditPostingService {
     accountDetails: {
       username: string;
       accessToken: string;
+      accountId?: string;
     },
     subredditName: string
   ): Promise<RedditPostResponse> {
@@ -18,7 +26,13 @@ export class RedditPostingService {
       const postParams: RedditPostParams = {
         subreddit: subredditName,
         title: post.title,
-        kind: this.mapContentTypeToRedditKind(post.content_type)
+        kind: this.mapContentTypeToRedditKind(post.content_type),
+        username: accountDetails.username,
+        flairId: post.flair_id || undefined,
+        flairText: post.flair_text || undefined,
+        nsfw: post.nsfw ?? false,
+        spoiler: post.spoiler ?? false,
+        sendReplies: post.send_replies ?? true
       };
 
       // Set the appropriate content based on the type
@@ -39,10 +53,49 @@ export class RedditPostingService {
           console.error('Image post missing valid URL', post);
           throw new Error('Image post is missing a valid media URL');
         }
+      } else if (post.content_type === 'video') {
+        postParams.text = post.content; // Optional caption
+        
+        if (!post.media_item?.url || !post.media_item.media_type?.startsWith('video/')) {
+          throw new Error('Video post is missing a valid video file');
+        }
+        
+        if (!post.media_item.thumbnail_url) {
+          throw new Error('Video post is missing a poster image; re-upload the video to generate one');
+        }
+        
+        postParams.mediaUrl = post.media_item.url;
+        postParams.posterUrl = post.media_item.thumbnail_url;
+      } else if (post.content_type === 'crosspost') {
+        if (!post.crosspost_fullname) {
+          throw new Error('Crosspost has no Reddit post to share yet');
+        }
+        
+        postParams.crosspostFullname = post.crosspost_fullname;
+      } else if (post.content_type === 'gallery') {
+        const items = [...(post.gallery_items || [])].sort((a, b) => a.position - b.position);
+        
+        if (items.some(item => !item.media_item?.url)) {
+          throw new Error('Gallery post has an image without a valid media URL');
+        }
+        
+        postParams.galleryItems = items.map(item => ({
+          mediaUrl: item.media_item!.url,
+          caption: item.caption || undefined,
+          outboundUrl: item.outbound_url || undefined
+        }));
+        
+        const galleryError = this.validateGalleryItems(items);
+        if (galleryError) {
+          throw new Error(galleryError);
+        }
       }
 
-      // Use the consolidated redditService for submission
-      const result = await redditService.submitPost(postParams, accountDetails.accessToken);
+      // Use the consolidated redditClient for submission
+      const result = await redditClient.submitPost(postParams, {
+        accessToken: accountDetails.accessToken,
+        accountId: accountDetails.accountId
+      });
       return result;
     } catch (error) {
       console.error('Error submitting post to Reddit:', error);
@@ -54,8 +107,14 @@ export class RedditPostingService {
   }
 
   // Map our content type to Reddit API's post kind
-  private static mapContentTypeToRedditKind(contentType: ContentType): 'link' | 'self' | 'image' {
+  private static mapContentTypeToRedditKind(contentType: ContentType): RedditPostParams['kind'] {
     switch (contentType) {
+      case 'crosspost':
+        return 'crosspost';
+      case 'video':
+        return 'video';
+      case 'gallery':
+        return 'gallery';
       case 'text':
         return 'self';
       case 'link':
@@ -67,8 +126,44 @@ export class RedditPostingService {
     }
   }
 
-  // Use Subreddit analysis data to determine optimal posting time
-  static async getOptimalPostingTime(subredditId: string): Promise<Date> {
+  // Fullname (t3_...) of the post a Reddit URL, short link or fullname points to, or null
+  static parseCrosspostFullname(reference: string): string | null {
+    const value = reference.trim();
+    
+    const fullname = value.match(/^t3_([a-z0-9]+)$/i);
+    if (fullname) return `t3_${fullname[1].toLowerCase()}`;
+    
+    const permalink = value.match(/^(?:https?:\/\/)?(?:[a-z]+\.)?reddit\.com\/(?:r\/[^/]+\/|user\/[^/]+\/)?comments\/([a-z0-9]+)/i)
+      || value.match(/^(?:https?:\/\/)?redd\.it\/([a-z0-9]+)/i);
+    return permalink ? `t3_${permalink[1].toLowerCase()}` : null;
+  }
+
+  // Check a gallery against Reddit's limits, returning an error message if it can't be posted
+  static validateGalleryItems(items: Array<{ caption?: string | null; outbound_url?: string | null }>): string | null {
+    if (items.length < GALLERY_LIMITS.minItems) {
+      return `Gallery posts need at least ${GALLERY_LIMITS.minItems} images`;
+    }
+    
+    if (items.length > GALLERY_LIMITS.maxItems) {
+      return `Gallery posts can have at most ${GALLERY_LIMITS.maxItems} images`;
+    }
+    
+    for (const [index, item] of items.entries()) {
+      if (item.caption && item.caption.length > GALLERY_LIMITS.captionLength) {
+        return `Caption for image ${index + 1} is longer than ${GALLERY_LIMITS.captionLength} characters`;
+      }
+      
+      if (item.outbound_url && !/^https?:\/\/[^\s]+$/i.test(item.outbound_url.trim())) {
+        return `Link for image ${index + 1} must be a valid http(s) URL`;
+      }
+    }
+    
+    return null;
+  }
+
+  // Use Subreddit analysis data to determine optimal posting time; analysis hours are UTC,
+  // the fallback is in the given timezone
+  static async getOptimalPostingTime(subredditId: string, timeZone: string = DEFAULT_TIMEZONE): Promise<Date> {
     try {
       // Fetch subreddit analysis data
       const { data: analysis, error } = await supabase
@@ -79,7 +174,7 @@ export class RedditPostingService {
       
       if (error || !analysis) {
         console.warn('Subreddit analysis not found, using fallback scheduling');
-        return this.getFallbackPostTime();
+        return this.getFallbackPostTime(timeZone);
       }
       
       // If we have activity_by_hour data, use it
@@ -94,12 +189,7 @@ export class RedditPostingService {
           const optimalHour = hours[0].hour;
           
           // Calculate the next occurrence of this hour
-          const optimalTime = new Date();
-          // If the hour has already passed today, schedule for tomorrow
-          if (optimalTime.getHours() >= optimalHour) {
-            optimalTime.setDate(optimalTime.getDate() + 1);
-          }
-          optimalTime.setHours(optimalHour, 0, 0, 0);
+          const optimalTime = nextUtcHour(optimalHour);
           
           console.log(`Optimal posting time determined: ${optimalTime.toISOString()} (hour with highest activity: ${optimalHour})`);
           return optimalTime;
@@ -110,7 +200,7 @@ export class RedditPostingService {
       if (analysis.postingLimits?.bestTimeToPost && analysis.postingLimits.bestTimeToPost.length > 0) {
         // Try to extract time from text like "10 AM", "between 8 PM and 10 PM", etc.
         const bestTimeText = analysis.postingLimits.bestTimeToPost[0];
-        const timeMatches = bestTimeText.match(/\b(\d{1,2})(?:\s*)(am|pm)\b/gi);
+        const timeMatches = bestTimeText.match(/\b(\d{1,2})(?::\d{2})?(?:\s*)(am|pm)\b/gi);
         
         if (timeMatches && timeMatches.length > 0) {
           // Take the first time mentioned
@@ -129,15 +219,8 @@ export class RedditPostingService {
               hour = 0;
             }
             
-            // Set the optimal time for tomorrow at that hour
-            const optimalTime = new Date();
-            
-            // If the hour has already passed today, schedule for tomorrow
-            if (optimalTime.getHours() >= hour) {
-              optimalTime.setDate(optimalTime.getDate() + 1);
-            }
-            
-            optimalTime.setHours(hour, 0, 0, 0);
+            // Best times are written in UTC; take the next occurrence of that hour
+            const optimalTime = nextUtcHour(hour);
             console.log(`Optimal posting time from analysis text: ${optimalTime.toISOString()} (extracted from "${bestTimeText}")`);
             return optimalTime;
           }
@@ -160,19 +243,25 @@ export class RedditPostingService {
       }
       
       // Fall back to default time
-      return this.getFallbackPostTime();
+      return this.getFallbackPostTime(timeZone);
     } catch (error) {
       console.error('Error determining optimal posting time:', error);
-      return this.getFallbackPostTime();
+      return this.getFallbackPostTime(timeZone);
     }
   }
   
   // Default fallback posting time
-  private static getFallbackPostTime(): Date {
-    // Schedule for tomorrow at 9 AM (common good posting time)
-    const defaultTime = new Date();
-    defaultTime.setDate(defaultTime.getDate() + 1);
-    defaultTime.setHours(9, 0, 0, 0);
+  private static getFallbackPostTime(timeZone: string = DEFAULT_TIMEZONE): Date {
+    // Schedule for tomorrow at 9 AM in the user's timezone (common good posting time)
+    const today = toZoned(new Date(), timeZone);
+    const tomorrow = new Date(Date.UTC(today.year, today.month - 1, today.day + 1));
+    const defaultTime = fromZoned({
+      year: tomorrow.getUTCFullYear(),
+      month: tomorrow.getUTCMonth() + 1,
+      day: tomorrow.getUTCDate(),
+      hour: 9,
+      minute: 0
+    }, timeZone);
     console.log(`Using fallback posting time: ${defaultTime.toISOString()}`);
     return defaultTime;
   }
@@ -181,11 +270,6 @@ export class RedditPostingService {
   static async generateAiTitle(subredditId: string, contentSummary: string, contentType: ContentType = 'text'): Promise<string> {
     try {
       // Get subreddit information
-      const supabase = createClient(
-        import.meta.env.VITE_SUPABASE_URL,
-        import.meta.env.VITE_SUPABASE_ANON_KEY
-      );
-      
       const { data: subredditData, error: subredditError } = await supabase
         .from('subreddits')
         .select('*')
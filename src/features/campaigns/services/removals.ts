@@ -0,0 +1,261 @@
+import { supabase } from '../../../lib/supabase';
+import { redditClient, RedditSubmissionStats } from '../../../lib/redditClient/browser';
+import { PostStatus, VisibilityCheckResult } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const CHECK_INTERVAL_MS = 30 * MINUTE_MS;
+const POST_RECHECK_MS = 6 * HOUR_MS;
+const ACCOUNT_RECHECK_MS = 24 * HOUR_MS;
+const LOOKBACK_DAYS = 30; // Removals after a month rarely matter for a campaign
+const BATCH_SIZE = 100; // One /api/info request
+
+// removed_by_category values that mean the post was taken down rather than deleted by its author
+const REMOVAL_CATEGORIES: Record<string, string> = {
+  moderator: 'Removed by moderators',
+  reddit: 'Removed by Reddit spam filters',
+  anti_evil_ops: 'Removed by Reddit admins',
+  community_ops: 'Removed by Reddit community team',
+  legal_operations: 'Removed for legal reasons',
+  copyright_takedown: 'Removed for copyright',
+  content_takedown: 'Removed by Reddit'
+};
+
+export interface CheckableAccount {
+  id: string;
+  username: string;
+  oauth_token: string;
+  oauth_refresh_token: string;
+  token_expiry?: string | null;
+  is_shadowbanned?: boolean;
+  shadowban_checked_at?: string | null;
+}
+
+export type AccessTokenProvider = (account: CheckableAccount) => Promise<string>;
+
+// Finds posted items that were removed or silently hidden, and accounts that were shadowbanned
+export class RemovalDetector {
+  static startChecker(getAccessToken: AccessTokenProvider) {
+    console.log('Starting removal detector - will check posted items every 30 minutes');
+
+    const interval = setInterval(() => this.checkPostedContent(getAccessToken), CHECK_INTERVAL_MS);
+    this.checkPostedContent(getAccessToken);
+
+    return interval;
+  }
+
+  // Compare the post as its author sees it with what a logged-out visitor sees; null when it can't be told
+  static classify(authored?: RedditSubmissionStats, anonymous?: RedditSubmissionStats): VisibilityCheckResult | null {
+    if (!authored) return null;
+
+    const category = authored.removed_by_category;
+
+    // Deleted by the author is not something to flag
+    if (category === 'deleted' || category === 'author' || authored.selftext === '[deleted]') {
+      return null;
+    }
+
+    if (category === 'automod_filtered') {
+      return { status: 'filtered', reason: 'Held for review by AutoModerator' };
+    }
+
+    if (category) {
+      return { status: 'removed', reason: REMOVAL_CATEGORIES[category] || `Removed (${category})` };
+    }
+
+    // The author's view looks fine, so anything hiding it from others is a silent filter
+    if (!anonymous) {
+      return { status: 'filtered', reason: 'Not visible to logged-out users' };
+    }
+
+    if (anonymous.removed_by_category || anonymous.selftext === '[removed]') {
+      return { status: 'filtered', reason: 'Shown as removed to logged-out users' };
+    }
+
+    if (anonymous.author === '[deleted]' && authored.author !== '[deleted]') {
+      return { status: 'filtered', reason: 'Author hidden from logged-out users (possible shadowban)' };
+    }
+
+    return { status: 'posted', reason: null };
+  }
+
+  // Check the visibility of recently posted items, grouped by the account that posted them
+  static async checkPostedContent(getAccessToken: AccessTokenProvider): Promise<number> {
+    try {
+      const now = new Date();
+      const { data: posts, error } = await supabase
+        .from('campaign_posts')
+        .select(`
+          id,
+          campaign_id,
+          status,
+          reddit_post_id,
+          reddit_account:reddit_accounts(
+            id,
+            username,
+            oauth_token,
+            oauth_refresh_token,
+            token_expiry,
+            is_shadowbanned,
+            shadowban_checked_at
+          )
+        `)
+        .in('status', ['posted', 'removed', 'filtered'])
+        .not('reddit_post_id', 'is', null)
+        .gte('posted_at', new Date(now.getTime() - LOOKBACK_DAYS * 24 * HOUR_MS).toISOString())
+        .or(`removal_checked_at.is.null,removal_checked_at.lte.${new Date(now.getTime() - POST_RECHECK_MS).toISOString()}`)
+        .order('removal_checked_at', { ascending: true, nullsFirst: true })
+        .limit(BATCH_SIZE);
+
+      if (error) {
+        console.error('Error getting posts for removal detection:', error);
+        return 0;
+      }
+
+      if (!posts || posts.length === 0) {
+        return 0;
+      }
+
+      const anonymous = await redditClient.getSubmissions(posts.map(post => post.reddit_post_id));
+      const anonymousById = new Map(anonymous.map(item => [item.id, item]));
+
+      const byAccount = new Map<string, { account: CheckableAccount; posts: typeof posts }>();
+      for (const post of posts) {
+        const account = post.reddit_account as unknown as CheckableAccount | null;
+        if (!account) continue;
+
+        const group = byAccount.get(account.id) || { account, posts: [] };
+        group.posts.push(post);
+        byAccount.set(account.id, group);
+      }
+
+      let changed = 0;
+      for (const { account, posts: accountPosts } of byAccount.values()) {
+        // Shadowbanned accounts lose posts silently, so check the account alongside its posts
+        const accountCheckedAt = account.shadowban_checked_at ? new Date(account.shadowban_checked_at).getTime() : 0;
+        if (now.getTime() - accountCheckedAt >= ACCOUNT_RECHECK_MS) {
+          await this.checkAccount(account);
+        }
+
+        let authored: RedditSubmissionStats[];
+        try {
+          const accessToken = await getAccessToken(account);
+          authored = await redditClient.getSubmissions(accountPosts.map(post => post.reddit_post_id), { accessToken, accountId: account.id });
+        } catch (accountError) {
+          // Leave removal_checked_at alone so these are picked up on the next run
+          console.error(`Error getting authored view of posts for ${account.username}:`, accountError);
+          continue;
+        }
+
+        const authoredById = new Map(authored.map(item => [item.id, item]));
+
+        for (const post of accountPosts) {
+          const redditId = post.reddit_post_id.replace(/^t3_/, '');
+          const result = this.classify(authoredById.get(redditId), anonymousById.get(redditId));
+
+          if (await this.recordResult(post, result)) {
+            changed++;
+          }
+        }
+      }
+
+      if (changed > 0) {
+        console.log(`Visibility changed for ${changed} posts`);
+      }
+
+      return changed;
+    } catch (error) {
+      console.error('Error detecting removed posts:', error);
+      return 0;
+    }
+  }
+
+  // Store the check on the post and move it between posted, removed and filtered; true when the status changed
+  static async recordResult(
+    post: { id: string; campaign_id: string; status: PostStatus },
+    result: VisibilityCheckResult | null
+  ): Promise<boolean> {
+    const checkedAt = new Date().toISOString();
+
+    if (!result || result.status === post.status) {
+      const { error } = await supabase
+        .from('campaign_posts')
+        .update({ removal_checked_at: checkedAt, ...(result ? { removal_reason: result.reason } : {}) })
+        .eq('id', post.id);
+
+      if (error) {
+        console.error(`Error recording visibility check for post ${post.id}:`, error);
+      }
+      return false;
+    }
+
+    // Updated directly: update_campaign_post_status would reset posted_at and the Reddit ids when restoring a post
+    const { error: updateError } = await supabase
+      .from('campaign_posts')
+      .update({
+        status: result.status,
+        removal_reason: result.reason,
+        removal_detected_at: result.status === 'posted' ? null : checkedAt,
+        removal_checked_at: checkedAt
+      })
+      .eq('id', post.id);
+
+    if (updateError) {
+      console.error(`Error updating status of post ${post.id} to ${result.status}:`, updateError);
+      return false;
+    }
+
+    const { error: activityError } = await supabase
+      .from('campaign_activity')
+      .insert({
+        campaign_id: post.campaign_id,
+        post_id: post.id,
+        action_type: 'visibility_changed',
+        details: {
+          previous_status: post.status,
+          status: result.status,
+          reason: result.reason
+        }
+      });
+
+    if (activityError) {
+      console.error('Error logging visibility change:', activityError);
+    }
+
+    return true;
+  }
+
+  // Flag an account whose profile 404s for logged-out visitors; returns null when Reddit couldn't be reached
+  static async checkAccount(account: CheckableAccount): Promise<boolean | null> {
+    let profileStatus;
+    try {
+      profileStatus = await redditClient.getPublicProfileStatus(account.username);
+    } catch (error) {
+      console.error(`Error checking profile visibility of ${account.username}:`, error);
+      return null;
+    }
+
+    const isShadowbanned = profileStatus === 'not_found';
+    const update: Record<string, unknown> = {
+      is_shadowbanned: isShadowbanned,
+      shadowban_checked_at: new Date().toISOString()
+    };
+
+    if (isShadowbanned !== Boolean(account.is_shadowbanned)) {
+      update.shadowbanned_at = isShadowbanned ? new Date().toISOString() : null;
+      console.log(isShadowbanned ? `u/${account.username} appears to be shadowbanned` : `u/${account.username} is visible again`);
+    }
+
+    const { error } = await supabase
+      .from('reddit_accounts')
+      .update(update)
+      .eq('id', account.id);
+
+    if (error) {
+      console.error(`Error recording shadowban check for ${account.username}:`, error);
+    }
+
+    return isShadowbanned;
+  }
+}
@@ -0,0 +1,161 @@
+import { supabase } from '../../../lib/supabase';
+import { FailureClassification, PostAttempt } from '../types';
+import { PostingRuleError } from './errors';
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_MAX_RETRIES = 3;
+// First retry waits this long, doubling on every further attempt
+const BASE_BACKOFF_MINUTES = 5;
+const MAX_BACKOFF_MINUTES = 6 * 60;
+// Spread retries a little so a burst of failures doesn't come back at the same second
+const JITTER_RATIO = 0.1;
+
+const TIME_UNITS_MS: Record<string, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: MINUTE_MS,
+  hour: 60 * MINUTE_MS
+};
+
+// Error text patterns, checked in order; permanent conditions win over transient ones
+const FAILURE_PATTERNS: Array<{ pattern: RegExp; classification: FailureClassification }> = [
+  {
+    pattern: /invalid_grant|needs to be reconnected|is (marked as )?inactive/i,
+    classification: { type: 'permanent', reason: 'account_auth' }
+  },
+  {
+    pattern: /\bbanned\b|USER_BANNED|SUBREDDIT_NOTALLOWED|not allowed to post/i,
+    classification: { type: 'permanent', reason: 'banned' }
+  },
+  {
+    pattern: /\bprivate\b|SUBREDDIT_NOEXIST|SUBREDDIT_REQUIRED|subreddit (is )?(quarantined|restricted)/i,
+    classification: { type: 'permanent', reason: 'subreddit_private' }
+  },
+  {
+    pattern: /RATELIMIT|rate limit|too many requests|doing that too much|\(429\)/i,
+    classification: { type: 'transient', reason: 'rate_limited' }
+  },
+  // A submit that may have reached Reddit comes back unresolved instead of failing, so server and
+  // network errors only get here from requests that surely didn't create a post
+  {
+    pattern: /\((5\d\d)\)|\b50[0234]\b|service unavailable|bad gateway|gateway time-?out/i,
+    classification: { type: 'transient', reason: 'server_error' }
+  },
+  {
+    pattern: /fetch failed|failed to fetch|network|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|timed? ?out/i,
+    classification: { type: 'transient', reason: 'network' }
+  }
+];
+
+// Decides whether a failed post should be retried and records each attempt
+export class RetryPolicy {
+  // Sort an error into transient (worth retrying) or permanent
+  static classifyError(error: unknown): FailureClassification {
+    if (error instanceof PostingRuleError) {
+      return { type: 'permanent', reason: 'rule_blocked' };
+    }
+
+    const message = error instanceof Error ? error.message : String(error ?? '');
+    const match = FAILURE_PATTERNS.find(({ pattern }) => pattern.test(message));
+
+    if (!match) {
+      // Unknown errors are not retried so a post is never submitted twice by accident
+      return { type: 'permanent', reason: 'unknown' };
+    }
+
+    const classification = { ...match.classification };
+    if (classification.reason === 'rate_limited') {
+      const retryAfterMs = this.parseRetryAfter(message);
+      if (retryAfterMs !== null) {
+        classification.retry_after_ms = retryAfterMs;
+      }
+    }
+
+    return classification;
+  }
+
+  // Reddit phrases rate limits as "try again in 9 minutes" or "take a break for 30 seconds"
+  static parseRetryAfter(message: string): number | null {
+    const match = message.match(/(?:try again in|break for)\s+(\d+)\s*(millisecond|second|minute|hour)s?/i);
+    return match ? parseInt(match[1], 10) * TIME_UNITS_MS[match[2].toLowerCase()] : null;
+  }
+
+  // Exponential backoff from the attempt number, never sooner than Reddit asked for
+  static getBackoffDelay(attempt: number, classification: FailureClassification, random: () => number = Math.random): number {
+    const exponential = Math.min(
+      BASE_BACKOFF_MINUTES * Math.pow(2, Math.max(0, attempt - 1)),
+      MAX_BACKOFF_MINUTES
+    ) * MINUTE_MS;
+    const jitter = exponential * JITTER_RATIO * random();
+
+    // Add a minute on top of Reddit's hint so we don't land right on the edge of the limit
+    const requested = classification.retry_after_ms !== undefined
+      ? classification.retry_after_ms + MINUTE_MS
+      : 0;
+
+    return Math.max(Math.round(exponential + jitter), requested);
+  }
+
+  // Put a transiently failed post back in the queue for its next attempt
+  static async scheduleRetry(post: { id: string }, attempt: number, nextAttemptAt: Date, errorMessage: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('campaign_posts')
+      .update({
+        status: 'scheduled',
+        attempt_count: attempt,
+        next_attempt_at: nextAttemptAt.toISOString(),
+        last_attempt_at: new Date().toISOString(),
+        last_error: errorMessage
+      })
+      .eq('id', post.id)
+      .eq('status', 'processing')
+      .select('id');
+
+    if (error) {
+      console.error(`Error scheduling retry for post ${post.id}:`, error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Store the attempt count on the post and log the attempt in campaign activity
+  static async recordAttempt(post: { id: string; campaign_id: string }, attempt: PostAttempt): Promise<void> {
+    // Retries already wrote their counters in scheduleRetry
+    if (attempt.outcome !== 'retry_scheduled') {
+      const { error: updateError } = await supabase
+        .from('campaign_posts')
+        .update({
+          attempt_count: attempt.attempt,
+          next_attempt_at: null,
+          last_attempt_at: new Date().toISOString()
+        })
+        .eq('id', post.id);
+
+      if (updateError) {
+        console.error(`Error recording attempt count for post ${post.id}:`, updateError);
+      }
+    }
+
+    const { error } = await supabase
+      .from('campaign_activity')
+      .insert({
+        campaign_id: post.campaign_id,
+        post_id: post.id,
+        action_type: 'post_attempt',
+        details: {
+          attempt: attempt.attempt,
+          outcome: attempt.outcome,
+          error_type: attempt.classification?.type,
+          error_reason: attempt.classification?.reason,
+          error_message: attempt.error,
+          next_attempt_at: attempt.next_attempt_at
+        }
+      });
+
+    if (error) {
+      console.error('Error logging post attempt activity:', error);
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import { supabase } from '../../../lib/supabase';
+import {
+  detectKarmaRequirement,
+  detectAgeRequirement,
+  determineAllowedContentTypes,
+  parseKarmaRequirement,
+  parseAgeRequirementDays
+} from '../../../lib/subredditRules';
+import { CampaignPost, RuleCheckResult, RuleViolation } from '../types';
+
+type CheckablePost = Pick<CampaignPost, 'content_type' | 'title' | 'content' | 'subreddit_id' | 'reddit_account_id' | 'flair_id'>;
+
+interface SubredditRuleData {
+  allowed_content?: string[] | null;
+  analysis_data?: any;
+  link_flair_required?: boolean | null;
+}
+
+interface AccountStanding {
+  total_karma?: number | null;
+  karma_score?: number | null;
+  created_utc?: string | null;
+}
+
+// Rule text patterns that can be checked mechanically against a post
+const RESTRICTION_PATTERNS: Array<{
+  pattern: RegExp;
+  code: RuleViolation['code'];
+  severity: RuleViolation['severity'];
+  applies: (post: CheckablePost) => boolean;
+  message: string;
+}> = [
+  {
+    pattern: /\bno (external |outside |direct )?(links?|urls?)\b|\blinks? (are|is) not (allowed|permitted)/,
+    code: 'content_restriction',
+    severity: 'block',
+    applies: post => post.content_type === 'link' || (post.content_type !== 'crosspost' && /https?:\/\//i.test(post.content || '')),
+    message: 'Subreddit does not allow links'
+  },
+  {
+    pattern: /\bno (images?|pictures?|photos?|memes?)\b/,
+    code: 'content_restriction',
+    severity: 'block',
+    applies: post => post.content_type === 'image' || post.content_type === 'gallery',
+    message: 'Subreddit does not allow image posts'
+  },
+  {
+    pattern: /\bno (x-?posts?|cross-?posts?|cross-?posting)\b|\bcross-?posts? (are|is) not (allowed|permitted)/,
+    code: 'content_restriction',
+    severity: 'block',
+    applies: post => post.content_type === 'crosspost',
+    message: 'Subreddit does not allow crossposts'
+  },
+  {
+    pattern: /\bno (self[- ]?)?promotion\b|\bno (advertising|marketing|spam)\b/,
+    code: 'promotion_restricted',
+    severity: 'warn',
+    applies: () => true,
+    message: 'Subreddit restricts promotional content'
+  },
+  {
+    pattern: /\btitles?\b.{0,40}\b(must|should|need to|required to)\b.{0,40}(\[|\btags?\b|\bbrackets?\b)/,
+    code: 'title_format',
+    severity: 'warn',
+    applies: post => !/^\s*[[(]/.test(post.title || ''),
+    message: 'Subreddit requires a tag at the start of the title'
+  }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Checks campaign posts against the rules we have stored for the target subreddit
+export class PostingRuleGuard {
+  // Load the subreddit analysis and account standing, then evaluate the post
+  static async checkPost(post: CheckablePost, account?: AccountStanding): Promise<RuleCheckResult> {
+    const { data: subreddit, error: subredditError } = await supabase
+      .from('subreddits')
+      .select('allowed_content, analysis_data, link_flair_required')
+      .eq('id', post.subreddit_id)
+      .maybeSingle();
+
+    if (subredditError) {
+      console.warn('Unable to load subreddit rules, skipping rule check:', subredditError);
+    }
+
+    let standing = account;
+    if (!standing && post.reddit_account_id) {
+      const { data: accountData } = await supabase
+        .from('reddit_accounts')
+        .select('total_karma, karma_score, created_utc')
+        .eq('id', post.reddit_account_id)
+        .maybeSingle();
+
+      standing = accountData || undefined;
+    }
+
+    return this.evaluate(post, subreddit || null, standing || null);
+  }
+
+  // Pure evaluation so the same rules apply in the modal and the scheduler
+  static evaluate(
+    post: CheckablePost,
+    subreddit: SubredditRuleData | null,
+    account: AccountStanding | null
+  ): RuleCheckResult {
+    const violations: RuleViolation[] = [];
+    const analysis = subreddit?.analysis_data;
+    const rules: Array<{ title: string; description: string; marketingImpact?: string }> = analysis?.info?.rules || [];
+    const ruleSource = { rules };
+    // Galleries are image posts as far as subreddit rules are concerned
+    const contentType = post.content_type === 'gallery' ? 'image' : post.content_type;
+
+    // Allowed content types from rule text plus the stored allowed_content column; crossposts
+    // are governed by the subreddit's crosspost setting instead, which Reddit enforces itself
+    if (rules.length > 0 && contentType !== 'crosspost') {
+      const allowedTypes = determineAllowedContentTypes(ruleSource, []);
+      if (!allowedTypes.includes(contentType)) {
+        violations.push({
+          code: 'content_type_not_allowed',
+          severity: 'block',
+          message: `${post.content_type} posts are not allowed in this subreddit`
+        });
+      }
+    }
+
+    if (
+      subreddit?.allowed_content &&
+      subreddit.allowed_content.length > 0 &&
+      contentType !== 'crosspost' &&
+      !subreddit.allowed_content.includes(contentType) &&
+      !violations.some(v => v.code === 'content_type_not_allowed')
+    ) {
+      violations.push({
+        code: 'content_type_not_allowed',
+        severity: 'block',
+        message: `${post.content_type} posts are not allowed in this subreddit (allowed: ${subreddit.allowed_content.join(', ')})`
+      });
+    }
+
+    // Unflaired posts are removed automatically where flair is required
+    if (subreddit?.link_flair_required && !post.flair_id) {
+      violations.push({
+        code: 'flair_required',
+        severity: 'block',
+        message: 'Subreddit requires post flair'
+      });
+    }
+
+    // Content restrictions and high-impact rules
+    const restrictions: string[] = analysis?.analysis?.postingLimits?.contentRestrictions || [];
+    const highImpactRules = rules.filter(rule => rule.marketingImpact === 'high');
+    const ruleTexts = [
+      ...restrictions.map(text => ({ label: text, text })),
+      ...highImpactRules.map(rule => ({ label: rule.title, text: `${rule.title} ${rule.description}` }))
+    ];
+
+    ruleTexts.forEach(({ label, text }) => {
+      const normalized = text.toLowerCase();
+      let matched = false;
+
+      RESTRICTION_PATTERNS.forEach(restriction => {
+        if (restriction.pattern.test(normalized)) {
+          matched = true;
+          if (restriction.applies(post)) {
+            violations.push({
+              code: restriction.code,
+              severity: restriction.severity,
+              message: restriction.message,
+              rule: label
+            });
+          }
+        }
+      });
+
+      // High-impact rules we can't check mechanically still deserve a look
+      if (!matched && highImpactRules.some(rule => rule.title === label)) {
+        violations.push({
+          code: 'high_impact_rule',
+          severity: 'warn',
+          message: 'Review this rule before posting',
+          rule: label
+        });
+      }
+    });
+
+    // Karma and account age requirements
+    if (rules.length > 0 && detectKarmaRequirement(ruleSource)) {
+      const minimumKarma = parseKarmaRequirement(ruleSource);
+      const karma = account?.total_karma ?? account?.karma_score ?? null;
+
+      if (minimumKarma !== null && karma !== null && karma < minimumKarma) {
+        violations.push({
+          code: 'karma_requirement',
+          severity: 'block',
+          message: `Account has ${karma} karma, subreddit requires ${minimumKarma}`
+        });
+      } else if (minimumKarma === null || karma === null) {
+        violations.push({
+          code: 'karma_requirement',
+          severity: 'warn',
+          message: 'Subreddit has a karma requirement that could not be verified'
+        });
+      }
+    }
+
+    if (rules.length > 0 && detectAgeRequirement(ruleSource)) {
+      const minimumDays = parseAgeRequirementDays(ruleSource);
+      const ageDays = account?.created_utc
+        ? Math.floor((Date.now() - new Date(account.created_utc).getTime()) / DAY_MS)
+        : null;
+
+      if (minimumDays !== null && ageDays !== null && ageDays < minimumDays) {
+        violations.push({
+          code: 'account_age_requirement',
+          severity: 'block',
+          message: `Account is ${ageDays} days old, subreddit requires ${minimumDays}`
+        });
+      } else if (minimumDays === null || ageDays === null) {
+        violations.push({
+          code: 'account_age_requirement',
+          severity: 'warn',
+          message: 'Subreddit has an account age requirement that could not be verified'
+        });
+      }
+    }
+
+    // The same rule can be reached through several paths
+    const unique = violations.filter((violation, index) =>
+      violations.findIndex(v => v.code === violation.code && v.rule === violation.rule) === index
+    );
+
+    return {
+      status: unique.some(v => v.severity === 'block')
+        ? 'blocked'
+        : unique.length > 0 ? 'warning' : 'passed',
+      violations: unique,
+      checked_at: new Date().toISOString()
+    };
+  }
+
+  // Fold in findings from other checks, such as duplicate detection
+  static withViolations(result: RuleCheckResult, extra: RuleViolation[]): RuleCheckResult {
+    if (extra.length === 0) return result;
+
+    const violations = [...result.violations, ...extra];
+    return {
+      ...result,
+      status: violations.some(v => v.severity === 'block') ? 'blocked' : 'warning',
+      violations
+    };
+  }
+
+  // Store the outcome on the campaign post
+  static async recordResult(postId: string, result: RuleCheckResult): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_posts')
+      .update({
+        rule_check_status: result.status,
+        rule_violations: result.violations,
+        rule_checked_at: result.checked_at
+      })
+      .eq('id', postId);
+
+    if (error) {
+      console.error(`Error recording rule check for post ${postId}:`, error);
+    }
+  }
+
+  // One-line summary used for error messages
+  static summarize(violations: RuleViolation[]): string {
+    return violations
+      .map(v => (v.rule ? `${v.message} ("${v.rule}")` : v.message))
+      .join('; ');
+  }
+}
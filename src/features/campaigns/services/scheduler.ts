@@ -1,6 +1,20 @@
 import { supabase } from '../../../lib/supabase';
-import { CampaignPost } from '../types';
+import { redditClient } from '../../../lib/redditClient/browser';
+import { CampaignPost, MediaSelection } from '../types';
 import { RedditPostingService } from './reddit';
+import { MediaRotationService } from './media';
+import { ScheduleOptimizer } from './optimizer';
+import { PostingRuleGuard } from './rules';
+import { DuplicatePostDetector } from './duplicates';
+import { PostingRuleError } from './errors';
+import { RetryPolicy, DEFAULT_MAX_RETRIES } from './retry';
+import { FirstCommentService } from './comments';
+import { PostPerformanceTracker } from './performance';
+import { RemovalDetector } from './removals';
+import { SubmissionResolver } from './submissions';
+import { PostingQuotaService } from './quotas';
+import { RecurrenceService } from './recurrence';
+import { BlackoutService } from './blackouts';
 
 interface RedditAccountDetails {
   username: string;
@@ -19,6 +33,11 @@ export class CampaignScheduler {
     // Also run immediately on startup
     this.checkScheduledPosts();
     
+    // Follow up on published posts on their own, slower cadence
+    PostPerformanceTracker.startTracker();
+    RemovalDetector.startChecker(account => this.getAccessToken(account));
+    SubmissionResolver.startChecker(account => this.getAccessToken(account));
+    
     return interval;
   }
 
@@ -28,6 +47,12 @@ export class CampaignScheduler {
       const now = new Date();
       console.log(`Checking for scheduled posts at ${now.toISOString()}`);
       
+      // Shift posts held back by blackout windows that just ended, so they are re-planned and claimed below
+      await BlackoutService.replanEndedWindows();
+      
+      // Place new or affected posts of ai-optimized campaigns before claiming due posts
+      await ScheduleOptimizer.replanFlaggedCampaigns();
+      
       // Use the advisory locking function to get posts that need processing
       // This prevents multiple servers/processes from claiming the same posts
       const { data: posts, error } = await supabase
@@ -50,10 +75,11 @@ export class CampaignScheduler {
           .from('campaign_posts')
           .select(`
             *,
-            reddit_account:reddit_accounts(id, username, oauth_token, oauth_refresh_token, token_expiry),
+            reddit_account:reddit_accounts(id, username, oauth_token, oauth_refresh_token, token_expiry, total_karma, karma_score, created_utc),
             subreddit:subreddits(id, name),
-            campaign:campaigns(id, name),
-            media_item:media_items(*)
+            campaign:campaigns(id, name, max_retries),
+            media_item:media_items(*),
+            gallery_items:campaign_post_gallery_items(id, position, caption, outbound_url, media_item:media_items(*))
           `)
           .in('id', postIds);
           
@@ -113,7 +139,7 @@ export class CampaignScheduler {
       // Fetch the campaign to check if it's active
       const { data: campaign, error: campaignError } = await supabase
         .from('campaigns')
-        .select('is_active, user_id')
+        .select('is_active, user_id, media_reuse_window_days')
         .eq('id', post.campaign_id)
         .single();
       
@@ -121,8 +147,11 @@ export class CampaignScheduler {
         throw new Error(`Campaign not found or error fetching campaign: ${campaignError?.message || 'Unknown error'}`);
       }
       
+      // The campaign was switched off after the post was claimed; leave the post for when it is back on
       if (!campaign.is_active) {
-        throw new Error(`Campaign is not active, skipping post execution`);
+        console.log(`Campaign of post ${post.id} is not active, putting the post back`);
+        await this.releasePost(post);
+        return null;
       }
       
       // For future subscription checks (not implementing feature gates now)
@@ -155,43 +184,54 @@ export class CampaignScheduler {
         throw new Error(`Missing or invalid subreddit information`);
       }
       
-      // Check if the token is expired and refresh if needed
-      let accessToken = redditAccount.oauth_token;
-      const tokenExpiry = new Date(redditAccount.token_expiry || 0);
+      // Check the post against what we already know about the subreddit's rules
+      // and warn when it repeats something one of the user's accounts posted there recently
+      const duplicates = await DuplicatePostDetector.check({
+        ...post,
+        media: [post.media_item, ...(post.gallery_items || []).map((item: any) => item.media_item)].filter(Boolean)
+      });
+      const ruleCheck = PostingRuleGuard.withViolations(
+        await PostingRuleGuard.checkPost(post, redditAccount),
+        duplicates
+      );
+      await PostingRuleGuard.recordResult(post.id, ruleCheck);
+      
+      if (ruleCheck.status === 'blocked') {
+        const blocking = ruleCheck.violations.filter(v => v.severity === 'block');
+        throw new PostingRuleError(
+          `Blocked by r/${subredditName} rules: ${PostingRuleGuard.summarize(blocking)}`,
+          blocking
+        );
+      }
+      
+      if (ruleCheck.status === 'warning') {
+        console.warn(`Post ${post.id} has rule warnings for r/${subredditName}: ${PostingRuleGuard.summarize(ruleCheck.violations)}`);
+      }
       
-      if (tokenExpiry <= new Date()) {
-        console.log(`Token for ${redditAccount.username} has expired, refreshing...`);
+      // Seed the subreddit's gap on first use, then re-check quotas other servers may have used up since the claim
+      await PostingQuotaService.seedLimit(campaign.user_id, post.subreddit_id);
+      const quotaHold = await PostingQuotaService.checkPost(post.id);
+      
+      if (quotaHold) {
+        console.log(`Holding post ${post.id} until ${quotaHold.hold_until}: ${quotaHold.reason}`);
+        await PostingQuotaService.holdPost(post, quotaHold);
+        return null;
+      }
+      
+      // Check if the token is expired and refresh if needed
+      const accessToken = await this.getAccessToken(redditAccount);
+
+      // Image posts without a fixed media item get one picked from the campaign's tag preferences
+      let mediaSelection: MediaSelection | null = null;
+      if (post.content_type === 'image' && !post.media_item_id) {
+        mediaSelection = await MediaRotationService.selectMediaForPost(post, campaign);
         
-        try {
-          const refreshResult = await this.refreshRedditToken(
-            redditAccount.id,
-            redditAccount.oauth_refresh_token
-          );
-          
-          if (refreshResult.success) {
-            accessToken = refreshResult.accessToken;
-            console.log(`Successfully refreshed token for ${redditAccount.username}`);
-          } else {
-            throw new Error(`Failed to refresh token: ${refreshResult.error}`);
-          }
-        } catch (tokenError) {
-          // Check if the error indicates the account needs to be reconnected
-          const errorMessage = tokenError instanceof Error ? tokenError.message : 'Unknown error';
-          const needsReconnection = errorMessage.includes('inactive') || 
-                                    errorMessage.includes('reconnect') ||
-                                    errorMessage.includes('invalid_grant');
-          
-          // Update the post status to failed with a clear error message
-          await supabase.rpc('update_campaign_post_status', {
-            p_post_id: post.id,
-            p_status: 'failed',
-            p_error_message: needsReconnection 
-              ? `Reddit account needs to be reconnected: ${errorMessage}` 
-              : `Token refresh failed: ${errorMessage}`
-          });
-          
-          throw tokenError;
+        if (!mediaSelection) {
+          throw new Error('No media item could be selected from the campaign tag preferences');
         }
+        
+        console.log(`Selected media item ${mediaSelection.media_item.id} (weight ${mediaSelection.weight}) for post ${post.id}`);
+        post.media_item = mediaSelection.media_item;
       }
 
       // Submit the post to Reddit
@@ -200,7 +240,8 @@ export class CampaignScheduler {
         post,
         {
           username: redditAccount.username,
-          accessToken: accessToken
+          accessToken: accessToken,
+          accountId: redditAccount.id
         },
         subredditName
       );
@@ -209,58 +250,93 @@ export class CampaignScheduler {
       
       if (result.success) {
         console.log(`Post successfully submitted to Reddit! Execution time: ${(executionTime / 1000).toFixed(2)}s`);
-        console.log(`Reddit post ID: ${result.postId}, Permalink: ${result.permalink || '[Not available]'}`);
         
-        // Update the post as successfully posted using transaction function
-        const { error: statusError } = await supabase.rpc('update_campaign_post_status', {
-          p_post_id: post.id,
-          p_status: 'posted',
-          p_reddit_post_id: result.postId,
-          p_reddit_permalink: result.permalink || null,
-          p_execution_time_ms: executionTime
-        });
+        if (result.unresolved) {
+          // Reddit took the post, or may have, but hasn't said where it is yet; SubmissionResolver finds it later
+          console.log(`Reddit post ID not known yet, post ${post.id} is waiting to be located`);
+          const { error: statusError } = await supabase
+            .from('campaign_posts')
+            .update({
+              status: 'submitted',
+              posted_at: new Date().toISOString(),
+              execution_time_ms: executionTime,
+              last_error: null
+            })
+            .eq('id', post.id)
+            .eq('status', 'processing');
+          
+          if (statusError) {
+            console.error(`Error updating post status to submitted:`, statusError);
+          }
+        } else {
+          console.log(`Reddit post ID: ${result.postId}, Permalink: ${result.permalink || '[Not available]'}`);
           
-        if (statusError) {
-          console.error(`Error updating post status to posted:`, statusError);
+          // Update the post as successfully posted using transaction function
+          const { error: statusError } = await supabase.rpc('update_campaign_post_status', {
+            p_post_id: post.id,
+            p_status: 'posted',
+            p_reddit_post_id: result.postId,
+            p_reddit_permalink: result.permalink || null,
+            p_execution_time_ms: executionTime
+          });
+            
+          if (statusError) {
+            console.error(`Error updating post status to posted:`, statusError);
+          }
+        }
+        
+        // The post is out, so nothing from here on may mark it failed; each step only logs its error
+        await this.runAfterPosting(post, 'recording the media selection', async () => {
+          // Only media that actually went out counts towards the reuse window
+          if (mediaSelection) {
+            await MediaRotationService.recordSelection(post, mediaSelection, campaign);
+          }
+        });
+        
+        await this.runAfterPosting(post, 'recording the attempt', () => RetryPolicy.recordAttempt(post, {
+          attempt: (post.attempt_count || 0) + 1,
+          outcome: 'posted'
+        }));
+
+        // Follow up with the first comment from the same account; its failure doesn't undo the post.
+        // Posts still being located get theirs once SubmissionResolver has found them
+        if (!result.unresolved) {
+          await this.runAfterPosting(post, 'posting the first comment', async () => {
+            const firstComment = await FirstCommentService.submit(
+              post,
+              result,
+              { username: redditAccount.username, accessToken, accountId: redditAccount.id },
+              subredditName
+            );
+            
+            if (firstComment) {
+              if (firstComment.status === 'failed') {
+                console.error(`First comment on post ${post.id} failed: ${firstComment.error}`);
+              } else {
+                console.log(`Posted first comment ${firstComment.comment_id} on post ${post.id}`);
+              }
+              await FirstCommentService.recordResult(post, firstComment);
+            }
+          });
         }
 
         // If this is a recurring post, schedule the next occurrence
-        if (post.interval_hours && post.interval_hours > 0) {
-          await this.scheduleNextRecurringPost(post);
+        if (post.recurrence_rule || (post.interval_hours && post.interval_hours > 0)) {
+          await this.runAfterPosting(post, 'scheduling the next occurrence', () => this.scheduleNextRecurringPost(post));
         }
         
         return result;
       } else {
         console.error(`Failed to submit post to Reddit:`, result.error);
         
-        // Update post status to failed with error message using transaction function
-        const { error: statusError } = await supabase.rpc('update_campaign_post_status', {
-          p_post_id: post.id,
-          p_status: 'failed',
-          p_error_message: result.error || 'Unknown error submitting to Reddit'
-        });
-        
-        if (statusError) {
-          console.error(`Error updating post status to failed:`, statusError);
-        }
-        
         throw new Error(result.error || 'Unknown error submitting to Reddit');
       }
     } catch (error) {
       console.error(`Error executing post ${post.id}:`, error);
       
-      // Ensure the post is marked as failed even if the error happens outside
-      // of the main flow (e.g., during token refresh or API call)
+      // Retry transient failures with backoff, otherwise make sure the post is marked as failed
       try {
-        const { error: statusError } = await supabase.rpc('update_campaign_post_status', {
-          p_post_id: post.id,
-          p_status: 'failed',
-          p_error_message: error instanceof Error ? error.message : 'Unknown execution error'
-        });
-        
-        if (statusError) {
-          console.error(`Error updating post status to failed:`, statusError);
-        }
+        await this.handleFailedAttempt(post, error);
       } catch (updateError) {
         console.error(`Critical error: Could not update post status:`, updateError);
       }
@@ -269,211 +345,168 @@ export class CampaignScheduler {
     }
   }
 
-  // Helper to refresh Reddit token
-  static async refreshRedditToken(accountId: string, refreshToken: string) {
+  // Put a claimed post back in the schedule without counting an attempt
+  static async releasePost(post: any) {
+    const { error } = await supabase
+      .from('campaign_posts')
+      .update({ status: 'scheduled' })
+      .eq('id', post.id)
+      .eq('status', 'processing');
+    
+    if (error) {
+      console.error(`Error putting post ${post.id} back in the schedule:`, error);
+    }
+  }
+
+  // Run a step that follows a successful submit, logging its error instead of failing the post
+  static async runAfterPosting(post: any, step: string, run: () => Promise<unknown>) {
     try {
-      console.log(`Campaign scheduler: Refreshing token for account ID ${accountId}`);
-      
-      const clientId = import.meta.env.VITE_REDDIT_APP_ID || 'missing_client_id';
-      const clientSecret = import.meta.env.VITE_REDDIT_APP_SECRET || 'missing_client_secret';
-      
-      if (!clientId || !clientSecret || clientId === 'missing_client_id' || clientSecret === 'missing_client_secret') {
-        throw new Error('Missing Reddit API credentials in environment');
-      }
+      await run();
+    } catch (error) {
+      console.error(`Post ${post.id} went out, but ${step} failed:`, error);
+    }
+  }
+
+  // Reschedule a failed post if the error is transient and retries remain, otherwise mark it failed
+  static async handleFailedAttempt(post: any, error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown execution error';
+    const classification = RetryPolicy.classifyError(error);
+    const attempt = (post.attempt_count || 0) + 1;
+    const maxRetries = post.campaign?.max_retries ?? DEFAULT_MAX_RETRIES;
+    
+    if (classification.type === 'transient' && attempt <= maxRetries) {
+      const nextAttemptAt = new Date(Date.now() + RetryPolicy.getBackoffDelay(attempt, classification));
       
-      // Check if the account still exists and get current refresh attempt count
-      const { data: account, error: accountError } = await supabase
-        .from('reddit_accounts')
-        .select('username, refresh_attempts, is_active')
-        .eq('id', accountId)
-        .single();
+      if (await RetryPolicy.scheduleRetry(post, attempt, nextAttemptAt, errorMessage)) {
+        console.log(`Post ${post.id} failed with a ${classification.reason} error, retry ${attempt}/${maxRetries} at ${nextAttemptAt.toISOString()}`);
         
-      if (accountError || !account) {
-        throw new Error('Reddit account not found or could not be accessed');
-      }
-      
-      // Check if account is already marked inactive
-      if (account && !account.is_active) {
-        throw new Error(`Reddit account ${account.username} is marked as inactive and needs to be reconnected`);
+        await RetryPolicy.recordAttempt(post, {
+          attempt,
+          outcome: 'retry_scheduled',
+          classification,
+          error: errorMessage,
+          next_attempt_at: nextAttemptAt.toISOString()
+        });
+        return;
       }
-      
-      // Encode in Base64
-      const encodedCredentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-      
-      // Make the token refresh request
-      const response = await fetch('https://www.reddit.com/api/v1/access_token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Authorization': `Basic ${encodedCredentials}`,
-          'User-Agent': 'SubPirate/1.0.0' // Use consistent user agent
-        },
-        body: new URLSearchParams({
-          'grant_type': 'refresh_token',
-          'refresh_token': refreshToken
-        })
-      });
-      
-      // Get response text first to handle both JSON and non-JSON responses
-      const responseText = await response.text();
-      let responseData;
+    }
+    
+    const finalMessage = classification.type === 'transient'
+      ? `${errorMessage} (gave up after ${attempt} attempts)`
+      : errorMessage;
+    
+    const { error: statusError } = await supabase.rpc('update_campaign_post_status', {
+      p_post_id: post.id,
+      p_status: 'failed',
+      p_error_message: finalMessage
+    });
+    
+    if (statusError) {
+      console.error(`Error updating post status to failed:`, statusError);
+    }
+    
+    await RetryPolicy.recordAttempt(post, {
+      attempt,
+      outcome: 'failed',
+      classification,
+      error: finalMessage
+    });
+  }
+
+  // A usable access token for the account, refreshing it first if it has expired
+  static async getAccessToken(redditAccount: {
+    id: string;
+    username: string;
+    oauth_token: string;
+    oauth_refresh_token: string;
+    token_expiry?: string | null;
+  }): Promise<string> {
+    let accessToken = redditAccount.oauth_token;
+    const tokenExpiry = new Date(redditAccount.token_expiry || 0);
+    
+    if (tokenExpiry <= new Date()) {
+      console.log(`Token for ${redditAccount.username} has expired, refreshing...`);
       
       try {
-        // Try to parse as JSON
-        responseData = JSON.parse(responseText);
-      } catch (e) {
-        // If not valid JSON and not a successful response, throw error with text
-        if (!response.ok) {
-          throw new Error(`Token refresh failed: ${response.status} - ${responseText}`);
-        }
-      }
-      
-      // Handle specific error cases even if response is technically "OK"
-      if (!response.ok) {
-        // Handle common Reddit OAuth errors
-        if (responseData && responseData.error) {
-          // Track the failure in the database
-          await this.trackRefreshFailure(accountId, `${responseData.error}: ${responseData.error_description || ''}`);
-          
-          // Invalid grant means the refresh token is no longer valid
-          if (responseData.error === 'invalid_grant') {
-            await this.markAccountInactive(accountId, 'Refresh token is invalid or expired. Account needs to be reconnected.');
-            throw new Error(`Reddit auth failed: refresh token is invalid or expired. Account needs to be reconnected.`);
-          }
-          
-          // Invalid client credentials
-          if (responseData.error === 'invalid_client') {
-            throw new Error(`Invalid Reddit client credentials. Please check your app configuration.`);
-          }
-          
-          // Rate limiting
-          if (responseData.error === 'too_many_requests' || response.status === 429) {
-            throw new Error(`Rate limited by Reddit. Try again later.`);
-          }
-          
-          throw new Error(`Reddit OAuth error: ${responseData.error}`);
+        const refreshResult = await this.refreshRedditToken(
+          redditAccount.id,
+          redditAccount.oauth_refresh_token
+        );
+        
+        if (refreshResult.success) {
+          accessToken = refreshResult.accessToken;
+          console.log(`Successfully refreshed token for ${redditAccount.username}`);
+        } else {
+          throw new Error(`Failed to refresh token: ${refreshResult.error}`);
         }
+      } catch (tokenError) {
+        // Check if the error indicates the account needs to be reconnected
+        const errorMessage = tokenError instanceof Error ? tokenError.message : 'Unknown error';
+        const needsReconnection = errorMessage.includes('inactive') || 
+                                  errorMessage.includes('reconnect') ||
+                                  errorMessage.includes('invalid_grant');
         
-        throw new Error(`Token refresh failed: ${response.status}`);
-      }
-      
-      if (!responseData || !responseData.access_token) {
-        throw new Error('Token refresh did not return an access token');
-      }
-      
-      // Calculate new expiry time (typically 1 hour)
-      const expiresIn = responseData.expires_in || 3600;
-      const newExpiry = new Date();
-      newExpiry.setSeconds(newExpiry.getSeconds() + expiresIn);
-      
-      console.log(`Successfully refreshed token for account ID ${accountId}, expires in ${expiresIn} seconds`);
-      
-      // Update token in database, reset refresh attempts
-      const { error } = await supabase
-        .from('reddit_accounts')
-        .update({
-          oauth_token: responseData.access_token,
-          token_expiry: newExpiry.toISOString(),
-          access_token: responseData.access_token, // Update both token fields for compatibility with both services
-          refresh_error: null,
-          refresh_attempts: 0,
-          is_active: true,
-          last_token_refresh: new Date().toISOString()
-        })
-        .eq('id', accountId);
-      
-      if (error) {
-        console.error('Error updating database with new token:', error);
-        throw error;
+        // Surface a clear error message; the retry policy decides whether it's worth another attempt
+        throw new Error(needsReconnection 
+          ? `Reddit account needs to be reconnected: ${errorMessage}` 
+          : `Token refresh failed: ${errorMessage}`);
       }
-      
+    }
+    
+    return accessToken;
+  }
+
+  // Helper to refresh Reddit token; the client stores the new token and tracks failed refreshes
+  static async refreshRedditToken(accountId: string, refreshToken: string) {
+    try {
+      console.log(`Campaign scheduler: Refreshing token for account ID ${accountId}`);
+      const tokens = await redditClient.refreshAccountToken(accountId, refreshToken);
+
       return {
-        success: true,
-        accessToken: responseData.access_token,
-        expiresAt: newExpiry.toISOString()
+        success: true as const,
+        accessToken: tokens.accessToken,
+        expiresAt: new Date(tokens.expiresAt).toISOString()
       };
     } catch (error) {
       console.error('Error refreshing Reddit token:', error);
-      
-      // Ensure error is tracked in the database, but don't fail if this fails
-      try {
-        await this.trackRefreshFailure(accountId, error instanceof Error ? error.message : 'Unknown error');
-      } catch (trackingError) {
-        console.error('Failed to track token refresh error:', trackingError);
-      }
-      
       return {
-        success: false,
+        success: false as const,
         error: error instanceof Error ? error.message : 'Unknown error refreshing token'
       };
     }
   }
-  
-  // Track token refresh failures
-  static async trackRefreshFailure(accountId: string, errorMessage: string) {
-    try {
-      // Get current account to check refresh attempts
-      const { data: account } = await supabase
-        .from('reddit_accounts')
-        .select('refresh_attempts')
-        .eq('id', accountId)
-        .single();
-      
-      const refreshAttempts = (account?.refresh_attempts || 0) + 1;
-      
-      // After 3 consecutive failures, mark account as inactive
-      const shouldDeactivate = refreshAttempts >= 3;
-      
-      if (shouldDeactivate) {
-        await this.markAccountInactive(accountId, `Account deactivated after ${refreshAttempts} failed refresh attempts: ${errorMessage}`);
-      } else {
-        await supabase
-          .from('reddit_accounts')
-          .update({
-            refresh_error: errorMessage,
-            refresh_attempts: refreshAttempts,
-            last_token_refresh: new Date().toISOString()
-          })
-          .eq('id', accountId);
-      }
-    } catch (error) {
-      console.error('Error tracking token refresh failure:', error);
-      throw error;
-    }
-  }
-  
-  // Mark account as inactive
-  static async markAccountInactive(accountId: string, reason: string) {
-    try {
-      console.warn(`Marking Reddit account ID ${accountId} as inactive: ${reason}`);
-      
-      await supabase
-        .from('reddit_accounts')
-        .update({
-          is_active: false,
-          refresh_error: reason,
-          last_token_refresh: new Date().toISOString()
-        })
-        .eq('id', accountId);
-    } catch (error) {
-      console.error('Error marking account as inactive:', error);
-      throw error;
-    }
-  }
 
   // Schedule the next occurrence of a recurring post
   static async scheduleNextRecurringPost(post: any) {
     try {
-      if (!post.interval_hours || post.interval_hours <= 0) {
+      let nextTime: Date;
+      
+      if (post.recurrence_rule) {
+        // Follow the rule from this occurrence's slot, skipping any slots that already passed
+        const scheduledFor = new Date(post.scheduled_for);
+        const after = new Date(Math.max(scheduledFor.getTime(), Date.now()));
+        const next = RecurrenceService.nextOccurrence({
+          rule: post.recurrence_rule,
+          timezone: post.recurrence_timezone || 'UTC',
+          start: post.recurrence_start || post.scheduled_for,
+          exdates: post.recurrence_exdates
+        }, after);
+        
+        if (!next) {
+          console.log(`Recurrence of post ${post.id} has ended, not scheduling next occurrence`);
+          return;
+        }
+        nextTime = next;
+      } else if (post.interval_hours && post.interval_hours > 0) {
+        // Calculate the next scheduled time
+        const baseTime = new Date(post.posted_at || post.scheduled_for);
+        nextTime = new Date(baseTime);
+        nextTime.setHours(nextTime.getHours() + post.interval_hours);
+      } else {
         console.log(`Post ${post.id} is not recurring, not scheduling next occurrence`);
         return;
       }
       
-      // Calculate the next scheduled time
-      const baseTime = new Date(post.posted_at || post.scheduled_for);
-      const nextTime = new Date(baseTime);
-      nextTime.setHours(nextTime.getHours() + post.interval_hours);
-      
       console.log(`Scheduling next occurrence of post ${post.id} for ${nextTime.toISOString()}`);
       
       // Use the transaction function to schedule the next post
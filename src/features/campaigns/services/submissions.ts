@@ -0,0 +1,171 @@
+import { supabase } from '../../../lib/supabase';
+import { redditClient } from '../../../lib/redditClient/browser';
+import { FirstCommentService } from './comments';
+import { AccessTokenProvider, CheckableAccount } from './removals';
+
+const MINUTE_MS = 60 * 1000;
+
+const CHECK_INTERVAL_MS = 5 * MINUTE_MS;
+// Reddit shows a native media post within minutes; after a day it is not coming
+const GIVE_UP_AFTER_MS = 24 * 60 * MINUTE_MS;
+// Any other post shows up at once, so one missing an hour after a lost submit response never went out
+const GIVE_UP_UNCERTAIN_AFTER_MS = 60 * MINUTE_MS;
+const BATCH_SIZE = 50;
+
+// Finds the Reddit post behind native image and video submissions that Reddit accepted without
+// saying where the post is, and behind submits whose response was lost, so they can be tracked,
+// commented on and crossposted like any other
+export class SubmissionResolver {
+  static startChecker(getAccessToken: AccessTokenProvider) {
+    console.log('Starting submission resolver - will look for unlocated posts every 5 minutes');
+
+    const interval = setInterval(() => this.resolveSubmittedPosts(getAccessToken), CHECK_INTERVAL_MS);
+    this.resolveSubmittedPosts(getAccessToken);
+
+    return interval;
+  }
+
+  // Look up every post still waiting to be located; returns how many were found
+  static async resolveSubmittedPosts(getAccessToken: AccessTokenProvider): Promise<number> {
+    try {
+      const { data: posts, error } = await supabase
+        .from('campaign_posts')
+        .select(`
+          id,
+          campaign_id,
+          title,
+          content_type,
+          posted_at,
+          first_comment,
+          first_comment_sticky,
+          first_comment_distinguish,
+          subreddit:subreddits(name),
+          reddit_account:reddit_accounts(
+            id,
+            username,
+            oauth_token,
+            oauth_refresh_token,
+            token_expiry
+          )
+        `)
+        .eq('status', 'submitted')
+        .order('posted_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) {
+        console.error('Error getting submitted posts to locate:', error);
+        return 0;
+      }
+
+      let resolved = 0;
+      for (const post of posts || []) {
+        const account = post.reddit_account as unknown as CheckableAccount | null;
+        const subredditName = (post.subreddit as unknown as { name: string } | null)?.name;
+        const submittedAt = new Date(post.posted_at).getTime();
+        if (!account || !subredditName) continue;
+
+        let found;
+        let accessToken: string;
+        try {
+          accessToken = await getAccessToken(account);
+          found = await redditClient.findSubmittedPost({
+            subreddit: subredditName,
+            title: post.title,
+            username: account.username,
+            submittedAt,
+            isVideo: post.content_type === 'video'
+          }, { accessToken, accountId: account.id });
+        } catch (lookupError) {
+          console.error(`Error looking for submitted post ${post.id}:`, lookupError);
+          continue;
+        }
+
+        if (!found) {
+          const isMedia = post.content_type === 'image' || post.content_type === 'video';
+          if (Date.now() - submittedAt > (isMedia ? GIVE_UP_AFTER_MS : GIVE_UP_UNCERTAIN_AFTER_MS)) {
+            await this.giveUp(post, account.username);
+          }
+          continue;
+        }
+
+        if (await this.recordFound(post, found)) {
+          resolved++;
+
+          const firstComment = await FirstCommentService.submit(
+            post,
+            { success: true, ...found },
+            { username: account.username, accessToken, accountId: account.id },
+            subredditName
+          );
+          if (firstComment) {
+            await FirstCommentService.recordResult(post, firstComment);
+          }
+        }
+      }
+
+      if (resolved > 0) {
+        console.log(`Located ${resolved} submitted posts on Reddit`);
+      }
+
+      return resolved;
+    } catch (error) {
+      console.error('Error locating submitted posts:', error);
+      return 0;
+    }
+  }
+
+  // Mark the post as posted with its Reddit id, which also releases crossposts waiting on it;
+  // updated directly because update_campaign_post_status would move posted_at to now
+  static async recordFound(
+    post: { id: string; campaign_id: string },
+    found: { postId: string; permalink: string }
+  ): Promise<boolean> {
+    const { data: updated, error } = await supabase
+      .from('campaign_posts')
+      .update({
+        status: 'posted',
+        reddit_post_id: found.postId,
+        reddit_permalink: found.permalink
+      })
+      .eq('id', post.id)
+      .eq('status', 'submitted')
+      .select('id');
+
+    if (error) {
+      console.error(`Error recording located post ${post.id}:`, error);
+      return false;
+    }
+    if (!updated?.length) return false;
+
+    const { error: activityError } = await supabase
+      .from('campaign_activity')
+      .insert({
+        campaign_id: post.campaign_id,
+        post_id: post.id,
+        action_type: 'post_status_updated',
+        details: {
+          previous_status: 'submitted',
+          new_status: 'posted',
+          reddit_post_id: found.postId
+        }
+      });
+
+    if (activityError) {
+      console.error('Error logging located post:', activityError);
+    }
+
+    return true;
+  }
+
+  private static async giveUp(post: { id: string }, username: string) {
+    const { error } = await supabase.rpc('update_campaign_post_status', {
+      p_post_id: post.id,
+      p_status: 'failed',
+      p_error_message: `The post never appeared among u/${username}'s submissions`
+    });
+
+    if (error) {
+      console.error(`Error giving up on submitted post ${post.id}:`, error);
+    }
+  }
+}
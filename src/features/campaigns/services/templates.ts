@@ -0,0 +1,451 @@
+import { supabase } from '../../../lib/supabase';
+import { campaignApi } from '../lib/api';
+import { RedditPostingService } from './reddit';
+import {
+  CampaignPost,
+  CampaignTemplate,
+  CampaignTemplateDefinition,
+  CampaignTemplateExport,
+  CampaignWithPosts,
+  CloneCampaignDto,
+  CloneCampaignResult,
+  TemplatePost,
+  TemplateVariable
+} from '../types';
+
+export const CAMPAIGN_TEMPLATE_VERSION = 1;
+const EXPORT_FORMAT = 'subpirate.campaign-template';
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+const MINUTE_MS = 60 * 1000;
+
+// Campaign plans that new campaigns are cloned from. Posts keep their offset from the campaign's
+// start; accounts, subreddits and tags are stored by name so templates move between workspaces.
+export class CampaignTemplateService {
+  static async getTemplates(): Promise<CampaignTemplate[]> {
+    const { data, error } = await supabase
+      .from('campaign_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(template => ({
+      ...template,
+      definition: this.upgrade(template.version, template.definition)
+    })) as CampaignTemplate[];
+  }
+
+  static async saveTemplate(name: string, description: string | null, definition: CampaignTemplateDefinition): Promise<CampaignTemplate> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user || !user.id) {
+      throw new Error('User not authenticated or user ID not available');
+    }
+
+    if (!name.trim()) {
+      throw new Error('Template name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_templates')
+      .insert({
+        user_id: user.id,
+        name: name.trim(),
+        description: description?.trim() || null,
+        version: CAMPAIGN_TEMPLATE_VERSION,
+        definition
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as CampaignTemplate;
+  }
+
+  static async deleteTemplate(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Turn a campaign into a template; each variable's value is replaced by its {{name}} placeholder
+  static async buildDefinition(
+    campaign: CampaignWithPosts,
+    variables: Array<{ name: string; value: string }> = []
+  ): Promise<CampaignTemplateDefinition> {
+    // Later occurrences of recurring posts are recreated by the scheduler
+    const roots = campaign.posts.filter(post => !post.parent_post_id && post.status !== 'rejected');
+    const postIds = roots.map(post => post.id);
+    const accountIds = Array.from(new Set(roots.map(post => post.reddit_account_id)));
+    const subredditIds = Array.from(new Set(roots.map(post => post.subreddit_id)));
+
+    const [accounts, subreddits, gallery, variants, preferences] = await Promise.all([
+      accountIds.length > 0
+        ? supabase.from('reddit_accounts').select('id, username').in('id', accountIds)
+        : Promise.resolve({ data: [], error: null }),
+      subredditIds.length > 0
+        ? supabase.from('subreddits').select('id, name').in('id', subredditIds)
+        : Promise.resolve({ data: [], error: null }),
+      postIds.length > 0
+        ? supabase.from('campaign_post_gallery_items').select('post_id, media_item_id, position, caption, outbound_url').in('post_id', postIds)
+        : Promise.resolve({ data: [], error: null }),
+      postIds.length > 0
+        ? supabase.from('campaign_post_title_variants').select('post_id, title, source, position').in('post_id', postIds)
+        : Promise.resolve({ data: [], error: null }),
+      campaignApi.getCampaignTagPreferences(campaign.id)
+    ]);
+
+    const failed = [accounts, subreddits, gallery, variants].find(result => result.error);
+    if (failed?.error) throw failed.error;
+
+    const usernames = new Map<string, string>((accounts.data || []).map((account: any) => [account.id, account.username]));
+    const subredditNames = new Map<string, string>((subreddits.data || []).map((subreddit: any) => [subreddit.id, subreddit.name]));
+    const templatize = (text: string | null | undefined) => this.templatize(text || '', variables);
+
+    const start = Math.min(...roots.map(post => new Date(this.seriesStart(post)).getTime()));
+
+    const ordered = roots.sort((a, b) => new Date(this.seriesStart(a)).getTime() - new Date(this.seriesStart(b)).getTime());
+    const crosspostOf = (post: CampaignPost) => {
+      const index = ordered.findIndex(other => other.id === post.crosspost_source_post_id);
+      return index >= 0 ? index : null;
+    };
+
+    const posts: TemplatePost[] = ordered
+      .map(post => ({
+        offset_minutes: Math.round((new Date(this.seriesStart(post)).getTime() - start) / MINUTE_MS),
+        account: usernames.get(post.reddit_account_id) || post.reddit_account_id,
+        subreddit: subredditNames.get(post.subreddit_id) || post.subreddit_id,
+        title: templatize(post.title),
+        content_type: post.content_type,
+        // A crosspost of a post outside the template shares that post on Reddit directly
+        content: post.content_type === 'crosspost' && crosspostOf(post) === null
+          ? post.crosspost_fullname || post.content
+          : templatize(post.content),
+        media_item_id: post.media_item_id || null,
+        gallery_items: (gallery.data || [])
+          .filter((item: any) => item.post_id === post.id)
+          .sort((a: any, b: any) => a.position - b.position)
+          .map((item: any) => ({
+            media_item_id: item.media_item_id,
+            caption: item.caption ? templatize(item.caption) : undefined,
+            outbound_url: item.outbound_url || undefined
+          })),
+        interval_hours: post.interval_hours || null,
+        recurrence_rule: post.recurrence_rule || null,
+        recurrence_timezone: post.recurrence_timezone || null,
+        use_ai_title: post.use_ai_title,
+        use_ai_timing: post.use_ai_timing,
+        flair_id: post.flair_id || null,
+        flair_text: post.flair_text || null,
+        nsfw: post.nsfw,
+        spoiler: post.spoiler,
+        send_replies: post.send_replies,
+        first_comment: post.first_comment ? templatize(post.first_comment) : null,
+        first_comment_sticky: post.first_comment_sticky,
+        first_comment_distinguish: post.first_comment_distinguish,
+        // Position 0 is the post's own title
+        title_variants: (variants.data || [])
+          .filter((variant: any) => variant.post_id === post.id && variant.position > 0)
+          .sort((a: any, b: any) => a.position - b.position)
+          .map((variant: any) => ({ title: templatize(variant.title), source: variant.source })),
+        title_test_runs: post.title_test_runs || null,
+        crosspost_of: post.content_type === 'crosspost' ? crosspostOf(post) : null,
+        crosspost_delay_hours: post.crosspost_delay_hours ?? null
+      }));
+
+    const definition: CampaignTemplateDefinition = {
+      campaign: {
+        name: templatize(campaign.name),
+        description: templatize(campaign.description || ''),
+        schedule_type: campaign.schedule_type,
+        media_reuse_window_days: campaign.media_reuse_window_days,
+        min_account_gap_minutes: campaign.min_account_gap_minutes,
+        min_subreddit_gap_hours: campaign.min_subreddit_gap_hours,
+        max_retries: campaign.max_retries
+      },
+      variables: variables.filter(variable => variable.name.trim()).map(variable => ({ name: variable.name.trim() })),
+      accounts: Array.from(new Set(posts.map(post => post.account))),
+      tag_preferences: preferences
+        .filter(preference => preference.tag)
+        .map(preference => ({
+          tag: preference.tag!.name,
+          color: preference.tag!.color,
+          weight: preference.weight
+        })),
+      posts
+    };
+
+    // Placeholders typed into the campaign by hand count as variables too
+    definition.variables = this.findVariables(definition).map(name => ({ name }));
+    return definition;
+  }
+
+  // Create a campaign from a template, shifting its posts to start at dto.start_at
+  static async cloneCampaign(definition: CampaignTemplateDefinition, dto: CloneCampaignDto): Promise<CloneCampaignResult> {
+    const start = new Date(dto.start_at).getTime();
+    if (isNaN(start)) {
+      throw new Error('Pick a valid start date');
+    }
+
+    const values = this.resolveVariables(definition.variables, dto.variables);
+    const fill = (text: string | null | undefined) => this.fillVariables(text || '', values);
+
+    const unmapped = definition.accounts.filter(account => !dto.accounts[account]);
+    if (unmapped.length > 0) {
+      throw new Error(`Pick an account for ${unmapped.map(account => `u/${account}`).join(', ')}`);
+    }
+
+    const subredditNames = Array.from(new Set(definition.posts.map(post => post.subreddit.toLowerCase())));
+    const mediaIds = Array.from(new Set(definition.posts.flatMap(post => [
+      post.media_item_id,
+      ...(post.gallery_items || []).map(item => item.media_item_id)
+    ]).filter((id): id is string => !!id)));
+
+    const [{ data: subreddits, error: subredditError }, { data: media, error: mediaError }] = await Promise.all([
+      subredditNames.length > 0
+        ? supabase.from('subreddits').select('id, name').in('name', subredditNames)
+        : Promise.resolve({ data: [], error: null }),
+      mediaIds.length > 0
+        ? supabase.from('media_items').select('id').in('id', mediaIds)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (subredditError) throw subredditError;
+    if (mediaError) throw mediaError;
+
+    const subredditIds = new Map<string, string>((subreddits || []).map((subreddit: any) => [subreddit.name.toLowerCase(), subreddit.id]));
+    const knownMedia = new Set((media || []).map((item: any) => item.id as string));
+
+    const campaign = await campaignApi.createCampaign({
+      name: dto.name.trim() || fill(definition.campaign.name),
+      description: dto.description ?? fill(definition.campaign.description),
+      schedule_type: definition.campaign.schedule_type,
+      is_active: dto.is_active !== false
+    });
+
+    const skipped: string[] = [];
+    let created = 0;
+    // New ids by template index, for crossposts to find the post they share
+    const createdIds = new Map<number, string>();
+
+    try {
+      const settings = {
+        media_reuse_window_days: definition.campaign.media_reuse_window_days,
+        min_account_gap_minutes: definition.campaign.min_account_gap_minutes,
+        min_subreddit_gap_hours: definition.campaign.min_subreddit_gap_hours,
+        max_retries: definition.campaign.max_retries
+      };
+      if (Object.values(settings).some(value => value !== undefined && value !== null)) {
+        await campaignApi.updateCampaign(campaign.id, settings);
+      }
+
+      await this.applyTagPreferences(campaign.id, definition.tag_preferences);
+
+      // Crossposts of template posts go last so the post they share exists
+      const order = definition.posts
+        .map((post, index) => ({ post, index }))
+        .sort((a, b) => Number(a.post.crosspost_of != null) - Number(b.post.crosspost_of != null));
+
+      for (const { post, index } of order) {
+        const label = `"${fill(post.title)}" in r/${post.subreddit}`;
+        const subredditId = subredditIds.get(post.subreddit.toLowerCase());
+        if (!subredditId) {
+          skipped.push(`${label}: r/${post.subreddit} has not been added to this workspace`);
+          continue;
+        }
+
+        // Media ids only resolve in the workspace the template was made in
+        const galleryItems = post.gallery_items || [];
+        if (post.content_type === 'gallery' && galleryItems.some(item => !knownMedia.has(item.media_item_id))) {
+          skipped.push(`${label}: the gallery's images are not in this media library`);
+          continue;
+        }
+        const mediaItemId = post.media_item_id && knownMedia.has(post.media_item_id) ? post.media_item_id : undefined;
+        if (post.content_type === 'video' && !mediaItemId) {
+          skipped.push(`${label}: the video is not in this media library`);
+          continue;
+        }
+
+        const crosspostSourceId = post.crosspost_of != null ? createdIds.get(post.crosspost_of) : undefined;
+        if (post.content_type === 'crosspost') {
+          if (post.crosspost_of != null ? !crosspostSourceId : !RedditPostingService.parseCrosspostFullname(post.content)) {
+            skipped.push(`${label}: the post it crossposts could not be recreated`);
+            continue;
+          }
+        }
+
+        const createdPost = await campaignApi.createCampaignPost({
+          campaign_id: campaign.id,
+          reddit_account_id: dto.accounts[post.account],
+          subreddit_id: subredditId,
+          media_item_id: mediaItemId,
+          title: fill(post.title),
+          content_type: post.content_type,
+          content: fill(post.content),
+          scheduled_for: new Date(start + post.offset_minutes * MINUTE_MS).toISOString(),
+          interval_hours: post.interval_hours || undefined,
+          recurrence_rule: post.recurrence_rule || undefined,
+          recurrence_timezone: post.recurrence_timezone || undefined,
+          use_ai_title: post.use_ai_title,
+          use_ai_timing: post.use_ai_timing,
+          gallery_items: galleryItems.map(item => ({ ...item, caption: item.caption ? fill(item.caption) : undefined })),
+          flair_id: post.flair_id ?? null,
+          flair_text: post.flair_text ?? null,
+          nsfw: post.nsfw,
+          spoiler: post.spoiler,
+          send_replies: post.send_replies,
+          first_comment: post.first_comment ? fill(post.first_comment) : null,
+          first_comment_sticky: post.first_comment_sticky,
+          first_comment_distinguish: post.first_comment_distinguish,
+          title_variants: (post.title_variants || []).map(variant => ({ ...variant, title: fill(variant.title) })),
+          title_test_runs: post.title_test_runs || undefined,
+          crosspost_source_post_id: crosspostSourceId,
+          crosspost_url: post.content_type === 'crosspost' && !crosspostSourceId ? post.content : undefined,
+          crosspost_delay_hours: post.crosspost_delay_hours ?? undefined
+        });
+        createdIds.set(index, createdPost.id);
+        created++;
+      }
+    } catch (cloneError) {
+      // A half-cloned campaign is harder to clean up by hand than to retry
+      await campaignApi.deleteCampaign(campaign.id);
+      throw cloneError;
+    }
+
+    return { campaign, created, skipped };
+  }
+
+  // Tags are matched by name; missing ones are created so media can be tagged for rotation
+  private static async applyTagPreferences(campaignId: string, preferences: CampaignTemplateDefinition['tag_preferences']): Promise<void> {
+    if (preferences.length === 0) return;
+
+    const tags = await campaignApi.getTags();
+
+    for (const preference of preferences) {
+      let tag = tags.find(existing => existing.name.toLowerCase() === preference.tag.toLowerCase());
+      if (!tag) {
+        tag = await campaignApi.createTag({ name: preference.tag, color: preference.color || '#C69B7B' });
+        tags.push(tag);
+      }
+      await campaignApi.setCampaignTagPreference(campaignId, tag.id, preference.weight);
+    }
+  }
+
+  static toJson(template: Pick<CampaignTemplate, 'name' | 'description' | 'definition'>): string {
+    const document: CampaignTemplateExport = {
+      format: EXPORT_FORMAT,
+      version: CAMPAIGN_TEMPLATE_VERSION,
+      exported_at: new Date().toISOString(),
+      name: template.name,
+      description: template.description || null,
+      definition: template.definition
+    };
+
+    return JSON.stringify(document, null, 2);
+  }
+
+  // Read an exported template, upgrading older versions
+  static parseJson(json: string): Pick<CampaignTemplateExport, 'name' | 'description' | 'definition'> {
+    let document: Partial<CampaignTemplateExport>;
+    try {
+      document = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (document?.format !== EXPORT_FORMAT || typeof document.version !== 'number') {
+      throw new Error('The file is not a campaign template export');
+    }
+
+    if (document.version > CAMPAIGN_TEMPLATE_VERSION) {
+      throw new Error(`The template was exported by a newer version (format ${document.version}); update the app to import it`);
+    }
+
+    const definition = this.upgrade(document.version, document.definition);
+    if (!definition?.campaign?.name || !Array.isArray(definition.posts)) {
+      throw new Error('The template is missing its campaign or posts');
+    }
+
+    return {
+      name: document.name || definition.campaign.name,
+      description: document.description || null,
+      definition
+    };
+  }
+
+  static async importJson(json: string): Promise<CampaignTemplate> {
+    const { name, description, definition } = this.parseJson(json);
+    return this.saveTemplate(name, description || null, definition);
+  }
+
+  // Bring an older definition up to the current format; version 1 is the first
+  private static upgrade(version: number, definition: any): CampaignTemplateDefinition {
+    switch (version) {
+      case 1:
+      default:
+        return {
+          ...definition,
+          variables: definition?.variables || [],
+          accounts: definition?.accounts || [],
+          tag_preferences: definition?.tag_preferences || [],
+          posts: definition?.posts || []
+        };
+    }
+  }
+
+  // Every {{name}} placeholder used in the campaign or its posts
+  static findVariables(definition: CampaignTemplateDefinition): string[] {
+    const texts = [
+      definition.campaign.name,
+      definition.campaign.description,
+      ...definition.posts.flatMap(post => [
+        post.title,
+        post.content,
+        post.first_comment,
+        ...(post.title_variants || []).map(variant => variant.title),
+        ...(post.gallery_items || []).map(item => item.caption)
+      ])
+    ];
+
+    const names = new Set<string>(definition.variables.map(variable => variable.name));
+    texts.forEach(text => {
+      Array.from((text || '').matchAll(VARIABLE_PATTERN)).forEach(match => names.add(match[1]));
+    });
+
+    return Array.from(names);
+  }
+
+  private static templatize(text: string, variables: Array<{ name: string; value: string }>): string {
+    return variables
+      .filter(variable => variable.name.trim() && variable.value)
+      .reduce((result, variable) => result.split(variable.value).join(`{{${variable.name.trim()}}}`), text);
+  }
+
+  private static resolveVariables(variables: TemplateVariable[], values: Record<string, string>): Record<string, string> {
+    const resolved: Record<string, string> = {};
+    const missing: string[] = [];
+
+    variables.forEach(variable => {
+      const value = values[variable.name]?.trim() || variable.default_value || '';
+      if (!value) missing.push(variable.name);
+      resolved[variable.name] = value;
+    });
+
+    if (missing.length > 0) {
+      throw new Error(`Fill in ${missing.map(name => `{{${name}}}`).join(', ')}`);
+    }
+
+    return resolved;
+  }
+
+  static fillVariables(text: string, values: Record<string, string>): string {
+    return text.replace(VARIABLE_PATTERN, (placeholder, name) => values[name] ?? placeholder);
+  }
+
+  // Recurrence rules keep their original start; the post's own time has moved on
+  private static seriesStart(post: CampaignPost): string {
+    return post.recurrence_start || post.scheduled_for;
+  }
+}
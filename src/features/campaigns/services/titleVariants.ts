@@ -0,0 +1,123 @@
+import { supabase } from '../../../lib/supabase';
+import { TitleVariantStats } from '../types';
+
+const DEFAULT_TEST_RUNS = 3;
+
+// Rotates recurring posts through their title variants and keeps the best one once enough runs are measured
+export class TitleVariantTester {
+  // Subreddit title templates from the stored analysis, filled in with the post content
+  static async getTemplateTitles(subredditId: string, content: string): Promise<string[]> {
+    const { data: subreddit, error } = await supabase
+      .from('subreddits')
+      .select('name, analysis_data')
+      .eq('id', subredditId)
+      .maybeSingle();
+
+    if (error || !subreddit?.analysis_data) return [];
+
+    const analysis = subreddit.analysis_data;
+    const patterns: string[] = analysis.analysis?.titleTemplates?.patterns || analysis.titleTemplates?.patterns || [];
+    const summary = content.trim() || subreddit.name;
+
+    return patterns
+      .map(pattern => pattern
+        .replace(/\{subreddit\}/g, subreddit.name)
+        .replace(/\{content\}/g, summary.slice(0, 50))
+        .replace(/\{question\}/g, `What do you think about ${summary.slice(0, 30)}?`)
+        .trim())
+      .filter(title => title.length > 0);
+  }
+
+  // The variant with the best average 24h score, ties going to comments; null until every variant has enough runs
+  static pickWinner(stats: TitleVariantStats[], runsNeeded: number = DEFAULT_TEST_RUNS): TitleVariantStats | null {
+    if (stats.length < 2 || stats.some(variant => variant.measured_runs < runsNeeded)) {
+      return null;
+    }
+
+    return [...stats].sort((a, b) =>
+      (Number(b.avg_score) - Number(a.avg_score)) ||
+      (Number(b.avg_comments) - Number(a.avg_comments)) ||
+      (a.position - b.position)
+    )[0];
+  }
+
+  // Decide the tests the given variants belong to; called after new 24h snapshots are stored
+  static async evaluateTests(variantIds: string[]): Promise<number> {
+    if (variantIds.length === 0) return 0;
+
+    const { data: variants, error } = await supabase
+      .from('campaign_post_title_variants')
+      .select('post_id')
+      .in('id', variantIds);
+
+    if (error) {
+      console.error('Error loading title variants:', error);
+      return 0;
+    }
+
+    const { data: roots, error: rootError } = await supabase
+      .from('campaign_posts')
+      .select('id, campaign_id, title_test_runs')
+      .in('id', Array.from(new Set((variants || []).map(variant => variant.post_id))))
+      .is('title_test_decided_at', null);
+
+    if (rootError) {
+      console.error('Error loading title tests:', rootError);
+      return 0;
+    }
+
+    let decided = 0;
+    for (const root of roots || []) {
+      const { data: stats, error: statsError } = await supabase
+        .from('campaign_title_variant_stats')
+        .select('*')
+        .eq('post_id', root.id);
+
+      if (statsError) {
+        console.error(`Error loading title variant stats for post ${root.id}:`, statsError);
+        continue;
+      }
+
+      const winner = this.pickWinner(stats as TitleVariantStats[], root.title_test_runs || DEFAULT_TEST_RUNS);
+      if (!winner) continue;
+
+      const { error: winnerError } = await supabase
+        .from('campaign_post_title_variants')
+        .update({ is_winner: true })
+        .eq('id', winner.variant_id);
+
+      if (winnerError) {
+        console.error(`Error storing title winner for post ${root.id}:`, winnerError);
+        continue;
+      }
+
+      await supabase
+        .from('campaign_posts')
+        .update({ title_test_decided_at: new Date().toISOString() })
+        .eq('id', root.id);
+
+      const { error: activityError } = await supabase
+        .from('campaign_activity')
+        .insert({
+          campaign_id: root.campaign_id,
+          post_id: root.id,
+          action_type: 'title_test_decided',
+          details: {
+            variant_id: winner.variant_id,
+            title: winner.title,
+            avg_score: winner.avg_score,
+            avg_comments: winner.avg_comments
+          }
+        });
+
+      if (activityError) {
+        console.error('Error logging title test result:', activityError);
+      }
+
+      console.log(`Title test for post ${root.id} decided: "${winner.title}" (avg score ${winner.avg_score})`);
+      decided++;
+    }
+
+    return decided;
+  }
+}
@@ -1,6 +1,14 @@
+import { PostRequirements } from '../../lib/redditMarkdown';
+
 export type ScheduleType = 'one-time' | 'recurring' | 'ai-optimized';
-export type ContentType = 'text' | 'link' | 'image';
-export type PostStatus = 'scheduled' | 'posted' | 'failed';
+export type ContentType = 'text' | 'link' | 'image' | 'video' | 'gallery' | 'crosspost';
+export type PostStatus = 'pending_approval' | 'rejected' | 'scheduled' | 'submitted' | 'posted' | 'failed' | 'removed' | 'filtered';
+export type RuleCheckStatus = 'passed' | 'warning' | 'blocked';
+export type FailureClass = 'transient' | 'permanent';
+export type FirstCommentStatus = 'posted' | 'failed';
+export type MetricsCheckpoint = '15m' | '1h' | '6h' | '24h' | '7d';
+export type RemovalStatus = 'live' | 'removed' | 'deleted' | 'missing';
+export type VisibilityStatus = 'posted' | 'removed' | 'filtered';
 
 export interface Campaign {
   id: string;
@@ -10,6 +18,14 @@ export interface Campaign {
   created_at: string;
   is_active: boolean;
   schedule_type: ScheduleType;
+  media_reuse_window_days?: number;
+  min_account_gap_minutes?: number;
+  min_subreddit_gap_hours?: number;
+  needs_replan?: boolean;
+  last_planned_at?: string;
+  max_retries?: number;
+  project_id?: string | null; // Project whose editors may add posts
+  requires_approval?: boolean; // Editors' posts wait for an owner's approval
 }
 
 export interface CampaignPost {
@@ -26,8 +42,53 @@ export interface CampaignPost {
   posted_at?: string;
   reddit_post_id?: string;
   interval_hours?: number;
+  recurrence_rule?: string | null; // RFC 5545 RRULE, used instead of interval_hours
+  recurrence_timezone?: string | null; // IANA timezone the rule's times are in
+  recurrence_start?: string | null; // DTSTART of the series
+  recurrence_exdates?: string[] | null; // Occurrences to skip
   use_ai_title: boolean;
   use_ai_timing: boolean;
+  rule_check_status?: RuleCheckStatus;
+  rule_violations?: RuleViolation[];
+  rule_checked_at?: string;
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  last_attempt_at?: string;
+  last_error?: string | null;
+  flair_id?: string | null;
+  flair_text?: string | null;
+  nsfw?: boolean;
+  spoiler?: boolean;
+  send_replies?: boolean;
+  first_comment?: string | null; // Template for a comment posted right after the post goes live
+  first_comment_sticky?: boolean;
+  first_comment_distinguish?: boolean;
+  first_comment_id?: string | null;
+  first_comment_status?: FirstCommentStatus | null;
+  first_comment_error?: string | null;
+  first_comment_posted_at?: string | null;
+  next_metrics_at?: string | null;
+  removal_reason?: string | null; // Why the post is marked removed or filtered
+  removal_detected_at?: string | null;
+  removal_checked_at?: string | null;
+  quota_hold_until?: string | null; // Held back by a posting quota until then
+  quota_hold_reason?: string | null;
+  batch_id?: string | null;
+  batch?: CampaignPostBatch | null; // For joined queries
+  title_variant_id?: string | null; // Variant this occurrence was posted with
+  title_test_runs?: number | null; // Measured runs per variant before a winner is picked
+  title_test_decided_at?: string | null;
+  metrics?: PostMetricsSnapshot[]; // For joined queries, ordered by captured_at
+  media_item?: MediaItem; // For joined queries
+  gallery_items?: GalleryItem[]; // For joined queries, ordered by position
+  parent_post_id?: string | null; // Earlier occurrence of a recurring post that created this one
+  crosspost_source_post_id?: string | null; // Campaign post a crosspost shares
+  crosspost_fullname?: string | null; // Reddit post to crosspost (t3_...); set once the source is live
+  crosspost_delay_hours?: number | null; // Hours after the source goes live
+  created_by?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_comment?: string | null; // Left with the last approval or rejection
   created_at: string;
 }
 
@@ -56,9 +117,28 @@ export interface MediaItem {
   file_size: number;
   uploaded_at: string;
   url: string;
+  thumbnail_url?: string | null; // Poster frame for videos
+  perceptual_hash?: string | null; // dHash of the image or poster frame, for spotting reposts
   tags?: MediaTag[]; // For joined queries
 }
 
+export interface GalleryItem {
+  id: string;
+  post_id: string;
+  media_item_id: string;
+  position: number;
+  caption?: string | null;
+  outbound_url?: string | null;
+  created_at: string;
+  media_item?: MediaItem; // For joined queries
+}
+
+export interface CreateGalleryItemDto {
+  media_item_id: string;
+  caption?: string;
+  outbound_url?: string;
+}
+
 export interface CreateCampaignDto {
   name: string;
   description: string;
@@ -78,13 +158,128 @@ export interface CreateCampaignPostDto {
   interval_hours?: number;
   use_ai_title: boolean;
   use_ai_timing: boolean;
+  gallery_items?: CreateGalleryItemDto[]; // Gallery posts only, in display order
+  flair_id?: string | null; // Left undefined to use the subreddit's default flair
+  flair_text?: string | null;
+  nsfw?: boolean;
+  spoiler?: boolean;
+  send_replies?: boolean;
+  first_comment?: string | null;
+  first_comment_sticky?: boolean;
+  first_comment_distinguish?: boolean;
+  batch_id?: string;
+  title_variants?: CreateTitleVariantDto[]; // Recurring posts only; alternatives to the main title
+  title_test_runs?: number;
+  recurrence_rule?: string; // scheduled_for becomes the series start
+  recurrence_timezone?: string;
+  recurrence_exdates?: string[];
+  crosspost_source_post_id?: string; // Crossposts only: an earlier campaign post...
+  crosspost_url?: string; // ...or any Reddit post
+  crosspost_delay_hours?: number; // After the source campaign post goes live
+  crossposts?: CrosspostChainDto; // Crosspost this post to more subreddits once it is live
+}
+
+export interface CrosspostChainDto {
+  subreddit_ids: string[];
+  delay_hours: number;
+}
+
+export type RecurrenceFrequency = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+// Parsed form of the supported RRULE subset
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  by_day: Array<{ weekday: number; ordinal?: number }>; // weekday 0 = Sunday; ordinal for "2TU" or "-1FR"
+  by_hour: number[];
+  by_minute: number[];
+  by_month_day: number[];
+  by_month: number[];
+  week_start: number;
+  count?: number;
+  until?: string;
+}
+
+export interface RecurrenceSeries {
+  rule: string;
+  timezone: string;
+  start: string | Date;
+  exdates?: string[] | null;
+}
+
+export type TitleVariantSource = 'manual' | 'ai' | 'template';
+
+export interface TitleVariant {
+  id: string;
+  post_id: string; // First post of the recurring series
+  campaign_id: string;
+  title: string;
+  source: TitleVariantSource;
+  position: number;
+  is_winner: boolean;
+  created_at: string;
+}
+
+export interface CreateTitleVariantDto {
+  title: string;
+  source: TitleVariantSource;
+}
+
+// Row of the campaign_title_variant_stats view
+export interface TitleVariantStats {
+  variant_id: string;
+  post_id: string;
+  campaign_id: string;
+  title: string;
+  source: TitleVariantSource;
+  position: number;
+  is_winner: boolean;
+  runs: number;
+  measured_runs: number;
+  avg_score: number | null;
+  avg_comments: number | null;
+}
+
+export interface CampaignPostBatch {
+  id: string;
+  campaign_id: string;
+  name: string;
+  project_id?: string | null;
+  use_preferred_times: boolean;
+  created_at: string;
+}
+
+export interface BatchTarget {
+  subreddit_id: string;
+  scheduled_for: string;
+}
+
+export interface CreatePostBatchDto {
+  campaign_id: string;
+  name: string;
+  project_id?: string | null;
+  use_preferred_times: boolean;
+  post: Omit<CreateCampaignPostDto, 'campaign_id' | 'subreddit_id' | 'scheduled_for' | 'batch_id'>;
+  targets: BatchTarget[];
 }
 
+// Changes applied to every post of a batch that hasn't gone out yet
+export type UpdatePostBatchDto = Pick<
+  UpdateCampaignPostDto,
+  'title' | 'content' | 'nsfw' | 'spoiler' | 'send_replies' | 'first_comment' | 'first_comment_sticky' | 'first_comment_distinguish'
+>;
+
 export interface UpdateCampaignDto {
   name?: string;
   description?: string;
   schedule_type?: ScheduleType;
   is_active?: boolean;
+  media_reuse_window_days?: number;
+  min_account_gap_minutes?: number;
+  min_subreddit_gap_hours?: number;
+  max_retries?: number;
+  project_id?: string | null;
+  requires_approval?: boolean;
 }
 
 export interface UpdateCampaignPostDto {
@@ -98,6 +293,14 @@ export interface UpdateCampaignPostDto {
   interval_hours?: number;
   use_ai_title?: boolean;
   use_ai_timing?: boolean;
+  flair_id?: string | null;
+  flair_text?: string | null;
+  nsfw?: boolean;
+  spoiler?: boolean;
+  send_replies?: boolean;
+  first_comment?: string | null;
+  first_comment_sticky?: boolean;
+  first_comment_distinguish?: boolean;
 }
 
 export interface CampaignWithPosts extends Campaign {
@@ -107,6 +310,7 @@ export interface CampaignWithPosts extends Campaign {
 export interface CampaignPostWithDetails extends CampaignPost {
   reddit_account: {
     username: string;
+    is_shadowbanned?: boolean;
   };
   subreddit: {
     name: string;
@@ -140,4 +344,257 @@ export interface CampaignTagPreference {
 
 export interface UpdateCampaignTagPreferenceDto {
   weight: number;
-}
\ No newline at end of file
+}
+
+export interface ActivityWindow {
+  hour: number; // UTC hour of day (0-23)
+  score: number;
+}
+
+export interface PlannedSlot {
+  post_id: string;
+  previous_scheduled_for: string;
+  scheduled_for: string;
+  window_hour: number;
+}
+
+export interface RuleViolation {
+  code: 'content_type_not_allowed' | 'flair_required' | 'content_restriction' | 'promotion_restricted' | 'title_format' | 'high_impact_rule' | 'karma_requirement' | 'account_age_requirement' | 'duplicate_post';
+  severity: 'block' | 'warn';
+  message: string;
+  rule?: string;
+}
+
+export interface DuplicateMatch {
+  source: 'campaign_post' | 'reddit_post';
+  id: string;
+  title: string;
+  username: string | null;
+  occurred_at: string; // When the other post went (or is scheduled to go) out
+  reason: 'text' | 'url' | 'media';
+  similarity: number; // 0-1 for text, 1 for identical links or media
+}
+
+export interface RuleCheckResult {
+  status: RuleCheckStatus;
+  violations: RuleViolation[];
+  checked_at: string;
+}
+
+export interface MediaSelection {
+  media_item: MediaItem;
+  weight: number;
+  tag_ids: string[];
+}
+
+export interface FailureClassification {
+  type: FailureClass;
+  reason: 'rate_limited' | 'server_error' | 'network' | 'banned' | 'subreddit_private' | 'account_auth' | 'rule_blocked' | 'unknown';
+  retry_after_ms?: number; // Delay Reddit asked for, e.g. from a RATELIMIT "try again in N minutes" hint
+}
+
+export interface PostAttempt {
+  attempt: number;
+  outcome: 'posted' | 'retry_scheduled' | 'failed';
+  classification?: FailureClassification;
+  error?: string;
+  next_attempt_at?: string;
+}
+
+export interface LinkFlair {
+  id: string;
+  text: string;
+  text_editable: boolean;
+  mod_only: boolean;
+  background_color: string | null;
+  text_color: 'light' | 'dark' | null;
+}
+
+export interface SubredditFlairCatalog {
+  flairs: LinkFlair[];
+  flair_required: boolean;
+  post_requirements: PostRequirements | null; // Title and body limits from the same sync
+  synced_at: string | null;
+}
+
+export interface SubredditFlairDefault {
+  id: string;
+  user_id: string;
+  subreddit_id: string;
+  flair_id: string;
+  flair_text?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubredditPostingLimit {
+  id: string;
+  user_id: string;
+  subreddit_id: string;
+  min_gap_hours: number;
+  source: 'analysis' | 'manual';
+  source_rule?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AccountQuota {
+  id: string;
+  username: string;
+  max_posts_per_hour: number | null;
+  max_posts_per_day: number | null;
+}
+
+export interface QuotaHold {
+  hold_until: string;
+  reason: string;
+}
+
+export interface BlackoutWindow {
+  id: string;
+  user_id: string;
+  campaign_id: string | null; // Exactly one of campaign_id and reddit_account_id is set
+  reddit_account_id: string | null;
+  starts_at: string;
+  ends_at: string | null; // null while paused until resumed
+  reason?: string | null;
+  resumed_at: string | null; // When the posts missed during the window were re-planned
+  created_at: string;
+}
+
+export interface CreateBlackoutWindowDto {
+  campaign_id?: string;
+  reddit_account_id?: string;
+  starts_at: string;
+  ends_at?: string | null;
+  reason?: string;
+}
+
+export interface TemplateVariable {
+  name: string; // Used as {{name}} in the campaign and post text
+  default_value?: string | null;
+}
+
+export interface TemplatePost {
+  offset_minutes: number; // From the start of the campaign
+  account: string; // Username in the source campaign, mapped to an account when cloning
+  subreddit: string; // Subreddit name
+  title: string;
+  content_type: ContentType;
+  content: string;
+  media_item_id?: string | null; // Only resolves in the workspace the template came from
+  gallery_items?: CreateGalleryItemDto[];
+  interval_hours?: number | null;
+  recurrence_rule?: string | null;
+  recurrence_timezone?: string | null;
+  use_ai_title: boolean;
+  use_ai_timing: boolean;
+  flair_id?: string | null;
+  flair_text?: string | null;
+  nsfw?: boolean;
+  spoiler?: boolean;
+  send_replies?: boolean;
+  first_comment?: string | null;
+  first_comment_sticky?: boolean;
+  first_comment_distinguish?: boolean;
+  title_variants?: CreateTitleVariantDto[]; // Alternatives to the main title
+  title_test_runs?: number | null;
+  crosspost_of?: number | null; // Index of the template post a crosspost shares; otherwise content is the Reddit post
+  crosspost_delay_hours?: number | null;
+}
+
+export interface CampaignTemplateDefinition {
+  campaign: {
+    name: string;
+    description: string;
+    schedule_type: ScheduleType;
+    media_reuse_window_days?: number;
+    min_account_gap_minutes?: number;
+    min_subreddit_gap_hours?: number;
+    max_retries?: number;
+  };
+  variables: TemplateVariable[];
+  accounts: string[]; // Usernames the posts refer to
+  tag_preferences: Array<{ tag: string; color?: string; weight: number }>;
+  posts: TemplatePost[];
+}
+
+export interface CampaignTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  version: number;
+  definition: CampaignTemplateDefinition;
+  created_at: string;
+  updated_at: string;
+}
+
+// Versioned document for moving templates between workspaces
+export interface CampaignTemplateExport {
+  format: 'subpirate.campaign-template';
+  version: number;
+  exported_at: string;
+  name: string;
+  description?: string | null;
+  definition: CampaignTemplateDefinition;
+}
+
+export interface CloneCampaignDto {
+  name: string;
+  description?: string;
+  start_at: string; // Where offset zero lands
+  accounts: Record<string, string>; // Template username to reddit_account_id
+  variables: Record<string, string>;
+  is_active?: boolean;
+}
+
+export interface CloneCampaignResult {
+  campaign: Campaign;
+  created: number;
+  skipped: string[]; // Why posts that couldn't be recreated were left out
+}
+
+export interface FirstCommentResult {
+  status: FirstCommentStatus;
+  comment_id?: string;
+  error?: string; // Also set for a posted comment that couldn't be stickied or distinguished
+}
+
+export interface PostMetricsSnapshot {
+  id: string;
+  post_id: string;
+  campaign_id: string;
+  checkpoint: MetricsCheckpoint;
+  captured_at: string;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  removal_status: RemovalStatus;
+  removed_by_category?: string | null;
+}
+
+export interface CampaignMetrics {
+  campaign_id: string;
+  campaign_name: string;
+  user_id: string;
+  is_active: boolean;
+  created_at: string;
+  total_posts: number;
+  posted_count: number;
+  scheduled_count: number;
+  failed_count: number;
+  last_post_at: string | null;
+  next_scheduled_post: string | null;
+  tracked_posts: number;
+  total_score: number;
+  total_comments: number;
+  avg_upvote_ratio: number | null;
+  removed_count: number;
+  filtered_count: number;
+}
+
+export interface VisibilityCheckResult {
+  status: VisibilityStatus;
+  reason: string | null;
+}
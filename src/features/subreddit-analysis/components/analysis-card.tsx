@@ -25,7 +25,9 @@ import { HeatmapChart } from '../../../components/HeatmapChart';
 import { AnalysisResult, SavedSubreddit } from '../types';
 import SaveToProjectModal from '../../../components/SaveToProjectModal';
 import RedditImage from '../../../components/RedditImage';
-import { redditApi } from '../../../lib/redditApi';
+import { redditClient } from '../../../lib/redditClient/browser';
+import { useTimezone } from '../../../hooks/useTimezone';
+import { localizeBestTime } from '../../../lib/timezone';
 
 interface AnalysisCardProps {
   analysis: AnalysisResult;
@@ -45,6 +47,7 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
   error
 }) => {
   const [showDetailedRules, setShowDetailedRules] = useState(true);
+  const timeZone = useTimezone();
   const [saving, setSaving] = useState(false);
   const [saveError, setError] = useState<string | null>(null);
   const [saveAttempts, setSaveAttempts] = useState(0);
@@ -312,15 +315,16 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
           <div className="flex items-center gap-2">
             <Clock className="h-5 w-5 text-[#C69B7B]" />
             <h3 className="font-medium">Best Posting Times</h3>
+            <span className="text-xs text-gray-500">{timeZone}</span>
           </div>
           {analysis.posts && analysis.posts.length > 0 ? (
-            <HeatmapChart posts={analysis.posts} />
+            <HeatmapChart posts={analysis.posts} timeZone={timeZone} />
           ) : (
             <ul className="space-y-2 text-gray-400 text-sm">
               {analysis.analysis.postingLimits.bestTimeToPost.map((time, index) => (
                 <li key={index} className="flex items-start gap-2">
                   <span className="text-[#C69B7B]">•</span>
-                  <span>{time}</span>
+                  <span>{localizeBestTime(time, timeZone)}</span>
                 </li>
               ))}
             </ul>
@@ -601,16 +605,13 @@ const PostGallery: React.FC<PostGalleryProps> = ({ posts, subredditName }) => {
         setError(null);
         
         // Get actual posts from Reddit API with thumbnails
-        const response = await redditApi.getSubredditPosts(
+        const { posts } = await redditClient.getSubredditPosts(
           subredditName, 
           'top', // Get top posts
           16, // Fetch more than we need in case some don't have images
           'month' // Recent posts from the last month
         );
         
-        // Extract posts from the response (handle both old and new API format)
-        const posts = Array.isArray(response) ? response : response.posts;
-        
         // Filter posts that have thumbnails or preview images
         const postsWithImages = posts
           .filter(post => post.thumbnail || post.preview_url || isImageUrl(post.url))
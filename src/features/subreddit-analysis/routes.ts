@@ -1,5 +1,5 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { RedditAPI } from './services/reddit';
+import { getSubredditStats } from './services/stats';
 import { OpenRouter } from './services/openrouter';
 
 const router = Router();
@@ -8,8 +8,7 @@ router.get('/analyze/:subreddit', (req: Request, res: Response, next: NextFuncti
   (async () => {
     const subreddit = req.params.subreddit;
     try {
-      const redditAPI = new RedditAPI();
-      const stats = await redditAPI.getSubredditStats(subreddit);
+      const stats = await getSubredditStats(subreddit);
       const openRouter = new OpenRouter();
       const analysis = await openRouter.analyzeSubreddit(stats);
       res.json(analysis);
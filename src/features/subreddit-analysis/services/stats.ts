@@ -0,0 +1,81 @@
+/* src/features/subreddit-analysis/services/stats.ts */
+
+import { RedditClient, RedditAPIError, SubredditRule, createRedditClient } from '../../../lib/redditClient';
+
+export interface SubredditStats {
+  name: string;
+  title: string;
+  description: string;
+  rules: SubredditRule[];
+  requires_approval: boolean;
+  content_categories: string[];
+  karma_required: boolean;
+  account_age_required: boolean;
+  posting_requirements: {
+    karma_required: boolean;
+    account_age_required: boolean;
+    manual_approval: boolean;
+  };
+}
+
+// The server has no Reddit account, so it reads subreddits logged out
+const publicClient = createRedditClient();
+
+function rulesMention(rules: SubredditRule[], phrase: string): boolean {
+  return rules.some(rule =>
+    rule.description?.toLowerCase().includes(phrase) ||
+    rule.short_name?.toLowerCase().includes(phrase)
+  );
+}
+
+// Posting restrictions of a subreddit, read from its settings and rules, for the AI analysis
+export async function getSubredditStats(subreddit: string, client: RedditClient = publicClient): Promise<SubredditStats> {
+  try {
+    const about = await client.getSubredditAbout(subreddit);
+
+    let rules: SubredditRule[] = [];
+    try {
+      rules = await client.getSubredditRules(subreddit);
+    } catch {
+      // Analyse without rules rather than fail
+    }
+
+    const hasKarmaRule = rulesMention(rules, 'karma');
+    const hasAgeRule = rulesMention(rules, 'account age');
+    const hasApprovalRule = rulesMention(rules, 'approval');
+
+    // Determine allowed content types
+    const contentCategories = new Set<string>();
+    if (about.submission_type === 'any' || about.submission_type === 'link') {
+      contentCategories.add('link');
+    }
+    if (about.submission_type === 'any' || about.submission_type === 'self') {
+      contentCategories.add('text');
+    }
+    if (!about.restrict_posting) {
+      contentCategories.add('image');
+      contentCategories.add('video');
+    }
+
+    const manualApproval = hasApprovalRule || Boolean(about.restrict_posting);
+
+    return {
+      name: subreddit,
+      title: about.title || subreddit,
+      description: about.description || '',
+      rules,
+      requires_approval: manualApproval,
+      content_categories: Array.from(contentCategories),
+      karma_required: hasKarmaRule,
+      account_age_required: hasAgeRule,
+      posting_requirements: {
+        karma_required: hasKarmaRule,
+        account_age_required: hasAgeRule,
+        manual_approval: manualApproval
+      }
+    };
+  } catch (error: unknown) {
+    if (error instanceof RedditAPIError) throw error;
+    throw new RedditAPIError(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
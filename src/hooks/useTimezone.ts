@@ -0,0 +1,8 @@
+import { useAuth } from '../contexts/AuthContext';
+import { getBrowserTimezone, isValidTimezone } from '../lib/timezone';
+
+// The timezone schedules and heatmaps are shown in: the profile preference, else the browser's
+export function useTimezone(): string {
+  const { profile } = useAuth();
+  return profile?.timezone && isValidTimezone(profile.timezone) ? profile.timezone : getBrowserTimezone();
+}
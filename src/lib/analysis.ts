@@ -89,7 +89,7 @@ function calculateEngagementMetrics(posts: SubredditPost[]) {
   const avgScore = posts.reduce((sum, post) => sum + post.score, 0) / totalPosts;
   
   // Calculate posts per hour
-  const postTimes = posts.map(post => new Date(post.created_utc * 1000).getHours());
+  const postTimes = posts.map(post => new Date(post.created_utc * 1000).getUTCHours());
   const hourCounts = new Array(24).fill(0);
   postTimes.forEach(hour => hourCounts[hour]++);
   
@@ -220,11 +220,12 @@ function prepareAnalysisInput(info: SubredditInfo, posts: SubredditPost[]): Subr
   };
 }
 
+// Peak hours are UTC; the ranges are labelled so they can be shown in the reader's timezone
 function formatBestPostingTimes(peakHours: number[]): string[] {
   return peakHours.map(hour => {
     const period = hour < 12 ? 'AM' : 'PM';
     const formattedHour = hour % 12 || 12;
-    return `${formattedHour}:00 ${period} - ${formattedHour}:59 ${period}`;
+    return `${formattedHour}:00 ${period} - ${formattedHour}:59 ${period} UTC`;
   });
 }
 
@@ -2,6 +2,7 @@
 
 import { SubredditInfo, SubredditPost } from './reddit';
 import { AnalysisResult, AnalysisProgress } from './analysis';
+import { RateLimitState, RateLimitTracker } from './redditClient/rateLimit';
 
 interface WorkerMessage {
   info: SubredditInfo;
@@ -19,6 +20,9 @@ const analysisTimeouts = new Map<string, number>();
 // Maximum analysis time (5 minutes)
 const MAX_ANALYSIS_TIME = 5 * 60 * 1000;
 
+// Reddit rate-limit buckets for every tab, so they draw from one budget per account
+const rateLimits = new RateLimitTracker();
+
 interface ExtendedWorkerMessage {
   info?: SubredditInfo;
   posts?: SubredditPost[];
@@ -26,6 +30,27 @@ interface ExtendedWorkerMessage {
   type?: 'cancel';
 }
 
+interface RateLimitMessage {
+  type: 'rateLimit:take' | 'rateLimit:report';
+  key: string;
+  requestId?: string;
+  state?: RateLimitState;
+}
+
+function handleRateLimitMessage(port: MessagePort, message: RateLimitMessage) {
+  if (message.type === 'rateLimit:take') {
+    port.postMessage({ type: 'rateLimit', requestId: message.requestId, take: rateLimits.take(message.key) });
+    return;
+  }
+
+  if (message.state) {
+    rateLimits.merge(message.key, message.state);
+    // Let every tab show the latest budget
+    const update = { type: 'rateLimit:update', key: message.key, state: rateLimits.get(message.key) };
+    portAnalysisMap.forEach((_, connectedPort) => connectedPort.postMessage(update));
+  }
+}
+
 self.onconnect = (e: MessageEvent) => {
   const port = e.ports[0];
   
@@ -54,8 +79,13 @@ self.onconnect = (e: MessageEvent) => {
     }
   };
   
-  port.onmessage = async (event: MessageEvent<ExtendedWorkerMessage>) => {
-    const { info, posts, analysisId, type } = event.data;
+  port.onmessage = async (event: MessageEvent<ExtendedWorkerMessage | RateLimitMessage>) => {
+    if (event.data.type === 'rateLimit:take' || event.data.type === 'rateLimit:report') {
+      handleRateLimitMessage(port, event.data);
+      return;
+    }
+
+    const { info, posts, analysisId, type } = event.data as ExtendedWorkerMessage;
     
     // Handle cancellation messages
     if (type === 'cancel') {
@@ -1,6 +1,7 @@
 /* src/lib/analysisWorkerManager.ts */
 
 import { AnalysisResult } from './analysis';
+import { RateLimitState, RateLimitTake } from './redditClient/rateLimit';
 
 // Define types
 export type AnalysisTask = {
@@ -24,12 +25,20 @@ type WorkerMessage = {
   id?: string;
   analysisId?: string;
   data?: any;
+  requestId?: string;
+  take?: RateLimitTake;
+  key?: string;
+  state?: RateLimitState;
 };
 
 type AnalysisCallback = (result: AnalysisResult) => void;
 type ErrorCallback = (error: string) => void;
 type ProgressCallback = (task: AnalysisTask) => void;
 type QueueCallback = (queue: AnalysisTask[]) => void;
+type RateLimitCallback = (key: string, state: RateLimitState) => void;
+
+// How long to wait for the worker to hand out a rate-limit token before going without it
+const RATE_LIMIT_TIMEOUT_MS = 2000;
 
 // The worker manager class - Singleton
 class AnalysisWorkerManager {
@@ -39,6 +48,8 @@ class AnalysisWorkerManager {
   private errorCallbacks: Set<ErrorCallback> = new Set();
   private progressCallbacks: Set<ProgressCallback> = new Set();
   private queueCallbacks: Set<QueueCallback> = new Set();
+  private rateLimitCallbacks: Set<RateLimitCallback> = new Set();
+  private rateLimitRequests: Map<string, (take: RateLimitTake | null) => void> = new Map();
   private tasks: AnalysisTask[] = [];
   private isInitialized = false;
   
@@ -178,6 +189,20 @@ class AnalysisWorkerManager {
               this.notifyQueueListeners();
             }
             break;
+
+          case 'rateLimit':
+            if (event.data.requestId) {
+              this.rateLimitRequests.get(event.data.requestId)?.(event.data.take || null);
+              this.rateLimitRequests.delete(event.data.requestId);
+            }
+            break;
+
+          case 'rateLimit:update':
+            if (event.data.key && event.data.state) {
+              const { key, state } = event.data;
+              this.rateLimitCallbacks.forEach(callback => callback(key, state));
+            }
+            break;
         }
       };
       
@@ -312,6 +337,39 @@ class AnalysisWorkerManager {
     };
   }
   
+  // Take a Reddit request from the bucket every tab shares; null when the worker isn't available
+  public takeRateLimit(key: string): Promise<RateLimitTake | null> {
+    if (!this.port) {
+      return Promise.resolve(null);
+    }
+
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => {
+        this.rateLimitRequests.delete(requestId);
+        resolve(null);
+      }, RATE_LIMIT_TIMEOUT_MS);
+
+      this.rateLimitRequests.set(requestId, take => {
+        clearTimeout(timeoutId);
+        resolve(take);
+      });
+      this.port!.postMessage({ type: 'rateLimit:take', requestId, key });
+    });
+  }
+
+  // Share the budget Reddit reported with the other tabs
+  public reportRateLimit(key: string, state: RateLimitState): void {
+    this.port?.postMessage({ type: 'rateLimit:report', key, state });
+  }
+
+  public onRateLimitUpdate(callback: RateLimitCallback): () => void {
+    this.rateLimitCallbacks.add(callback);
+    return () => {
+      this.rateLimitCallbacks.delete(callback);
+    };
+  }
+
   private notifyProgressListeners(task: AnalysisTask): void {
     this.progressCallbacks.forEach(callback => callback(task));
   }
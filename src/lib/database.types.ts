@@ -18,6 +18,7 @@ export type Database = {
           stripe_customer_id: string | null
           email: string | null
           full_name: string | null
+          timezone: string | null
         }
         Insert: {
           id: string
@@ -27,6 +28,7 @@ export type Database = {
           stripe_customer_id?: string | null
           email?: string | null
           full_name?: string | null
+          timezone?: string | null
         }
         Update: {
           id?: string
@@ -36,6 +38,7 @@ export type Database = {
           stripe_customer_id?: string | null
           email?: string | null
           full_name?: string | null
+          timezone?: string | null
         }
       }
       projects: {
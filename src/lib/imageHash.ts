@@ -0,0 +1,81 @@
+// Perceptual image hashing (dHash): the image is shrunk to 9x8 grayscale and each bit records
+// whether a pixel is brighter than its right neighbour, so resized or re-encoded copies of an
+// image hash to the same or nearly the same 64 bits. Browser only, as it draws on a canvas.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+function loadImage(source: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(source);
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('Unable to decode the image for hashing'));
+    };
+
+    img.src = objectUrl;
+  });
+}
+
+// 16 hex characters, or null when the image can't be drawn
+export async function computeImageHash(source: Blob): Promise<string | null> {
+  try {
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const gray: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      gray.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let nibble = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const bit = gray[y * HASH_WIDTH + x] > gray[y * HASH_WIDTH + x + 1] ? 1 : 0;
+        nibble = (nibble << 1) | bit;
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+
+    return hash;
+  } catch (error) {
+    console.warn('Unable to compute image hash:', error);
+    return null;
+  }
+}
+
+// Number of differing bits between two hashes; Infinity when they can't be compared
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    if (Number.isNaN(diff)) return Infinity;
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
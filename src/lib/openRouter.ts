@@ -263,7 +263,7 @@ function formatTimeRanges(hours: number[]): string {
     const period = hour >= 12 ? 'PM' : 'AM';
     const displayHour = hour % 12 || 12;
     return `${displayHour}${period}`;
-  }).join(', ');
+  }).join(', ') + ' UTC';
 }
 
 function analyzePostingPatterns(posts: SubredditPost[]): {
@@ -277,8 +277,8 @@ function analyzePostingPatterns(posts: SubredditPost[]): {
 
   posts.forEach(post => {
     const date = new Date(post.created_utc * 1000);
-    const day = dayMap[date.getDay()];
-    const hour = date.getHours();
+    const day = dayMap[date.getUTCDay()];
+    const hour = date.getUTCHours();
 
     postsByDay.set(day, (postsByDay.get(day) || 0) + 1);
     postsByHour.set(hour, (postsByHour.get(hour) || 0) + 1);
@@ -295,7 +295,7 @@ function analyzePostingPatterns(posts: SubredditPost[]): {
     .map(([hour]) => {
       const period = hour >= 12 ? 'PM' : 'AM';
       const displayHour = hour % 12 || 12;
-      return `${displayHour}${period}`;
+      return `${displayHour}${period} UTC`;
     });
 
   return {
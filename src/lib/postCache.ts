@@ -1,4 +1,4 @@
-import { SubredditPost } from './redditService';
+import { SubredditPost } from './redditClient';
 
 interface CachedPosts {
   recent: SubredditPost[];
@@ -1,11 +1,11 @@
-import { redditService, SubredditInfo, SubredditPost, RedditAPIError } from './redditService';
+import { redditClient, SubredditInfo, SubredditPost, RedditAPIError } from './redditClient/browser';
 import { supabase } from './supabase';
 
 export type { SubredditInfo, SubredditPost };
 export { RedditAPIError };
 
 export function parseSubredditName(input: string): string {
-  return redditService.parseSubredditName(input);
+  return redditClient.parseSubredditName(input);
 }
 
 export function getSubredditIcon(subreddit: { icon_img: string | null; community_icon: string | null; name: string }): string {
@@ -43,7 +43,7 @@ export function getSubredditIcon(subreddit: { icon_img: string | null; community
 }
 
 export function cleanRedditImageUrl(url: string | null): string | null {
-  return redditService.cleanImageUrl(url);
+  return redditClient.cleanImageUrl(url);
 }
 
 export async function getSubredditInfo(subreddit: string): Promise<SubredditInfo> {
@@ -55,7 +55,7 @@ export async function getSubredditInfo(subreddit: string): Promise<SubredditInfo
     }
 
     // Directly fetch subreddit info from Reddit API without checking/updating the database
-    const info = await redditService.getSubredditInfo(cleanSubreddit);
+    const info = await redditClient.getSubredditInfo(cleanSubreddit);
 
     return {
       ...info,
@@ -87,11 +87,11 @@ export async function getSubredditPosts(
   try {
     // If user requests a large number of posts, use the new getAllSubredditPosts method
     if (limit > 100 && !pagination) {
-      return await redditService.getAllSubredditPosts(cleanSubreddit, sort, limit, timeframe);
+      return await redditClient.getAllSubredditPosts(cleanSubreddit, sort, limit, timeframe);
     }
     
     // Otherwise use the paginated method but extract just the posts for backward compatibility
-    const result = await redditService.getSubredditPosts(
+    const result = await redditClient.getSubredditPosts(
       cleanSubreddit, 
       sort, 
       Math.min(limit, 100), // Ensure we don't exceed Reddit's max
@@ -126,7 +126,7 @@ export async function getPaginatedSubredditPosts(
   }
 
   try {
-    return await redditService.getSubredditPosts(
+    return await redditClient.getSubredditPosts(
       cleanSubreddit, 
       sort, 
       limit, 
@@ -147,7 +147,7 @@ export async function searchSubreddits(query: string): Promise<SubredditInfo[]>
   }
 
   try {
-    return await redditService.searchSubreddits(query.trim());
+    return await redditClient.searchSubreddits(query.trim());
   } catch (error) {
     if (error instanceof Error) {
       throw new RedditAPIError(error.message);
@@ -183,5 +183,5 @@ export function calculateMarketingFriendliness(subreddit: SubredditInfo, posts:
 }
 
 export function cleanImageUrl(url: string | null): string | null {
-  return redditService.cleanImageUrl(url);
+  return redditClient.cleanImageUrl(url);
 }
\ No newline at end of file
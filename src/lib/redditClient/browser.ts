@@ -0,0 +1,38 @@
+import { supabase } from '../supabase';
+import { analysisWorkerManager } from '../analysisWorkerManager';
+import { RedditClient } from './client';
+import { RateLimitTracker } from './rateLimit';
+import { SupabaseRateLimitStore } from './rateLimitStore';
+import { SupabaseTokenStore } from './tokenStore';
+import { redditUrls } from './urls';
+
+// Set VITE_REDDIT_API_URL to work against another server, such as the fake Reddit server
+export const redditApiUrls = redditUrls(import.meta.env.VITE_REDDIT_API_URL);
+
+export const redditRateLimitStore = new SupabaseRateLimitStore(supabase);
+
+// Tabs take from one bucket per account in the SharedWorker, or from the database where there is
+// no worker (such as the scheduler). Reddit's numbers go to both, so every session and scheduler
+// process sees the same budget.
+export const redditRateLimits = new RateLimitTracker({
+  async take(key) {
+    return (await analysisWorkerManager.takeRateLimit(key)) ?? redditRateLimitStore.take(key);
+  },
+  async report(key, state) {
+    analysisWorkerManager.reportRateLimit(key, state);
+    await redditRateLimitStore.report(key, state);
+  }
+});
+
+analysisWorkerManager.onRateLimitUpdate((key, state) => redditRateLimits.merge(key, state));
+
+// The app's client, signed in as the current user's Reddit accounts
+export const redditClient = new RedditClient({
+  clientId: import.meta.env.VITE_REDDIT_APP_ID,
+  clientSecret: import.meta.env.VITE_REDDIT_APP_SECRET,
+  baseUrl: import.meta.env.VITE_REDDIT_API_URL,
+  tokenStore: new SupabaseTokenStore(supabase),
+  rateLimits: redditRateLimits
+});
+
+export * from './index';
@@ -0,0 +1,1174 @@
+import { RedditAPIError, formatRedditErrors } from './errors';
+import { RateLimitTracker, sharedRateLimits } from './rateLimit';
+import { RequestQueue, sharedRequestQueue } from './requestQueue';
+import { RedditTokenStore } from './tokenStore';
+import { RedditUrls, redditUrls } from './urls';
+import {
+  cleanImageUrl,
+  decodeHtmlEntities,
+  guessMimeType,
+  normalizeRedditPost,
+  normalizeRedditPosts,
+  normalizeSubreddit,
+  parseSubredditName,
+  parseUsername,
+  sanitizeString,
+  sanitizeUrl,
+  toBase64
+} from './normalize';
+import {
+  PostRequirements,
+  PostSort,
+  PostTimeframe,
+  PublicProfileStatus,
+  RedditAccessToken,
+  RedditCommentResponse,
+  RedditGalleryItemParams,
+  RedditLinkFlair,
+  RedditMediaAsset,
+  RedditPostParams,
+  RedditPostResponse,
+  RedditSubmissionStats,
+  RedditTokens,
+  RedditUserInfo,
+  SubredditAbout,
+  SubredditFrequency,
+  SubredditInfo,
+  SubredditPost,
+  SubredditPostsPage,
+  SubredditRule
+} from './types';
+
+export interface RedditClientOptions {
+  clientId?: string;
+  clientSecret?: string;
+  userAgent?: string;
+  // Server to send every request to instead of Reddit, such as the fake server for offline work
+  baseUrl?: string;
+  // Without one the client only makes logged-out requests and calls that are handed a token
+  tokenStore?: RedditTokenStore;
+  fetch?: typeof fetch;
+  // Shared with every other client in the runtime unless given
+  queue?: RequestQueue;
+  rateLimits?: RateLimitTracker;
+  cacheTtlMs?: number;
+}
+
+// Whose credentials a request goes out with: the client's current account, nobody, or a given token
+type RequestAuth = 'account' | 'public' | { accessToken: string; accountId?: string };
+
+interface RequestOptions extends RequestInit {
+  auth?: RequestAuth;
+  retries?: number;
+}
+
+const TOKEN_PATH = '/api/v1/access_token';
+const DEFAULT_USER_AGENT = 'SubPirate/1.0.0';
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+// Refresh tokens a minute before Reddit expires them
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// Connection errors raised before a request leaves this machine
+const PRE_SEND_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// One Reddit client for the browser and Node: pluggable token storage, a request queue and
+// rate-limit tracker shared by every client in the runtime, and typed endpoint methods
+export class RedditClient {
+  private readonly clientId?: string;
+  private readonly clientSecret?: string;
+  private readonly userAgent: string;
+  private readonly urls: RedditUrls;
+  private readonly tokenStore?: RedditTokenStore;
+  private readonly fetchImpl: typeof fetch;
+  private readonly queue: RequestQueue;
+  private readonly rateLimits: RateLimitTracker;
+  private readonly cacheTtl: number;
+
+  private accountId: string | null = null;
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private expiresAt = 0;
+  private rotation: Promise<void> | null = null;
+  private cache = new Map<string, { data: any; expiresAt: number }>();
+
+  constructor(options: RedditClientOptions = {}) {
+    this.clientId = options.clientId;
+    this.clientSecret = options.clientSecret;
+    this.userAgent = options.userAgent || DEFAULT_USER_AGENT;
+    this.urls = redditUrls(options.baseUrl);
+    this.tokenStore = options.tokenStore;
+    // Bound so calling it as a property doesn't lose the window in browsers
+    this.fetchImpl = options.fetch || ((input, init) => globalThis.fetch(input, init));
+    this.queue = options.queue || sharedRequestQueue;
+    this.rateLimits = options.rateLimits || sharedRateLimits;
+    this.cacheTtl = options.cacheTtlMs ?? DEFAULT_CACHE_TTL;
+  }
+
+  // Helpers kept on the client for callers that only hold the instance
+  parseUsername(input: string): string {
+    return parseUsername(input);
+  }
+
+  parseSubredditName(input: string): string {
+    return parseSubredditName(input);
+  }
+
+  cleanImageUrl(url: string | null): string | null {
+    return cleanImageUrl(url);
+  }
+
+  // Authentication
+
+  // Make requests as this account from now on
+  async setAccountAuth(accountId: string): Promise<void> {
+    if (!this.tokenStore) {
+      throw new RedditAPIError('This Reddit client has no token store to load accounts from');
+    }
+
+    try {
+      const account = await this.tokenStore.load(accountId);
+      if (!account) {
+        throw new RedditAPIError('Failed to get account credentials');
+      }
+
+      this.accountId = accountId;
+      this.accessToken = account.accessToken;
+      this.refreshToken = account.refreshToken;
+      this.expiresAt = account.expiresAt;
+
+      if (Date.now() >= this.expiresAt) {
+        console.log(`Token expired for account ${account.username}, refreshing...`);
+        await this.refreshCurrentAccount();
+      }
+
+      await this.verifyCredentials();
+    } catch (error) {
+      console.error('Error setting account auth:', error);
+      this.clearAccountAuth();
+
+      if (error instanceof RedditAPIError) throw error;
+      throw new RedditAPIError('Failed to authenticate with Reddit account');
+    }
+  }
+
+  // Go back to logged-out requests
+  clearAccountAuth(): void {
+    this.accountId = null;
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.expiresAt = 0;
+  }
+
+  // Trade a refresh token for a new access token and store it
+  async refreshAccountToken(accountId: string, refreshToken: string): Promise<RedditTokens> {
+    if (!this.clientId || !this.clientSecret) {
+      throw new RedditAPIError('Reddit client credentials are not configured. Check VITE_REDDIT_APP_ID and VITE_REDDIT_APP_SECRET.');
+    }
+
+    try {
+      console.log(`Refreshing Reddit token for account ID: ${accountId}`);
+      const response = await this.fetchImpl(`${this.urls.www}${TOKEN_PATH}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${toBase64(`${this.clientId}:${this.clientSecret}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': this.userAgent
+        },
+        body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken }).toString()
+      });
+
+      const responseText = await response.text();
+      let data: any = null;
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        // Non-JSON bodies are reported with the status below
+      }
+
+      if (!response.ok || !data?.access_token) {
+        if (data?.error === 'invalid_grant') {
+          await this.tokenStore?.recordRefreshFailure?.(accountId, 'invalid_grant', true);
+          throw new RedditAPIError('Refresh token is invalid or expired. Reddit account needs to be reconnected.', 401);
+        }
+        if (data?.error === 'invalid_client') {
+          throw new RedditAPIError('Invalid Reddit client credentials. Please check your app configuration.', 401);
+        }
+        if (data?.error === 'too_many_requests' || response.status === 429) {
+          throw new RedditAPIError('Rate limited by Reddit. Please try again later.', 429);
+        }
+        if (data?.error) {
+          throw new RedditAPIError(`Reddit OAuth error: ${data.error}`, response.status);
+        }
+        throw new RedditAPIError(
+          response.ok ? 'Token refresh did not return an access token' : `Failed to refresh token: ${response.status} ${responseText}`,
+          response.status
+        );
+      }
+
+      const tokens: RedditTokens = {
+        accessToken: data.access_token,
+        refreshToken,
+        expiresAt: Date.now() + (data.expires_in || 3600) * 1000 - EXPIRY_MARGIN_MS
+      };
+
+      await this.tokenStore?.save(accountId, tokens);
+      console.log(`Token refreshed for account ID: ${accountId}`);
+      return tokens;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Revoked tokens were recorded above
+      if (!(error instanceof RedditAPIError && error.status === 401)) {
+        await this.tokenStore?.recordRefreshFailure?.(accountId, message, false);
+      }
+
+      if (error instanceof RedditAPIError) throw error;
+      throw new RedditAPIError(`Failed to refresh token: ${message}`);
+    }
+  }
+
+  private async refreshCurrentAccount(): Promise<void> {
+    if (!this.accountId || !this.refreshToken) {
+      throw new RedditAPIError('No refresh token available');
+    }
+
+    try {
+      const tokens = await this.refreshAccountToken(this.accountId, this.refreshToken);
+      this.accessToken = tokens.accessToken;
+      this.expiresAt = tokens.expiresAt;
+    } catch (error) {
+      this.accessToken = null;
+      this.expiresAt = 0;
+      throw error;
+    }
+  }
+
+  private async verifyCredentials(): Promise<void> {
+    if (!this.accessToken) {
+      throw new RedditAPIError('Account not properly authenticated');
+    }
+
+    const response = await this.send('/api/v1/me', {}, { accessToken: this.accessToken, accountId: this.accountId || undefined });
+    if (!response.ok) {
+      throw new RedditAPIError('Failed to verify account credentials', response.status);
+    }
+
+    const data = await response.json();
+    if (data.client_id && this.clientId && data.client_id !== this.clientId) {
+      throw new RedditAPIError('Account credentials do not match current app credentials');
+    }
+  }
+
+  // Move to the least used account the store knows of; one rotation at a time
+  private async rotateAccount(): Promise<void> {
+    if (!this.tokenStore?.pickAccount) return;
+    if (this.rotation) return this.rotation;
+
+    this.rotation = (async () => {
+      try {
+        const accountId = await this.tokenStore!.pickAccount!();
+        if (accountId && accountId !== this.accountId) {
+          await this.setAccountAuth(accountId);
+        }
+      } catch (error) {
+        // Logged-out requests still work for public data
+        console.warn('Unable to rotate Reddit account, continuing without one:', error);
+      } finally {
+        this.rotation = null;
+      }
+    })();
+
+    return this.rotation;
+  }
+
+  private async ensureAuth(): Promise<void> {
+    if (!this.accountId || this.rateLimits.isNearLimit(this.accountId)) {
+      await this.rotateAccount();
+    }
+
+    if (this.accountId && (!this.accessToken || Date.now() >= this.expiresAt)) {
+      await this.refreshCurrentAccount();
+    }
+  }
+
+  // Transport
+
+  // Queue a request and return Reddit's response as is
+  private async send(endpoint: string, init: RequestInit = {}, auth: RequestAuth = 'account'): Promise<Response> {
+    if (auth === 'account') {
+      await this.ensureAuth();
+    }
+
+    const token = auth === 'public' ? null : auth === 'account' ? this.accessToken : auth.accessToken;
+    const accountId = auth === 'public' ? null : auth === 'account' ? this.accountId : auth.accountId || null;
+    const key = accountId || (token ? `token:${token.slice(-8)}` : 'public');
+    const url = endpoint.startsWith('http') ? endpoint : `${token ? this.urls.oauth : this.urls.www}${endpoint}`;
+
+    const headers = new Headers(init.headers);
+    headers.set('User-Agent', this.userAgent);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    // Wait for the account's own budget before taking a place in the shared queue
+    await this.rateLimits.acquire(key);
+
+    return this.queue.enqueue(async () => {
+      if (accountId) {
+        await this.tokenStore?.recordUsage?.(accountId, endpoint);
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, { ...init, headers });
+      } catch (error) {
+        console.error('Reddit API request failed:', error);
+        // Only a connection that was never made is sure not to have reached Reddit
+        const code: string | undefined = (error as { cause?: { code?: string } })?.cause?.code;
+        if (code && PRE_SEND_ERROR_CODES.includes(code)) {
+          throw new RedditAPIError(`Failed to connect to Reddit (${code}). Please check your internet connection.`, undefined, endpoint);
+        }
+        throw new RedditAPIError('Failed to connect to Reddit. Please check your internet connection.', undefined, endpoint, true);
+      }
+
+      this.rateLimits.updateFromHeaders(key, response.headers);
+      return response;
+    });
+  }
+
+  // Queue a request and parse the JSON body, retrying reads that fail for a transient reason
+  private async request<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const { auth = 'account', retries, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    const attempts = retries ?? (method === 'GET' ? 3 : 1);
+
+    return this.retryWithBackoff(async () => {
+      const response = await this.send(endpoint, init, auth);
+      return this.handleResponse(response, endpoint);
+    }, attempts);
+  }
+
+  private async handleResponse(response: Response, endpoint: string) {
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      let errorData: any = {};
+      try {
+        errorData = JSON.parse(responseText);
+      } catch {
+        // Keep the text as is
+      }
+
+      if (response.status === 403) {
+        if (endpoint.includes('/about') && endpoint.includes('/r/')) {
+          if (responseText.includes('quarantine')) {
+            throw new RedditAPIError('This subreddit is quarantined', 403, endpoint);
+          } else if (responseText.includes('private')) {
+            throw new RedditAPIError('This subreddit is private', 403, endpoint);
+          } else if (responseText.includes('banned')) {
+            throw new RedditAPIError('This subreddit has been banned', 403, endpoint);
+          }
+          throw new RedditAPIError('Access denied', 403, endpoint);
+        }
+
+        if (errorData.error === 'invalid_token' || errorData.error === 'unauthorized') {
+          throw new RedditAPIError('Your Reddit session has expired. Please reconnect your account.', 403, endpoint);
+        }
+      }
+
+      throw new RedditAPIError(
+        formatRedditErrors(errorData) || errorData.message || `Reddit API error (${response.status})`,
+        response.status,
+        endpoint
+      );
+    }
+
+    try {
+      return JSON.parse(responseText);
+    } catch {
+      // An OK status with a non-JSON body is rare, but possible
+      return { text: responseText };
+    }
+  }
+
+  private async retryWithBackoff<T>(operation: () => Promise<T>, maxAttempts = 3, baseDelay = 1000): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        // Client errors other than rate limiting won't go away by asking again
+        const status = error instanceof RedditAPIError ? error.status : undefined;
+        const retryable = status === undefined || status === 429 || status >= 500;
+        if (attempt >= maxAttempts || !retryable) {
+          throw error;
+        }
+
+        const delay = baseDelay * Math.pow(2, attempt - 1) + Math.random() * 1000;
+        console.log(`Retrying Reddit request after ${Math.round(delay)}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private getCached<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (!cached) return null;
+
+    if (Date.now() > cached.expiresAt) {
+      this.cache.delete(key);
+      return null;
+    }
+    return cached.data;
+  }
+
+  private setCached(key: string, data: any): void {
+    this.cache.set(key, { data, expiresAt: Date.now() + this.cacheTtl });
+  }
+
+  // Subreddits
+
+  async getSubredditAbout(subreddit: string): Promise<SubredditAbout> {
+    const name = this.requireSubredditName(subreddit, 'subreddit/about');
+    const endpoint = `/r/${name}/about.json`;
+    const response = await this.request(endpoint);
+
+    if (!response?.data) {
+      throw new RedditAPIError('Subreddit not found', 404, endpoint);
+    }
+    return response.data;
+  }
+
+  async getSubredditRules(subreddit: string): Promise<SubredditRule[]> {
+    const name = this.requireSubredditName(subreddit, 'subreddit/rules');
+    const response = await this.request(`/r/${name}/about/rules.json`);
+    return response?.rules || [];
+  }
+
+  async getSubredditInfo(subreddit: string): Promise<SubredditInfo> {
+    const name = this.requireSubredditName(subreddit, 'subreddit/about');
+    const cacheKey = `subreddit:${name}`;
+    const cached = this.getCached<SubredditInfo>(cacheKey);
+    if (cached) return cached;
+
+    const about = await this.getSubredditAbout(name);
+
+    let rules: SubredditInfo['rules'] = [];
+    try {
+      rules = (await this.getSubredditRules(name)).map(rule => ({
+        title: rule.short_name,
+        description: rule.description
+      }));
+    } catch (ruleError) {
+      // Rules are a nice-to-have next to the subreddit itself
+      console.warn(`Could not fetch rules for r/${name}:`, ruleError);
+    }
+
+    const info = normalizeSubreddit(about, rules);
+    this.setCached(cacheKey, info);
+    return info;
+  }
+
+  async getSubredditPosts(
+    subreddit: string,
+    sort: PostSort = 'hot',
+    limit = 25,
+    timeframe: PostTimeframe = 'day',
+    pagination?: { after?: string | null; before?: string | null }
+  ): Promise<SubredditPostsPage> {
+    const name = this.requireSubredditName(subreddit, 'subreddit/posts');
+    // Reddit returns at most 100 per page
+    const params = new URLSearchParams({ limit: String(Math.min(Math.max(1, limit), 100)) });
+    if (sort === 'top') params.set('t', timeframe);
+    if (pagination?.after) params.set('after', pagination.after);
+    if (pagination?.before) params.set('before', pagination.before);
+
+    const response = await this.request(`/r/${name}/${sort}.json?${params}`);
+    if (!response?.data?.children) {
+      throw new RedditAPIError('Invalid response from Reddit API', 0, 'posts');
+    }
+
+    return {
+      posts: normalizeRedditPosts(response.data.children),
+      pagination: {
+        after: response.data.after || null,
+        before: response.data.before || null,
+        count: response.data.children.length
+      }
+    };
+  }
+
+  // Page through a listing until maxPosts are collected or it runs out
+  async getAllSubredditPosts(
+    subreddit: string,
+    sort: PostSort = 'hot',
+    maxPosts = 100,
+    timeframe: PostTimeframe = 'day',
+    onProgress?: (posts: SubredditPost[], totalFetched: number) => void
+  ): Promise<SubredditPost[]> {
+    const pageSize = Math.min(100, maxPosts);
+    let allPosts: SubredditPost[] = [];
+    let after: string | null = null;
+
+    while (allPosts.length < maxPosts) {
+      const page = await this.getSubredditPosts(subreddit, sort, pageSize, timeframe, { after });
+      allPosts = [...allPosts, ...page.posts];
+      onProgress?.(page.posts, allPosts.length);
+
+      after = page.pagination.after;
+      if (!after || page.posts.length === 0) break;
+    }
+
+    return allPosts.slice(0, maxPosts);
+  }
+
+  // One post of a subreddit; null when it doesn't exist or was deleted
+  async getPost(subreddit: string, postId: string): Promise<SubredditPost | null> {
+    const name = this.requireSubredditName(subreddit, 'subreddit/post');
+    const endpoint = `/r/${name}/comments/${encodeURIComponent(postId)}.json?raw_json=1`;
+
+    try {
+      const response = await this.request(endpoint);
+      const child = response?.[0]?.data?.children?.[0];
+      if (!child?.data) {
+        throw new RedditAPIError('Invalid response from Reddit API', 0, endpoint);
+      }
+      return normalizeRedditPost(child);
+    } catch (error) {
+      if (error instanceof RedditAPIError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async searchSubreddits(query: string): Promise<SubredditInfo[]> {
+    if (!query.trim()) {
+      throw new RedditAPIError('Empty search query', 400, 'subreddit/search');
+    }
+
+    const response = await this.request(`/subreddits/search.json?q=${encodeURIComponent(query.trim())}&limit=10`);
+    if (!response?.data?.children) {
+      throw new RedditAPIError('Invalid response from Reddit API', 0, 'search');
+    }
+
+    return response.data.children
+      .filter((child: any) => child.data)
+      .map((child: any) => normalizeSubreddit(child.data));
+  }
+
+  // Link flair templates users can pick when posting (needs the flair scope)
+  async getLinkFlairs(subreddit: string): Promise<RedditLinkFlair[]> {
+    const name = this.requireSubredditName(subreddit, 'api/link_flair_v2');
+    const response = await this.request(`/r/${name}/api/link_flair_v2`);
+    if (!Array.isArray(response)) {
+      return [];
+    }
+
+    return response.map((flair: any) => ({
+      id: flair.id,
+      text: decodeHtmlEntities(flair.text || ''),
+      text_editable: Boolean(flair.text_editable),
+      mod_only: Boolean(flair.mod_only),
+      background_color: flair.background_color || null,
+      text_color: flair.text_color || null
+    }));
+  }
+
+  // Flair, title and body requirements the subreddit enforces on new posts
+  async getPostRequirements(subreddit: string): Promise<PostRequirements> {
+    const name = this.requireSubredditName(subreddit, 'post_requirements');
+    const response = await this.request(`/api/v1/${name}/post_requirements`);
+    const strings = (value: unknown) => (Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim()) : []);
+
+    return {
+      is_flair_required: Boolean(response?.is_flair_required),
+      title_text_min_length: response?.title_text_min_length || null,
+      title_text_max_length: response?.title_text_max_length || null,
+      title_required_strings: strings(response?.title_required_strings),
+      title_blacklisted_strings: strings(response?.title_blacklisted_strings),
+      body_restriction_policy: ['required', 'notAllowed'].includes(response?.body_restriction_policy)
+        ? response.body_restriction_policy
+        : 'none',
+      body_text_min_length: response?.body_text_min_length || null,
+      body_text_max_length: response?.body_text_max_length || null,
+      body_blacklisted_strings: strings(response?.body_blacklisted_strings)
+    };
+  }
+
+  // Whether the subreddit removes posts without flair
+  async isFlairRequired(subreddit: string): Promise<boolean> {
+    return (await this.getPostRequirements(subreddit)).is_flair_required;
+  }
+
+  private requireSubredditName(subreddit: string, endpoint: string): string {
+    const name = parseSubredditName(subreddit);
+    if (!name) {
+      throw new RedditAPIError('Invalid subreddit name', 400, endpoint);
+    }
+    return name;
+  }
+
+  // Users
+
+  async getUserPosts(username: string, sort: 'new' | 'top' = 'new'): Promise<SubredditPost[]> {
+    const name = parseUsername(username);
+    if (!name) {
+      throw new RedditAPIError('Invalid username format', 400, 'user/about');
+    }
+
+    try {
+      const about = await this.request(`/user/${name}/about.json`);
+      if (!about?.data) {
+        throw new RedditAPIError(`User ${name} not found`, 404, 'user/about');
+      }
+      this.setCached(`user:${name}`, about.data);
+
+      const endpoint = `/user/${name}/submitted?limit=25&sort=${sort}${sort === 'top' ? '&t=all' : ''}`;
+      const response = await this.request(endpoint);
+      if (!response?.data?.children) {
+        throw new RedditAPIError(`No posts found for user ${name}`, 404, endpoint);
+      }
+
+      return normalizeRedditPosts(response.data.children);
+    } catch (error) {
+      if (error instanceof RedditAPIError) {
+        if (error.status === 403) {
+          throw new RedditAPIError(`User ${name} is private or suspended`, 403, 'user/about');
+        }
+        if (error.status === 404) {
+          throw new RedditAPIError(`User ${name} not found`, 404, 'user/about');
+        }
+        throw error;
+      }
+
+      throw new RedditAPIError(`Failed to fetch posts for user ${name}`, 500, 'user/posts');
+    }
+  }
+
+  async getUserInfo(username: string): Promise<RedditUserInfo | null> {
+    const name = parseUsername(username);
+    if (!name) return null;
+
+    try {
+      const cacheKey = `user:${name}`;
+      let data = this.getCached<any>(cacheKey);
+      if (!data) {
+        data = (await this.request(`/user/${name}/about.json`))?.data;
+        if (!data) return null;
+        this.setCached(cacheKey, data);
+      }
+
+      return {
+        avatar_url: cleanImageUrl(data.icon_img || data.snoovatar_img),
+        name: data.name,
+        created_utc: data.created_utc,
+        total_karma: (data.link_karma || 0) + (data.comment_karma || 0)
+      };
+    } catch (error) {
+      console.error('Error fetching user info:', error);
+      return null;
+    }
+  }
+
+  // How a user's profile looks to a logged-out visitor; shadowbanned accounts 404
+  async getPublicProfileStatus(username: string): Promise<PublicProfileStatus> {
+    const name = username.replace(/^\/?u\//i, '');
+    const response = await this.send(`/user/${encodeURIComponent(name)}/about.json`, {}, 'public');
+
+    if (response.status === 404) {
+      return 'not_found';
+    }
+    if (!response.ok) {
+      throw new RedditAPIError(`Reddit API error (${response.status}): ${await response.text()}`, response.status);
+    }
+
+    const data = await response.json();
+    return data?.data?.is_suspended ? 'suspended' : 'visible';
+  }
+
+  // Which subreddits a user posts to most, from their posts
+  async analyzePostFrequency(posts: SubredditPost[]): Promise<SubredditFrequency[]> {
+    const subredditMap = new Map<string, { count: number; name: string; posts: SubredditPost[] }>();
+
+    for (const post of posts) {
+      const key = post.subreddit.toLowerCase();
+      const entry = subredditMap.get(key);
+      if (!entry) {
+        subredditMap.set(key, { count: 1, name: post.subreddit, posts: [post] });
+      } else {
+        entry.count += 1;
+        if (entry.posts.length < 3) {
+          entry.posts.push(post);
+        }
+      }
+    }
+
+    const top = [...subredditMap.entries()]
+      .sort((a, b) => b[1].count - a[1].count)
+      .slice(0, 10);
+
+    const frequencies: SubredditFrequency[] = [];
+    for (const [name, entry] of top) {
+      try {
+        const info = await this.getSubredditInfo(name);
+        frequencies.push({
+          name: info.name,
+          count: entry.count,
+          subscribers: info.subscribers,
+          active_users: info.active_users,
+          icon_img: info.icon_img,
+          community_icon: info.community_icon,
+          lastPosts: entry.posts
+        });
+      } catch (error) {
+        // Still list the subreddit without its details
+        console.error(`Error getting details for r/${name}:`, error);
+        frequencies.push({
+          name: entry.name,
+          count: entry.count,
+          subscribers: 0,
+          active_users: 0,
+          icon_img: null,
+          community_icon: null,
+          lastPosts: entry.posts
+        });
+      }
+    }
+
+    return frequencies;
+  }
+
+  // Submissions
+
+  // Current stats of submissions as a logged-out visitor sees them, or as the account behind accessToken does
+  async getSubmissions(postIds: string[], accessToken?: RedditAccessToken): Promise<RedditSubmissionStats[]> {
+    const results: RedditSubmissionStats[] = [];
+    const auth: RequestAuth = accessToken ? tokenAuth(accessToken) : 'public';
+
+    // /api/info accepts up to 100 fullnames per request
+    for (let i = 0; i < postIds.length; i += 100) {
+      const fullnames = postIds.slice(i, i + 100).map(id => (id.startsWith('t3_') ? id : `t3_${id}`));
+      const data = await this.request(`/api/info${accessToken ? '' : '.json'}?raw_json=1&id=${fullnames.join(',')}`, { auth });
+
+      for (const child of data?.data?.children || []) {
+        results.push({
+          id: child.data.id,
+          author: child.data.author || '[deleted]',
+          score: child.data.score ?? 0,
+          upvote_ratio: child.data.upvote_ratio ?? 0,
+          num_comments: child.data.num_comments ?? 0,
+          removed_by_category: child.data.removed_by_category || null,
+          selftext: child.data.selftext
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // Submit a post as the account behind accessToken; failures are returned rather than thrown
+  async submitPost(params: RedditPostParams, accessToken: RedditAccessToken): Promise<RedditPostResponse> {
+    try {
+      const subreddit = sanitizeString(params.subreddit);
+      const title = sanitizeString(params.title);
+      const auth = tokenAuth(accessToken);
+
+      // Flair and visibility options are shared by every kind of submission
+      const options: Record<string, string | boolean> = {
+        sendreplies: params.sendReplies ?? true,
+        nsfw: params.nsfw ?? false,
+        spoiler: params.spoiler ?? false
+      };
+      if (params.flairId) {
+        options.flair_id = params.flairId;
+        if (params.flairText) {
+          options.flair_text = sanitizeString(params.flairText);
+        }
+      }
+
+      if (params.kind === 'gallery') {
+        return await this.submitGalleryPost(subreddit, title, params.username, params.galleryItems || [], options, accessToken);
+      }
+
+      const body: Record<string, string | boolean | undefined> = {
+        sr: subreddit,
+        title,
+        api_type: 'json',
+        resubmit: true,
+        ...options
+      };
+
+      if (params.kind === 'image' || params.kind === 'video') {
+        const mediaUrl = params.mediaUrl ? sanitizeUrl(params.mediaUrl) : '';
+        if (!mediaUrl) {
+          throw new Error(`Missing media URL for ${params.kind} post`);
+        }
+
+        // Upload the file itself so Reddit hosts it instead of linking to our storage
+        const asset = await this.uploadMediaAsset(mediaUrl, accessToken);
+        body.kind = params.kind;
+        body.url = asset.url;
+
+        if (params.kind === 'video') {
+          const posterUrl = params.posterUrl ? sanitizeUrl(params.posterUrl) : '';
+          if (!posterUrl) {
+            throw new Error('Missing poster image for video post');
+          }
+          body.video_poster_url = (await this.uploadMediaAsset(posterUrl, accessToken)).url;
+        }
+
+        if (params.text) {
+          body.text = sanitizeString(params.text, 'markdown');
+        }
+      } else if (params.kind === 'crosspost') {
+        if (!params.crosspostFullname || !/^t3_[a-z0-9]+$/i.test(params.crosspostFullname)) {
+          throw new Error('Missing or invalid post to crosspost');
+        }
+        body.kind = 'crosspost';
+        body.crosspost_fullname = params.crosspostFullname;
+      } else if (params.kind === 'link') {
+        const url = params.url ? sanitizeUrl(params.url) : '';
+        if (!url) {
+          throw new Error('Missing URL for link post');
+        }
+        body.kind = 'link';
+        body.url = url;
+      } else {
+        body.kind = 'self';
+        body.text = params.text ? sanitizeString(params.text, 'markdown') : '';
+      }
+
+      const form = new URLSearchParams();
+      Object.entries(body).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          form.append(key, String(value));
+        }
+      });
+
+      const submittedAt = Date.now();
+      let data: any;
+      try {
+        data = await this.postForm('/api/submit', form, auth);
+      } catch (error) {
+        return await this.locateUncertainSubmission(
+          error,
+          { subreddit, title, username: params.username, submittedAt, isVideo: params.kind === 'video' },
+          accessToken
+        );
+      }
+
+      // Native media posts are created asynchronously once Reddit has processed the upload
+      if (!data.json?.data?.id && (data.json?.data?.websocket_url || data.json?.data?.user_submitted_page)) {
+        const resolved = await this.resolveMediaSubmission(
+          data.json.data.websocket_url,
+          { subreddit, title, username: params.username, submittedAt, isVideo: params.kind === 'video' },
+          accessToken
+        );
+
+        if (!resolved) {
+          console.warn(`Reddit accepted the ${params.kind} post but it could not be located yet`);
+          return { success: true, unresolved: true };
+        }
+        return { success: true, postId: resolved.postId, permalink: resolved.permalink };
+      }
+
+      const postId = data.json?.data?.id || data.id || data.name;
+      if (!postId) {
+        console.warn('Unexpected Reddit API response format:', data);
+      }
+
+      return {
+        success: true,
+        postId: postId || 'unknown',
+        permalink: data.json?.data?.permalink || data.permalink
+      };
+    } catch (error) {
+      console.error('Error posting to Reddit API:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Upload an image or video to Reddit's media storage using a media asset lease
+  async uploadMediaAsset(mediaUrl: string, accessToken: RedditAccessToken): Promise<RedditMediaAsset> {
+    const sourceUrl = sanitizeUrl(mediaUrl);
+    if (!sourceUrl) {
+      throw new Error('Invalid media URL');
+    }
+
+    // The file comes from our own storage, so it doesn't go through the Reddit queue
+    const sourceResponse = await this.fetchImpl(sourceUrl);
+    if (!sourceResponse.ok) {
+      throw new Error(`Failed to download media (${sourceResponse.status}): ${sourceUrl}`);
+    }
+
+    const file = await sourceResponse.blob();
+    const filename = decodeURIComponent(new URL(sourceUrl).pathname.split('/').pop() || 'upload.jpg');
+    const mimetype = file.type || guessMimeType(filename);
+
+    const lease = await this.postForm('/api/media/asset.json', new URLSearchParams({ filepath: filename, mimetype }), tokenAuth(accessToken));
+
+    const action: string | undefined = lease.args?.action;
+    const fields: Array<{ name: string; value: string }> = lease.args?.fields || [];
+    const assetId: string | undefined = lease.asset?.asset_id;
+    if (!action || !assetId) {
+      throw new Error('Reddit media lease response is missing the upload target');
+    }
+
+    // Upload to the leased storage bucket; the file must be the last form field
+    const uploadUrl = action.startsWith('//') ? `https:${action}` : action;
+    const form = new FormData();
+    fields.forEach(field => form.append(field.name, field.value));
+    form.append('file', file, filename);
+
+    const uploadResponse = await this.fetchImpl(uploadUrl, { method: 'POST', body: form });
+    if (!uploadResponse.ok) {
+      throw new Error(`Reddit media upload failed (${uploadResponse.status})`);
+    }
+
+    const key = fields.find(field => field.name === 'key')?.value;
+    return { assetId, url: key ? `${uploadUrl}/${key}` : uploadUrl };
+  }
+
+  // Reply to a post or comment as the account that owns the access token
+  async submitComment(parentFullname: string, text: string, accessToken: RedditAccessToken): Promise<RedditCommentResponse> {
+    const data = await this.postForm('/api/comment', new URLSearchParams({
+      api_type: 'json',
+      thing_id: parentFullname,
+      text: sanitizeString(text, 'markdown')
+    }), tokenAuth(accessToken));
+
+    const comment = data.json?.data?.things?.[0]?.data;
+    if (!comment?.id) {
+      throw new Error('Reddit did not return an id for the comment');
+    }
+
+    return {
+      commentId: comment.id,
+      fullname: comment.name || `t1_${comment.id}`,
+      permalink: comment.permalink
+    };
+  }
+
+  // Distinguish a comment as a moderator, optionally stickying it to the top of the thread
+  async distinguishComment(commentFullname: string, sticky: boolean, accessToken: RedditAccessToken): Promise<void> {
+    await this.postForm('/api/distinguish', new URLSearchParams({
+      api_type: 'json',
+      id: commentFullname,
+      how: 'yes',
+      sticky: String(sticky)
+    }), tokenAuth(accessToken));
+  }
+
+  // POST to a write endpoint, which reports errors in the body of a 200 as often as in the status
+  private async postForm(endpoint: string, body: URLSearchParams | string, auth: RequestAuth, contentType = 'application/x-www-form-urlencoded'): Promise<any> {
+    const response = await this.send(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: body.toString()
+    }, auth);
+
+    const responseText = await response.text();
+    let data: any = {};
+    try {
+      data = JSON.parse(responseText);
+    } catch {
+      if (response.ok) {
+        throw new Error(`Failed to parse Reddit API response: ${responseText}`);
+      }
+    }
+
+    const errors = formatRedditErrors(data);
+    if (!response.ok || errors) {
+      const detail = errors || data.message
+        || (typeof data.error === 'string' ? data.error : data.error ? JSON.stringify(data.error) : null)
+        || responseText;
+      throw new RedditAPIError(`Reddit API error (${response.status}): ${detail}`, response.status, endpoint);
+    }
+
+    return data;
+  }
+
+  // Upload each gallery image and submit them as one gallery post
+  private async submitGalleryPost(
+    subreddit: string,
+    title: string,
+    username: string | undefined,
+    items: RedditGalleryItemParams[],
+    options: Record<string, string | boolean>,
+    accessToken: RedditAccessToken
+  ): Promise<RedditPostResponse> {
+    if (items.length < 2) {
+      throw new Error('Gallery posts need at least 2 images');
+    }
+
+    const galleryItems = [];
+    for (const item of items) {
+      const asset = await this.uploadMediaAsset(item.mediaUrl, accessToken);
+      galleryItems.push({
+        media_id: asset.assetId,
+        caption: item.caption ? sanitizeString(item.caption) : '',
+        outbound_url: item.outboundUrl ? sanitizeUrl(item.outboundUrl) : ''
+      });
+    }
+
+    const submittedAt = Date.now();
+    let data: any;
+    try {
+      data = await this.postForm('/api/submit_gallery_post.json?raw_json=1', JSON.stringify({
+        sr: subreddit,
+        title,
+        items: galleryItems,
+        api_type: 'json',
+        show_error_list: true,
+        resubmit: true,
+        ...options
+      }), tokenAuth(accessToken), 'application/json');
+    } catch (error) {
+      return await this.locateUncertainSubmission(error, { subreddit, title, username, submittedAt, isVideo: false }, accessToken);
+    }
+
+    const postId: string | undefined = data.json?.data?.id;
+    if (!postId) {
+      throw new Error('Reddit did not return an id for the gallery post');
+    }
+
+    // The gallery endpoint returns the post URL rather than a permalink
+    const galleryUrl: string | undefined = data.json?.data?.url;
+    return {
+      success: true,
+      postId: postId.replace(/^t3_/, ''),
+      permalink: galleryUrl ? galleryUrl.replace(/^https?:\/\/(www\.)?reddit\.com/, '') : undefined
+    };
+  }
+
+  // A submit whose connection dropped, or that Reddit answered with a server error, may still have
+  // created the post; it is looked for rather than reported as failed, so it is never submitted twice
+  private async locateUncertainSubmission(
+    error: unknown,
+    submission: { subreddit: string; title: string; username?: string; submittedAt: number; isVideo: boolean },
+    accessToken: RedditAccessToken
+  ): Promise<RedditPostResponse> {
+    const uncertain = error instanceof RedditAPIError && (error.uncertain || (error.status ?? 0) >= 500);
+    if (!uncertain) {
+      throw error;
+    }
+
+    console.warn('Reddit submit may have gone through, looking for the post:', error);
+    let found: { postId: string; permalink: string } | null = null;
+    if (submission.username) {
+      try {
+        found = await this.findSubmittedPost({ ...submission, username: submission.username }, accessToken);
+      } catch (lookupError) {
+        console.warn('Could not look for the submitted post:', lookupError);
+      }
+    }
+
+    return found ? { success: true, ...found } : { success: true, unresolved: true };
+  }
+
+  // Find the post Reddit creates for a native image or video upload
+  private async resolveMediaSubmission(
+    websocketUrl: string | undefined,
+    submission: { subreddit: string; title: string; username?: string; submittedAt: number; isVideo: boolean },
+    accessToken: RedditAccessToken
+  ): Promise<{ postId: string; permalink: string } | null> {
+    // Videos need transcoding before the post exists, which can take a few minutes
+    const deadline = Date.now() + (submission.isVideo ? 5 * 60 * 1000 : 60 * 1000);
+
+    // The websocket reports the new post as soon as it is created (browsers and newer Node versions)
+    if (websocketUrl && typeof WebSocket !== 'undefined') {
+      const redirect = await this.waitForMediaWebsocket(websocketUrl, deadline - Date.now());
+      const postId = redirect?.match(/\/comments\/([a-z0-9]+)/i)?.[1];
+      if (redirect && postId) {
+        return { postId, permalink: redirect.replace(/^https?:\/\/(www\.)?reddit\.com/, '') };
+      }
+    }
+
+    // Otherwise poll the account's submissions until the post shows up and has finished processing
+    if (!submission.username) {
+      return null;
+    }
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 5000));
+
+      const found = await this.findSubmittedPost({ ...submission, username: submission.username }, accessToken);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  // Look for a native media post among the account's latest submissions; null while it isn't
+  // there or a video is still transcoding
+  async findSubmittedPost(
+    submission: { subreddit: string; title: string; username: string; submittedAt: number; isVideo: boolean },
+    accessToken: RedditAccessToken
+  ): Promise<{ postId: string; permalink: string } | null> {
+    const response = await this.send(
+      `/user/${encodeURIComponent(submission.username)}/submitted?sort=new&limit=25&raw_json=1`,
+      {},
+      tokenAuth(accessToken)
+    );
+    if (!response.ok) return null;
+
+    const listing = await response.json();
+    const match = (listing.data?.children || [])
+      .map((child: any) => child.data)
+      .find((post: any) =>
+        post.subreddit?.toLowerCase() === submission.subreddit.toLowerCase() &&
+        post.title === submission.title &&
+        post.created_utc * 1000 >= submission.submittedAt - 60 * 1000
+      );
+    if (!match) return null;
+
+    const transcoding = match.media?.reddit_video?.transcoding_status;
+    if (submission.isVideo && transcoding && transcoding !== 'completed') return null;
+
+    return { postId: match.id, permalink: match.permalink };
+  }
+
+  // Wait for Reddit's media websocket to report the created post, returning its URL
+  private waitForMediaWebsocket(websocketUrl: string, timeoutMs: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(websocketUrl);
+      const timer = setTimeout(() => {
+        socket.close();
+        resolve(null);
+      }, Math.max(0, timeoutMs));
+
+      socket.onmessage = (event) => {
+        let message;
+        try {
+          message = JSON.parse(String(event.data));
+        } catch {
+          return;
+        }
+
+        if (message.type === 'success') {
+          clearTimeout(timer);
+          socket.close();
+          resolve(message.payload?.redirect || null);
+        } else if (message.type === 'failed') {
+          clearTimeout(timer);
+          socket.close();
+          reject(new Error('Reddit failed to process the uploaded media'));
+        }
+      };
+
+      socket.onerror = () => {
+        clearTimeout(timer);
+        resolve(null);
+      };
+    });
+  }
+}
+
+function tokenAuth(token: RedditAccessToken): RequestAuth {
+  return typeof token === 'string' ? { accessToken: token } : token;
+}
+
+export function createRedditClient(options: RedditClientOptions = {}): RedditClient {
+  return new RedditClient(options);
+}
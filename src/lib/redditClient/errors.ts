@@ -0,0 +1,19 @@
+export class RedditAPIError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public endpoint?: string,
+    // The connection failed after the request may already have reached Reddit
+    public uncertain = false
+  ) {
+    super(message);
+    this.name = 'RedditAPIError';
+  }
+}
+
+// Reddit's error list from a { json: { errors } } body, joined for a message
+export function formatRedditErrors(data: any): string | null {
+  const errors = data?.json?.errors;
+  if (!Array.isArray(errors) || errors.length === 0) return null;
+  return errors.map((error: any[]) => error.join(': ')).join(', ');
+}
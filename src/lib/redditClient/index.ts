@@ -0,0 +1,15 @@
+// Reddit API client shared by the browser, workers and Node. Import the ready-made instance
+// from './browser' in the app; Node code creates its own with createRedditClient.
+export { RedditClient, createRedditClient } from './client';
+export type { RedditClientOptions } from './client';
+export { RedditAPIError, formatRedditErrors } from './errors';
+export { RequestQueue, sharedRequestQueue } from './requestQueue';
+export { RateLimitTracker, sharedRateLimits } from './rateLimit';
+export type { RateLimitState, RateLimitTake, SharedRateLimitStore } from './rateLimit';
+export { SupabaseRateLimitStore } from './rateLimitStore';
+export { MemoryTokenStore, SupabaseTokenStore } from './tokenStore';
+export type { RedditTokenStore, StoredRedditAccount } from './tokenStore';
+export { REDDIT_URLS, redditUrls } from './urls';
+export type { RedditUrls } from './urls';
+export { cleanImageUrl, decodeHtmlEntities, parseSubredditName, parseUsername } from './normalize';
+export * from './types';
@@ -0,0 +1,192 @@
+import { escapeMarkdownBody } from '../redditMarkdown';
+import { SubredditInfo, SubredditPost } from './types';
+
+// Reddit HTML-encodes text and URLs in JSON responses unless raw_json=1 is passed
+export function decodeHtmlEntities(text: string): string {
+  if (!text) return '';
+
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#x2F;/g, '/');
+}
+
+export function parseUsername(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  const cleaned = input.trim();
+  if (!cleaned) {
+    return '';
+  }
+
+  return cleaned.replace(/^\/?u\//i, '').toLowerCase();
+}
+
+// Subreddit names from "r/name", "/r/name", "name" or a reddit.com URL
+export function parseSubredditName(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  const cleaned = input.trim();
+  if (!cleaned) {
+    return '';
+  }
+
+  const urlMatch = cleaned.match(/(?:https?:\/\/)?(?:www\.)?reddit\.com\/r\/([^/?#]+)/i);
+  if (urlMatch) {
+    return urlMatch[1].replace(/^r\//, '').toLowerCase();
+  }
+
+  const withoutPrefix = cleaned.replace(/^\/?(r\/)?/i, '').split(/[/?#]/)[0];
+  return withoutPrefix.toLowerCase();
+}
+
+export function cleanImageUrl(url: string | null): string | null {
+  if (!url) return null;
+
+  // Handle special URL cases and invalid URLs
+  if (url === 'self' || url === 'default' || url === 'none' || url === 'null') {
+    return null;
+  }
+
+  // For nsfw or spoiler thumbnails, generate a placeholder image instead of returning null
+  if (url === 'nsfw') {
+    return `https://api.dicebear.com/7.x/shapes/svg?seed=nsfw&backgroundColor=A40000&radius=12`;
+  }
+
+  if (url === 'spoiler') {
+    return `https://api.dicebear.com/7.x/shapes/svg?seed=spoiler&backgroundColor=512DA8&radius=12`;
+  }
+
+  if (url.includes('?')) {
+    try {
+      const urlObj = new URL(url);
+      // Reddit's CDN needs its signature parameters
+      if (urlObj.hostname.includes('redd.it') ||
+          urlObj.hostname.includes('reddit.com') ||
+          urlObj.hostname.includes('redditstatic.com')) {
+        return url;
+      }
+
+      return `${urlObj.origin}${urlObj.pathname}`;
+    } catch (err) {
+      console.error('Failed to parse image URL:', err);
+      return url;
+    }
+  }
+
+  return url;
+}
+
+export function normalizeSubreddit(data: any, rules: SubredditInfo['rules'] = []): SubredditInfo {
+  return {
+    name: data.display_name,
+    title: data.title,
+    subscribers: data.subscribers || 0,
+    active_users: data.active_user_count || 0,
+    description: data.public_description || data.description || '',
+    created_utc: data.created_utc,
+    over18: data.over18 || false,
+    icon_img: cleanImageUrl(decodeHtmlEntities(data.icon_img)),
+    community_icon: cleanImageUrl(decodeHtmlEntities(data.community_icon)),
+    rules
+  };
+}
+
+export function normalizeRedditPosts(children: any[]): SubredditPost[] {
+  return children
+    .filter((child: any) => child.data && !child.data.stickied)
+    .map(normalizeRedditPost);
+}
+
+export function normalizeRedditPost(child: any): SubredditPost {
+  // Prefer a medium-sized preview image
+  let preview_url = null;
+  if (child.data.preview?.images?.[0]) {
+    const image = child.data.preview.images[0];
+    const mediumPreview = image.resolutions?.find((r: any) => r.width >= 320 && r.width <= 640);
+    const imageUrl = mediumPreview?.url || image.source?.url || null;
+    preview_url = cleanImageUrl(imageUrl ? decodeHtmlEntities(imageUrl) : null);
+  }
+
+  let thumbnail = cleanImageUrl(child.data.thumbnail ? decodeHtmlEntities(child.data.thumbnail) : null);
+
+  // NSFW posts often have a preview but no thumbnail
+  if (!thumbnail && preview_url && child.data.over_18) {
+    thumbnail = preview_url;
+  }
+
+  // A post that links straight to an image can use it as its thumbnail
+  if (!thumbnail && !preview_url && child.data.url) {
+    const postUrl = decodeHtmlEntities(child.data.url);
+    if (postUrl.match(/\.(jpe?g|png|gif|webp)$/i)) {
+      thumbnail = postUrl;
+    }
+  }
+
+  return {
+    id: child.data.id,
+    title: decodeHtmlEntities(child.data.title),
+    author: child.data.author,
+    subreddit: child.data.subreddit,
+    created_utc: child.data.created_utc,
+    score: child.data.score,
+    num_comments: child.data.num_comments,
+    url: child.data.url,
+    selftext: decodeHtmlEntities(child.data.selftext || ''),
+    thumbnail,
+    preview_url,
+    post_karma: child.data.author_karma || 0
+  };
+}
+
+// Text for submission; titles, flair and captions are shown as typed, so only markdown bodies are escaped
+export function sanitizeString(input: string, format: 'plain' | 'markdown' = 'plain'): string {
+  if (!input) return '';
+
+  return format === 'markdown'
+    ? escapeMarkdownBody(input).trimEnd()
+    : input.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// Normalized http(s) URL, or '' for anything else
+export function sanitizeUrl(url: string): string {
+  if (!url) return '';
+
+  try {
+    const parsed = new URL(url);
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      console.warn(`Blocked potentially unsafe URL protocol: ${parsed.protocol}`);
+      return '';
+    }
+    return parsed.toString();
+  } catch {
+    console.error('Invalid URL detected and blocked:', url);
+    return '';
+  }
+}
+
+export function guessMimeType(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'png': return 'image/png';
+    case 'gif': return 'image/gif';
+    case 'webp': return 'image/webp';
+    case 'mp4': return 'video/mp4';
+    case 'mov': return 'video/quicktime';
+    case 'webm': return 'video/webm';
+    default: return 'image/jpeg';
+  }
+}
+
+// Base64 that works in browsers and Node alike
+export function toBase64(value: string): string {
+  if (typeof btoa === 'function') return btoa(value);
+  return (globalThis as any).Buffer.from(value).toString('base64');
+}
@@ -0,0 +1,146 @@
+export interface RateLimitState {
+  remaining: number;
+  used: number;
+  resetAt: number; // Epoch milliseconds
+}
+
+// What taking a request from a bucket came to
+export interface RateLimitTake {
+  // False when the window is used up; the request should be tried again after waitMs
+  granted: boolean;
+  // How long to hold the request before sending it
+  waitMs: number;
+  state: RateLimitState;
+}
+
+// Buckets shared beyond this runtime, such as with other browser tabs or scheduler processes
+export interface SharedRateLimitStore {
+  // null when the store doesn't keep this key, which leaves it to the local bucket
+  take(key: string): Promise<RateLimitTake | null>;
+  report(key: string, state: RateLimitState): Promise<void>;
+}
+
+type RateLimitListener = (key: string, state: RateLimitState) => void;
+
+// Requests Reddit allows per client per minute, used until it reports its own numbers
+export const DEFAULT_RATE_LIMIT = 60;
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// Below this many requests left, the rest are spread out until the reset
+const PACE_BELOW = 10;
+// Share of the limit at which callers that can should move to another account
+const ROTATE_AT = 0.8;
+
+// Delay for a request given the bucket after taking it: none while there is plenty left,
+// then the time to the reset shared out between the requests that remain
+export function paceDelay(state: RateLimitState, now = Date.now()): number {
+  const untilReset = Math.max(0, state.resetAt - now);
+  if (state.remaining >= PACE_BELOW) return 0;
+  return Math.round(untilReset / (state.remaining + 1));
+}
+
+// A token bucket per OAuth token (by account id, or 'public' for logged-out requests), refilled
+// from the X-Ratelimit-* headers Reddit returns. Requests wait for a token before they are sent
+// rather than running into 429s. With a shared store the bucket is taken from there instead.
+export class RateLimitTracker {
+  private states = new Map<string, RateLimitState>();
+  private listeners = new Set<RateLimitListener>();
+
+  constructor(private readonly store?: SharedRateLimitStore) {}
+
+  get(key: string): RateLimitState {
+    const now = Date.now();
+    let state = this.states.get(key);
+    if (!state || now >= state.resetAt) {
+      state = { remaining: DEFAULT_RATE_LIMIT, used: 0, resetAt: now + RATE_LIMIT_WINDOW_MS };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  // Take a request from the local bucket
+  take(key: string): RateLimitTake {
+    const state = this.get(key);
+    if (state.remaining <= 0) {
+      return { granted: false, waitMs: Math.max(0, state.resetAt - Date.now()), state: { ...state } };
+    }
+
+    state.remaining -= 1;
+    state.used += 1;
+    this.notify(key, state);
+    return { granted: true, waitMs: paceDelay(state), state: { ...state } };
+  }
+
+  // Wait until a request for key may be sent
+  async acquire(key: string): Promise<void> {
+    for (;;) {
+      let take: RateLimitTake | null = null;
+      if (this.store) {
+        try {
+          take = await this.store.take(key);
+        } catch (error) {
+          console.warn('Shared rate limit unavailable, using the local one:', error);
+        }
+      }
+
+      if (take) {
+        this.states.set(key, take.state);
+        this.notify(key, take.state);
+      } else {
+        take = this.take(key);
+      }
+
+      const waitMs = take.waitMs;
+      if (waitMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+      }
+      if (take.granted) return;
+    }
+  }
+
+  updateFromHeaders(key: string, headers: Headers): void {
+    const remaining = parseFloat(headers.get('x-ratelimit-remaining') || '');
+    const used = parseFloat(headers.get('x-ratelimit-used') || '');
+    const reset = parseFloat(headers.get('x-ratelimit-reset') || '');
+
+    if ([remaining, used, reset].some(isNaN)) return;
+
+    const state = {
+      remaining: Math.floor(remaining),
+      used: Math.ceil(used),
+      resetAt: Date.now() + reset * 1000
+    };
+    this.merge(key, state);
+    this.store?.report(key, state).catch(error => console.warn('Could not share Reddit rate limit:', error));
+  }
+
+  // Apply a state seen elsewhere; within one window the lower budget wins, since responses
+  // to requests sent together can arrive in any order
+  merge(key: string, state: RateLimitState): void {
+    const current = this.states.get(key);
+    const sameWindow = current && Date.now() < current.resetAt && Math.abs(current.resetAt - state.resetAt) < 5000;
+    const merged = sameWindow
+      ? { remaining: Math.min(current.remaining, state.remaining), used: Math.max(current.used, state.used), resetAt: state.resetAt }
+      : { ...state };
+
+    this.states.set(key, merged);
+    this.notify(key, merged);
+  }
+
+  isNearLimit(key: string): boolean {
+    const state = this.get(key);
+    return state.used >= (state.used + state.remaining) * ROTATE_AT;
+  }
+
+  subscribe(listener: RateLimitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(key: string, state: RateLimitState): void {
+    this.listeners.forEach(listener => listener(key, { ...state }));
+  }
+}
+
+export const sharedRateLimits = new RateLimitTracker();
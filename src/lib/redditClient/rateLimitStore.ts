@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_RATE_LIMIT,
+  RATE_LIMIT_WINDOW_MS,
+  RateLimitState,
+  RateLimitTake,
+  SharedRateLimitStore,
+  paceDelay
+} from './rateLimit';
+
+// Only buckets of stored accounts are kept in the database
+const ACCOUNT_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toState(row: { remaining: number; used: number; reset_at: string }): RateLimitState {
+  return { remaining: row.remaining, used: row.used, resetAt: new Date(row.reset_at).getTime() };
+}
+
+// Buckets in the reddit_rate_limits table, shared by every process that uses an account
+export class SupabaseRateLimitStore implements SharedRateLimitStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async take(key: string): Promise<RateLimitTake | null> {
+    if (!ACCOUNT_ID.test(key)) return null;
+
+    const { data, error } = await this.supabase.rpc('take_reddit_rate_limit', {
+      p_account_id: key,
+      p_limit: DEFAULT_RATE_LIMIT,
+      p_window_seconds: RATE_LIMIT_WINDOW_MS / 1000
+    });
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    const state = toState(row);
+    return {
+      granted: row.granted,
+      waitMs: row.granted ? paceDelay(state) : Math.max(0, state.resetAt - Date.now()),
+      state
+    };
+  }
+
+  async report(key: string, state: RateLimitState): Promise<void> {
+    if (!ACCOUNT_ID.test(key)) return;
+
+    const { error } = await this.supabase.rpc('report_reddit_rate_limit', {
+      p_account_id: key,
+      p_remaining: state.remaining,
+      p_used: state.used,
+      p_reset_at: new Date(state.resetAt).toISOString()
+    });
+    if (error) throw error;
+  }
+
+  // Budgets of the given accounts as last stored; windows that have passed are left out
+  async list(accountIds: string[]): Promise<Map<string, RateLimitState>> {
+    const budgets = new Map<string, RateLimitState>();
+    if (accountIds.length === 0) return budgets;
+
+    const { data, error } = await this.supabase
+      .from('reddit_rate_limits')
+      .select('reddit_account_id, remaining, used, reset_at')
+      .in('reddit_account_id', accountIds)
+      .gt('reset_at', new Date().toISOString());
+    if (error) throw error;
+
+    (data || []).forEach(row => budgets.set(row.reddit_account_id, toState(row)));
+    return budgets;
+  }
+}
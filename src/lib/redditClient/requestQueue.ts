@@ -0,0 +1,58 @@
+// Runs Reddit requests one at a time with a minimum gap between them. Clients in the same
+// runtime share one queue, so a page and the scheduler don't together exceed Reddit's limits.
+export class RequestQueue {
+  private queue: Array<() => Promise<void>> = [];
+  private processing = false;
+  private lastRequestTime = 0;
+
+  constructor(private minDelayMs = 1000) {}
+
+  setMinDelay(ms: number): void {
+    this.minDelayMs = ms;
+  }
+
+  get minDelay(): number {
+    return this.minDelayMs;
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  // Per-account waits, such as the rate-limit bucket, belong before enqueue so that one account
+  // running out doesn't hold up the others queued behind it
+  enqueue<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push(async () => {
+        try {
+          const gap = this.minDelayMs - (Date.now() - this.lastRequestTime);
+          if (gap > 0) {
+            await new Promise(done => setTimeout(done, gap));
+          }
+
+          this.lastRequestTime = Date.now();
+          resolve(await task());
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      this.process();
+    });
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing) return;
+
+    this.processing = true;
+    try {
+      while (this.queue.length > 0) {
+        await this.queue.shift()!();
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+}
+
+export const sharedRequestQueue = new RequestQueue();
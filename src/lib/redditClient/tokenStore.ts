@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RedditAPIError } from './errors';
+import { RedditTokens } from './types';
+
+export interface StoredRedditAccount extends RedditTokens {
+  username: string | null;
+}
+
+// Where a client keeps account tokens. Only load and save are required; the rest let a store
+// rotate between accounts and record what happened to them.
+export interface RedditTokenStore {
+  // Throws when the account exists but can't be used
+  load(accountId: string): Promise<StoredRedditAccount | null>;
+  save(accountId: string, tokens: RedditTokens): Promise<void>;
+  // revoked is set when Reddit rejected the refresh token itself
+  recordRefreshFailure?(accountId: string, message: string, revoked: boolean): Promise<void>;
+  // The account to use when the caller didn't pick one
+  pickAccount?(): Promise<string | null>;
+  recordUsage?(accountId: string, endpoint: string): Promise<void>;
+}
+
+// Tokens held in memory, for scripts and tests that are handed tokens directly
+export class MemoryTokenStore implements RedditTokenStore {
+  private accounts = new Map<string, StoredRedditAccount>();
+
+  set(accountId: string, account: StoredRedditAccount): void {
+    this.accounts.set(accountId, account);
+  }
+
+  async load(accountId: string): Promise<StoredRedditAccount | null> {
+    return this.accounts.get(accountId) || null;
+  }
+
+  async save(accountId: string, tokens: RedditTokens): Promise<void> {
+    const existing = this.accounts.get(accountId);
+    this.accounts.set(accountId, { username: existing?.username ?? null, ...tokens });
+  }
+
+  async pickAccount(): Promise<string | null> {
+    return this.accounts.keys().next().value ?? null;
+  }
+}
+
+// Failed refreshes in a row after which an account is deactivated
+const MAX_REFRESH_ATTEMPTS = 3;
+const USAGE_WINDOW_MS = 60 * 1000;
+
+// Tokens in the reddit_accounts table, with usage counted in reddit_api_usage
+export class SupabaseTokenStore implements RedditTokenStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async load(accountId: string): Promise<StoredRedditAccount | null> {
+    const { data: account, error } = await this.supabase
+      .from('reddit_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!account) return null;
+
+    if (!account.is_active) {
+      throw new RedditAPIError(`Reddit account ${account.username} is inactive. Reason: ${account.refresh_error || 'Unknown'}`);
+    }
+
+    // The scheduler has stored tokens under oauth_* as well
+    return {
+      username: account.username,
+      accessToken: account.access_token || account.oauth_token,
+      refreshToken: account.refresh_token || account.oauth_refresh_token || null,
+      expiresAt: new Date(account.token_expiry || 0).getTime()
+    };
+  }
+
+  async save(accountId: string, tokens: RedditTokens): Promise<void> {
+    const { error } = await this.supabase
+      .from('reddit_accounts')
+      .update({
+        access_token: tokens.accessToken,
+        oauth_token: tokens.accessToken,
+        token_expiry: new Date(tokens.expiresAt).toISOString(),
+        last_token_refresh: new Date().toISOString(),
+        refresh_error: null,
+        refresh_attempts: 0,
+        is_active: true
+      })
+      .eq('id', accountId);
+
+    if (error) {
+      console.error('Error saving Reddit token:', error);
+    }
+  }
+
+  async recordRefreshFailure(accountId: string, message: string, revoked: boolean): Promise<void> {
+    try {
+      const { data: account } = await this.supabase
+        .from('reddit_accounts')
+        .select('refresh_attempts')
+        .eq('id', accountId)
+        .maybeSingle();
+
+      const refreshAttempts = (account?.refresh_attempts || 0) + 1;
+      const deactivate = revoked || refreshAttempts >= MAX_REFRESH_ATTEMPTS;
+
+      if (deactivate) {
+        console.warn(`Deactivating Reddit account ID ${accountId}: ${message}`);
+      }
+
+      await this.supabase
+        .from('reddit_accounts')
+        .update({
+          refresh_error: revoked
+            ? 'Refresh token invalid or expired. Account needs to be reconnected.'
+            : message,
+          refresh_attempts: refreshAttempts,
+          last_token_refresh: new Date().toISOString(),
+          ...(deactivate ? { is_active: false } : {})
+        })
+        .eq('id', accountId);
+    } catch (dbError) {
+      console.error('Error tracking token refresh failure:', dbError);
+    }
+  }
+
+  // The active account with the fewest requests in the last minute
+  async pickAccount(): Promise<string | null> {
+    const { data: accounts, error } = await this.supabase
+      .from('reddit_accounts')
+      .select('id')
+      .eq('is_active', true)
+      .order('last_used_at', { ascending: true });
+
+    if (error || !accounts?.length) return null;
+
+    const { data: usage } = await this.supabase
+      .from('reddit_api_usage')
+      .select('reddit_account_id, requests_count')
+      .gte('window_start', new Date(Date.now() - USAGE_WINDOW_MS).toISOString());
+
+    const usageMap = new Map<string, number>((usage || []).map((row: any) => [row.reddit_account_id, row.requests_count]));
+    const best = accounts.reduce((lowest: any, account: any) =>
+      (usageMap.get(account.id) || 0) < (usageMap.get(lowest.id) || 0) ? account : lowest
+    );
+
+    // Mark it used right away so concurrent picks spread out
+    await this.supabase
+      .from('reddit_accounts')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', best.id);
+
+    return best.id;
+  }
+
+  async recordUsage(accountId: string, endpoint: string): Promise<void> {
+    try {
+      const now = Date.now();
+      const windowStart = new Date(now - (now % USAGE_WINDOW_MS)).toISOString();
+
+      const { data } = await this.supabase
+        .from('reddit_api_usage')
+        .select('id, requests_count')
+        .eq('reddit_account_id', accountId)
+        .eq('window_start', windowStart)
+        .maybeSingle();
+
+      if (data) {
+        await this.supabase
+          .from('reddit_api_usage')
+          .update({
+            requests_count: data.requests_count + 1,
+            last_request: new Date(now).toISOString(),
+            endpoint
+          })
+          .eq('id', data.id);
+      } else {
+        await this.supabase
+          .from('reddit_api_usage')
+          .insert({
+            reddit_account_id: accountId,
+            window_start: windowStart,
+            requests_count: 1,
+            last_request: new Date(now).toISOString(),
+            endpoint
+          });
+      }
+    } catch (error) {
+      // Usage tracking is advisory
+      console.error('Error tracking API usage:', error);
+    }
+  }
+}
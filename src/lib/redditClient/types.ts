@@ -0,0 +1,159 @@
+import { PostRequirements } from '../redditMarkdown';
+
+export type { PostRequirements };
+
+export interface SubredditInfo {
+  name: string;
+  title: string;
+  subscribers: number;
+  active_users: number;
+  description: string;
+  created_utc: number;
+  over18: boolean;
+  icon_img: string | null;
+  community_icon: string | null;
+  rules: Array<{
+    title: string;
+    description: string;
+  }>;
+}
+
+// The fields of /r/{name}/about that posting restrictions are read from
+export interface SubredditAbout {
+  display_name: string;
+  title: string;
+  description: string;
+  public_description: string;
+  subscribers: number;
+  active_user_count: number;
+  over18: boolean;
+  submission_type: 'any' | 'link' | 'self';
+  restrict_posting: boolean;
+  allow_images: boolean;
+  allow_videos: boolean;
+  allow_galleries: boolean;
+  is_crosspostable_subreddit: boolean;
+}
+
+export interface SubredditRule {
+  short_name: string;
+  description: string;
+  kind: 'link' | 'comment' | 'all';
+  violation_reason?: string;
+}
+
+export interface SubredditPost {
+  id: string;
+  title: string;
+  author: string;
+  subreddit: string;
+  created_utc: number;
+  score: number;
+  num_comments: number;
+  url: string;
+  selftext: string;
+  thumbnail: string | null;
+  preview_url: string | null;
+  post_karma?: number;
+}
+
+export interface SubredditPostsPage {
+  posts: SubredditPost[];
+  pagination: { after: string | null; before: string | null; count: number };
+}
+
+export type PostSort = 'hot' | 'new' | 'top';
+export type PostTimeframe = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export interface SubredditFrequency {
+  name: string;
+  count: number;
+  subscribers: number;
+  active_users: number;
+  icon_img: string | null;
+  community_icon: string | null;
+  lastPosts: SubredditPost[];
+}
+
+export interface RedditUserInfo {
+  avatar_url: string | null;
+  name: string;
+  created_utc: number;
+  total_karma: number;
+}
+
+export interface RedditGalleryItemParams {
+  mediaUrl: string;
+  caption?: string;
+  outboundUrl?: string;
+}
+
+export interface RedditPostParams {
+  subreddit: string;
+  title: string;
+  kind: 'link' | 'self' | 'image' | 'video' | 'gallery' | 'crosspost';
+  text?: string;
+  url?: string;
+  mediaUrl?: string;
+  posterUrl?: string; // Thumbnail Reddit requires for video posts
+  galleryItems?: RedditGalleryItemParams[];
+  crosspostFullname?: string; // Post a crosspost shares, as t3_...
+  username?: string; // Submitting account, used to find native media posts once Reddit creates them
+  flairId?: string;
+  flairText?: string; // Only sent for flair templates with editable text
+  nsfw?: boolean;
+  spoiler?: boolean;
+  sendReplies?: boolean; // Defaults to true, like on reddit.com
+}
+
+export interface RedditPostResponse {
+  success: boolean;
+  // Reddit accepted a native media post, or may have taken a submit whose response was lost,
+  // but the post couldn't be located yet, so postId is unset
+  unresolved?: boolean;
+  postId?: string;
+  permalink?: string;
+  error?: string;
+}
+
+export interface RedditLinkFlair {
+  id: string;
+  text: string;
+  text_editable: boolean;
+  mod_only: boolean;
+  background_color: string | null;
+  text_color: 'light' | 'dark' | null;
+}
+
+export interface RedditMediaAsset {
+  assetId: string;
+  url: string;
+}
+
+export interface RedditSubmissionStats {
+  id: string;
+  author: string; // [deleted] when the author is hidden from the viewer
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  removed_by_category: string | null; // e.g. moderator, automod_filtered, deleted, reddit
+  selftext?: string;
+}
+
+export interface RedditCommentResponse {
+  commentId: string;
+  fullname: string; // t1_ prefixed id used by moderation endpoints
+  permalink?: string;
+}
+
+export type PublicProfileStatus = 'visible' | 'suspended' | 'not_found';
+
+// OAuth tokens of one Reddit account
+export interface RedditTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// An access token, optionally with its account so the requests count against that account's rate limit
+export type RedditAccessToken = string | { accessToken: string; accountId?: string };
@@ -0,0 +1,19 @@
+export interface RedditUrls {
+  // Logged-out requests and OAuth token exchange
+  www: string;
+  // Requests made with an access token
+  oauth: string;
+}
+
+export const REDDIT_URLS: RedditUrls = {
+  www: 'https://www.reddit.com',
+  oauth: 'https://oauth.reddit.com'
+};
+
+// Reddit's hosts, or one server standing in for both, such as scripts/fake-reddit-server.js
+export function redditUrls(baseUrl?: string | null): RedditUrls {
+  if (!baseUrl) return REDDIT_URLS;
+
+  const base = baseUrl.replace(/\/+$/, '');
+  return { www: base, oauth: base };
+}
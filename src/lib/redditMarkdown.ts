@@ -0,0 +1,325 @@
+// Reddit-flavored markdown: preview rendering, the escaping applied before submission and post text limits
+
+export const TITLE_MAX_LENGTH = 300;
+export const BODY_MAX_LENGTH = 40000;
+export const COMMENT_MAX_LENGTH = 10000;
+
+// Subset of /api/v1/{subreddit}/post_requirements used to validate posts before scheduling
+export interface PostRequirements {
+  is_flair_required: boolean;
+  title_text_min_length: number | null;
+  title_text_max_length: number | null;
+  title_required_strings: string[];
+  title_blacklisted_strings: string[];
+  body_restriction_policy: 'required' | 'notAllowed' | 'none';
+  body_text_min_length: number | null;
+  body_text_max_length: number | null;
+  body_blacklisted_strings: string[];
+}
+
+export interface MarkdownEscape {
+  line: number; // 1-based
+  column: number; // 1-based
+  sequence: string; // The text that starts with the escaped character, e.g. "<br>"
+}
+
+export interface PostTextIssue {
+  field: 'title' | 'body';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// "<" followed by something a browser would read as a tag; "!<" closes a spoiler and is left alone
+const TAG_START_PATTERN = /(^|[^!\\])<(?=[A-Za-z/!?])/g;
+const FENCE_PATTERN = /^\s{0,3}(```|~~~)/;
+
+// Run fn over the parts of each line outside code blocks and inline code, where markdown applies
+function mapOutsideCode(text: string, fn: (segment: string, lineIndex: number, offset: number) => string): string {
+  let fence: string | null = null;
+
+  return text.split('\n').map((line, lineIndex) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence) fence = null;
+      return line;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return line;
+    }
+    // Indented code blocks are shown as typed
+    if (/^( {4}|\t)/.test(line)) return line;
+
+    return line.split(/(`+[^`]*`+)/).map((part, index, parts) => {
+      const offset = parts.slice(0, index).join('').length;
+      return index % 2 === 1 ? part : fn(part, lineIndex, offset);
+    }).join('');
+  }).join('\n');
+}
+
+// Reddit shows HTML as typed, but tag-like text is escaped so nothing downstream can mistake it for markup
+export function escapeMarkdownBody(text: string): string {
+  return mapOutsideCode(text, segment => segment.replace(TAG_START_PATTERN, '$1\\<'));
+}
+
+// Where escapeMarkdownBody will add a backslash, for showing in the editor
+export function findMarkdownEscapes(text: string): MarkdownEscape[] {
+  const escapes: MarkdownEscape[] = [];
+
+  mapOutsideCode(text, (segment, lineIndex, offset) => {
+    for (const match of segment.matchAll(TAG_START_PATTERN)) {
+      const start = (match.index ?? 0) + match[1].length;
+      escapes.push({
+        line: lineIndex + 1,
+        column: offset + start + 1,
+        sequence: segment.slice(start).match(/^<[^\s>]*>?/)?.[0] || '<'
+      });
+    }
+    return segment;
+  });
+
+  return escapes;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function safeHref(url: string): string {
+  return /^(https?:|mailto:|\/)/i.test(url) ? url : '#';
+}
+
+// Inline formatting; code spans and backslash escapes are set aside first so nothing inside them is formatted
+function renderInline(text: string): string {
+  const held: string[] = [];
+  const hold = (html: string) => `\uE000${held.push(html) - 1}\uE000`;
+
+  let html = text
+    .replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, __, code) => hold(`<code>${escapeHtml(code.trim())}</code>`))
+    .replace(/\\([\\`*_{}[\]()#+\-.!~^>|<])/g, (_, char) => hold(escapeHtml(char)));
+
+  html = escapeHtml(html)
+    // Links before emphasis so underscores in URLs stay intact
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, label, url) =>
+      hold(`<a href="${safeHref(url)}">${renderInline(label)}</a>`))
+    .replace(/(^|[\s(])(https?:\/\/[^\s<)]+)/g, (_, lead, url) => `${lead}${hold(`<a href="${url}">${url}</a>`)}`)
+    .replace(/(^|[\s(])\/?(r|u)\/([A-Za-z0-9_-]+)/g, (_, lead, kind, name) =>
+      `${lead}${hold(`<a href="https://www.reddit.com/${kind}/${name}">${kind}/${name}</a>`)}`)
+    .replace(/&gt;!(.+?)!&lt;/g, '<span class="md-spoiler">$1</span>')
+    .replace(/(\*\*\*|___)(?=\S)(.+?)(?<=\S)\1/g, '<strong><em>$2</em></strong>')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^A-Za-z0-9_])_(?=\S)(.+?)(?<=\S)_(?![A-Za-z0-9_])/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<del>$1</del>')
+    .replace(/\^\(([^)]+)\)/g, '<sup>$1</sup>')
+    .replace(/\^([^\s^]+)/g, '<sup>$1</sup>');
+
+  // Held pieces can contain other held pieces
+  while (/\uE000\d+\uE000/.test(html)) {
+    html = html.replace(/\uE000(\d+)\uE000/g, (_, index) => held[Number(index)]);
+  }
+
+  return html;
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ITEM = /^\s*([*+-]|\d+\.)\s+(.*)$/;
+
+// Renders Reddit markdown to HTML for the preview; sanitize before inserting it into the page
+export function renderRedditMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let i = 0;
+
+  const isBlank = (line?: string) => line === undefined || line.trim() === '';
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (/^( {4}|\t)/.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || (isBlank(lines[i]) && /^( {4}|\t)/.test(lines[i + 1] || '')))) {
+        code.push(lines[i++].replace(/^( {4}|\t)/, ''));
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s*(.+?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push('<hr />');
+      i++;
+      continue;
+    }
+
+    // ">!" opens a spoiler, not a quote
+    if (/^\s{0,3}>(?!!)/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s{0,3}>(?!!)/.test(lines[i])) {
+        quoted.push(lines[i++].replace(/^\s{0,3}>\s?/, ''));
+      }
+      blocks.push(`<blockquote>${renderRedditMarkdown(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER.test(lines[i + 1] || '') && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const alignments = splitTableRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : '');
+      const cell = (tag: string, content: string, index: number) =>
+        `<${tag}${alignments[index] ? ` style="text-align:${alignments[index]}"` : ''}>${renderInline(content)}</${tag}>`;
+
+      i += 2;
+      const rows: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i++]);
+        rows.push(`<tr>${header.map((_, index) => cell('td', cells[index] || '', index)).join('')}</tr>`);
+      }
+
+      blocks.push(`<table><thead><tr>${header.map((content, index) => cell('th', content, index)).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (!isBlank(lines[i]) && items.length > 0 && /^\s+/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    // Paragraph: single newlines join lines unless the line ends in two spaces or a backslash
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      !isBlank(lines[i]) &&
+      !(paragraph.length > 0 && (FENCE_PATTERN.test(lines[i]) || /^\s{0,3}(#{1,6}\s|>(?!!))/.test(lines[i]) || LIST_ITEM.test(lines[i])))
+    ) {
+      paragraph.push(lines[i++]);
+    }
+
+    blocks.push(`<p>${paragraph.map((text, index) => {
+      const isLast = index === paragraph.length - 1;
+      const hardBreak = !isLast && /( {2,}|\\)$/.test(text);
+      return renderInline(text.replace(/( {2,}|\\)$/, '').trim()) + (isLast ? '' : hardBreak ? '<br />' : ' ');
+    }).join('')}</p>`);
+  }
+
+  return blocks.join('\n');
+}
+
+// Problems that would make Reddit reject or remove the post, and softer warnings
+export function validatePostText(
+  title: string,
+  body: string | null,
+  requirements?: PostRequirements | null
+): PostTextIssue[] {
+  const issues: PostTextIssue[] = [];
+  const trimmedTitle = title.trim();
+  const lowerTitle = trimmedTitle.toLowerCase();
+  const maxTitle = Math.min(requirements?.title_text_max_length || TITLE_MAX_LENGTH, TITLE_MAX_LENGTH);
+
+  if (trimmedTitle.length > maxTitle) {
+    issues.push({ field: 'title', severity: 'error', message: `Title is ${trimmedTitle.length} characters; the limit is ${maxTitle}` });
+  }
+
+  if (requirements?.title_text_min_length && trimmedTitle.length > 0 && trimmedTitle.length < requirements.title_text_min_length) {
+    issues.push({ field: 'title', severity: 'error', message: `Title must be at least ${requirements.title_text_min_length} characters in this subreddit` });
+  }
+
+  for (const banned of requirements?.title_blacklisted_strings || []) {
+    if (lowerTitle.includes(banned.toLowerCase())) {
+      issues.push({ field: 'title', severity: 'error', message: `Titles in this subreddit can't contain "${banned}"` });
+    }
+  }
+
+  const required = requirements?.title_required_strings || [];
+  if (required.length > 0 && !required.some(text => lowerTitle.includes(text.toLowerCase()))) {
+    issues.push({ field: 'title', severity: 'error', message: `Titles in this subreddit must contain one of: ${required.map(text => `"${text}"`).join(', ')}` });
+  }
+
+  if (body === null) {
+    return issues;
+  }
+
+  const escaped = escapeMarkdownBody(body);
+  const maxBody = Math.min(requirements?.body_text_max_length || BODY_MAX_LENGTH, BODY_MAX_LENGTH);
+
+  if (requirements?.body_restriction_policy === 'notAllowed' && body.trim()) {
+    issues.push({ field: 'body', severity: 'error', message: 'This subreddit only allows text posts without a body' });
+  }
+
+  if (requirements?.body_restriction_policy === 'required' && !body.trim()) {
+    issues.push({ field: 'body', severity: 'error', message: 'This subreddit requires a post body' });
+  }
+
+  if (escaped.length > maxBody) {
+    issues.push({ field: 'body', severity: 'error', message: `Body is ${escaped.length} characters after escaping; the limit is ${maxBody}` });
+  }
+
+  if (requirements?.body_text_min_length && body.trim() && body.trim().length < requirements.body_text_min_length) {
+    issues.push({ field: 'body', severity: 'error', message: `Body must be at least ${requirements.body_text_min_length} characters in this subreddit` });
+  }
+
+  const lowerBody = body.toLowerCase();
+  for (const banned of requirements?.body_blacklisted_strings || []) {
+    if (lowerBody.includes(banned.toLowerCase())) {
+      issues.push({ field: 'body', severity: 'error', message: `Posts in this subreddit can't contain "${banned}"` });
+    }
+  }
+
+  if (/\]\s+\(/.test(body)) {
+    issues.push({ field: 'body', severity: 'warning', message: 'A space between ] and ( stops a link from rendering' });
+  }
+
+  if (/(^|[^!])>![^\n]*$/m.test(body) && !/>![\s\S]*?!</.test(body)) {
+    issues.push({ field: 'body', severity: 'warning', message: 'A spoiler opened with >! is never closed with !<' });
+  }
+
+  return issues;
+}
@@ -5,6 +5,8 @@
  * It centralizes the OAuth functionality to prevent code duplication across components.
  */
 
+import { redditApiUrls } from './redditClient/browser';
+
 /**
  * Initiates the Reddit OAuth flow to connect a new account
  * @param options Optional configuration options
@@ -54,7 +56,7 @@ export function connectRedditAccount(options?: { customRedirectUrl?: string }) {
   });
 
   // Redirect to Reddit's OAuth page
-  window.location.href = `https://www.reddit.com/api/v1/authorize?${params}`;
+  window.location.href = `${redditApiUrls.www}/api/v1/authorize?${params}`;
 }
 
 /**
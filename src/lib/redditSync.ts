@@ -1,5 +1,5 @@
 import { supabase } from './supabase';
-import { redditService } from './redditService';
+import { redditClient } from './redditClient/browser';
 
 /**
  * Syncs posts from a Reddit account to the database.
@@ -29,11 +29,11 @@ export async function syncRedditAccountPosts(accountId: string): Promise<boolean
     console.log(`Syncing posts for Reddit account: ${account.username}`);
     
     // Set account auth for API requests
-    await redditService.setAccountAuth(accountId);
+    await redditClient.setAccountAuth(accountId);
     
     // Fetch the most recent posts
     console.log(`Fetching posts for u/${account.username} from Reddit API...`);
-    const posts = await redditService.getUserPosts(
+    const posts = await redditClient.getUserPosts(
       account.username,
       'new' // Get newest posts
     );
@@ -186,7 +186,7 @@ export async function syncSavedSubreddits(name: string): Promise<void> {
     console.log(`Syncing subreddit info for r/${name}`);
     
     // Get subreddit info from Reddit API
-    const subredditInfo = await redditService.getSubredditInfo(name);
+    const subredditInfo = await redditClient.getSubredditInfo(name);
     
     // Prepare data for insert/update
     const subredditData = {
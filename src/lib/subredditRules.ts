@@ -0,0 +1,82 @@
+// Rule-text heuristics shared by the analysis worker and the campaign posting guard
+
+interface RuleSource {
+  rules: Array<{
+    title: string;
+    description: string;
+  }>;
+}
+
+interface PostSample {
+  selftext: string;
+  url: string;
+}
+
+function getRulesText(info: RuleSource): string {
+  return (info.rules || [])
+    .map(rule => `${rule.title} ${rule.description}`)
+    .join(' ')
+    .toLowerCase();
+}
+
+export function detectKarmaRequirement(info: RuleSource): boolean {
+  const rulesText = getRulesText(info);
+
+  return rulesText.includes('karma') &&
+         (rulesText.includes('minimum') || rulesText.includes('required'));
+}
+
+export function detectAgeRequirement(info: RuleSource): boolean {
+  const rulesText = getRulesText(info);
+
+  return rulesText.includes('account age') ||
+         (rulesText.includes('account') && rulesText.includes('days old'));
+}
+
+// Extract the minimum karma from phrases like "minimum 100 karma" or "at least 50 comment karma"
+export function parseKarmaRequirement(info: RuleSource): number | null {
+  const rulesText = getRulesText(info);
+  const match = rulesText.match(/(\d[\d,]*)\s*(?:\+\s*)?(?:combined |comment |post |link )?karma/) ||
+                rulesText.match(/karma[^.\d]{0,30}?(\d[\d,]*)/);
+
+  return match ? parseInt(match[1].replace(/,/g, ''), 10) : null;
+}
+
+// Extract the minimum account age in days from phrases like "30 days old" or "at least 2 weeks"
+export function parseAgeRequirementDays(info: RuleSource): number | null {
+  const rulesText = getRulesText(info);
+  const match = rulesText.match(/(\d+)\s*(day|week|month|year)s?\s*old/) ||
+                rulesText.match(/account age[^.\d]{0,30}?(\d+)\s*(day|week|month|year)/);
+
+  if (!match) {
+    return null;
+  }
+
+  const multipliers: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+  return parseInt(match[1], 10) * multipliers[match[2]];
+}
+
+export function determineAllowedContentTypes(info: RuleSource, posts: PostSample[]): string[] {
+  const types = new Set<string>();
+
+  // Check rules for content type restrictions
+  const rulesText = getRulesText(info);
+
+  // Default content types
+  if (!rulesText.includes('no text posts')) types.add('text');
+  if (!rulesText.includes('no image')) types.add('image');
+  if (!rulesText.includes('no video')) types.add('video');
+  if (!rulesText.includes('no link')) types.add('link');
+
+  // Analyze recent posts to confirm allowed types
+  posts.forEach(post => {
+    if (post.selftext) types.add('text');
+    if (post.url.match(/\.(jpg|jpeg|png|gif)$/i)) types.add('image');
+    if (post.url.match(/\.(mp4|webm)$/i)) types.add('video');
+    if (post.url.match(/^https?:\/\//) && !post.url.match(/\.(jpg|jpeg|png|gif|mp4|webm)$/i)) {
+      types.add('link');
+    }
+  });
+
+  return Array.from(types);
+}
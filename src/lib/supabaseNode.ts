@@ -0,0 +1,26 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+// Takes the place of lib/supabase.ts in the scheduler build (vite.scheduler.config.ts). There is no
+// signed-in user on the server, so the scheduler works as the service role; the key is read when
+// the scheduler starts and never reaches the browser bundle.
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.VITE_SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error('Missing Supabase environment variables (VITE_SUPABASE_URL, VITE_SUPABASE_SERVICE_KEY)');
+}
+
+export const supabase = createClient<Database>(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  },
+  global: {
+    headers: {
+      'x-application-name': 'subpirate-scheduler',
+    },
+  }
+});
+
+export default supabase;
@@ -0,0 +1,69 @@
+// Text comparison for spotting reposts: titles and bodies are normalized so case, accents,
+// punctuation and spacing don't matter, then compared by character trigram overlap.
+
+export function normalizeText(text: string | null | undefined): string {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function trigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const padded = `  ${text} `;
+
+  for (let i = 0; i < padded.length - 2; i++) {
+    const gram = padded.slice(i, i + 3);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+
+  return grams;
+}
+
+// Dice coefficient over trigrams of the normalized texts, from 0 (unrelated) to 1 (same)
+export function textSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = trigrams(left);
+  const rightGrams = trigrams(right);
+  let shared = 0;
+  let total = 0;
+
+  leftGrams.forEach((count, gram) => {
+    shared += Math.min(count, rightGrams.get(gram) || 0);
+    total += count;
+  });
+  rightGrams.forEach(count => {
+    total += count;
+  });
+
+  return (2 * shared) / total;
+}
+
+// Links compare equal regardless of scheme, www., trailing slashes and tracking parameters
+export function normalizeUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+
+  try {
+    const parsed = new URL(url.trim());
+    const params = new URLSearchParams(parsed.search);
+    Array.from(params.keys())
+      .filter(key => key.startsWith('utm_') || key === 'ref' || key === 'fbclid' || key === 'gclid')
+      .forEach(key => params.delete(key));
+
+    const query = params.toString();
+    const host = parsed.hostname.replace(/^www\./, '').toLowerCase();
+    const path = parsed.pathname.replace(/\/+$/, '');
+
+    return `${host}${path}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
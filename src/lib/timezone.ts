@@ -0,0 +1,144 @@
+// Timezone helpers built on Intl, so wall-clock times follow DST without a date library.
+// Hours are bucketed in UTC everywhere; these convert to the user's timezone for display.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const FALLBACK_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+const BEST_TIME_PATTERN = /^(\d{1,2}):00 (AM|PM) - \d{1,2}:59 (AM|PM) UTC$/;
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getBrowserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// Every IANA timezone the runtime knows, for pickers
+export function listTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : FALLBACK_TIMEZONES;
+  return zones.includes(DEFAULT_TIMEZONE) ? zones : [DEFAULT_TIMEZONE, ...zones];
+}
+
+// Wall-clock time of an instant in an IANA timezone
+export function toZoned(date: Date, timeZone: string): ZonedDateTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+
+  return {
+    year,
+    month,
+    day,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  };
+}
+
+// The instant a wall-clock time happens in a timezone; times skipped by DST move forward by the gap
+export function fromZoned(local: Omit<ZonedDateTime, 'weekday'>, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const offsetAt = (instant: number) => {
+    const seen = toZoned(new Date(instant), timeZone);
+    return Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute) - instant;
+  };
+
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+}
+
+// The calendar day an instant falls on in a timezone, as a browser-local midnight for date grids
+export function zonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = toZoned(date, timeZone);
+  return new Date(year, month - 1, day);
+}
+
+// The instant a calendar day (as returned by zonedDay) starts in a timezone
+export function startOfZonedDay(day: Date, timeZone: string): Date {
+  return fromZoned({ year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), hour: 0, minute: 0 }, timeZone);
+}
+
+// The instant a date and time picked in a form (yyyy-mm-dd, hh:mm) means in a timezone
+export function parseZonedInput(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  if ([year, month, day, hour, minute].some(value => !Number.isFinite(value))) {
+    return new Date(NaN);
+  }
+  return fromZoned({ year, month, day, hour, minute }, timeZone);
+}
+
+export function formatInTimezone(date: Date | string, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(new Date(date));
+}
+
+// The next instant after `after` at the start of a UTC hour
+export function nextUtcHour(hour: number, after: Date = new Date()): Date {
+  const next = new Date(after);
+  next.setUTCHours(hour, 0, 0, 0);
+  if (next <= after) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+// Best posting times stored as UTC hour ranges, shown in a timezone; anything else is left as written
+export function localizeBestTime(text: string, timeZone: string): string {
+  const match = text.match(BEST_TIME_PATTERN);
+  if (!match) return text;
+
+  const hour = (Number(match[1]) % 12) + (match[2] === 'PM' ? 12 : 0);
+  const start = nextUtcHour(hour);
+  const end = new Date(start.getTime() + 59 * 60 * 1000);
+  const format = (date: Date) => formatInTimezone(date, timeZone, { hour: 'numeric', minute: '2-digit' });
+  const zoneName = formatInTimezone(start, timeZone, { timeZoneName: 'short' }).split(' ').pop();
+
+  return `${format(start)} - ${format(end)} ${zoneName}`;
+}
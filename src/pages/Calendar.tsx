@@ -22,11 +22,14 @@ import {
   RefreshCcw
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { redditClient } from '../lib/redditClient/browser';
 import { useAuth } from '../contexts/AuthContext';
 import { useClickOutside } from '../hooks/useClickOutside';
 import Modal from '../components/Modal';
 import RedditImage from '../components/RedditImage';
 import { syncRedditAccountPosts, ensureRedditPostsSchema } from '../lib/redditSync';
+import { useTimezone } from '../hooks/useTimezone';
+import { formatInTimezone, startOfZonedDay, toZoned, zonedDay } from '../lib/timezone';
 
 // Define interfaces
 interface RedditAccount {
@@ -58,7 +61,7 @@ interface RedditPostDetails {
 }
 
 interface DayPost {
-  date: Date;
+  date: Date; // Calendar day in the user's timezone
   posts: RedditPost[];
 }
 
@@ -79,6 +82,7 @@ interface FilterOption {
 
 // PostItem component for compact post preview
 const PostItem = React.memo(({ post }: { post: RedditPost }) => {
+  const timeZone = useTimezone();
   const avatarSrc = post.reddit_accounts.avatar_url || 
     `https://api.dicebear.com/7.x/initials/svg?seed=${post.reddit_accounts.username}&backgroundColor=333333`;
   return (
@@ -90,7 +94,7 @@ const PostItem = React.memo(({ post }: { post: RedditPost }) => {
           <span className="text-sm text-[#C69B7B] truncate block">r/{post.subreddits.name}</span>
         </div>
       </div>
-      <div className="text-xs italic text-gray-500">{new Date(post.created_at).toLocaleTimeString()}</div>
+      <div className="text-xs italic text-gray-500">{formatInTimezone(post.created_at, timeZone, { timeStyle: 'medium' })}</div>
     </div>
   );
 });
@@ -102,6 +106,7 @@ const ExpandablePostItem = ({ post, isExpanded, onToggle, details }: {
   onToggle: () => void; 
   details: RedditPostDetails | null 
 }) => {
+  const timeZone = useTimezone();
   const avatarSrc = post.reddit_accounts.avatar_url || 
     `https://api.dicebear.com/7.x/initials/svg?seed=${post.reddit_accounts.username}&backgroundColor=333333`;
   return (
@@ -116,7 +121,7 @@ const ExpandablePostItem = ({ post, isExpanded, onToggle, details }: {
           <span className="text-sm font-semibold text-gray-200 truncate block">u/{post.reddit_accounts.username}</span>
           <span className="text-sm text-[#C69B7B] truncate block">r/{post.subreddits.name}</span>
         </div>
-        <div className="text-xs italic text-gray-500">{new Date(post.created_at).toLocaleTimeString()}</div>
+        <div className="text-xs italic text-gray-500">{formatInTimezone(post.created_at, timeZone, { timeStyle: 'medium' })}</div>
       </div>
       {isExpanded && details && (
         <div className="mt-2 p-2 bg-[#111111] rounded-md">
@@ -151,7 +156,8 @@ const ExpandablePostItem = ({ post, isExpanded, onToggle, details }: {
 
 function Calendar() {
   const { user } = useAuth();
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const timeZone = useTimezone();
+  const [currentDate, setCurrentDate] = useState(() => zonedDay(new Date(), timeZone));
   const [view, setView] = useState<ViewType>('month');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -198,7 +204,7 @@ function Calendar() {
       fetchProjects();
       fetchPosts();
     }
-  }, [user, currentDate, view, filters]);
+  }, [user, currentDate, view, filters, timeZone]);
 
   // Check for any posts immediately when the component loads
   useEffect(() => {
@@ -351,12 +357,14 @@ function Calendar() {
           break;
       }
 
-      // Ensure the dates are at the START and END of the day
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+      // The days are calendar days in the user's timezone; query from the start of the first
+      // to the start of the day after the last
+      endDate.setDate(endDate.getDate() + 1);
+      const rangeStart = startOfZonedDay(startDate, timeZone);
+      const rangeEnd = startOfZonedDay(endDate, timeZone);
 
       // Log date range for debugging
-      console.log(`Fetching posts from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+      console.log(`Fetching posts from ${rangeStart.toISOString()} to ${rangeEnd.toISOString()} (${timeZone})`);
       console.log(`Current view is: ${view}, Current date is: ${currentDate.toDateString()}`);
 
       // Build the query based on account filters
@@ -371,8 +379,8 @@ function Calendar() {
           reddit_accounts!reddit_account_id(username, avatar_url),
           subreddits!subreddit_id(name)
         `)
-        .gte('created_at', startDate.toISOString())
-        .lt('created_at', endDate.toISOString())
+        .gte('created_at', rangeStart.toISOString())
+        .lt('created_at', rangeEnd.toISOString())
         .order('created_at', { ascending: true });
 
       // Only apply account filter if there are valid UUIDs
@@ -420,7 +428,7 @@ function Calendar() {
         
         // Count posts by date
         const dateCount = data.reduce((acc, post) => {
-          const date = new Date(post.created_at).toDateString();
+          const date = zonedDay(new Date(post.created_at), timeZone).toDateString();
           acc[date] = (acc[date] || 0) + 1;
           return acc;
         }, {} as Record<string, number>);
@@ -428,7 +436,7 @@ function Calendar() {
         console.log('Posts by date:', dateCount);
         
         // Check if today's posts are included
-        const today = new Date().toDateString();
+        const today = zonedDay(new Date(), timeZone).toDateString();
         console.log(`Posts for today (${today}):`, dateCount[today] || 0);
         
         // Check post date range
@@ -442,8 +450,7 @@ function Calendar() {
       
       // Group posts by date
       const postsByDate = (data || []).reduce<DayPost[]>((acc, post: any) => {
-        const date = new Date(post.created_at);
-        date.setHours(0, 0, 0, 0);
+        const date = zonedDay(new Date(post.created_at), timeZone);
         
         // Properly map the API response to match our RedditPost interface
         const formattedPost: RedditPost = {
@@ -510,107 +517,36 @@ function Calendar() {
         return;
       }
     
-      // Fetch post data with error handling
-      const response = await fetch(`https://www.reddit.com/r/${post.subreddits.name}/comments/${post.post_id}.json`);
-      
-      // Log the URL being fetched for debugging
-      console.log(`Fetching post details from: https://www.reddit.com/r/${post.subreddits.name}/comments/${post.post_id}.json`);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          console.error(`Post not found: Subreddit "${post.subreddits.name}" or post ID "${post.post_id}" may be incorrect or deleted`);
-          
-          // Create error details object with informative message
-          const errorDetails: RedditPostDetails = {
-            title: `Post not found (404)`,
-            url: '',
-            selftext: `The post could not be found on Reddit. It may have been deleted or the subreddit "${post.subreddits.name}" is incorrect.`,
-            score: 0,
-            num_comments: 0,
-            thumbnail: null,
-            preview: null
-          };
-          
-          setPostDetails(prev => ({ ...prev, [post.id]: errorDetails }));
-          return;
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (!data?.[0]?.data?.children?.[0]?.data) {
-        throw new Error('Invalid response format from Reddit API');
-      }
-
-      const postData = data[0].data.children[0].data;
-      
-      // Helper function to validate image URLs - only filters out non-URL placeholder values
-      const isValidImageUrl = (url?: string): boolean => {
-        if (!url) return false;
-        // Only filter out Reddit's special non-URL placeholder values
-        if (['self', 'default'].includes(url)) return false;
-        return true;
-      };
-      
-      // Process thumbnail URL - explicitly handle NSFW thumbnails
-      let thumbnailUrl = null;
-      if (postData.thumbnail === 'nsfw') {
-        // For NSFW posts, if we have a preview image available, use that
-        if (postData.preview?.images?.[0]?.source?.url) {
-          thumbnailUrl = decodeHtmlEntities(postData.preview.images[0].source.url);
-        } else {
-          // Otherwise, we'll let the fallback system take over
-          thumbnailUrl = null;
-        }
-      } else if (isValidImageUrl(postData.thumbnail)) {
-        thumbnailUrl = decodeHtmlEntities(postData.thumbnail);
-      }
-      
-      // Process preview URL
-      let previewUrl = null;
-      if (postData.preview?.images?.[0]?.source?.url) {
-        previewUrl = decodeHtmlEntities(postData.preview.images[0].source.url);
-      } else if (postData.preview?.images?.[0]?.resolutions?.length > 0) {
-        // Get a medium-sized resolution if available
-        const resolutions = postData.preview.images[0].resolutions;
-        const mediumRes = resolutions.find((r: any) => r.width >= 320 && r.width <= 640);
-        if (mediumRes?.url) {
-          previewUrl = decodeHtmlEntities(mediumRes.url);
-        } else {
-          // Otherwise use the largest resolution
-          previewUrl = decodeHtmlEntities(resolutions[resolutions.length - 1].url);
-        }
-      }
-
-      // Handle over_18 content specifically - ensure we're not filtering NSFW posts
-      if (postData.over_18) {
-        console.log('Processing NSFW post:', postData.id);
-        // Make sure we're getting images even for NSFW content
-        if (!thumbnailUrl && !previewUrl) {
-          console.log('NSFW post has no images, checking additional sources');
-          // Try to get image from media, if available
-          if (postData.media?.oembed?.thumbnail_url) {
-            thumbnailUrl = decodeHtmlEntities(postData.media.oembed.thumbnail_url);
-          }
-        }
+      const redditPost = await redditClient.getPost(post.subreddits.name, post.post_id);
+      if (!redditPost) {
+        console.error(`Post not found: Subreddit "${post.subreddits.name}" or post ID "${post.post_id}" may be incorrect or deleted`);
+        
+        // Create error details object with informative message
+        const errorDetails: RedditPostDetails = {
+          title: `Post not found (404)`,
+          url: '',
+          selftext: `The post could not be found on Reddit. It may have been deleted or the subreddit "${post.subreddits.name}" is incorrect.`,
+          score: 0,
+          num_comments: 0,
+          thumbnail: null,
+          preview: null
+        };
+        
+        setPostDetails(prev => ({ ...prev, [post.id]: errorDetails }));
+        return;
       }
       
       // Create a safe details object with only primitive values and simple objects
       const safeDetails: RedditPostDetails = {
-        title: String(postData.title || 'Untitled'),
-        url: String(postData.url || ''),
-        selftext: String(postData.selftext || ''),
-        score: Number(postData.score || 0),
-        num_comments: Number(postData.num_comments || 0),
-        thumbnail: thumbnailUrl,
-        preview: previewUrl ? { images: [{ source: { url: previewUrl } }] } : null
+        title: redditPost.title || 'Untitled',
+        url: redditPost.url || '',
+        selftext: redditPost.selftext,
+        score: redditPost.score || 0,
+        num_comments: redditPost.num_comments || 0,
+        thumbnail: redditPost.thumbnail,
+        preview: redditPost.preview_url ? { images: [{ source: { url: redditPost.preview_url } }] } : null
       };
 
-      // Log the extracted image URLs for debugging
-      console.log('Post thumbnail URL:', safeDetails.thumbnail);
-      console.log('Post preview URL:', safeDetails.preview?.images[0]?.source?.url);
-      console.log('Is NSFW:', postData.over_18);
-
       // Update state with the safe object
       setPostDetails(prev => ({ ...prev, [post.id]: safeDetails }));
     } catch (err) {
@@ -631,30 +567,6 @@ function Calendar() {
     }
   };
 
-  // Helper function to decode HTML entities in URLs
-  const decodeHtmlEntities = (encodedString: string): string => {
-    if (!encodedString) return '';
-    
-    // First use the textarea trick to handle most HTML entities
-    const textarea = document.createElement('textarea');
-    textarea.innerHTML = encodedString;
-    let decoded = textarea.value;
-    
-    // Then additionally handle Reddit's specific encoding patterns
-    // Replace escaped backslashes and ampersands that might not be caught by the textarea
-    decoded = decoded
-      .replace(/\\"/g, '"')
-      .replace(/\\'/g, "'")
-      .replace(/\\\\/g, '\\')
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'");
-    
-    return decoded;
-  };
-
   // Navigation functions
   const navigateDate = (direction: 'prev' | 'next') => {
     const newDate = new Date(currentDate);
@@ -666,7 +578,7 @@ function Calendar() {
     setCurrentDate(newDate);
   };
 
-  const goToToday = () => setCurrentDate(new Date());
+  const goToToday = () => setCurrentDate(zonedDay(new Date(), timeZone));
 
   // Filter toggle function
   const toggleFilter = (type: keyof Filter, value: string) => {
@@ -732,8 +644,7 @@ function Calendar() {
   // Render month view
   const renderMonthView = () => {
     const days = getDaysInMonth(currentDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = zonedDay(new Date(), timeZone);
 
     return (
       <div className="grid grid-cols-7 gap-px bg-[#222222] relative">
@@ -793,14 +704,16 @@ function Calendar() {
   // Render week view
   const renderWeekView = () => {
     const days = getDaysInWeek(currentDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = zonedDay(new Date(), timeZone);
 
     return (
       <div className="flex flex-col">
         {/* Week Header */}
         <div className="grid grid-cols-[120px_repeat(7,1fr)] bg-[#111111] border-b border-[#222222] sticky top-0 z-20">
-          <div className="p-4 text-sm text-gray-400 font-medium">Time</div>
+          <div className="p-4 text-sm text-gray-400 font-medium">
+            Time
+            <div className="text-xs font-normal text-gray-500 truncate">{timeZone}</div>
+          </div>
           {days.map(date => {
             const isToday = date.toDateString() === today.toDateString();
             const dayPosts = getPostsForDate(date);
@@ -829,7 +742,7 @@ function Calendar() {
           {Array.from({ length: 24 }).map((_, hour) => {
             const hourPosts = days.map(date => {
               const dayPosts = getPostsForDate(date);
-              return dayPosts.filter(post => new Date(post.created_at).getHours() === hour);
+              return dayPosts.filter(post => toZoned(new Date(post.created_at), timeZone).hour === hour);
             });
 
             const hasPostsInHour = hourPosts.some(posts => posts.length > 0);
@@ -870,9 +783,7 @@ function Calendar() {
 
           {/* Current Time Indicator */}
           {(() => {
-            const now = new Date();
-            const currentHour = now.getHours();
-            const currentMinute = now.getMinutes();
+            const { hour: currentHour, minute: currentMinute } = toZoned(new Date(), timeZone);
             const topOffset = (currentHour + currentMinute / 60) * 100;
             
             return (
@@ -1,11 +1,28 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useCampaigns } from '../../contexts/CampaignContext';
 import PostList from '../../components/campaigns/PostList';
 import CreatePostModal from '../../components/campaigns/CreatePostModal';
+import PostPerformance from '../../components/campaigns/PostPerformance';
+import PostingLimitsEditor from '../../components/campaigns/PostingLimitsEditor';
+import PostBatchList from '../../components/campaigns/PostBatchList';
+import TitleVariantReport from '../../components/campaigns/TitleVariantReport';
+import BlackoutWindowsEditor from '../../components/campaigns/BlackoutWindowsEditor';
+import ReviewQueue from '../../components/campaigns/ReviewQueue';
+import SaveTemplateModal from '../../components/campaigns/SaveTemplateModal';
+import CloneCampaignModal from '../../components/campaigns/CloneCampaignModal';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import { FeatureGate } from '../../components/FeatureGate';
-import { AlertCircle, Plus, Calendar, Trash2, ToggleLeft, Image } from 'lucide-react';
+import { ScheduleOptimizer } from '../../features/campaigns/services/optimizer';
+import { BlackoutService } from '../../features/campaigns/services/blackouts';
+import { ApprovalService } from '../../features/campaigns/services/approvals';
+import { CampaignTemplateService } from '../../features/campaigns/services/templates';
+import { handleCampaignError } from '../../features/campaigns/services/errors';
+import { campaignApi } from '../../features/campaigns/lib/api';
+import { BlackoutWindow, CampaignMetrics, CampaignPostWithDetails, CampaignTemplateDefinition, CampaignWithPosts, CloneCampaignResult, UpdateCampaignDto } from '../../features/campaigns/types';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatInTimezone } from '../../lib/timezone';
+import { AlertCircle, Plus, Calendar, Trash2, ToggleLeft, Image, Sparkles, EyeOff, Pause, Play, Moon, Copy, Save } from 'lucide-react';
 
 const CampaignDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -20,7 +37,17 @@ const CampaignDetailPage: React.FC = () => {
     updateCampaign,
     deleteCampaign
   } = useCampaigns();
+  const timeZone = useTimezone();
   const [isCreatePostModalOpen, setIsCreatePostModalOpen] = useState(false);
+  const [isReplanning, setIsReplanning] = useState(false);
+  const [replanMessage, setReplanMessage] = useState<string | null>(null);
+  const [campaignMetrics, setCampaignMetrics] = useState<CampaignMetrics | null>(null);
+  const [blackoutWindows, setBlackoutWindows] = useState<BlackoutWindow[]>([]);
+  const [isPausing, setIsPausing] = useState(false);
+  const [canReview, setCanReview] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [cloneDefinition, setCloneDefinition] = useState<CampaignTemplateDefinition | null>(null);
+  const [isCloning, setIsCloning] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -29,6 +56,71 @@ const CampaignDetailPage: React.FC = () => {
     }
   }, [id, fetchCampaignById, fetchCampaignPosts]);
 
+  // Refresh the totals whenever the posts are reloaded
+  useEffect(() => {
+    if (!id) return;
+    
+    campaignApi.getCampaignMetrics(id)
+      .then(setCampaignMetrics)
+      .catch(err => console.error('Error fetching campaign metrics:', err));
+  }, [id, campaignPosts]);
+
+  // Owners review posts that project editors submit
+  useEffect(() => {
+    if (!id) return;
+
+    ApprovalService.canReview(id)
+      .then(setCanReview)
+      .catch(err => console.error('Error checking campaign ownership:', err));
+  }, [id, currentCampaign?.project_id]);
+
+  const awaitingReview = campaignPosts.filter(post => post.status === 'pending_approval' || post.status === 'rejected');
+
+  const handleUpdateApproval = async (updates: UpdateCampaignDto) => {
+    if (id) await updateCampaign(id, updates);
+  };
+
+  const accounts = Array.from(
+    new Map((campaignPosts as CampaignPostWithDetails[]).map(post => [
+      post.reddit_account_id,
+      post.reddit_account?.username || 'unknown'
+    ])).entries()
+  ).map(([accountId, username]) => ({ id: accountId, username }));
+  const accountKey = accounts.map(account => account.id).sort().join(',');
+
+  const loadBlackoutWindows = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setBlackoutWindows(await BlackoutService.getWindows(id, accountKey ? accountKey.split(',') : []));
+    } catch (err) {
+      console.error('Error fetching blackout windows:', err);
+    }
+  }, [id, accountKey]);
+
+  useEffect(() => {
+    loadBlackoutWindows();
+  }, [loadBlackoutWindows]);
+
+  // Windows holding posts back right now; the campaign's own open-ended one is its pause
+  const activeBlackouts = blackoutWindows.filter(blackout => BlackoutService.isActive(blackout));
+  const campaignPause = activeBlackouts.find(blackout => blackout.campaign_id === id && !blackout.ends_at);
+
+  // Reload the posts as well, since resuming shifts the ones that were missed
+  const handleBlackoutsChanged = async () => {
+    await loadBlackoutWindows();
+    if (id) await fetchCampaignPosts(id);
+  };
+
+  // Posts Reddit took down or hid, and the accounts that can no longer be seen by others
+  const removedPosts = campaignPosts.filter(post => post.status === 'removed');
+  const filteredPosts = campaignPosts.filter(post => post.status === 'filtered');
+  const shadowbannedAccounts = Array.from(new Set(
+    (campaignPosts as CampaignPostWithDetails[])
+      .filter(post => post.reddit_account?.is_shadowbanned)
+      .map(post => post.reddit_account.username)
+  ));
+
   const handleCreatePost = () => {
     setIsCreatePostModalOpen(true);
   };
@@ -52,6 +144,82 @@ const CampaignDetailPage: React.FC = () => {
     }
   };
 
+  const handleTogglePause = async () => {
+    if (!id) return;
+
+    setIsPausing(true);
+    setReplanMessage(null);
+
+    try {
+      if (campaignPause) {
+        const shifted = await BlackoutService.resume(campaignPause.id);
+        setReplanMessage(
+          shifted > 0
+            ? `Resumed; shifted ${shifted} missed post${shifted === 1 ? '' : 's'} forward`
+            : 'Resumed; no posts were missed'
+        );
+      } else {
+        await BlackoutService.pause({ campaign_id: id });
+      }
+      await handleBlackoutsChanged();
+    } catch (err) {
+      setReplanMessage(handleCampaignError(err));
+    } finally {
+      setIsPausing(false);
+    }
+  };
+
+  const handleReplan = async () => {
+    if (!id) return;
+    
+    setIsReplanning(true);
+    setReplanMessage(null);
+    
+    try {
+      const slots = await ScheduleOptimizer.planCampaign(id);
+      setReplanMessage(
+        slots.length > 0
+          ? `Moved ${slots.length} post${slots.length === 1 ? '' : 's'} into peak activity windows`
+          : 'Schedule is already optimized'
+      );
+      await fetchCampaignPosts(id);
+    } catch (err) {
+      setReplanMessage(handleCampaignError(err));
+    } finally {
+      setIsReplanning(false);
+    }
+  };
+
+  const campaignWithPosts = useMemo<CampaignWithPosts | null>(
+    () => (currentCampaign ? { ...currentCampaign, posts: campaignPosts } : null),
+    [currentCampaign, campaignPosts]
+  );
+
+  const handleClone = async () => {
+    if (!campaignWithPosts) return;
+
+    setIsCloning(true);
+    setReplanMessage(null);
+
+    try {
+      setCloneDefinition(await CampaignTemplateService.buildDefinition(campaignWithPosts));
+    } catch (err) {
+      setReplanMessage(handleCampaignError(err));
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  const handleCloned = (result: CloneCampaignResult) => {
+    setCloneDefinition(null);
+    navigate(`/campaigns/${result.campaign.id}`);
+  };
+
+  const handleTemplateSaved = () => {
+    setIsSaveTemplateOpen(false);
+    setReplanMessage('Saved as a template; use it from Templates on the campaigns page');
+  };
+
   const handleDeleteCampaign = async () => {
     if (!window.confirm('Are you sure you want to delete this campaign? This action cannot be undone.')) {
       return;
@@ -123,6 +291,29 @@ const CampaignDetailPage: React.FC = () => {
                   {currentCampaign.is_active ? 'Active' : 'Inactive'}
                 </button>
               </FeatureGate>
+              <FeatureGate feature="campaigns">
+                <button
+                  onClick={handleTogglePause}
+                  disabled={isPausing}
+                  className="bg-[#1A1A1A] hover:bg-[#252525] text-white font-medium px-4 py-2 rounded-md transition-all duration-200 flex items-center gap-2 border border-[#333333] disabled:opacity-50"
+                  title={campaignPause ? 'Resume posting and shift missed posts forward' : 'Hold every post until resumed'}
+                >
+                  {campaignPause ? <Play size={16} /> : <Pause size={16} />}
+                  {campaignPause ? 'Resume' : 'Pause'}
+                </button>
+              </FeatureGate>
+              {currentCampaign.schedule_type === 'ai-optimized' && (
+                <FeatureGate feature="campaigns">
+                  <button
+                    onClick={handleReplan}
+                    disabled={isReplanning}
+                    className="bg-[#1A1A1A] hover:bg-[#252525] text-white font-medium px-4 py-2 rounded-md transition-all duration-200 flex items-center gap-2 border border-[#333333] disabled:opacity-50"
+                  >
+                    <Sparkles size={16} />
+                    {isReplanning ? 'Optimizing...' : 'Re-plan Schedule'}
+                  </button>
+                </FeatureGate>
+              )}
               <FeatureGate feature="campaigns">
                 <Link
                   to="/campaigns/media"
@@ -141,6 +332,26 @@ const CampaignDetailPage: React.FC = () => {
                   Create Post
                 </button>
               </FeatureGate>
+              <FeatureGate feature="campaigns">
+                <button
+                  onClick={handleClone}
+                  disabled={isCloning}
+                  className="bg-[#1A1A1A] hover:bg-[#252525] text-white font-medium px-4 py-2 rounded-md transition-all duration-200 flex items-center gap-2 border border-[#333333] disabled:opacity-50"
+                  title="Copy this campaign's posts to a new campaign with a new start date"
+                >
+                  <Copy size={16} />
+                  Clone
+                </button>
+              </FeatureGate>
+              <FeatureGate feature="campaigns">
+                <button
+                  onClick={() => setIsSaveTemplateOpen(true)}
+                  className="bg-[#1A1A1A] hover:bg-[#252525] text-white font-medium px-4 py-2 rounded-md transition-all duration-200 flex items-center gap-2 border border-[#333333]"
+                >
+                  <Save size={16} />
+                  Save as Template
+                </button>
+              </FeatureGate>
               <FeatureGate feature="campaigns">
                 <button
                   onClick={handleDeleteCampaign}
@@ -153,6 +364,23 @@ const CampaignDetailPage: React.FC = () => {
             </div>
           </div>
 
+          {replanMessage && (
+            <div className="mb-4 p-3 bg-[#1A1A1A] border border-[#333333] text-gray-300 rounded-lg text-sm flex items-center gap-2">
+              <Sparkles size={16} className="shrink-0 text-[#C69B7B]" />
+              {replanMessage}
+            </div>
+          )}
+
+          {activeBlackouts.length > 0 && (
+            <div className="mb-4 p-3 bg-[#8B6D3F]/20 border border-[#8B6D3F]/30 text-[#FFB74D] rounded-lg text-sm flex items-center gap-2">
+              <Moon size={16} className="shrink-0" />
+              {campaignPause
+                ? 'This campaign is paused.'
+                : 'A blackout window is holding posts back.'}{' '}
+              Posts that come due are shifted forward, keeping their spacing, when it ends.
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
             <div className="bg-[#111111] rounded-lg p-6 border border-[#222222] hover:border-[#333333] transition-colors">
               <h3 className="font-medium text-xl mb-2 text-gray-300">Schedule Type</h3>
@@ -167,13 +395,39 @@ const CampaignDetailPage: React.FC = () => {
             <div className="bg-[#111111] rounded-lg p-6 border border-[#222222] hover:border-[#333333] transition-colors">
               <h3 className="font-medium text-xl mb-2 text-gray-300">Created</h3>
               <p className="text-lg font-semibold text-white">
-                {new Date(currentCampaign.created_at).toLocaleDateString()}
+                {formatInTimezone(currentCampaign.created_at, timeZone, { month: 'numeric', day: 'numeric', year: 'numeric' })}
               </p>
             </div>
           </div>
 
+          {(removedPosts.length > 0 || filteredPosts.length > 0 || shadowbannedAccounts.length > 0) && (
+            <div className="mb-8 p-4 bg-red-900/20 border border-red-900/30 rounded-lg text-sm">
+              <div className="flex items-center gap-2 text-red-400 font-medium mb-2">
+                <EyeOff size={16} className="shrink-0" />
+                Some of this campaign is not visible on Reddit
+              </div>
+              <ul className="space-y-1 text-gray-300">
+                {removedPosts.length > 0 && (
+                  <li>{removedPosts.length} post{removedPosts.length === 1 ? ' was' : 's were'} removed by moderators or Reddit.</li>
+                )}
+                {filteredPosts.length > 0 && (
+                  <li>{filteredPosts.length} post{filteredPosts.length === 1 ? ' is' : 's are'} hidden from other users, e.g. held by AutoModerator or a spam filter.</li>
+                )}
+                {shadowbannedAccounts.map(username => (
+                  <li key={username}>
+                    u/{username} appears to be shadowbanned; its profile is not visible to logged-out users.{' '}
+                    <Link to="/accounts" className="text-[#C69B7B] hover:underline">Check accounts</Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="mb-8">
-            <h2 className="text-xl font-semibold mb-4 text-white">Posts</h2>
+            <div className="flex items-baseline justify-between gap-3 mb-4">
+              <h2 className="text-xl font-semibold text-white">Posts</h2>
+              <Link to="/settings" className="text-xs text-gray-500 hover:text-[#C69B7B]">Times in {timeZone}</Link>
+            </div>
             {campaignPosts.length === 0 ? (
               <div className="bg-[#111111] rounded-lg p-8 text-center border border-[#222222]">
                 <p className="text-gray-400 mb-4">No posts scheduled for this campaign yet.</p>
@@ -189,6 +443,64 @@ const CampaignDetailPage: React.FC = () => {
               <PostList posts={campaignPosts} />
             )}
           </div>
+
+          {(canReview || awaitingReview.length > 0) && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4 text-white">
+                Review Queue
+                {awaitingReview.some(post => post.status === 'pending_approval') && (
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs align-middle bg-[#8B6D3F]/20 text-[#FFB74D] border border-[#8B6D3F]/30">
+                    {awaitingReview.filter(post => post.status === 'pending_approval').length} pending
+                  </span>
+                )}
+              </h2>
+              <ReviewQueue
+                campaign={currentCampaign}
+                posts={awaitingReview as CampaignPostWithDetails[]}
+                canReview={canReview}
+                onUpdateCampaign={handleUpdateApproval}
+                onChanged={() => fetchCampaignPosts(currentCampaign.id)}
+              />
+            </div>
+          )}
+
+          {campaignPosts.some(post => post.batch_id) && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4 text-white">Batches</h2>
+              <PostBatchList campaignId={currentCampaign.id} posts={campaignPosts} />
+            </div>
+          )}
+
+          {campaignPosts.length > 0 && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4 text-white">Posting Limits</h2>
+              <PostingLimitsEditor posts={campaignPosts as CampaignPostWithDetails[]} />
+            </div>
+          )}
+
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold mb-4 text-white">Blackouts</h2>
+            <BlackoutWindowsEditor
+              campaignId={currentCampaign.id}
+              accounts={accounts}
+              windows={blackoutWindows}
+              onChanged={handleBlackoutsChanged}
+            />
+          </div>
+
+          {campaignPosts.some(post => post.status === 'posted' || post.status === 'removed' || post.status === 'filtered') && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4 text-white">Performance</h2>
+              <PostPerformance posts={campaignPosts} metrics={campaignMetrics} />
+            </div>
+          )}
+
+          {campaignPosts.some(post => post.title_variant_id) && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4 text-white">Title Tests</h2>
+              <TitleVariantReport campaignId={currentCampaign.id} posts={campaignPosts} />
+            </div>
+          )}
         </>
       )}
 
@@ -198,6 +510,21 @@ const CampaignDetailPage: React.FC = () => {
         onClose={handleCloseModal}
         onCreated={handlePostCreated}
       />
+
+      <SaveTemplateModal
+        isOpen={isSaveTemplateOpen}
+        onClose={() => setIsSaveTemplateOpen(false)}
+        campaign={campaignWithPosts}
+        onSaved={handleTemplateSaved}
+      />
+
+      <CloneCampaignModal
+        isOpen={cloneDefinition !== null}
+        onClose={() => setCloneDefinition(null)}
+        definition={cloneDefinition}
+        title={`Clone "${currentCampaign?.name || ''}"`}
+        onCloned={handleCloned}
+      />
     </div>
   );
 };
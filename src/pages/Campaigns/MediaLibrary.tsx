@@ -20,12 +20,14 @@ import {
   AlertCircle,
   Info,
   Tag as TagIcon,
-  Tags as TagsIcon
+  Tags as TagsIcon,
+  GalleryHorizontal
 } from 'lucide-react';
 import TagDisplay from '../../components/TagDisplay';
 import TagSelector from '../../components/TagSelector';
 import TagManager from '../../components/TagManager';
 import TaggingModal from '../../components/TaggingModal';
+import CreatePostModal from '../../components/campaigns/CreatePostModal';
 
 type ViewMode = 'grid' | 'list' | 'table';
 
@@ -71,6 +73,7 @@ const MediaLibraryPage: React.FC = () => {
   const [selectMode, setSelectMode] = useState(false);
   const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
   const [isTaggingModalOpen, setIsTaggingModalOpen] = useState(false);
+  const [isGalleryPostModalOpen, setIsGalleryPostModalOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -93,14 +96,15 @@ const MediaLibraryPage: React.FC = () => {
       setUploadError(null);
       
       // Validate file type
-      if (!file.type.startsWith('image/')) {
-        setUploadError('Please select an image file (JPG, PNG, GIF, or WebP)');
+      const isVideo = file.type.startsWith('video/');
+      if (!file.type.startsWith('image/') && !isVideo) {
+        setUploadError('Please select an image (JPG, PNG, GIF, or WebP) or video (MP4, MOV, or WebM) file');
         return;
       }
       
-      // Validate file size (max 5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        setUploadError('File size must be less than 5MB');
+      // Validate file size (max 5MB for images, 100MB for videos)
+      if (file.size > (isVideo ? 100 : 5) * 1024 * 1024) {
+        setUploadError(`File size must be less than ${isVideo ? 100 : 5}MB`);
         return;
       }
       
@@ -324,6 +328,8 @@ const MediaLibraryPage: React.FC = () => {
       if (filters.fileType !== 'all') {
         if (filters.fileType === 'image' && !item.media_type.startsWith('image/')) {
           return false;
+        } else if (filters.fileType === 'video' && !item.media_type.startsWith('video/')) {
+          return false;
         } else if (filters.fileType === 'jpeg' && item.media_type !== 'image/jpeg') {
           return false;
         } else if (filters.fileType === 'png' && item.media_type !== 'image/png') {
@@ -416,7 +422,7 @@ const MediaLibraryPage: React.FC = () => {
         >
           <div className="aspect-square overflow-hidden bg-[#1A1A1A]">
             <img
-              src={media.url}
+              src={media.thumbnail_url || media.url}
               alt={media.filename}
               className="w-full h-full object-cover transition-all duration-200 group-hover:scale-105"
             />
@@ -432,7 +438,12 @@ const MediaLibraryPage: React.FC = () => {
                     : 'bg-[#000000]/80 border-white/60 hover:border-white'
                 }`}
               >
-                {selectedItems.has(media.id) && <Check size={16} className="text-white" />}
+                {/* Selection order doubles as gallery order */}
+                {selectedItems.has(media.id) && (
+                  <span className="text-white text-xs font-semibold">
+                    {Array.from(selectedItems).indexOf(media.id) + 1}
+                  </span>
+                )}
               </div>
             )}
           </div>
@@ -569,7 +580,7 @@ const MediaLibraryPage: React.FC = () => {
           </div>
           
           <div className="w-12 h-12 bg-[#1A1A1A] rounded-lg overflow-hidden flex-shrink-0 border border-[#333333]">
-            <img src={media.url} alt={media.filename} className="w-full h-full object-cover" />
+            <img src={media.thumbnail_url || media.url} alt={media.filename} className="w-full h-full object-cover" />
           </div>
           
           <div className="flex-1 min-w-0">
@@ -698,7 +709,7 @@ const MediaLibraryPage: React.FC = () => {
               </td>
               <td className="px-3 py-2">
                 <div className="w-10 h-10 bg-[#1A1A1A] rounded overflow-hidden">
-                  <img src={media.url} alt={media.filename} className="w-full h-full object-cover" />
+                  <img src={media.thumbnail_url || media.url} alt={media.filename} className="w-full h-full object-cover" />
                 </div>
               </td>
               <td className="px-3 py-2">
@@ -795,7 +806,7 @@ const MediaLibraryPage: React.FC = () => {
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileChange}
-                accept="image/*"
+                accept="image/*,video/mp4,video/quicktime,video/webm"
                 className="hidden"
               />
             </div>
@@ -875,6 +886,16 @@ const MediaLibraryPage: React.FC = () => {
                       <TagIcon size={14} />
                       Tags
                     </button>
+                    {selectedItems.size >= 2 && (
+                      <button
+                        onClick={() => setIsGalleryPostModalOpen(true)}
+                        className="px-3 py-1 bg-[#222222] hover:bg-[#303030] text-gray-200 hover:text-white text-sm rounded-md transition-colors flex items-center gap-1 shadow-sm"
+                        title="Schedule the selected images as a gallery post, in selection order"
+                      >
+                        <GalleryHorizontal size={14} />
+                        Gallery Post
+                      </button>
+                    )}
                     <button
                       onClick={handleDeleteSelected}
                       className="px-3 py-1 bg-red-600/80 hover:bg-red-600 text-white text-sm rounded-md transition-colors flex items-center gap-1"
@@ -948,6 +969,7 @@ const MediaLibraryPage: React.FC = () => {
                   <option value="jpeg">JPEG</option>
                   <option value="png">PNG</option>
                   <option value="gif">GIF</option>
+                  <option value="video">Videos</option>
                 </select>
               </div>
               
@@ -1041,7 +1063,7 @@ const MediaLibraryPage: React.FC = () => {
               </div>
               <h2 className="text-xl font-semibold mb-3 text-white">No Media Yet</h2>
               <p className="text-gray-400 mb-6">
-                Upload images to use in your Reddit campaigns.
+                Upload images and videos to use in your Reddit campaigns.
               </p>
               <button
                 onClick={handleFileSelect}
@@ -1091,11 +1113,20 @@ const MediaLibraryPage: React.FC = () => {
               </button>
             </div>
             <div className="flex-1 overflow-auto flex items-center justify-center bg-[#0A0A0A] p-4">
-              <img
-                src={selectedMedia.url}
-                alt={selectedMedia.filename}
-                className="max-w-full max-h-[60vh] object-contain"
-              />
+              {selectedMedia.media_type.startsWith('video/') ? (
+                <video
+                  src={selectedMedia.url}
+                  poster={selectedMedia.thumbnail_url || undefined}
+                  controls
+                  className="max-w-full max-h-[60vh]"
+                />
+              ) : (
+                <img
+                  src={selectedMedia.url}
+                  alt={selectedMedia.filename}
+                  className="max-w-full max-h-[60vh] object-contain"
+                />
+              )}
             </div>
             <div className="p-4 border-t border-[#222222] bg-[#0F0F0F]">
               {/* Tags */}
@@ -1190,6 +1221,21 @@ const MediaLibraryPage: React.FC = () => {
         onAddTag={handleAddTagToSelected}
         onRemoveTag={handleRemoveTagFromSelected}
       />
+      
+      {/* Gallery post from the selected items, in selection order */}
+      <CreatePostModal
+        isOpen={isGalleryPostModalOpen}
+        campaignId=""
+        initialContentType="gallery"
+        initialGalleryMediaIds={Array.from(selectedItems).filter(id =>
+          mediaItems.find(item => item.id === id)?.media_type.startsWith('image/')
+        )}
+        onClose={() => setIsGalleryPostModalOpen(false)}
+        onCreated={() => {
+          setIsGalleryPostModalOpen(false);
+          exitSelectMode();
+        }}
+      />
     </div>
   );
 };
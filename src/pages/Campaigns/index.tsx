@@ -1,18 +1,23 @@
 import React, { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useCampaigns } from '../../contexts/CampaignContext';
 import CampaignList from '../../components/campaigns/CampaignList';
 import CreateCampaignModal from '../../components/campaigns/CreateCampaignModal';
-import { Campaign, CampaignWithPosts } from '../../features/campaigns/types';
+import CampaignTemplatesModal from '../../components/campaigns/CampaignTemplatesModal';
+import CloneCampaignModal from '../../components/campaigns/CloneCampaignModal';
+import { Campaign, CampaignTemplate, CampaignWithPosts, CloneCampaignResult } from '../../features/campaigns/types';
 import { useFeatureAccess } from '../../contexts/FeatureAccessContext';
 import { FeatureGate } from '../../components/FeatureGate';
 import LoadingSpinner from '../../components/LoadingSpinner';
-import { Plus, Image } from 'lucide-react';
+import { Plus, Image, Copy } from 'lucide-react';
 
 const CampaignsPage: React.FC = () => {
   const { campaigns, loading, error, fetchCampaigns } = useCampaigns();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isTemplatesModalOpen, setIsTemplatesModalOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<CampaignTemplate | null>(null);
   const { hasAccess } = useFeatureAccess();
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchCampaigns();
@@ -31,6 +36,17 @@ const CampaignsPage: React.FC = () => {
     setIsCreateModalOpen(false);
   };
 
+  const handleUseTemplate = (template: CampaignTemplate) => {
+    setIsTemplatesModalOpen(false);
+    setSelectedTemplate(template);
+  };
+
+  const handleCloned = (result: CloneCampaignResult) => {
+    setSelectedTemplate(null);
+    fetchCampaigns();
+    navigate(`/campaigns/${result.campaign.id}`);
+  };
+
   // Calculate total posts across all campaigns
   const getTotalPosts = (): number => {
     return campaigns.reduce((sum, campaign) => {
@@ -90,6 +106,15 @@ const CampaignsPage: React.FC = () => {
               Media Library
             </Link>
           </FeatureGate>
+          <FeatureGate feature="campaigns">
+            <button
+              onClick={() => setIsTemplatesModalOpen(true)}
+              className="bg-[#1A1A1A] hover:bg-[#252525] text-white font-medium px-4 py-2 rounded-md transition-all duration-200 flex items-center gap-2 border border-[#333333]"
+            >
+              <Copy size={16} />
+              Templates
+            </button>
+          </FeatureGate>
           <FeatureGate feature="campaigns">
             <button
               onClick={handleCreateCampaign}
@@ -177,6 +202,20 @@ const CampaignsPage: React.FC = () => {
         onClose={handleCloseModal} 
         onCreated={handleCampaignCreated} 
       />
+
+      <CampaignTemplatesModal
+        isOpen={isTemplatesModalOpen}
+        onClose={() => setIsTemplatesModalOpen(false)}
+        onUse={handleUseTemplate}
+      />
+
+      <CloneCampaignModal
+        isOpen={selectedTemplate !== null}
+        onClose={() => setSelectedTemplate(null)}
+        definition={selectedTemplate?.definition || null}
+        title={selectedTemplate ? `New from "${selectedTemplate.name}"` : ''}
+        onCloned={handleCloned}
+      />
     </div>
   );
 };
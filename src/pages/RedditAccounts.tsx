@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Users, AlertTriangle, Trash2, MessageCircle, Star, Activity, ExternalLink, Upload, X, ChevronDown, ChevronUp, Calendar, Shield, BadgeCheck, ArrowLeftRight, EyeOff, ImageOff, RefreshCcw, Clock } from 'lucide-react';
+import { Users, AlertTriangle, Trash2, MessageCircle, Star, Activity, ExternalLink, Upload, X, ChevronDown, ChevronUp, Calendar, Shield, BadgeCheck, ArrowLeftRight, EyeOff, ImageOff, RefreshCcw, Clock, Gauge } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { redditService, SubredditPost } from '../lib/redditService';
+import { redditApiUrls, redditClient, redditRateLimits, redditRateLimitStore, RateLimitState, SubredditPost } from '../lib/redditClient/browser';
 import { syncRedditAccountPosts } from '../lib/redditSync';
 import Modal from '../components/Modal';
 import { useAuth } from '../contexts/AuthContext';
@@ -30,6 +30,9 @@ interface RedditAccount {
   created_utc?: string;
   last_post_check: string;
   last_karma_check: string;
+  is_shadowbanned?: boolean;
+  shadowbanned_at?: string | null;
+  shadowban_checked_at?: string | null;
   refreshing?: boolean;
   posts?: {
     recent: SubredditPost[];
@@ -37,6 +40,9 @@ interface RedditAccount {
   };
 }
 
+// How often the stored API budgets are reloaded, for requests made by the scheduler
+const RATE_LIMIT_REFRESH_MS = 15 * 1000;
+
 function RedditAccounts() {
   const { user } = useAuth();
   const [accounts, setAccounts] = useState<RedditAccount[]>([]);
@@ -50,6 +56,7 @@ function RedditAccounts() {
   const [expandedAccount, setExpandedAccount] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'recent' | 'top'>('recent');
   const [loadingPosts, setLoadingPosts] = useState(false);
+  const [rateLimits, setRateLimits] = useState<Map<string, RateLimitState>>(new Map());
   const initialLoadRef = useRef(false);
 
   // Refresh single account data
@@ -72,12 +79,12 @@ function RedditAccounts() {
 
     try {
       // Get user info from Reddit API
-      const userInfo = await redditService.getUserInfo(account.username);
+      const userInfo = await redditClient.getUserInfo(account.username);
       
-      // Get posts using the redditService with different sort orders
+      // Get posts using the redditClient with different sort orders
       const [recentPosts, topPosts] = await Promise.all([
-        redditService.getUserPosts(account.username, 'new'),
-        redditService.getUserPosts(account.username, 'top')
+        redditClient.getUserPosts(account.username, 'new'),
+        redditClient.getUserPosts(account.username, 'top')
       ]);
       
       // Calculate posts made in the last 24 hours (for display only)
@@ -133,6 +140,32 @@ function RedditAccounts() {
   useEffect(() => {
     fetchAccounts();
   }, []);
+
+  // Reddit API budget left per account: stored budgets cover the scheduler, and this session's
+  // own requests update it as they happen
+  useEffect(() => {
+    const accountIds = accounts.map(account => account.id);
+    if (accountIds.length === 0) return;
+
+    const loadRateLimits = () => {
+      redditRateLimitStore.list(accountIds)
+        .then(stored => setRateLimits(prev => new Map([...prev, ...stored])))
+        .catch(err => console.error('Error loading Reddit API budgets:', err));
+    };
+
+    loadRateLimits();
+    const interval = setInterval(loadRateLimits, RATE_LIMIT_REFRESH_MS);
+    const unsubscribe = redditRateLimits.subscribe((key, state) => {
+      if (accountIds.includes(key)) {
+        setRateLimits(prev => new Map(prev).set(key, state));
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [accounts.map(account => account.id).join(',')]);
   
   // Refresh all accounts when component mounts
   useEffect(() => {
@@ -241,7 +274,7 @@ function RedditAccounts() {
       });
 
       // Redirect to Reddit's OAuth page
-      window.location.href = `https://www.reddit.com/api/v1/authorize?${params}`;
+      window.location.href = `${redditApiUrls.www}/api/v1/authorize?${params}`;
     } catch (err) {
       console.error('Error initiating Reddit OAuth:', err);
       setAddError(err instanceof Error ? err.message : 'Failed to connect Reddit account');
@@ -394,10 +427,10 @@ function RedditAccounts() {
       
       console.log(`No fresh cache found for ${account.username}, fetching from API...`);
       
-      // If no fresh cache, fetch posts using the redditService
+      // If no fresh cache, fetch posts using the redditClient
       const [recentPosts, topPosts] = await Promise.all([
-        redditService.getUserPosts(account.username, 'new'),
-        redditService.getUserPosts(account.username, 'top')
+        redditClient.getUserPosts(account.username, 'new'),
+        redditClient.getUserPosts(account.username, 'top')
       ]);
       
       const posts = {
@@ -593,6 +626,30 @@ function RedditAccounts() {
                     )}
                     <ExternalLink size={14} className="text-gray-400" />
                   </a>
+                  {account.is_shadowbanned && (
+                    <div
+                      className="inline-flex items-center gap-1 ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-900/20 text-red-400 border border-red-900/30 align-top"
+                      title={`Profile not visible to logged-out users${account.shadowbanned_at ? ` since ${new Date(account.shadowbanned_at).toLocaleDateString()}` : ''}. Posts from this account are likely hidden.`}
+                    >
+                      <EyeOff size={12} />
+                      Shadowbanned
+                    </div>
+                  )}
+                  {(() => {
+                    const budget = rateLimits.get(account.id);
+                    if (!budget || budget.resetAt <= Date.now()) return null;
+
+                    const limit = budget.remaining + budget.used;
+                    return (
+                      <div
+                        className={`flex items-center gap-1 text-xs ${budget.remaining < limit * 0.2 ? 'text-amber-400' : 'text-gray-500'}`}
+                        title="Requests this account has left before Reddit's rate limit resets"
+                      >
+                        <Gauge size={12} />
+                        API budget: {budget.remaining}/{limit} left, resets at {new Date(budget.resetAt).toLocaleTimeString()}
+                      </div>
+                    );
+                  })()}
                   <div className="flex items-center gap-4 md:hidden mt-2">
                     <div className="flex items-center gap-1 text-amber-400" title="Total Karma">
                       <Star size={14} />
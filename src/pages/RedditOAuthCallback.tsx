@@ -4,6 +4,7 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { AlertTriangle, ArrowLeft } from 'lucide-react';
 import { validateOAuthState, cleanupOAuthState, getReconnectAccountId } from '../lib/redditOAuth';
+import { redditApiUrls } from '../lib/redditClient/browser';
 
 export default function RedditOAuthCallback() {
   const [searchParams] = useSearchParams();
@@ -107,13 +108,13 @@ export default function RedditOAuthCallback() {
 
             // Log exact request details (excluding sensitive info)
             console.log('Token exchange request:', {
-              url: 'https://www.reddit.com/api/v1/access_token',
+              url: `${redditApiUrls.www}/api/v1/access_token`,
               method: 'POST',
               redirect_uri: redirectUri,
               grant_type: 'authorization_code'
             });
 
-            const response = await fetch('https://www.reddit.com/api/v1/access_token', {
+            const response = await fetch(`${redditApiUrls.www}/api/v1/access_token`, {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/x-www-form-urlencoded',
@@ -209,7 +210,7 @@ export default function RedditOAuthCallback() {
 
         while (retryCount < maxRetries) {
           try {
-            const userResponse = await fetch('https://oauth.reddit.com/api/v1/me', {
+            const userResponse = await fetch(`${redditApiUrls.oauth}/api/v1/me`, {
               headers: {
                 'Authorization': `Bearer ${tokens.access_token}`,
                 'User-Agent': 'web:SubPirate:1.0.0'
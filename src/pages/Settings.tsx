@@ -4,12 +4,14 @@ import { useFeatureAccess } from '../contexts/FeatureAccessContext';
 import { supabase } from '../lib/supabase';
 import { createCustomerPortalSession } from '../lib/stripe/client';
 import { getTierDisplayName } from '../lib/subscription/features';
+import { getBrowserTimezone, listTimezones } from '../lib/timezone';
 
 function Settings() {
   const { user, profile, updateProfile } = useAuth();
   const { tier, refreshAccess } = useFeatureAccess();
   const [email, setEmail] = useState('');
   const [displayName, setDisplayName] = useState('');
+  const [timezone, setTimezone] = useState('');
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -23,6 +25,7 @@ function Settings() {
     if (profile) {
       setEmail(profile.email || '');
       setDisplayName(profile.display_name || '');
+      setTimezone(profile.timezone || '');
     }
   }, [profile]);
 
@@ -86,7 +89,7 @@ function Settings() {
     e.preventDefault();
     setLoading(true);
     try {
-      await updateProfile({ display_name: displayName });
+      await updateProfile({ display_name: displayName, timezone: timezone || null });
       // Show success message
     } catch (error) {
       // Handle error
@@ -254,6 +257,20 @@ function Settings() {
               <p className="text-gray-500 text-sm mt-2">This name will be displayed to other users</p>
             </div>
 
+            <div>
+              <label className="block text-sm mb-2">Timezone</label>
+              <select
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+              >
+                <option value="">Browser default ({getBrowserTimezone()})</option>
+                {listTimezones().map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+              <p className="text-gray-500 text-sm mt-2">Schedules, the calendar and posting-time heatmaps are shown in this timezone</p>
+            </div>
+
             <button type="submit" className="primary w-full" disabled={loading}>
               {loading ? 'Saving...' : 'Save Changes'}
             </button>
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Search, Telescope, Bookmark, BookmarkPlus, FolderPlus, ChevronDown, ChevronUp, ExternalLink, AlertTriangle, Check, Users, MessageCircle, Calendar, Activity, History } from 'lucide-react';
-import { redditService, SubredditFrequency } from '../lib/redditService';
+import { redditClient, SubredditFrequency } from '../lib/redditClient/browser';
 import { supabase } from '../lib/supabase';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
@@ -83,7 +83,7 @@ function SpyGlass() {
   const trackSearch = async (username: string) => {
     try {
       // Get the user's avatar URL from Reddit
-      const userInfo = await redditService.getUserInfo(username);
+      const userInfo = await redditClient.getUserInfo(username);
       const avatarUrl = userInfo?.avatar_url || null;
 
       // Track the search
@@ -115,7 +115,7 @@ function SpyGlass() {
     });
 
     try {
-      const cleanUsername = redditService.parseUsername(username.trim());
+      const cleanUsername = redditClient.parseUsername(username.trim());
       if (!cleanUsername) {
         throw new Error('Please enter a valid Reddit username');
       }
@@ -129,20 +129,8 @@ function SpyGlass() {
         indeterminate: false
       });
 
-      // First verify the user exists
-      const userResponse = await fetch(`https://www.reddit.com/user/${cleanUsername}/about.json`);
-      if (!userResponse.ok) {
-        if (userResponse.status === 404) {
-          throw new Error(`User ${cleanUsername} not found`);
-        } else if (userResponse.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again in a few minutes.');
-        } else if (userResponse.status >= 500) {
-          throw new Error('Reddit servers are having issues. Please try again later.');
-        }
-        throw new Error(`Failed to fetch user data (${userResponse.status})`);
-      }
-
-      const posts = await redditService.getUserPosts(cleanUsername);
+      // Fails with "not found" or "private or suspended" when the user can't be looked at
+      const posts = await redditClient.getUserPosts(cleanUsername);
       if (!Array.isArray(posts)) {
         throw new Error('Invalid response from Reddit API');
       }
@@ -168,7 +156,7 @@ function SpyGlass() {
         throw new Error('No valid subreddit posts found for analysis');
       }
 
-      const frequencies = await redditService.analyzePostFrequency(validPosts);
+      const frequencies = await redditClient.analyzePostFrequency(validPosts);
       if (!Array.isArray(frequencies) || frequencies.length === 0) {
         throw new Error('Failed to analyze posting patterns');
       }
@@ -552,7 +540,7 @@ function SpyGlass() {
     });
 
     try {
-      const cleanUsername = redditService.parseUsername(clickedUsername.trim());
+      const cleanUsername = redditClient.parseUsername(clickedUsername.trim());
       if (!cleanUsername) {
         throw new Error('Please enter a valid Reddit username');
       }
@@ -569,13 +557,8 @@ function SpyGlass() {
         indeterminate: false
       });
 
-      // First verify the user exists
-      const userResponse = await fetch(`https://www.reddit.com/user/${cleanUsername}/about.json`);
-      if (!userResponse.ok) {
-        throw new Error(`User ${cleanUsername} not found`);
-      }
-
-      const posts = await redditService.getUserPosts(cleanUsername);
+      // Fails with "not found" or "private or suspended" when the user can't be looked at
+      const posts = await redditClient.getUserPosts(cleanUsername);
       if (posts.length === 0) {
         throw new Error('No posts found for this user');
       }
@@ -592,7 +575,7 @@ function SpyGlass() {
         post.subreddit.toLowerCase() !== cleanUsername.toLowerCase()
       );
 
-      const frequencies = await redditService.analyzePostFrequency(validPosts);
+      const frequencies = await redditClient.analyzePostFrequency(validPosts);
       setFrequencies(frequencies);
 
       setProgress({
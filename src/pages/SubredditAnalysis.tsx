@@ -23,7 +23,8 @@ import { AnalysisResult, AnalysisProgress } from '../lib/analysis';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useAnalysis } from '../contexts/AnalysisContext';
-import { RedditAPI } from '../lib/redditApi';
+import { useTimezone } from '../hooks/useTimezone';
+import { localizeBestTime } from '../lib/timezone';
 
 interface SubredditAnalysisProps {
   analysis?: AnalysisResult | null;
@@ -36,6 +37,7 @@ type PostingTime = string;
 function SubredditAnalysis({ analysis: initialAnalysis }: SubredditAnalysisProps) {
   const auth = useAuth();
   if (!auth) throw new Error('AuthContext not available');
+  const timeZone = useTimezone();
   
   // Get URL parameter
   const { subreddit: subredditParam } = useParams<{ subreddit: string }>();
@@ -437,7 +439,7 @@ function SubredditAnalysis({ analysis: initialAnalysis }: SubredditAnalysisProps
               {postingLimits.bestTimeToPost.map((time: string, index: number) => (
                 <li key={index} className="flex items-start gap-2">
                   <span className="text-[#C69B7B]">•</span>
-                  <span>{time}</span>
+                  <span>{localizeBestTime(time, timeZone)}</span>
                 </li>
               ))}
             </ul>
@@ -2,6 +2,7 @@
 import { analyzeSubreddit } from '../lib/openRouter';
 import { SubredditInfo, SubredditPost } from '../lib/reddit';
 import { AnalysisResult, AnalysisProgress } from '../lib/analysis';
+import { detectKarmaRequirement, detectAgeRequirement, determineAllowedContentTypes } from '../lib/subredditRules';
 
 interface WorkerMessage {
   info: SubredditInfo;
@@ -65,7 +66,7 @@ function calculateEngagementMetrics(posts: SubredditPost[]): EngagementMetrics |
   const avgComments = posts.reduce((sum, post) => sum + post.num_comments, 0) / totalPosts;
   const avgScore = posts.reduce((sum, post) => sum + post.score, 0) / totalPosts;
   
-  const postTimes = posts.map(post => new Date(post.created_utc * 1000).getHours());
+  const postTimes = posts.map(post => new Date(post.created_utc * 1000).getUTCHours());
   const hourCounts = new Array(24).fill(0);
   postTimes.forEach(hour => hourCounts[hour]++);
   
@@ -86,11 +87,12 @@ function calculateEngagementMetrics(posts: SubredditPost[]): EngagementMetrics |
   };
 }
 
+// Peak hours are UTC; the ranges are labelled so they can be shown in the reader's timezone
 function formatBestPostingTimes(peakHours: number[]): string[] {
   return peakHours.map(hour => {
     const period = hour < 12 ? 'AM' : 'PM';
     const formattedHour = hour % 12 || 12;
-    return `${formattedHour}:00 ${period} - ${formattedHour}:59 ${period}`;
+    return `${formattedHour}:00 ${period} - ${formattedHour}:59 ${period} UTC`;
   });
 }
 
@@ -278,54 +280,6 @@ function determineContentCategories(info: SubredditInfo): string[] {
   return Array.from(categories);
 }
 
-function detectKarmaRequirement(info: SubredditInfo): boolean {
-  const rulesText = info.rules
-    .map(rule => `${rule.title} ${rule.description}`)
-    .join(' ')
-    .toLowerCase();
-  
-  return rulesText.includes('karma') && 
-         (rulesText.includes('minimum') || rulesText.includes('required'));
-}
-
-function detectAgeRequirement(info: SubredditInfo): boolean {
-  const rulesText = info.rules
-    .map(rule => `${rule.title} ${rule.description}`)
-    .join(' ')
-    .toLowerCase();
-  
-  return rulesText.includes('account age') || 
-         (rulesText.includes('account') && rulesText.includes('days old'));
-}
-
-function determineAllowedContentTypes(info: SubredditInfo, posts: SubredditPost[]): string[] {
-  const types = new Set<string>();
-  
-  // Check rules for content type restrictions
-  const rulesText = info.rules
-    .map(rule => `${rule.title} ${rule.description}`)
-    .join(' ')
-    .toLowerCase();
-
-  // Default content types
-  if (!rulesText.includes('no text posts')) types.add('text');
-  if (!rulesText.includes('no image')) types.add('image');
-  if (!rulesText.includes('no video')) types.add('video');
-  if (!rulesText.includes('no link')) types.add('link');
-
-  // Analyze recent posts to confirm allowed types
-  posts.forEach(post => {
-    if (post.selftext) types.add('text');
-    if (post.url.match(/\.(jpg|jpeg|png|gif)$/i)) types.add('image');
-    if (post.url.match(/\.(mp4|webm)$/i)) types.add('video');
-    if (post.url.match(/^https?:\/\//) && !post.url.match(/\.(jpg|jpeg|png|gif|mp4|webm)$/i)) {
-      types.add('link');
-    }
-  });
-
-  return Array.from(types);
-}
-
 // Helper function to format numbers
 function formatNumber(num: number): string {
   if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
@@ -0,0 +1,33 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+const browserSupabase = resolve(__dirname, 'src/lib/supabase.ts');
+const nodeSupabase = resolve(__dirname, 'src/lib/supabaseNode.ts');
+
+// The Reddit settings the scheduler reads, taken from its environment when it starts rather than
+// baked in at build time
+const runtimeEnv = ['VITE_REDDIT_APP_ID', 'VITE_REDDIT_APP_SECRET', 'VITE_REDDIT_API_URL'];
+
+// Builds CampaignScheduler for Node into dist/scheduler, which production-scheduler.js runs.
+// npm packages stay external and are loaded from node_modules.
+export default defineConfig({
+  plugins: [
+    {
+      // Every import of lib/supabase gets the service-role client instead of the browser's
+      name: 'scheduler-supabase',
+      enforce: 'pre',
+      async resolveId(source, importer, options) {
+        const resolved = await this.resolve(source, importer, { ...options, skipSelf: true });
+        return resolved?.id === browserSupabase ? nodeSupabase : resolved;
+      }
+    }
+  ],
+  publicDir: false,
+  define: Object.fromEntries(runtimeEnv.map(key => [`import.meta.env.${key}`, `process.env.${key}`])),
+  build: {
+    ssr: 'src/features/campaigns/services/scheduler.ts',
+    outDir: 'dist/scheduler',
+    emptyOutDir: true,
+    sourcemap: true
+  }
+});